@@ -4,6 +4,7 @@ import passport from 'passport';
 import routes from './module/index';
 import './shared/config/passport';
 import { swaggerUi, swaggerDocument } from './shared/config/swagger';
+import { auditContext } from './shared/middlewares/auditContext.middleware';
 import { successResponseMiddleware } from './shared/middlewares/customSuccess.middleware';
 import { errorHandler } from './shared/middlewares/error.middleware';
 import { requestLogger } from './shared/middlewares/requestLogger.middleware';
@@ -12,6 +13,9 @@ import { securityMiddleware } from './shared/middlewares/security.middleware';
 const app = express();
 
 const HTTP_NOT_FOUND = 404;
+// Emails to leads carry up to 10 MB of attachments, which grow by a third in base64
+const EMAIL_BODY_LIMIT = '15mb';
+const WEBHOOK_BODY_LIMIT = '1mb';
 
 app.use(requestLogger);
 
@@ -19,6 +23,9 @@ app.use(requestLogger);
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerDocument));
 // Security + JSON
 app.use(securityMiddleware);
+app.use('/api/v1/communications/email', express.json({ limit: EMAIL_BODY_LIMIT }));
+// Webhook bodies stay raw until their signature is checked
+app.use('/api/v1/webhooks', express.raw({ type: 'application/json', limit: WEBHOOK_BODY_LIMIT }));
 app.use(express.json());
 
 // Initialize Passport
@@ -27,6 +34,9 @@ app.use(passport.initialize());
 // Response middleware
 app.use(successResponseMiddleware);
 
+// Lets model hooks attribute record changes to the request for the audit trail
+app.use(auditContext);
+
 // Routes
 app.use('/api/v1', routes);
 
@@ -0,0 +1,194 @@
+import crypto from 'node:crypto';
+import http from 'node:http';
+
+import axios from 'axios';
+
+import { config } from '../shared/config/index';
+import { MILLISECONDS_IN_SECOND } from '../shared/constant/timeValues';
+import logger from '../shared/utils/logger';
+
+/**
+ * WhatsApp Cloud API stub for development. Point the backend at it with
+ * `WHATSAPP_API_URL=http://localhost:4010` and run `npm run whatsapp:stub`:
+ * - `POST /:phoneNumberId/messages` accepts messages and posts signed sent,
+ *   delivered and read receipts to the backend webhook a moment later; recipients
+ *   ending in 0000 are refused as undeliverable
+ * - `GET /:mediaId` and `GET /media/:mediaId` serve media of simulated messages
+ * - `POST /simulate/inbound` posts a signed message from a lead to the webhook:
+ *   `{ "phoneNumberId", "from", "name"?, "text"?, "file"?: { "filename", "type", "content" (base64) } }`
+ */
+
+const PORT = Number.parseInt(process.env.WHATSAPP_STUB_PORT || '4010', 10);
+const WEBHOOK_URL =
+  process.env.WHATSAPP_STUB_WEBHOOK_URL || `http://localhost:${process.env.PORT || '3000'}/api/v1/webhooks/whatsapp`;
+const RECEIPT_DELAY_MS = 500;
+const UNDELIVERABLE_SUFFIX = '0000';
+const WAMID_BYTES = 12;
+const MEDIA_ID_BYTES = 8;
+// Graph API error codes
+const UNDELIVERABLE_ERROR = 131_026;
+const INVALID_TOKEN_ERROR = 190;
+const INVALID_PARAMETER_ERROR = 100;
+const HTTP_OK = 200;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_NOT_FOUND = 404;
+
+interface IStubMedia {
+  type: string;
+  content: Buffer;
+}
+
+type StubBody = Record<string, unknown>;
+
+// Media of simulated inbound messages, by media id
+const media = new Map<string, IStubMedia>();
+
+const nowSeconds = (): string => Math.floor(Date.now() / MILLISECONDS_IN_SECOND).toString();
+
+const createWamid = (): string => `wamid.stub${crypto.randomBytes(WAMID_BYTES).toString('hex')}`;
+
+const send = (res: http.ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = async (req: http.IncomingMessage): Promise<StubBody> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? (JSON.parse(text) as StubBody) : {};
+};
+
+/**
+ * Post a payload to the backend webhook, signed the way Meta signs it
+ * @param value - Change value with the messages or statuses
+ */
+const postWebhook = async (value: StubBody): Promise<void> => {
+  const body = JSON.stringify({
+    object: 'whatsapp_business_account',
+    entry: [{ id: 'stub-business-account', changes: [{ field: 'messages', value }] }],
+  });
+  const signature = crypto
+    .createHmac('sha256', config.whatsapp.appSecret ?? '')
+    .update(body)
+    .digest('hex');
+  try {
+    const { data } = await axios.post(WEBHOOK_URL, body, {
+      headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': `sha256=${signature}` },
+    });
+    logger.info(`Webhook answered ${JSON.stringify(data)}`);
+  } catch (error) {
+    logger.error(`Webhook failed: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Post sent, delivered and read receipts for an accepted message, one after another
+ * @param phoneNumberId - Sending business number
+ * @param messageId - Accepted message
+ * @param to - Recipient
+ */
+const postReceipts = async (phoneNumberId: string, messageId: string, to: string): Promise<void> => {
+  for (const status of ['sent', 'delivered', 'read']) {
+    await new Promise((resolve) => {
+      setTimeout(resolve, RECEIPT_DELAY_MS);
+    });
+    await postWebhook({
+      messaging_product: 'whatsapp',
+      metadata: { phone_number_id: phoneNumberId },
+      statuses: [{ id: messageId, status, timestamp: nowSeconds(), recipient_id: to }],
+    });
+  }
+};
+
+const acceptMessage = (res: http.ServerResponse, phoneNumberId: string, body: StubBody): void => {
+  const to = String(body.to ?? '');
+  logger.info(`Message from ${phoneNumberId} to ${to}: ${JSON.stringify(body)}`);
+  if (!/^\d+$/.test(to) || to.endsWith(UNDELIVERABLE_SUFFIX)) {
+    send(res, HTTP_BAD_REQUEST, { error: { message: '(#131026) Message undeliverable', code: UNDELIVERABLE_ERROR } });
+    return;
+  }
+  const messageId = createWamid();
+  send(res, HTTP_OK, {
+    messaging_product: 'whatsapp',
+    contacts: [{ input: to, wa_id: to }],
+    messages: [{ id: messageId }],
+  });
+  void postReceipts(phoneNumberId, messageId, to);
+};
+
+/**
+ * Post a message from a lead, with an optional file as a document message
+ * @param res - Response
+ * @param body - Simulated message
+ */
+const simulateInbound = async (res: http.ServerResponse, body: StubBody): Promise<void> => {
+  const from = String(body.from ?? '');
+  const file = body.file as { filename: string; type: string; content: string } | undefined;
+  const message: StubBody = { id: createWamid(), from, timestamp: nowSeconds() };
+  if (file) {
+    const mediaId = crypto.randomBytes(MEDIA_ID_BYTES).toString('hex');
+    media.set(mediaId, { type: file.type, content: Buffer.from(file.content, 'base64') });
+    Object.assign(message, {
+      type: 'document',
+      document: { id: mediaId, mime_type: file.type, filename: file.filename, caption: body.text },
+    });
+  } else {
+    Object.assign(message, { type: 'text', text: { body: String(body.text ?? '') } });
+  }
+  await postWebhook({
+    messaging_product: 'whatsapp',
+    metadata: { phone_number_id: String(body.phoneNumberId ?? '') },
+    contacts: [{ wa_id: from, profile: { name: String(body.name ?? '') } }],
+    messages: [message],
+  });
+  send(res, HTTP_OK, { message });
+};
+
+const serveMedia = (res: http.ServerResponse, path: string): void => {
+  const [, prefix, id] = path.split('/');
+  const stored = media.get(prefix === 'media' ? id : prefix);
+  if (!stored) {
+    send(res, HTTP_NOT_FOUND, { error: { message: 'Unknown media', code: INVALID_PARAMETER_ERROR } });
+  } else if (prefix === 'media') {
+    res.writeHead(HTTP_OK, { 'Content-Type': stored.type });
+    res.end(stored.content);
+  } else {
+    send(res, HTTP_OK, { url: `http://localhost:${PORT}/media/${prefix}`, mime_type: stored.type });
+  }
+};
+
+const route = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+  const path = new URL(req.url ?? '/', `http://localhost:${PORT}`).pathname;
+  const messages = /^\/([^/]+)\/messages$/.exec(path);
+  if (req.method === 'POST' && path === '/simulate/inbound') {
+    await simulateInbound(res, await readBody(req));
+  } else if (req.headers.authorization !== `Bearer ${config.whatsapp.apiKey}`) {
+    send(res, HTTP_UNAUTHORIZED, { error: { message: 'Invalid OAuth access token', code: INVALID_TOKEN_ERROR } });
+  } else if (req.method === 'POST' && messages) {
+    acceptMessage(res, messages[1], await readBody(req));
+  } else if (req.method === 'GET') {
+    serveMedia(res, path);
+  } else {
+    send(res, HTTP_NOT_FOUND, { error: { message: 'Unknown path', code: INVALID_PARAMETER_ERROR } });
+  }
+};
+
+const handle = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+  try {
+    await route(req, res);
+  } catch (error) {
+    send(res, HTTP_BAD_REQUEST, { error: { message: (error as Error).message } });
+  }
+};
+
+http
+  .createServer((req, res) => {
+    void handle(req, res);
+  })
+  .listen(PORT, () => {
+    logger.info(`WhatsApp stub listening on http://localhost:${PORT}, posting webhooks to ${WEBHOOK_URL}`);
+  });
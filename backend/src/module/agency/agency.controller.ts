@@ -1,9 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 
-import { BadRequestError, CustomError } from '../../shared/utils/CustomError';
+import { getPlatformOperator } from '../../shared/utils/authUser';
+import { getClientInfo } from '../../shared/utils/clientInfo';
+import { BadRequestError } from '../../shared/utils/CustomError';
+import { PlatformRequest } from '../../types/express/index';
 
+import { IAgency } from './agency.interface';
 import { agencyService } from './agency.service';
 
+/**
+ * Map the deletion state of an agency to its API shape
+ * @param agency - Agency document
+ * @returns Deletion details, or null when the agency is not scheduled for deletion
+ */
+const toDeletionResponse = (agency: IAgency): { requestedAt: Date; purgeAfter: Date } | null =>
+  agency.deletion ? { requestedAt: agency.deletion.requestedAt, purgeAfter: agency.deletion.purgeAfter } : null;
+
 /**
  * Agency Controller Class
  * Implements controller layer with proper error handling and response formatting
@@ -34,6 +46,38 @@ export class AgencyController {
     }
   }
 
+  /**
+   * Onboard a new agency with its default roles and first super admin
+   * Validation is handled by middleware
+   */
+  async onboardAgency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency, admin } = await agencyService.onboardAgency(req.body);
+      res.status(201).json({
+        success: true,
+        message: 'Agency created successfully. Please check your email to verify your account.',
+        data: {
+          agency: {
+            id: agency.id,
+            name: agency.name,
+            code: agency.code,
+            domain: agency.domain,
+            isActive: agency.isActive,
+            settings: agency.settings,
+          },
+          admin: {
+            id: admin.id,
+            email: admin.email,
+            firstName: admin.firstName,
+            lastName: admin.lastName,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get agency by ID
    */
@@ -55,6 +99,7 @@ export class AgencyController {
           domain: agency.domain,
           isActive: agency.isActive,
           settings: agency.settings,
+          deletion: toDeletionResponse(agency),
         },
       });
     } catch (error) {
@@ -93,25 +138,62 @@ export class AgencyController {
   }
 
   /**
-   * Delete agency
+   * Schedule agency deletion after exporting its data
    */
-  async deleteAgency(req: Request, res: Response, next: NextFunction): Promise<void> {
+  async deleteAgency(req: PlatformRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { agencyId } = req.params;
-
-      if (!agencyId) {
-        throw new BadRequestError('Agency ID is required');
-      }
+      const agency = await agencyService.deleteAgency(
+        req.params.agencyId,
+        getPlatformOperator(req),
+        getClientInfo(req),
+      );
+      res.json({
+        success: true,
+        message: 'Agency scheduled for deletion',
+        data: {
+          id: agency.id,
+          isActive: agency.isActive,
+          deletion: toDeletionResponse(agency),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 
-      await agencyService.deleteAgency(agencyId);
-      res.status(204).json({
+  /**
+   * Restore an agency scheduled for deletion
+   */
+  async restoreAgency(req: PlatformRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const agency = await agencyService.restoreAgency(
+        req.params.agencyId,
+        getPlatformOperator(req),
+        getClientInfo(req),
+      );
+      res.json({
         success: true,
-        message: 'Agency deleted successfully',
+        message: 'Agency restored successfully',
+        data: {
+          id: agency.id,
+          isActive: agency.isActive,
+        },
       });
     } catch (error) {
-      if (error instanceof CustomError) {
-        throw error;
-      }
+      next(error);
+    }
+  }
+
+  /**
+   * Download the data export taken when the agency was deleted
+   */
+  async downloadDeletionExport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { filename, stream } = await agencyService.getDeletionExport(req.params.agencyId);
+      res.attachment(filename);
+      res.type('application/zip');
+      stream.on('error', next).pipe(res);
+    } catch (error) {
       next(error);
     }
   }
@@ -1,8 +1,20 @@
 import { Document } from 'mongoose';
 
+import { IAgencyDeletion } from '../../shared/models/agency.model';
+import { IUser } from '../../shared/models/user.model';
+import { Locale } from '../../types/enum/locale';
+import { UserRole } from '../../types/enum/user';
+
 export interface IAgencySettings {
   maxUsers: number;
   allowedDomains: string[];
+  twoFactorRequiredRoles: UserRole[];
+  // Language of the emails sent for the agency
+  locale: Locale;
+  // WhatsApp Cloud API number the agency messages leads from
+  whatsappPhoneNumberId?: string;
+  // Sender ID or number the agency's SMS come from; the platform default when empty
+  smsSenderId?: string;
   customBranding?: {
     logo?: string;
     colors?: {
@@ -18,6 +30,7 @@ export interface IAgency extends Document {
   domain: string;
   settings: IAgencySettings;
   isActive: boolean;
+  deletion?: IAgencyDeletion;
 }
 
 export interface ICreateAgencyDTO {
@@ -34,3 +47,8 @@ export interface IUpdateAgencyDTO {
   settings?: IAgencySettings;
   isActive?: boolean;
 }
+
+export interface IAgencyOnboardingResult {
+  agency: IAgency;
+  admin: IUser;
+}
@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import passport from 'passport';
 
-import { checkPermission } from '../../shared/middlewares/checkPermission.middleware';
+import { signupLimiter } from '../../shared/middlewares/rateLimiter.middleware';
 import { validateBody, validateParams, validateQuery } from '../../shared/middlewares/validation.middleware';
 
 import { agencyController } from './agency.controller';
 import {
   createAgencySchema,
+  onboardAgencySchema,
   updateAgencySchema,
   updateAgencySettingsSchema,
   listAgenciesQuerySchema,
@@ -16,6 +17,78 @@ import {
 
 const router = Router();
 
+/**
+ * @swagger
+ * /agencies/onboard:
+ *   post:
+ *     summary: Onboard a new agency with its default roles and first super admin
+ *     description: Runs in a single transaction; the admin receives a welcome email to verify their address and nothing is kept if any step fails
+ *     tags: [Agencies]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - code
+ *               - domain
+ *               - admin
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 minLength: 2
+ *                 maxLength: 100
+ *               code:
+ *                 type: string
+ *                 minLength: 2
+ *                 maxLength: 10
+ *               domain:
+ *                 type: string
+ *                 format: domain
+ *               branding:
+ *                 type: object
+ *                 properties:
+ *                   logo:
+ *                     type: string
+ *                     format: uri
+ *                   colors:
+ *                     type: object
+ *                     properties:
+ *                       primary:
+ *                         type: string
+ *                         example: '#1E1E1E'
+ *                       secondary:
+ *                         type: string
+ *                         example: '#FFFFFF'
+ *               locale:
+ *                 type: string
+ *                 enum: [en, hi]
+ *                 default: en
+ *                 description: Language of the emails sent for the agency
+ *               admin:
+ *                 type: object
+ *                 required:
+ *                   - email
+ *                   - password
+ *                   - firstName
+ *                   - lastName
+ *                 properties:
+ *                   email:
+ *                     type: string
+ *                     format: email
+ *                   password:
+ *                     type: string
+ *                     minLength: 8
+ *                   firstName:
+ *                     type: string
+ *                   lastName:
+ *                     type: string
+ */
+// Onboard a new agency (public)
+router.post('/onboard', signupLimiter, validateBody(onboardAgencySchema), agencyController.onboardAgency);
+
 /**
  * @swagger
  * /agencies:
@@ -57,12 +130,27 @@ const router = Router();
  *                     type: array
  *                     items:
  *                       type: string
+ *                   twoFactorRequiredRoles:
+ *                     type: array
+ *                     description: Roles that must sign in with two-factor authentication
+ *                     items:
+ *                       type: string
+ *                       enum: [super_admin, manager]
+ *                   locale:
+ *                     type: string
+ *                     enum: [en, hi]
+ *                     description: Language of the emails sent for the agency
+ *                   whatsappPhoneNumberId:
+ *                     type: string
+ *                     description: WhatsApp Cloud API phone number id the agency messages leads from
+ *                   smsSenderId:
+ *                     type: string
+ *                     description: Sender ID (3-11 letters and digits) or number the agency's SMS come from
  */
-// Create new agency (only super admin can do this)
+// Create new agency
 router.post(
   '/',
-  passport.authenticate('jwt', { session: false }),
-  checkPermission('agencies', 'create'),
+  passport.authenticate('platform-jwt', { session: false }),
   validateBody(createAgencySchema),
   agencyController.createAgency,
 );
@@ -115,8 +203,7 @@ router.post(
 // List agencies
 router.get(
   '/',
-  passport.authenticate('jwt', { session: false }),
-  checkPermission('agencies', 'read'),
+  passport.authenticate('platform-jwt', { session: false }),
   validateQuery(listAgenciesQuerySchema),
   agencyController.listAgencies,
 );
@@ -141,8 +228,7 @@ router.get(
 // Get agency details
 router.get(
   '/:agencyId',
-  passport.authenticate('jwt', { session: false }),
-  checkPermission('agencies', 'read'),
+  passport.authenticate('platform-jwt', { session: false }),
   validateParams(agencyIdParamSchema),
   agencyController.getAgency,
 );
@@ -167,8 +253,7 @@ router.get(
 // Get agency by code
 router.get(
   '/code/:code',
-  passport.authenticate('jwt', { session: false }),
-  checkPermission('agencies', 'read'),
+  passport.authenticate('platform-jwt', { session: false }),
   validateParams(agencyCodeParamSchema),
   agencyController.getAgencyByCode,
 );
@@ -215,8 +300,7 @@ router.get(
 // Update agency
 router.put(
   '/:agencyId',
-  passport.authenticate('jwt', { session: false }),
-  checkPermission('agencies', 'update'),
+  passport.authenticate('platform-jwt', { session: false }),
   validateParams(agencyIdParamSchema),
   validateBody(updateAgencySchema),
   agencyController.updateAgency,
@@ -261,14 +345,29 @@ router.put(
  *                     type: array
  *                     items:
  *                       type: string
+ *                   twoFactorRequiredRoles:
+ *                     type: array
+ *                     description: Roles that must sign in with two-factor authentication
+ *                     items:
+ *                       type: string
+ *                       enum: [super_admin, manager]
+ *                   locale:
+ *                     type: string
+ *                     enum: [en, hi]
+ *                     description: Language of the emails sent for the agency
+ *                   whatsappPhoneNumberId:
+ *                     type: string
+ *                     description: WhatsApp Cloud API phone number id the agency messages leads from
+ *                   smsSenderId:
+ *                     type: string
+ *                     description: Sender ID (3-11 letters and digits) or number the agency's SMS come from
  *                   customBranding:
  *                     type: object
  */
 // Update agency settings
 router.patch(
   '/:agencyId/settings',
-  passport.authenticate('jwt', { session: false }),
-  checkPermission('agencies', 'update'),
+  passport.authenticate('platform-jwt', { session: false }),
   validateParams(agencyIdParamSchema),
   validateBody(updateAgencySettingsSchema),
   agencyController.updateAgencySettings,
@@ -278,7 +377,8 @@ router.patch(
  * @swagger
  * /agencies/{agencyId}:
  *   delete:
- *     summary: Delete agency
+ *     summary: Schedule agency deletion
+ *     description: Exports the agency's data to a zip, deactivates it and signs its users out. Everything scoped to the agency is purged after a 30-day grace period unless it is restored.
  *     tags: [Agencies]
  *     security:
  *       - bearerAuth: []
@@ -294,10 +394,68 @@ router.patch(
 // Delete agency
 router.delete(
   '/:agencyId',
-  passport.authenticate('jwt', { session: false }),
-  checkPermission('agencies', 'delete'),
+  passport.authenticate('platform-jwt', { session: false }),
   validateParams(agencyIdParamSchema),
   agencyController.deleteAgency,
 );
 
+/**
+ * @swagger
+ * /agency/{agencyId}/restore:
+ *   post:
+ *     summary: Restore an agency scheduled for deletion
+ *     description: Only possible during the grace period; the agency becomes active again unless it was suspended before deletion
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agencyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Agency MongoDB ObjectId
+ */
+// Restore agency
+router.post(
+  '/:agencyId/restore',
+  passport.authenticate('platform-jwt', { session: false }),
+  validateParams(agencyIdParamSchema),
+  agencyController.restoreAgency,
+);
+
+/**
+ * @swagger
+ * /agency/{agencyId}/export:
+ *   get:
+ *     summary: Download the data export taken when the agency was deleted
+ *     description: A zip with users, roles, leads, tasks, bookings, communications, outgoing emails and the audit log as JSON and CSV. It is kept for 30 days after the agency is purged, and deleted when the deletion is cancelled.
+ *     tags: [Agencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agencyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Agency MongoDB ObjectId
+ *     responses:
+ *       200:
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ */
+// Download deletion export
+router.get(
+  '/:agencyId/export',
+  passport.authenticate('platform-jwt', { session: false }),
+  validateParams(agencyIdParamSchema),
+  agencyController.downloadDeletionExport,
+);
+
 export default router;
@@ -1,5 +1,13 @@
+import { Readable } from 'node:stream';
+
+import mongoose, { Types } from 'mongoose';
+
+import { AGENCY_DELETION_GRACE_PERIOD, AGENCY_EXPORT_RETENTION } from '../../shared/constant/timeValues';
 import { Agency } from '../../shared/models/agency.model';
+import { User } from '../../shared/models/user.model';
+import { auditService } from '../../shared/services/audit.service';
 import { BaseService } from '../../shared/services/BaseService';
+import { emailService } from '../../shared/services/email.service';
 import {
   BadRequestError,
   NotFoundError,
@@ -7,9 +15,16 @@ import {
   InternalServerError,
   CustomError,
 } from '../../shared/utils/CustomError';
+import { SessionRevocationReason } from '../../types/enum/auth';
+import { PlatformAuditAction } from '../../types/enum/platform';
+import { UserRole } from '../../types/enum/user';
+import { PlatformOperatorUser } from '../../types/express/index';
+import { IClientInfo } from '../auth/auth.interface';
+import { sessionService } from '../auth/session.service';
 
-import { IAgency } from './agency.interface';
-import { CreateAgencyInput, UpdateAgencyInput } from './agency.validator';
+import { IAgency, IAgencyOnboardingResult } from './agency.interface';
+import { CreateAgencyInput, OnboardAgencyInput, UpdateAgencyInput } from './agency.validator';
+import { agencyArchiveService } from './agencyArchive.service';
 import { agencyRoleService } from './agencyRole.service';
 
 /**
@@ -29,17 +44,7 @@ export class AgencyService extends BaseService<IAgency> {
    */
   async createAgency(data: CreateAgencyInput): Promise<IAgency> {
     try {
-      // Validate unique agency code
-      const existingAgency = await this.findOne({ code: data.code });
-      if (existingAgency) {
-        throw new BusinessError(`Agency with code '${data.code}' already exists`);
-      }
-
-      // Validate unique domain
-      const existingDomain = await this.findOne({ domain: data.domain });
-      if (existingDomain) {
-        throw new BusinessError(`Agency with domain '${data.domain}' already exists`);
-      }
+      await this.assertCodeAndDomainAvailable(data.code, data.domain);
 
       // Create the agency - use model directly to avoid interface conflicts
       const agency = new Agency(data);
@@ -57,6 +62,57 @@ export class AgencyService extends BaseService<IAgency> {
     }
   }
 
+  /**
+   * Provision a tenant in one transaction: the agency, its default roles and its first
+   * super admin, who receives a welcome email to verify their address.
+   * Nothing is kept when any step fails; the welcome email is queued in the same
+   * transaction and only goes out once it commits.
+   * Transactions require MongoDB to run as a replica set.
+   * @param data - Agency details, branding and the first admin's account
+   * @returns Created agency and admin
+   */
+  async onboardAgency(data: OnboardAgencyInput): Promise<IAgencyOnboardingResult> {
+    try {
+      await this.assertCodeAndDomainAvailable(data.code, data.domain);
+      if (await User.exists({ email: data.admin.email })) {
+        throw new BusinessError('User with this email already exists');
+      }
+
+      return await mongoose.connection.transaction(async (session) => {
+        const [agency] = await Agency.create(
+          [
+            {
+              name: data.name,
+              code: data.code,
+              domain: data.domain,
+              settings: { customBranding: data.branding, locale: data.locale },
+            },
+          ],
+          { session },
+        );
+
+        const roles = await agencyRoleService.createDefaultRoles(agency.id, session);
+        const superAdminRole = roles.find((role) => role.type === UserRole.SUPER_ADMIN);
+        if (!superAdminRole) {
+          throw new InternalServerError('Super admin role was not created');
+        }
+
+        const [admin] = await User.create([{ ...data.admin, agency: agency._id, role: superAdminRole._id }], {
+          session,
+        });
+        await admin.generateEmailVerificationToken();
+        await emailService.sendWelcomeEmail(admin.email, admin.emailVerificationToken as string, agency, session);
+
+        return { agency, admin };
+      });
+    } catch (error: any) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Agency onboarding failed: ${error.message}`);
+    }
+  }
+
   /**
    * Get agency by ID with error handling
    * @param id - Agency ID
@@ -135,36 +191,120 @@ export class AgencyService extends BaseService<IAgency> {
   }
 
   /**
-   * Delete agency with cascade operations
+   * Schedule an agency for deletion. Its data is exported first, then the agency is
+   * deactivated and its users signed out; everything is purged once the grace period is over.
    * @param id - Agency ID
+   * @param operator - Platform operator deleting the agency
+   * @param client - IP and user agent of the operator
+   * @returns Agency with its deletion details
+   * @throws {NotFoundError} When the agency does not exist
+   * @throws {BusinessError} When the agency is already scheduled for deletion
    */
-  async deleteAgency(id: string): Promise<void> {
+  async deleteAgency(id: string, operator: PlatformOperatorUser, client: IClientInfo): Promise<IAgency> {
     try {
-      if (!id) {
-        throw new BadRequestError('Agency ID is required');
+      const agency = await this.getAgencyById(id);
+      if (agency.deletion) {
+        throw new BusinessError('Agency is already scheduled for deletion');
       }
 
-      // Check if agency exists
-      const agency = await this.findById(id);
-      if (!agency) {
-        throw new NotFoundError(`Agency not found with ID: ${id}`);
-      }
+      const requestedAt = new Date();
+      const purgeAfter = new Date(requestedAt.getTime() + AGENCY_DELETION_GRACE_PERIOD);
+      const exportFileId = await agencyArchiveService.writeExport(
+        agency,
+        new Date(purgeAfter.getTime() + AGENCY_EXPORT_RETENTION),
+      );
+      agency.deletion = {
+        requestedAt,
+        requestedBy: new Types.ObjectId(operator.id),
+        purgeAfter,
+        exportFileId,
+        wasActive: agency.isActive,
+      };
+      agency.isActive = false;
+      await agency.save();
+      await this.signOutUsers(id, SessionRevocationReason.AGENCY_DELETED);
 
-      // TODO: Add cascade delete logic here
-      // - Delete all users associated with this agency
-      // - Delete all roles associated with this agency
-      // - Clean up any other related data
+      await auditService.logPlatformAction(operator.id, PlatformAuditAction.AGENCY_DELETED, client, {
+        agency: id,
+        purgeAfter: agency.deletion.purgeAfter,
+        exportFileId,
+      });
+      return agency;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Agency deletion failed: ${(error as Error).message}`);
+    }
+  }
 
-      const deletedAgency = await this.deleteById(id);
-      if (!deletedAgency) {
-        throw new NotFoundError(`Agency not found with ID: ${id}`);
+  /**
+   * Cancel the deletion of an agency during its grace period
+   * @param id - Agency ID
+   * @param operator - Platform operator restoring the agency
+   * @param client - IP and user agent of the operator
+   * @returns Restored agency, active again unless it was suspended before
+   * @throws {NotFoundError} When the agency does not exist
+   * @throws {BusinessError} When the agency is not scheduled for deletion or its grace period is over
+   */
+  async restoreAgency(id: string, operator: PlatformOperatorUser, client: IClientInfo): Promise<IAgency> {
+    try {
+      const agency = await this.getAgencyById(id);
+      if (!agency.deletion) {
+        throw new BusinessError('Agency is not scheduled for deletion');
       }
-    } catch (error: any) {
+      if (agency.deletion.purgeAfter <= new Date()) {
+        throw new BusinessError('The grace period is over and the agency is being purged');
+      }
+
+      const { exportFileId, wasActive } = agency.deletion;
+      agency.isActive = wasActive;
+      agency.set('deletion', null);
+      await agency.save();
+      await agencyArchiveService.removeExport(exportFileId);
+
+      await auditService.logPlatformAction(operator.id, PlatformAuditAction.AGENCY_RESTORED, client, {
+        agency: id,
+      });
+      return agency;
+    } catch (error) {
       if (error instanceof CustomError) {
         throw error;
       }
-      throw new InternalServerError(`Agency deletion failed: ${error.message}`);
+      throw new InternalServerError(`Agency restore failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Open the data export taken when an agency was deleted, during the grace period
+   * or for the retention period after the agency was purged
+   * @param id - Agency ID
+   * @returns File name and content stream of the zip
+   * @throws {NotFoundError} When the agency never existed or its export is gone
+   * @throws {BusinessError} When the agency is not scheduled for deletion
+   */
+  async getDeletionExport(id: string): Promise<{ filename: string; stream: Readable }> {
+    const agency = await this.model.findById(id).exec();
+    if (!agency) {
+      return agencyArchiveService.openPurgedExport(id);
+    }
+    if (!agency.deletion) {
+      throw new BusinessError('Agency is not scheduled for deletion');
     }
+    return agencyArchiveService.openExport(agency.deletion.exportFileId);
+  }
+
+  /**
+   * Revoke every session of the agency's users
+   * @param id - Agency ID
+   * @param reason - Why the sessions are revoked
+   */
+  async signOutUsers(id: string, reason: SessionRevocationReason): Promise<void> {
+    const userIds = await User.find({ agency: id }).distinct('_id');
+    await sessionService.revokeAllForUsers(
+      userIds.map((userId) => userId.toString()),
+      reason,
+    );
   }
 
   /**
@@ -271,6 +411,25 @@ export class AgencyService extends BaseService<IAgency> {
       throw new InternalServerError(`Failed to update agency settings: ${error.message}`);
     }
   }
+
+  /**
+   * Ensure no agency uses the code or domain yet
+   * @param code - Agency code
+   * @param domain - Agency domain
+   */
+  private async assertCodeAndDomainAvailable(code: string, domain: string): Promise<void> {
+    // Validate unique agency code
+    const existingAgency = await this.findOne({ code });
+    if (existingAgency) {
+      throw new BusinessError(`Agency with code '${code}' already exists`);
+    }
+
+    // Validate unique domain
+    const existingDomain = await this.findOne({ domain });
+    if (existingDomain) {
+      throw new BusinessError(`Agency with domain '${domain}' already exists`);
+    }
+  }
 }
 
 export const agencyService = new AgencyService();
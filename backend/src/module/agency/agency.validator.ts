@@ -1,5 +1,9 @@
 import { z } from 'zod';
 
+import { Locale } from '../../types/enum/locale';
+import { UserRole } from '../../types/enum/user';
+import { emailSchema, nameSchema, passwordSchema } from '../auth/auth.validator';
+
 // Common validation schemas
 const hexColorSchema = z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color format (e.g., #FF0000)');
 
@@ -11,6 +15,21 @@ const domainSchema = z
   .max(255, 'Domain must not exceed 255 characters')
   .regex(/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/, 'Invalid domain format');
 
+// Only privileged roles can be forced to use two-factor authentication
+const twoFactorRequiredRolesSchema = z.array(z.enum([UserRole.SUPER_ADMIN, UserRole.MANAGER]));
+
+// Cloud API phone number ids are numeric
+const whatsappPhoneNumberIdSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{1,30}$/, 'WhatsApp phone number id must contain only digits');
+
+// Alphanumeric sender IDs are capped at 11 characters; numeric senders are phone numbers
+const smsSenderIdSchema = z
+  .string()
+  .trim()
+  .regex(/^[\dA-Za-z]{3,11}$|^\+?\d{3,15}$/, 'SMS sender ID must be 3-11 letters and digits, or a phone number');
+
 const agencyCodeSchema = z
   .string()
   .min(2, 'Agency code must be at least 2 characters')
@@ -25,6 +44,16 @@ const agencyNameSchema = z
   .trim()
   .regex(/^[a-zA-Z0-9\s&.-]+$/, 'Agency name contains invalid characters');
 
+const customBrandingSchema = z.object({
+  logo: urlSchema.optional(),
+  colors: z
+    .object({
+      primary: hexColorSchema,
+      secondary: hexColorSchema,
+    })
+    .optional(),
+});
+
 // Agency settings schema aligned with the model
 const agencySettingsSchema = z
   .object({
@@ -39,17 +68,11 @@ const agencySettingsSchema = z
       .min(0, 'At least one domain is required')
       .max(10, 'Cannot have more than 10 allowed domains')
       .default([]),
-    customBranding: z
-      .object({
-        logo: urlSchema.optional(),
-        colors: z
-          .object({
-            primary: hexColorSchema,
-            secondary: hexColorSchema,
-          })
-          .optional(),
-      })
-      .optional(),
+    twoFactorRequiredRoles: twoFactorRequiredRolesSchema.default([]),
+    locale: z.nativeEnum(Locale).default(Locale.EN),
+    whatsappPhoneNumberId: whatsappPhoneNumberIdSchema.optional(),
+    smsSenderId: smsSenderIdSchema.optional(),
+    customBranding: customBrandingSchema.optional(),
   })
   .optional();
 
@@ -61,6 +84,21 @@ export const createAgencySchema = z.object({
   settings: agencySettingsSchema,
 });
 
+// Onboard agency schema: the tenant and its first super admin
+export const onboardAgencySchema = z.object({
+  name: agencyNameSchema,
+  code: agencyCodeSchema,
+  domain: domainSchema,
+  branding: customBrandingSchema.optional(),
+  locale: z.nativeEnum(Locale).optional(),
+  admin: z.object({
+    email: emailSchema,
+    password: passwordSchema,
+    firstName: nameSchema,
+    lastName: nameSchema,
+  }),
+});
+
 // Update agency schema (all fields optional)
 export const updateAgencySchema = z.object({
   name: agencyNameSchema.optional(),
@@ -82,17 +120,11 @@ export const updateAgencySettingsSchema = z.object({
       .array(domainSchema)
       .min(0, 'At least one domain is required')
       .max(10, 'Cannot have more than 10 allowed domains'),
-    customBranding: z
-      .object({
-        logo: urlSchema.optional(),
-        colors: z
-          .object({
-            primary: hexColorSchema,
-            secondary: hexColorSchema,
-          })
-          .optional(),
-      })
-      .optional(),
+    twoFactorRequiredRoles: twoFactorRequiredRolesSchema.optional(),
+    locale: z.nativeEnum(Locale).optional(),
+    whatsappPhoneNumberId: whatsappPhoneNumberIdSchema.optional(),
+    smsSenderId: smsSenderIdSchema.optional(),
+    customBranding: customBrandingSchema.optional(),
   }),
 });
 
@@ -133,6 +165,7 @@ export const agencyCodeParamSchema = z.object({
 
 // Export types
 export type CreateAgencyInput = z.infer<typeof createAgencySchema>;
+export type OnboardAgencyInput = z.infer<typeof onboardAgencySchema>;
 export type UpdateAgencyInput = z.infer<typeof updateAgencySchema>;
 export type UpdateAgencySettingsInput = z.infer<typeof updateAgencySettingsSchema>;
 export type ListAgenciesQuery = z.infer<typeof listAgenciesQuerySchema>;
@@ -0,0 +1,237 @@
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+import mongoose, { Types } from 'mongoose';
+
+import { Agency } from '../../shared/models/agency.model';
+import { AuditLog } from '../../shared/models/auditLog.model';
+import { Booking } from '../../shared/models/booking.model';
+import { Communication } from '../../shared/models/communication.model';
+import { Invitation } from '../../shared/models/invitation.model';
+import { Lead } from '../../shared/models/lead.model';
+import { OutboundEmail } from '../../shared/models/outboundEmail.model';
+import { Role } from '../../shared/models/role.model';
+import { Session } from '../../shared/models/session.model';
+import { Task } from '../../shared/models/task.model';
+import { User } from '../../shared/models/user.model';
+import { attachmentStorageService } from '../../shared/services/attachmentStorage.service';
+import { toCsvHeader, toCsvRow } from '../../shared/utils/csv';
+import { NotFoundError } from '../../shared/utils/CustomError';
+import logger from '../../shared/utils/logger';
+import { createZipStream, IZipEntry } from '../../shared/utils/zip';
+import { AuditActorType } from '../../types/enum/audit';
+
+import { IAgency } from './agency.interface';
+
+// Exports are kept in GridFS so every instance can serve them, until their expiry after the purge
+const EXPORT_BUCKET_NAME = 'agencyExports';
+
+// Credentials and one-time tokens never leave the database
+const USER_EXPORT_EXCLUDED_FIELDS = '-password -emailVerificationToken -passwordResetToken -twoFactor';
+
+type ExportRecord = Record<string, unknown>;
+
+// Records of one collection, read again for each file they are written to
+type ExportDataset = [name: string, read: () => AsyncIterable<ExportRecord>];
+
+/**
+ * Stream records as a JSON array, noting every field seen for the CSV header
+ * @param records - Records read from a cursor
+ * @param columns - Field names found so far
+ * @yields JSON chunks
+ */
+const toJsonChunks = async function* (
+  records: AsyncIterable<ExportRecord>,
+  columns: Set<string>,
+): AsyncGenerator<string> {
+  let separator = '\n';
+  yield '[';
+  for await (const record of records) {
+    for (const column of Object.keys(record)) {
+      columns.add(column);
+    }
+    yield `${separator}${JSON.stringify(record, null, 2).replace(/^/gm, '  ')}`;
+    separator = ',\n';
+  }
+  yield separator === '\n' ? ']' : '\n]';
+};
+
+/**
+ * Stream records as CSV lines
+ * @param records - Records read from a cursor
+ * @param columns - Field names of the header row
+ * @yields CSV chunks
+ */
+const toCsvChunks = async function* (
+  records: AsyncIterable<ExportRecord>,
+  columns: Set<string>,
+): AsyncGenerator<string> {
+  const header = [...columns];
+  yield toCsvHeader(header);
+  for await (const record of records) {
+    yield `\r\n${toCsvRow(record, header)}`;
+  }
+};
+
+/**
+ * Agency Archive Service Class
+ * Exports everything an agency owns before it is deleted, and purges it all
+ * once the deletion grace period is over
+ */
+export class AgencyArchiveService {
+  /**
+   * Store a zip of the agency's users, roles, leads, tasks, bookings, communications,
+   * outgoing emails and audit log, each as JSON and CSV. Records are streamed from the database into
+   * GridFS, so the export never holds a whole collection in memory.
+   * @param agency - Agency to export
+   * @param expiresAt - When the purge job may delete the export
+   * @returns ID of the stored archive
+   */
+  async writeExport(agency: IAgency, expiresAt: Date): Promise<Types.ObjectId> {
+    const filter = { agency: agency._id };
+    const datasets: ExportDataset[] = [
+      [
+        'users',
+        (): AsyncIterable<ExportRecord> => User.find(filter).select(USER_EXPORT_EXCLUDED_FIELDS).lean().cursor(),
+      ],
+      ['roles', (): AsyncIterable<ExportRecord> => Role.find(filter).lean().cursor()],
+      ['leads', (): AsyncIterable<ExportRecord> => Lead.find(filter).lean().cursor()],
+      ['tasks', (): AsyncIterable<ExportRecord> => Task.find(filter).lean().cursor()],
+      ['bookings', (): AsyncIterable<ExportRecord> => Booking.find(filter).lean().cursor()],
+      ['communications', (): AsyncIterable<ExportRecord> => Communication.find(filter).lean().cursor()],
+      ['outboundEmails', (): AsyncIterable<ExportRecord> => OutboundEmail.find(filter).lean().cursor()],
+      ['auditLogs', (): AsyncIterable<ExportRecord> => AuditLog.find(filter).lean().cursor()],
+    ];
+
+    const exportedAt = new Date();
+    const entries = function* (): Generator<IZipEntry> {
+      yield { name: 'agency.json', content: JSON.stringify({ agency: agency.toJSON(), exportedAt }, null, 2) };
+      for (const [name, read] of datasets) {
+        // The JSON file is written first and collects the CSV header on the way
+        const columns = new Set<string>();
+        yield { name: `json/${name}.json`, content: toJsonChunks(read(), columns) };
+        yield { name: `csv/${name}.csv`, content: toCsvChunks(read(), columns) };
+      }
+    };
+
+    const upload = this.bucket().openUploadStream(`${agency.code}-export-${exportedAt.getTime()}.zip`, {
+      metadata: { agency: agency._id, contentType: 'application/zip', expiresAt },
+    });
+    await pipeline(createZipStream(entries(), exportedAt), upload);
+    return upload.id;
+  }
+
+  /**
+   * Open a stored export for download
+   * @param fileId - ID of the stored archive
+   * @returns File name and content stream
+   * @throws {NotFoundError} When the export does not exist
+   */
+  async openExport(fileId: Types.ObjectId): Promise<{ filename: string; stream: Readable }> {
+    const [file] = await this.bucket().find({ _id: fileId }).limit(1).toArray();
+    if (!file) {
+      throw new NotFoundError('Agency export not found');
+    }
+    return { filename: file.filename, stream: this.bucket().openDownloadStream(fileId) };
+  }
+
+  /**
+   * Open the latest export of an agency that has been purged, while it is retained
+   * @param agencyId - ID the agency had
+   * @returns File name and content stream
+   * @throws {NotFoundError} When no export of the agency is left
+   */
+  async openPurgedExport(agencyId: string): Promise<{ filename: string; stream: Readable }> {
+    const [file] = await this.bucket()
+      .find({ 'metadata.agency': new Types.ObjectId(agencyId), 'metadata.expiresAt': { $gt: new Date() } })
+      .sort({ uploadDate: -1 })
+      .limit(1)
+      .toArray();
+    if (!file) {
+      throw new NotFoundError('Agency export not found');
+    }
+    return { filename: file.filename, stream: this.bucket().openDownloadStream(file._id) };
+  }
+
+  /**
+   * Delete an export that is no longer needed, such as when the deletion is cancelled
+   * @param fileId - ID of the stored archive
+   */
+  async removeExport(fileId: Types.ObjectId): Promise<void> {
+    try {
+      await this.bucket().delete(fileId);
+    } catch (error) {
+      logger.warn(`Failed to remove agency export ${fileId.toString()}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Delete the exports whose retention is over
+   * @returns Number of exports deleted
+   */
+  async removeExpiredExports(): Promise<number> {
+    const files = await this.bucket()
+      .find({ 'metadata.expiresAt': { $lte: new Date() } })
+      .toArray();
+    for (const file of files) {
+      await this.bucket().delete(file._id);
+    }
+    return files.length;
+  }
+
+  /**
+   * Purge every agency whose deletion grace period is over, and delete the exports
+   * whose retention is over
+   * @returns Number of agencies purged
+   */
+  async purgeExpiredAgencies(): Promise<number> {
+    const agencies = await Agency.find({ 'deletion.purgeAfter': { $lte: new Date() } })
+      .select('_id code')
+      .lean();
+
+    for (const agency of agencies) {
+      await this.purgeAgency(agency._id.toString());
+      logger.info(`Purged agency ${agency.code} (${agency._id.toString()}) after its deletion grace period`);
+    }
+
+    const expiredExports = await this.removeExpiredExports();
+    if (expiredExports > 0) {
+      logger.info(`Deleted ${expiredExports} agency export(s) after their retention period`);
+    }
+    return agencies.length;
+  }
+
+  /**
+   * Remove an agency and everything scoped to it. The agency itself goes last,
+   * so an interrupted purge is picked up again by the next run. Audit entries of
+   * platform operators are kept as the platform's own record.
+   * @param agencyId - Agency ID
+   */
+  async purgeAgency(agencyId: string): Promise<void> {
+    const filter = { agency: agencyId };
+    const userIds = await User.find(filter).distinct('_id');
+
+    await Session.deleteMany({ user: { $in: userIds } }).exec();
+    await Promise.all([
+      Invitation.deleteMany(filter).exec(),
+      Communication.deleteMany(filter).exec(),
+      OutboundEmail.deleteMany(filter).exec(),
+      Booking.deleteMany(filter).exec(),
+      Task.deleteMany(filter).exec(),
+      Lead.deleteMany(filter).exec(),
+      AuditLog.deleteMany({ ...filter, actorType: { $ne: AuditActorType.PLATFORM_OPERATOR } }).exec(),
+      attachmentStorageService.removeAgencyFiles(agencyId),
+    ]);
+    await User.deleteMany(filter).exec();
+    await Role.deleteMany(filter).exec();
+    await Agency.deleteOne({ _id: agencyId }).exec();
+  }
+
+  private bucket(): mongoose.mongo.GridFSBucket {
+    return new mongoose.mongo.GridFSBucket(mongoose.connection.db as mongoose.mongo.Db, {
+      bucketName: EXPORT_BUCKET_NAME,
+    });
+  }
+}
+
+export const agencyArchiveService = new AgencyArchiveService();
@@ -1,98 +1,117 @@
-import { Agency } from '../../shared/models/agency.model';
-import { Permission } from '../../shared/models/permission.model';
-import { Role, RoleType } from '../../shared/models/role.model';
+import { ClientSession, Document } from 'mongoose';
 
-class AgencyRoleService {
-  // Create default roles for a new agency
-  async createDefaultRoles(agencyId: string): Promise<void> {
-    const defaultRoles = [
-      {
-        name: 'Super Admin',
-        type: 'super_admin' as RoleType,
-        description: 'Full access to all features and settings',
-        permissions: ['*'], // All permissions
-        isSystem: true,
-      },
-      {
-        name: 'Manager',
-        type: 'manager' as RoleType,
-        description: 'Access to manage team and view reports',
-        permissions: ['users:read', 'users:create', 'users:update', 'reports:read', 'leads:read', 'leads:update'],
-        isSystem: true,
-      },
-      {
-        name: 'Agent',
-        type: 'agent' as RoleType,
-        description: 'Access to manage leads and basic features',
-        permissions: ['leads:read', 'leads:create', 'leads:update'],
-        isSystem: true,
-      },
-    ];
+import { RESOURCE_OWNER_FIELDS } from '../../shared/constant/permissions';
+import { IRole, Role, RoleType } from '../../shared/models/role.model';
+import { permissionCacheService } from '../../shared/services/permissionCache.service';
+import { ForbiddenError } from '../../shared/utils/CustomError';
+import { resolvePermissionScope } from '../../shared/utils/permissionEvaluator';
+import { PermissionScope } from '../../types/enum/permission';
+import { AuthenticatedUser } from '../../types/express/index';
 
-    for (const roleData of defaultRoles) {
-      await Role.create({
-        ...roleData,
-        agency: agencyId,
-      });
-    }
+// System roles created for every new agency
+const DEFAULT_ROLES = [
+  {
+    name: 'Super Admin',
+    type: 'super_admin' as RoleType,
+    description: 'Full access to all features and settings',
+    permissions: ['*'], // All permissions
+    isSystem: true,
+  },
+  {
+    name: 'Manager',
+    type: 'manager' as RoleType,
+    description: 'Access to manage team and view reports',
+    permissions: [
+      'users:read',
+      'users:create',
+      'users:update',
+      'roles:read',
+      'reports:read',
+      'leads:read',
+      'leads:update',
+      'leads:revert',
+      'tasks:read',
+      'tasks:create',
+      'tasks:update',
+      'bookings:read',
+      'bookings:create',
+      'bookings:update',
+      'communications:read',
+      'communications:create',
+    ],
+    isSystem: true,
+  },
+  {
+    name: 'Agent',
+    type: 'agent' as RoleType,
+    description: 'Access to manage leads and basic features',
+    permissions: [
+      'leads:read',
+      'leads:create',
+      'leads:update:own',
+      'tasks:read',
+      'tasks:create',
+      'tasks:update',
+      'bookings:read',
+      'bookings:create',
+      'bookings:update',
+      'communications:read',
+      'communications:create',
+    ],
+    isSystem: true,
+  },
+];
+
+class AgencyRoleService {
+  // Create default roles for a new agency, optionally inside a transaction
+  async createDefaultRoles(agencyId: string, session?: ClientSession): Promise<IRole[]> {
+    return Role.create(
+      DEFAULT_ROLES.map((roleData) => ({ ...roleData, agency: agencyId })),
+      { session, ordered: true },
+    );
   }
 
-  // Update role permissions
-  async updateRolePermissions(agencyId: string, roleType: RoleType, permissions: string[]): Promise<void> {
-    const role = await Role.findOne({ agency: agencyId, type: roleType });
+  // Resolve how much of a resource the user's role covers for an action, or null when it grants nothing
+  async getPermissionScope(user: AuthenticatedUser, resource: string, action: string): Promise<PermissionScope | null> {
+    const role = await permissionCacheService.getRole(user.agency, user.role.id);
     if (!role) {
-      throw new Error('Role not found');
+      return null;
     }
 
-    // Verify all permissions exist
-    const existingPermissions = await Permission.find({
-      _id: { $in: permissions },
-    });
-
-    if (existingPermissions.length !== permissions.length) {
-      throw new Error('One or more permissions do not exist');
+    // Super admin has all permissions
+    if (role.type === 'super_admin') {
+      return PermissionScope.ANY;
     }
 
-    role.permissions = permissions;
-    await role.save();
+    return resolvePermissionScope(role.permissions, resource, action);
   }
 
-  // Get role permissions
-  async getRolePermissions(agencyId: string, roleType: RoleType): Promise<string[]> {
-    const role = await Role.findOne({ agency: agencyId, type: roleType });
-    if (!role) {
-      throw new Error('Role not found');
-    }
-
-    return role.permissions;
+  // Check if the user may perform an action on at least their own records of a resource
+  async hasPermission(user: AuthenticatedUser, resource: string, action: string): Promise<boolean> {
+    return (await this.getPermissionScope(user, resource, action)) !== null;
   }
 
-  // Check if user has permission
-  async hasPermission(agencyId: string, roleType: RoleType, permission: string): Promise<boolean> {
-    const role = await Role.findOne({ agency: agencyId, type: roleType });
-    if (!role) {
-      return false;
+  // Query filter limiting a resource to the records the user may act on; empty when they may act on all of them
+  async scopeFilter(user: AuthenticatedUser, resource: string, action: string): Promise<Record<string, string>> {
+    const scope = await this.getPermissionScope(user, resource, action);
+    if (scope === PermissionScope.ANY) {
+      return {};
     }
 
-    // Super admin has all permissions
-    if (role.type === 'super_admin') {
-      return true;
+    const ownerField = RESOURCE_OWNER_FIELDS.get(resource);
+    if (scope === PermissionScope.OWN && ownerField) {
+      return { [ownerField]: user.id };
     }
-
-    return role.permissions.includes(permission);
+    throw new ForbiddenError(`User does not have ${action} permission for ${resource}`);
   }
 
-  // Get all roles for an agency
-  async getAgencyRoles(agencyId: string): Promise<any[]> {
-    const roles = await Role.find({ agency: agencyId }).populate('permissions').lean();
-
-    return roles.map((role) => ({
-      id: role._id,
-      name: role.name,
-      type: role.type,
-      description: role.description,
-      permissions: role.permissions,
-    }));
+  // Ensure the user may perform an action on a specific record
+  async assertCanAccess(user: AuthenticatedUser, resource: string, action: string, record: Document): Promise<void> {
+    const filter = await this.scopeFilter(user, resource, action);
+    const isOwned = Object.entries(filter).every(([field, userId]) => String(record.get(field)) === userId);
+    if (!isOwned) {
+      throw new ForbiddenError(`You can only ${action} ${resource} assigned to you`);
+    }
   }
 }
 
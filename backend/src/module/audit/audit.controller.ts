@@ -0,0 +1,86 @@
+import { Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+
+import { IAuditLog } from '../../shared/models/auditLog.model';
+import { IPlatformOperator } from '../../shared/models/platformOperator.model';
+import { IUser } from '../../shared/models/user.model';
+import { getAuthenticatedUser } from '../../shared/utils/authUser';
+import { OkSuccess } from '../../shared/utils/CustomSuccess';
+import { AuthenticatedRequest } from '../../types/express/index';
+
+import { IAuditActorSummary, IAuditLogResponse } from './audit.interface';
+import { auditLogService } from './audit.service';
+import { ListAuditLogsQuery } from './audit.validator';
+
+/**
+ * Map a populated actor to its summary, or null when there is none or it no longer exists
+ * @param auditLog - Audit log document with its actor populated
+ * @returns Actor summary
+ */
+export const toActorSummary = (auditLog: IAuditLog): IAuditActorSummary | null => {
+  const actor = auditLog.actor as unknown as Types.ObjectId | IUser | IPlatformOperator | null | undefined;
+  if (!actor || actor instanceof Types.ObjectId) {
+    return null;
+  }
+  return {
+    id: actor.id,
+    name: `${actor.firstName} ${actor.lastName}`,
+    email: actor.email,
+  };
+};
+
+/**
+ * Map an audit log document to its API representation
+ * @param auditLog - Audit log document with its actor populated
+ * @returns Audit log response payload
+ */
+export const toAuditLogResponse = (auditLog: IAuditLog): IAuditLogResponse => ({
+  id: auditLog.id,
+  actor: toActorSummary(auditLog),
+  actorType: auditLog.actorType,
+  impersonatedBy: auditLog.impersonatedBy?.toString(),
+  action: auditLog.action,
+  resource: auditLog.resource,
+  resourceId: auditLog.resourceId?.toString(),
+  changes: auditLog.changes,
+  status: auditLog.status,
+  ip: auditLog.ip,
+  userAgent: auditLog.userAgent,
+  method: auditLog.method,
+  path: auditLog.path,
+  details: auditLog.details,
+  createdAt: auditLog.createdAt,
+});
+
+/**
+ * Audit Log Controller Class
+ * Implements controller layer with proper error handling and response formatting
+ * All handlers are agency scoped through the authenticated user
+ */
+export class AuditLogController {
+  /**
+   * List the agency's audit log with pagination and filtering
+   */
+  async listAuditLogs(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const result = await auditLogService.listAuditLogs(agency, req.query as unknown as ListAuditLogsQuery);
+      res.customSuccess(
+        new OkSuccess({
+          auditLogs: result.auditLogs.map(toAuditLogResponse),
+          pagination: {
+            totalAuditLogs: result.totalAuditLogs,
+            totalPages: result.totalPages,
+            currentPage: result.currentPage,
+            hasNextPage: result.hasNextPage,
+            hasPrevPage: result.hasPrevPage,
+          },
+        }),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const auditLogController = new AuditLogController();
@@ -0,0 +1,35 @@
+import { IAuditChange, IAuditLog } from '../../shared/models/auditLog.model';
+import { AuditActorType, AuditStatus } from '../../types/enum/audit';
+
+export interface IAuditActorSummary {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface IAuditLogResponse {
+  id: string;
+  actor: IAuditActorSummary | null;
+  actorType: AuditActorType;
+  impersonatedBy?: string;
+  action: string;
+  resource?: string;
+  resourceId?: string;
+  changes: IAuditChange[];
+  status: AuditStatus;
+  ip: string;
+  userAgent: string;
+  method?: string;
+  path?: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface IPaginatedAuditLogs {
+  auditLogs: IAuditLog[];
+  totalAuditLogs: number;
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import passport from 'passport';
+
+import { checkPermission } from '../../shared/middlewares/checkPermission.middleware';
+import { validateQuery } from '../../shared/middlewares/validation.middleware';
+
+import { auditLogController } from './audit.controller';
+import { listAuditLogsQuerySchema } from './audit.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /audit-logs:
+ *   get:
+ *     summary: List the agency's audit log, newest first
+ *     description: Records every create, update and delete made through the API with the fields that changed, plus sign-ins, password resets, email verifications and platform support actions on the agency
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: resource
+ *         schema:
+ *           type: string
+ *           example: leads
+ *       - in: query
+ *         name: resourceId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           example: update
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ */
+// List audit logs
+router.get(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('audit', 'read'),
+  validateQuery(listAuditLogsQuerySchema),
+  auditLogController.listAuditLogs,
+);
+
+export default router;
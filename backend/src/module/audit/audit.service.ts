@@ -0,0 +1,73 @@
+import { FilterQuery } from 'mongoose';
+
+import { AuditLog, IAuditLog } from '../../shared/models/auditLog.model';
+import { BaseService } from '../../shared/services/BaseService';
+
+import { IPaginatedAuditLogs } from './audit.interface';
+import { ListAuditLogsQuery } from './audit.validator';
+
+const ACTOR_SUMMARY_FIELDS = 'firstName lastName email';
+
+/**
+ * Audit Log Service Class
+ * Read side of the audit trail written by the shared audit service.
+ * Agencies only see entries recorded against them.
+ */
+export class AuditLogService extends BaseService<IAuditLog> {
+  constructor() {
+    super(AuditLog, 'AuditLog');
+  }
+
+  /**
+   * List the agency's audit log, newest first
+   * @param agencyId - Agency ID
+   * @param query - Validated list query
+   * @returns Paginated audit logs with their actor populated
+   */
+  async listAuditLogs(agencyId: string, query: ListAuditLogsQuery): Promise<IPaginatedAuditLogs> {
+    const { page, limit } = query;
+
+    const result = await this.paginate(this.buildListFilter(agencyId, query), page, limit, { createdAt: -1 });
+    await this.model.populate(result.documents, { path: 'actor', select: ACTOR_SUMMARY_FIELDS });
+
+    return {
+      auditLogs: result.documents,
+      totalAuditLogs: result.totalDocuments,
+      totalPages: result.totalPages,
+      currentPage: result.currentPage,
+      hasNextPage: result.hasNextPage,
+      hasPrevPage: result.hasPrevPage,
+    };
+  }
+
+  /**
+   * Build the agency-scoped filter for listing audit logs
+   * @param agencyId - Agency ID
+   * @param query - Validated list query
+   * @returns Mongo filter
+   */
+  private buildListFilter(agencyId: string, query: ListAuditLogsQuery): FilterQuery<IAuditLog> {
+    const { actorId, resource, resourceId, action, from, to } = query;
+    const filter: FilterQuery<IAuditLog> = { agency: agencyId };
+
+    if (actorId) {
+      filter.actor = actorId;
+    }
+    if (resource) {
+      filter.resource = resource;
+    }
+    if (resourceId) {
+      filter.resourceId = resourceId;
+    }
+    if (action) {
+      filter.action = action;
+    }
+    if (from || to) {
+      filter.createdAt = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+    }
+
+    return filter;
+  }
+}
+
+export const auditLogService = new AuditLogService();
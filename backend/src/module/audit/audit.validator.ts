@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+import { PAGINATION_DEFAULT_LIMIT, PAGINATION_DEFAULT_PAGE } from '../../shared/constant/validation';
+
+const FILTER_MAX_LENGTH = 50;
+
+// Common validation schemas
+const objectIdSchema = z.string().regex(/^[\dA-Fa-f]{24}$/, 'Invalid ObjectId format');
+
+// Query parameters schema for listing audit logs; `from` and `to` bound the time of the action
+export const listAuditLogsQuerySchema = z
+  .object({
+    page: z
+      .string()
+      .optional()
+      .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_PAGE)),
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_LIMIT)),
+    actorId: objectIdSchema.optional(),
+    resource: z.string().trim().min(1).max(FILTER_MAX_LENGTH).optional(),
+    resourceId: objectIdSchema.optional(),
+    action: z.string().trim().min(1).max(FILTER_MAX_LENGTH).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.to >= query.from, {
+    message: 'End of the date range must be on or after its start',
+    path: ['to'],
+  });
+
+// Export types
+export type ListAuditLogsQuery = z.infer<typeof listAuditLogsQuerySchema>;
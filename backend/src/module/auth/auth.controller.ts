@@ -1,8 +1,32 @@
 import { Request, Response, NextFunction } from 'express';
 
+import { ISession } from '../../shared/models/session.model';
+import { getAuthenticatedUser } from '../../shared/utils/authUser';
+import { getClientInfo } from '../../shared/utils/clientInfo';
 import { BadRequestError, InternalServerError } from '../../shared/utils/CustomError';
+import { AuthenticatedRequest } from '../../types/express/index';
 
+import { ISessionResponse } from './auth.interface';
 import { authService } from './auth.service';
+import { sessionService } from './session.service';
+import { twoFactorService } from './twoFactor.service';
+
+/**
+ * Map a session document to its API shape
+ * @param session - Session document
+ * @param currentSessionId - Session of the caller
+ * @returns Session response
+ */
+export const toSessionResponse = (session: ISession, currentSessionId: string): ISessionResponse => ({
+  id: session.id,
+  device: session.device,
+  ip: session.ip,
+  userAgent: session.userAgent,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  current: session.id === currentSessionId,
+  impersonated: Boolean(session.impersonatedBy),
+});
 
 /**
  * Authentication Controller Class
@@ -10,15 +34,18 @@ import { authService } from './auth.service';
  */
 export class AuthController {
   /**
-   * Register a new user
+   * Register a new user from an invitation or an allowed email domain
    * Validation is handled by middleware
    */
   async register(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      await authService.register(req.body);
+      const result = await authService.register(req.body);
       res.status(201).json({
         success: true,
-        message: 'User created successfully. Please check your email for verification.',
+        message: result.emailVerificationRequired
+          ? 'User created successfully. Please check your email for verification.'
+          : 'Invitation accepted. You can now sign in.',
+        data: result,
       });
     } catch (error) {
       next(error);
@@ -36,7 +63,7 @@ export class AuthController {
         throw new BadRequestError('Verification token is required');
       }
 
-      await authService.verifyEmail(token);
+      await authService.verifyEmail(token, getClientInfo(req));
       res.json({
         success: true,
         message: 'Email verified successfully',
@@ -52,7 +79,54 @@ export class AuthController {
    */
   async login(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const result = await authService.login(req.body);
+      const result = await authService.login(req.body, getClientInfo(req));
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Complete a login that is waiting for a TOTP or recovery code
+   */
+  async verifyMfaChallenge(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfaToken, code, recoveryCode } = req.body;
+      const result = await authService.verifyMfaChallenge(mfaToken, { code, recoveryCode }, getClientInfo(req));
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start the 2FA enrollment required to finish a login
+   */
+  async beginMfaEnrollment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await authService.beginMfaEnrollment(req.body.mfaToken);
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm the 2FA enrollment required to finish a login
+   */
+  async confirmMfaEnrollment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfaToken, code } = req.body;
+      const result = await authService.confirmMfaEnrollment(mfaToken, code, getClientInfo(req));
       res.json({
         success: true,
         data: result,
@@ -89,7 +163,7 @@ export class AuthController {
         throw new BadRequestError('Reset token is required');
       }
 
-      await authService.resetPassword(token, req.body);
+      await authService.resetPassword(token, req.body, getClientInfo(req));
       res.json({
         success: true,
         message: 'Password reset successful',
@@ -147,12 +221,11 @@ export class AuthController {
   }
 
   /**
-   * Logout user (invalidate token on client side)
+   * Logout user by revoking the refresh token family of this login
    */
   async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      // In a real implementation, you might want to blacklist the token
-      // For now, we'll just return a success message
+      await authService.logout(req.body);
       res.json({
         success: true,
         message: 'Logged out successfully',
@@ -161,6 +234,134 @@ export class AuthController {
       next(error);
     }
   }
+
+  /**
+   * Logout user from all devices by revoking every refresh token family
+   */
+  async logoutAll(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = getAuthenticatedUser(req);
+      await authService.logoutAll(id);
+      res.json({
+        success: true,
+        message: 'Logged out from all devices',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the caller's active sessions
+   */
+  async listSessions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, sessionId } = getAuthenticatedUser(req);
+      const sessions = await sessionService.listActiveSessions(id);
+      res.json({
+        success: true,
+        data: sessions.map((session) => toSessionResponse(session, sessionId)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke one of the caller's sessions
+   */
+  async revokeSession(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = getAuthenticatedUser(req);
+      await sessionService.revokeSession(id, req.params.sessionId);
+      res.json({
+        success: true,
+        message: 'Session revoked successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the caller's two-factor status
+   */
+  async getTwoFactorStatus(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = getAuthenticatedUser(req);
+      const status = await twoFactorService.getStatus(id);
+      res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start enabling 2FA for the caller
+   */
+  async beginTwoFactorSetup(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = getAuthenticatedUser(req);
+      const result = await twoFactorService.beginEnrollment(id);
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm 2FA for the caller and return their recovery codes
+   */
+  async confirmTwoFactorSetup(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = getAuthenticatedUser(req);
+      const recoveryCodes = await twoFactorService.confirmEnrollment(id, req.body.code);
+      res.json({
+        success: true,
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the caller's recovery codes
+   */
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = getAuthenticatedUser(req);
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(id, req.body.code);
+      res.json({
+        success: true,
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Turn off 2FA for the caller
+   */
+  async disableTwoFactor(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = getAuthenticatedUser(req);
+      await twoFactorService.disable(id, req.body.code);
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const authController = new AuthController();
@@ -5,6 +5,11 @@ export interface IAuthTokens {
   refreshToken: string;
 }
 
+export interface IImpersonationTokens {
+  sessionId: string;
+  token: string;
+}
+
 export interface ILoginResponse extends IAuthTokens {
   user: {
     id: string;
@@ -14,6 +19,33 @@ export interface ILoginResponse extends IAuthTokens {
   };
 }
 
+// Returned by login instead of tokens while a second factor is outstanding
+export interface IMfaChallengeResponse {
+  mfaRequired: true;
+  enrollmentRequired: boolean;
+  mfaToken: string;
+}
+
+export interface ILoginWithRecoveryCodes extends ILoginResponse {
+  recoveryCodes: string[];
+}
+
+export interface ISecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface ITwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface ITwoFactorStatusResponse {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
 export interface ILoginInput {
   email: string;
   password: string;
@@ -24,7 +56,11 @@ export interface IRegisterInput {
   password: string;
   firstName: string;
   lastName: string;
-  role: string;
+  invitationToken?: string;
+}
+
+export interface IRegisterResponse {
+  emailVerificationRequired: boolean;
 }
 
 export interface IPasswordResetInput {
@@ -34,3 +70,21 @@ export interface IPasswordResetInput {
 export interface IRefreshTokenInput {
   refreshToken: string;
 }
+
+// Request details recorded on the session created at login
+export interface IClientInfo {
+  ip: string;
+  userAgent: string;
+}
+
+export interface ISessionResponse {
+  id: string;
+  device: string;
+  ip: string;
+  userAgent: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+  // Opened by platform support acting as the user
+  impersonated: boolean;
+}
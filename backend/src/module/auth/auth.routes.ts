@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import passport from 'passport';
 
 import { signupLimiter, loginLimiter, passwordResetLimiter } from '../../shared/middlewares/rateLimiter.middleware';
 import { validateBody, validateParams } from '../../shared/middlewares/validation.middleware';
@@ -11,6 +12,11 @@ import {
   refreshTokenSchema,
   forgotPasswordSchema,
   tokenParamSchema,
+  sessionIdParamSchema,
+  mfaChallengeSchema,
+  mfaTokenBodySchema,
+  mfaEnrollmentConfirmSchema,
+  totpCodeBodySchema,
 } from './auth.validator';
 
 const router = Router();
@@ -20,6 +26,10 @@ const router = Router();
  * /auth/register:
  *   post:
  *     summary: Register a new user
+ *     description: >
+ *       With an invitation token the account joins the invitation's agency and role and needs no email
+ *       verification. Without one, signup is only allowed when the email domain is in exactly one agency's
+ *       allowedDomains, and the user gets that agency's agent role.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -32,7 +42,6 @@ const router = Router();
  *               - password
  *               - firstName
  *               - lastName
- *               - role
  *             properties:
  *               email:
  *                 type: string
@@ -46,9 +55,9 @@ const router = Router();
  *               lastName:
  *                 type: string
  *                 minLength: 2
- *               role:
+ *               invitationToken:
  *                 type: string
- *                 pattern: '^[0-9a-fA-F]{24}$'
+ *                 description: Token from the invitation email link
  */
 // Register route with validation and rate limiting
 router.post('/register', signupLimiter, validateBody(registerSchema), authController.register);
@@ -90,10 +99,90 @@ router.get('/verify-email/:token', validateParams(tokenParamSchema), authControl
  *                 format: email
  *               password:
  *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens, or an MFA challenge (`mfaRequired`, `enrollmentRequired`, `mfaToken`) when the account uses or must set up two-factor authentication
  */
 // Login route with validation, rate limiting and account locking
 router.post('/login', loginLimiter, validateBody(loginSchema), authController.login);
 
+/**
+ * @swagger
+ * /auth/2fa/challenge:
+ *   post:
+ *     summary: Finish a two-factor login with an authenticator or recovery code
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mfaToken
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ *               recoveryCode:
+ *                 type: string
+ */
+// Second login step route, rate limited like the password step
+router.post('/2fa/challenge', loginLimiter, validateBody(mfaChallengeSchema), authController.verifyMfaChallenge);
+
+/**
+ * @swagger
+ * /auth/2fa/challenge/setup:
+ *   post:
+ *     summary: Generate the TOTP secret for a login that requires enrolling in two-factor authentication
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mfaToken
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ */
+// Required enrollment setup route
+router.post('/2fa/challenge/setup', loginLimiter, validateBody(mfaTokenBodySchema), authController.beginMfaEnrollment);
+
+/**
+ * @swagger
+ * /auth/2fa/challenge/confirm:
+ *   post:
+ *     summary: Confirm the required enrollment, finish the login and return one-time recovery codes
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mfaToken
+ *               - code
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ */
+// Required enrollment confirmation route
+router.post(
+  '/2fa/challenge/confirm',
+  loginLimiter,
+  validateBody(mfaEnrollmentConfirmSchema),
+  authController.confirmMfaEnrollment,
+);
+
 /**
 = * @swagger
  * /auth/forgot-password:
@@ -178,4 +267,184 @@ router.post(
 // Refresh token route
 router.post('/refresh-token', validateBody(refreshTokenSchema), authController.refreshToken);
 
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: Log out the current device by revoking its refresh token family
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ */
+// Logout route
+router.post('/logout', validateBody(refreshTokenSchema), authController.logout);
+
+/**
+ * @swagger
+ * /auth/logout-all:
+ *   post:
+ *     summary: Log out all devices by revoking every refresh token family of the caller
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ */
+// Logout from all devices route
+router.post('/logout-all', passport.authenticate('jwt', { session: false }), authController.logoutAll);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: List the caller's active sessions with device, IP and last-seen time
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ */
+// List active sessions route
+router.get('/sessions', passport.authenticate('jwt', { session: false }), authController.listSessions);
+
+/**
+ * @swagger
+ * /auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke one of the caller's sessions; its access and refresh tokens stop working immediately
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Revoke session route
+router.delete(
+  '/sessions/:sessionId',
+  passport.authenticate('jwt', { session: false }),
+  validateParams(sessionIdParamSchema),
+  authController.revokeSession,
+);
+
+/**
+ * @swagger
+ * /auth/2fa:
+ *   get:
+ *     summary: Get the caller's two-factor status, whether their agency requires it and the recovery codes left
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ */
+// Two-factor status route
+router.get('/2fa', passport.authenticate('jwt', { session: false }), authController.getTwoFactorStatus);
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Generate a TOTP secret and otpauth:// provisioning URI for the caller
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ */
+// Two-factor setup route
+router.post('/2fa/setup', passport.authenticate('jwt', { session: false }), authController.beginTwoFactorSetup);
+
+/**
+ * @swagger
+ * /auth/2fa/confirm:
+ *   post:
+ *     summary: Enable two-factor authentication with a first code and return one-time recovery codes
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ */
+// Two-factor confirmation route
+router.post(
+  '/2fa/confirm',
+  passport.authenticate('jwt', { session: false }),
+  validateBody(totpCodeBodySchema),
+  authController.confirmTwoFactorSetup,
+);
+
+/**
+ * @swagger
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace the caller's recovery codes; requires an authenticator code
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ */
+// Recovery codes regeneration route
+router.post(
+  '/2fa/recovery-codes',
+  passport.authenticate('jwt', { session: false }),
+  validateBody(totpCodeBodySchema),
+  authController.regenerateRecoveryCodes,
+);
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication unless the caller's agency requires it for their role
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ */
+// Two-factor disable route
+router.post(
+  '/2fa/disable',
+  passport.authenticate('jwt', { session: false }),
+  validateBody(totpCodeBodySchema),
+  authController.disableTwoFactor,
+);
+
 export default router;
@@ -1,7 +1,9 @@
 import jwt, { SignOptions, Secret } from 'jsonwebtoken';
 import { Types } from 'mongoose';
+import { Agency } from '../../shared/models/agency.model';
 import { User, IUser } from '../../shared/models/user.model';
 import { Role } from '../../shared/models/role.model';
+import { auditService } from '../../shared/services/audit.service';
 import { emailService } from '../../shared/services/email.service';
 import {
   BadRequestError,
@@ -14,7 +16,35 @@ import {
 } from '../../shared/utils/CustomError';
 import { BaseService } from '../../shared/services/BaseService';
 import { config } from '../../shared/config/index';
-import { ILoginInput, IRegisterInput, IPasswordResetInput, IRefreshTokenInput, ILoginResponse } from './auth.interface';
+import { getEmailDomain } from '../../shared/utils/emailDomain';
+import { escapeRegex } from '../../shared/utils/escapeRegex';
+import { AuditStatus } from '../../types/enum/audit';
+import { SessionRevocationReason } from '../../types/enum/auth';
+import { UserRole } from '../../types/enum/user';
+import { invitationService } from '../user/invitation.service';
+import { userService } from '../user/user.service';
+
+import {
+  ILoginInput,
+  IRegisterInput,
+  IRegisterResponse,
+  IPasswordResetInput,
+  IRefreshTokenInput,
+  ILoginResponse,
+  IAuthTokens,
+  IClientInfo,
+  IImpersonationTokens,
+  IMfaChallengeResponse,
+  ILoginWithRecoveryCodes,
+  ISecondFactorInput,
+  ITwoFactorSetupResponse,
+} from './auth.interface';
+import { IImpersonation, sessionService } from './session.service';
+import { twoFactorService } from './twoFactor.service';
+
+const MFA_TOKEN_PURPOSE = 'mfa';
+// Long enough to scan a QR code during a required enrollment
+const MFA_TOKEN_EXPIRES_IN = '10m';
 
 export class AuthService extends BaseService<IUser> {
   private readonly tokenOptions: SignOptions = {
@@ -22,8 +52,8 @@ export class AuthService extends BaseService<IUser> {
     algorithm: 'RS256',
   };
 
-  private readonly refreshTokenOptions: SignOptions = {
-    expiresIn: config.jwt.refreshExpiresIn as jwt.SignOptions['expiresIn'],
+  private readonly mfaTokenOptions: SignOptions = {
+    expiresIn: MFA_TOKEN_EXPIRES_IN,
     algorithm: 'RS256',
   };
 
@@ -37,32 +67,39 @@ export class AuthService extends BaseService<IUser> {
     super(User, 'User');
   }
 
-  async register(data: IRegisterInput): Promise<void> {
+  /**
+   * Register through an invitation, or self-register into the agency that allows the email domain
+   */
+  async register(data: IRegisterInput): Promise<IRegisterResponse> {
     try {
-      // Validate role exists
-      const roleExists = await Role.findById(data.role);
-      if (!roleExists) {
-        throw new BadRequestError('Invalid role provided');
+      const { invitationToken, ...account } = data;
+
+      // The invitation fixes the agency and role, and its link already proved the email
+      if (invitationToken) {
+        await invitationService.acceptInvitation({ ...account, token: invitationToken });
+        return { emailVerificationRequired: false };
       }
 
       // Check if user already exists
-      const existingUser = await this.findOne({ email: data.email });
+      const existingUser = await this.findOne({ email: account.email });
       if (existingUser) {
         throw new BusinessError('User with this email already exists');
       }
 
       // Create new user - use User model directly to avoid type conflicts
       const user = new User({
-        ...data,
-        role: roleExists._id,
+        ...account,
+        ...(await this.getSelfSignupPlacement(account.email)),
       });
       await user.save();
 
       // Generate email verification token
       await user.generateEmailVerificationToken();
 
-      // Send verification email
-      await emailService.sendVerificationEmail(user.email, user.emailVerificationToken!);
+      // Queue the verification email; a mail outage delays it without failing the signup
+      const agency = await Agency.findById(user.agency).exec();
+      await emailService.sendVerificationEmail(user.email, user.emailVerificationToken!, agency);
+      return { emailVerificationRequired: true };
     } catch (error: any) {
       if (error instanceof CustomError) {
         throw error;
@@ -71,7 +108,7 @@ export class AuthService extends BaseService<IUser> {
     }
   }
 
-  async verifyEmail(token: string): Promise<void> {
+  async verifyEmail(token: string, client: IClientInfo): Promise<void> {
     try {
       if (!token) {
         throw new BadRequestError('Verification token is required');
@@ -83,6 +120,7 @@ export class AuthService extends BaseService<IUser> {
       });
 
       if (!user) {
+        await auditService.logEmailVerification(null, client, AuditStatus.FAILURE, { reason: 'invalid_token' });
         throw new BadRequestError('Invalid or expired verification token');
       }
 
@@ -90,6 +128,7 @@ export class AuthService extends BaseService<IUser> {
       user.emailVerificationToken = undefined;
       user.emailVerificationExpires = undefined;
       await user.save();
+      await auditService.logEmailVerification(user, client, AuditStatus.SUCCESS);
     } catch (error: any) {
       if (error instanceof CustomError) {
         throw error;
@@ -98,43 +137,33 @@ export class AuthService extends BaseService<IUser> {
     }
   }
 
-  async login(data: ILoginInput): Promise<ILoginResponse> {
+  async login(data: ILoginInput, client: IClientInfo): Promise<ILoginResponse | IMfaChallengeResponse> {
+    let user: IUser | null = null;
     try {
       // Find user by email
-      const user = await this.findOne({ email: data.email });
+      user = await this.findOne({ email: data.email });
       if (!user) {
         throw new UnauthorizedError('Invalid credentials');
       }
 
-      // Check if account is locked
-      if (user.accountLockedUntil && user.accountLockedUntil > new Date()) {
-        const lockTimeRemaining = Math.ceil((user.accountLockedUntil.getTime() - Date.now()) / 60000);
-        throw new ForbiddenError(`Account is locked. Please try again in ${lockTimeRemaining} minutes.`);
-      }
+      await this.assertCanSignIn(user, data.password);
 
-      // Verify password
-      const isMatch = await user.comparePassword(data.password);
-      if (!isMatch) {
-        await this.handleFailedLogin(user);
-        throw new UnauthorizedError('Invalid credentials');
+      // Hold back the tokens until the second factor is verified or enrolled;
+      // failed attempts are only reset once the whole login succeeds
+      const mfaChallenge = await this.getMfaChallenge(user);
+      if (mfaChallenge) {
+        return mfaChallenge;
       }
 
       // Reset failed login attempts on successful login
       await this.resetFailedLoginAttempts(user);
 
-      // Generate tokens
-      const tokens = this.generateTokens(user.id.toString());
-
-      return {
-        ...tokens,
-        user: {
-          id: user.id.toString(),
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-        },
-      };
+      return await this.completeLogin(user, client);
     } catch (error: any) {
+      await auditService.logLoginAttempt(user, client, AuditStatus.FAILURE, {
+        email: data.email,
+        reason: error.message,
+      });
       if (error instanceof CustomError) {
         throw error;
       }
@@ -142,6 +171,45 @@ export class AuthService extends BaseService<IUser> {
     }
   }
 
+  /**
+   * Finish a 2FA login with a TOTP or recovery code
+   */
+  async verifyMfaChallenge(mfaToken: string, factor: ISecondFactorInput, client: IClientInfo): Promise<ILoginResponse> {
+    const user = await this.getMfaChallengeUser(mfaToken);
+    this.assertNotLocked(user);
+
+    const isValid = await twoFactorService.verify(user.id.toString(), factor);
+    if (!isValid) {
+      await this.handleFailedLogin(user);
+      await auditService.logLoginAttempt(user, client, AuditStatus.FAILURE, { reason: 'invalid_second_factor' });
+      throw new UnauthorizedError('Invalid authentication code');
+    }
+
+    await this.resetFailedLoginAttempts(user);
+    return this.completeLogin(user, client);
+  }
+
+  /**
+   * Start the 2FA enrollment an agency requires before the user can sign in
+   */
+  async beginMfaEnrollment(mfaToken: string): Promise<ITwoFactorSetupResponse> {
+    const user = await this.getMfaChallengeUser(mfaToken);
+    return twoFactorService.beginEnrollment(user.id.toString());
+  }
+
+  /**
+   * Confirm the required 2FA enrollment and finish the login
+   */
+  async confirmMfaEnrollment(mfaToken: string, code: string, client: IClientInfo): Promise<ILoginWithRecoveryCodes> {
+    const user = await this.getMfaChallengeUser(mfaToken);
+    this.assertNotLocked(user);
+
+    const recoveryCodes = await twoFactorService.confirmEnrollment(user.id.toString(), code);
+
+    await this.resetFailedLoginAttempts(user);
+    return { ...(await this.completeLogin(user, client)), recoveryCodes };
+  }
+
   async forgotPassword(email: string): Promise<void> {
     const user = await User.findOne({ email });
     if (!user) {
@@ -149,10 +217,11 @@ export class AuthService extends BaseService<IUser> {
     }
 
     await user.generatePasswordResetToken();
-    await emailService.sendPasswordResetEmail(user.email, user.passwordResetToken!);
+    const agency = await Agency.findById(user.agency).exec();
+    await emailService.sendPasswordResetEmail(user.email, user.passwordResetToken!, agency);
   }
 
-  async resetPassword(token: string, data: IPasswordResetInput): Promise<void> {
+  async resetPassword(token: string, data: IPasswordResetInput, client: IClientInfo): Promise<void> {
     try {
       const user = await User.findOne({
         passwordResetToken: token,
@@ -160,6 +229,7 @@ export class AuthService extends BaseService<IUser> {
       });
 
       if (!user) {
+        await auditService.logPasswordReset(null, client, AuditStatus.FAILURE, { reason: 'invalid_token' });
         throw new Error('Invalid or expired reset token');
       }
 
@@ -167,6 +237,10 @@ export class AuthService extends BaseService<IUser> {
       user.passwordResetToken = undefined;
       user.passwordResetExpires = undefined;
       await user.save();
+      await auditService.logPasswordReset(user, client, AuditStatus.SUCCESS);
+
+      // A reset password must not leave other logins alive
+      await sessionService.revokeAllForUser(user.id.toString(), SessionRevocationReason.PASSWORD_RESET);
     } catch (error: any) {
       if (error instanceof CustomError) {
         throw error;
@@ -175,24 +249,45 @@ export class AuthService extends BaseService<IUser> {
     }
   }
 
-  async refreshToken(data: IRefreshTokenInput): Promise<{ token: string }> {
-    try {
-      const decoded = jwt.verify(data.refreshToken, config.jwt.refreshSecret) as { id: string };
-      const user = await this.findById(decoded.id);
+  /**
+   * Rotate a refresh token and issue a new access token with it
+   */
+  async refreshToken(data: IRefreshTokenInput): Promise<IAuthTokens> {
+    const { userId, sessionId, refreshToken } = await sessionService.rotate(data.refreshToken);
 
-      if (!user) {
-        throw new ForbiddenError('Invalid refresh token');
-      }
+    const user = await this.findOne({ _id: userId });
+    if (!user?.isActive) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+    await this.assertAgencyActive(user);
 
-      const token = jwt.sign({ id: user._id }, config.jwt.secret as Secret, this.tokenOptions);
+    return { token: this.signAccessToken(userId, sessionId), refreshToken };
+  }
 
-      return { token };
-    } catch (error: any) {
-      if (error instanceof CustomError) {
-        throw error;
-      }
-      throw new UnauthorizedError('Token refresh failed');
-    }
+  /**
+   * End the session the refresh token belongs to
+   */
+  async logout(data: IRefreshTokenInput): Promise<void> {
+    await sessionService.revokeByRefreshToken(data.refreshToken);
+  }
+
+  /**
+   * End every session of the user
+   */
+  async logoutAll(userId: string): Promise<void> {
+    await sessionService.revokeAllForUser(userId, SessionRevocationReason.LOGOUT_ALL);
+  }
+
+  /**
+   * Open a session for a platform operator to act as a user and sign its access token
+   */
+  async startImpersonation(
+    userId: string,
+    client: IClientInfo,
+    impersonation: IImpersonation,
+  ): Promise<IImpersonationTokens> {
+    const sessionId = await sessionService.createImpersonationSession(userId, client, impersonation);
+    return { sessionId, token: this.signAccessToken(userId, sessionId) };
   }
 
   /**
@@ -233,20 +328,154 @@ export class AuthService extends BaseService<IUser> {
   }
 
   /**
-   * Generate JWT tokens
+   * Place a self-registered user in the agent role of the agency that allows their email domain
+   */
+  private async getSelfSignupPlacement(email: string): Promise<{ agency: string; role: Types.ObjectId }> {
+    const agency = await this.findSelfSignupAgency(email);
+    const agentRole = await Role.findOne({ agency, type: UserRole.AGENT, isActive: true });
+    if (!agentRole) {
+      throw new BusinessError('Self-service signup is not available for this agency');
+    }
+    await userService.assertSeatAvailable(agency);
+
+    return { agency, role: agentRole._id as Types.ObjectId };
+  }
+
+  /**
+   * Find the only active agency whose allowed domains include the email's domain
+   */
+  private async findSelfSignupAgency(email: string): Promise<string> {
+    const domain = getEmailDomain(email);
+    const agencies = domain
+      ? await Agency.find({
+          isActive: true,
+          'settings.allowedDomains': { $regex: `^${escapeRegex(domain)}$`, $options: 'i' },
+        })
+          .select('_id')
+          .limit(2)
+          .lean()
+      : [];
+
+    // Shared domains are ambiguous, so those users need an invitation too
+    if (agencies.length !== 1) {
+      throw new ForbiddenError('Registration requires an invitation from your agency');
+    }
+    return agencies[0]._id.toString();
+  }
+
+  /**
+   * Reject users of agencies the platform has suspended
+   */
+  private async assertAgencyActive(user: IUser): Promise<void> {
+    if (!(await Agency.exists({ _id: user.agency, isActive: true }))) {
+      throw new ForbiddenError('Your agency has been suspended. Please contact support.');
+    }
+  }
+
+  /**
+   * Reject logins while the account is locked after too many failures
+   */
+  private assertNotLocked(user: IUser): void {
+    if (user.accountLockedUntil && user.accountLockedUntil > new Date()) {
+      const lockTimeRemaining = Math.ceil((user.accountLockedUntil.getTime() - Date.now()) / 60000);
+      throw new ForbiddenError(`Account is locked. Please try again in ${lockTimeRemaining} minutes.`);
+    }
+  }
+
+  /**
+   * Verify the password and that the account and its agency may sign in
+   */
+  private async assertCanSignIn(user: IUser, password: string): Promise<void> {
+    // Check if account is locked
+    this.assertNotLocked(user);
+
+    // Verify password
+    const isMatch = await user.comparePassword(password);
+    if (!isMatch) {
+      await this.handleFailedLogin(user);
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    if (!user.isActive) {
+      throw new ForbiddenError('Account is deactivated. Please contact your agency administrator.');
+    }
+    await this.assertAgencyActive(user);
+  }
+
+  /**
+   * Start a session for a fully authenticated user
+   */
+  private async completeLogin(user: IUser, client: IClientInfo): Promise<ILoginResponse> {
+    const tokens = await this.generateTokens(user.id.toString(), client);
+    await auditService.logLoginAttempt(user, client, AuditStatus.SUCCESS);
+
+    return {
+      ...tokens,
+      user: {
+        id: user.id.toString(),
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+      },
+    };
+  }
+
+  /**
+   * Build the second login step for users with 2FA enabled or required by their agency
    */
-  private generateTokens(userId: string): { token: string; refreshToken: string } {
+  private async getMfaChallenge(user: IUser): Promise<IMfaChallengeResponse | null> {
+    const enrollmentRequired = !user.twoFactor?.enabled && (await twoFactorService.isRequiredFor(user));
+    if (!user.twoFactor?.enabled && !enrollmentRequired) {
+      return null;
+    }
+    return { mfaRequired: true, enrollmentRequired, mfaToken: this.signMfaToken(user.id.toString()) };
+  }
+
+  /**
+   * Sign the short-lived token that carries a login between its two steps.
+   * It has no session, so the JWT strategy never accepts it as an access token.
+   */
+  private signMfaToken(userId: string): string {
+    return jwt.sign({ id: userId, purpose: MFA_TOKEN_PURPOSE }, config.jwt.secret as Secret, this.mfaTokenOptions);
+  }
+
+  /**
+   * Resolve the user of a pending 2FA login
+   */
+  private async getMfaChallengeUser(mfaToken: string): Promise<IUser> {
+    let payload: { id?: string; purpose?: string };
     try {
-      const token = jwt.sign({ id: userId }, config.jwt.secret as Secret, this.tokenOptions);
+      payload = jwt.verify(mfaToken, config.jwt.secret as Secret, { algorithms: ['RS256'] }) as typeof payload;
+    } catch {
+      throw new UnauthorizedError('Two-factor challenge expired, please sign in again');
+    }
+
+    const user = payload.purpose === MFA_TOKEN_PURPOSE ? await this.findOne({ _id: payload.id, isActive: true }) : null;
+    if (!user) {
+      throw new UnauthorizedError('Invalid two-factor challenge');
+    }
+    await this.assertAgencyActive(user);
+    return user;
+  }
 
-      const refreshToken = jwt.sign({ id: userId }, config.jwt.refreshPrivateKey as Secret, this.refreshTokenOptions);
+  /**
+   * Start a session and generate its access and refresh tokens
+   */
+  private async generateTokens(userId: string, client: IClientInfo): Promise<IAuthTokens> {
+    const { sessionId, refreshToken } = await sessionService.createSession(userId, client);
+    const token = this.signAccessToken(userId, sessionId);
 
-      return { token, refreshToken };
-    } catch (error: any) {
-      if (error instanceof CustomError) {
-        throw error;
-      }
-      throw new InternalServerError(`Token generation failed: ${error.message}`);
+    return { token, refreshToken };
+  }
+
+  /**
+   * Sign a short-lived access token bound to a session
+   */
+  private signAccessToken(userId: string, sessionId: string): string {
+    try {
+      return jwt.sign({ id: userId, sid: sessionId }, config.jwt.secret as Secret, this.tokenOptions);
+    } catch (error) {
+      throw new InternalServerError(`Token generation failed: ${(error as Error).message}`);
     }
   }
 }
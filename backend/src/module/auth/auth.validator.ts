@@ -1,14 +1,14 @@
 import { z } from 'zod';
 
 // Common validation schemas
-const emailSchema = z
+export const emailSchema = z
   .string()
   .email('Invalid email format')
   .toLowerCase()
   .trim()
   .max(255, 'Email must not exceed 255 characters');
 
-const passwordSchema = z
+export const passwordSchema = z
   .string()
   .min(8, 'Password must be at least 8 characters')
   .max(128, 'Password must not exceed 128 characters')
@@ -17,7 +17,7 @@ const passwordSchema = z
   .regex(/[0-9]/, 'Password must contain at least one number')
   .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character');
 
-const nameSchema = z
+export const nameSchema = z
   .string()
   .min(2, 'Name must be at least 2 characters')
   .max(50, 'Name must not exceed 50 characters')
@@ -26,14 +26,25 @@ const nameSchema = z
 
 const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ObjectId format');
 
-// Registration schema with comprehensive validation
+const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'Authentication code must be 6 digits');
+
+const recoveryCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[\dA-Fa-f]{5}-?[\dA-Fa-f]{5}$/, 'Invalid recovery code format');
+
+const mfaTokenSchema = z.string().min(1, 'Two-factor challenge token is required').max(2048, 'Invalid token format');
+
+// Registration schema; without an invitation token the email domain decides the agency
 export const registerSchema = z.object({
   email: emailSchema,
   password: passwordSchema,
   firstName: nameSchema,
   lastName: nameSchema,
-  role: objectIdSchema,
-  agency: objectIdSchema.optional(),
+  invitationToken: z.string().min(1, 'Invitation token is required').max(64, 'Invalid token format').optional(),
 });
 
 // Login schema
@@ -55,7 +66,7 @@ export const passwordResetSchema = z
 
 // Refresh token schema
 export const refreshTokenSchema = z.object({
-  refreshToken: z.string().min(1, 'Refresh token is required').max(500, 'Invalid refresh token format'),
+  refreshToken: z.string().min(1, 'Refresh token is required').max(2048, 'Invalid refresh token format'),
 });
 
 // Forgot password schema
@@ -68,11 +79,42 @@ export const emailVerificationSchema = z.object({
   token: z.string().min(1, 'Verification token is required').max(64, 'Invalid token format'),
 });
 
+// Second login step: exactly one of an authenticator code or a recovery code
+export const mfaChallengeSchema = z
+  .object({
+    mfaToken: mfaTokenSchema,
+    code: totpCodeSchema.optional(),
+    recoveryCode: recoveryCodeSchema.optional(),
+  })
+  .refine((data) => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: 'Provide either an authentication code or a recovery code',
+    path: ['code'],
+  });
+
+// Required enrollment during login
+export const mfaTokenBodySchema = z.object({
+  mfaToken: mfaTokenSchema,
+});
+
+export const mfaEnrollmentConfirmSchema = z.object({
+  mfaToken: mfaTokenSchema,
+  code: totpCodeSchema,
+});
+
+// Authenticated 2FA management schema
+export const totpCodeBodySchema = z.object({
+  code: totpCodeSchema,
+});
+
 // Parameters validation schemas
 export const tokenParamSchema = z.object({
   token: z.string().min(1, 'Token is required').max(64, 'Invalid token format'),
 });
 
+export const sessionIdParamSchema = z.object({
+  sessionId: objectIdSchema,
+});
+
 // Export types
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
@@ -80,4 +122,5 @@ export type PasswordResetInput = z.infer<typeof passwordResetSchema>;
 export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
 export type EmailVerificationInput = z.infer<typeof emailVerificationSchema>;
+export type MfaChallengeInput = z.infer<typeof mfaChallengeSchema>;
 export type TokenParamInput = z.infer<typeof tokenParamSchema>;
@@ -0,0 +1,343 @@
+import crypto from 'node:crypto';
+
+import jwt, { JwtPayload, Secret, SignOptions } from 'jsonwebtoken';
+import { FilterQuery, Types } from 'mongoose';
+
+import { config } from '../../shared/config/index';
+import { MILLISECONDS_IN_SECOND, MINUTE_IN_MILLISECONDS } from '../../shared/constant/timeValues';
+import { ISession, Session } from '../../shared/models/session.model';
+import { BaseService } from '../../shared/services/BaseService';
+import { CustomError, InternalServerError, NotFoundError, UnauthorizedError } from '../../shared/utils/CustomError';
+import logger from '../../shared/utils/logger';
+import { describeDevice } from '../../shared/utils/userAgent';
+import { SessionRevocationReason } from '../../types/enum/auth';
+
+import { IClientInfo } from './auth.interface';
+
+interface IRefreshTokenPayload extends JwtPayload {
+  id: string;
+  fam: string;
+  jti: string;
+}
+
+export interface IIssuedSession {
+  sessionId: string;
+  refreshToken: string;
+}
+
+export interface IRotatedSession extends IIssuedSession {
+  userId: string;
+}
+
+export interface IImpersonation {
+  operatorId: string;
+  reason: string;
+  expiresAt: Date;
+}
+
+// Authenticated requests refresh lastSeenAt at most this often
+const LAST_SEEN_RESOLUTION = MINUTE_IN_MILLISECONDS;
+
+/**
+ * Session Service Class
+ * Stores one session per login, including its refresh-token family, so tokens
+ * can be rotated and every device can be listed and revoked
+ */
+export class SessionService extends BaseService<ISession> {
+  private readonly refreshTokenOptions: SignOptions = {
+    expiresIn: config.jwt.refreshExpiresIn as SignOptions['expiresIn'],
+    algorithm: 'RS256',
+  };
+
+  constructor() {
+    super(Session, 'Session');
+  }
+
+  /**
+   * Start a session for a fresh login
+   * @param userId - User logging in
+   * @param client - IP and user agent of the login request
+   * @returns Session ID and the first refresh token of its family
+   */
+  async createSession(userId: string, client: IClientInfo): Promise<IIssuedSession> {
+    const sessionId = new Types.ObjectId();
+    const jti = crypto.randomUUID();
+    const refreshToken = this.sign(userId, sessionId.toString(), jti);
+
+    try {
+      await this.model.create({
+        _id: sessionId,
+        user: userId,
+        currentJti: jti,
+        device: describeDevice(client.userAgent),
+        ip: client.ip,
+        userAgent: client.userAgent,
+        expiresAt: this.getExpiry(refreshToken),
+      });
+      return { sessionId: sessionId.toString(), refreshToken };
+    } catch (error) {
+      this.handleDatabaseError(error, 'createSession');
+    }
+  }
+
+  /**
+   * Start a session a platform operator uses to act as a user.
+   * It has no refresh token, so it ends at its expiry or when revoked.
+   * @param userId - User being impersonated
+   * @param client - IP and user agent of the operator
+   * @param impersonation - Operator, their reason and when the session ends
+   * @returns Session ID
+   */
+  async createImpersonationSession(
+    userId: string,
+    client: IClientInfo,
+    impersonation: IImpersonation,
+  ): Promise<string> {
+    try {
+      const session = await this.model.create({
+        user: userId,
+        currentJti: crypto.randomUUID(),
+        device: describeDevice(client.userAgent),
+        ip: client.ip,
+        userAgent: client.userAgent,
+        expiresAt: impersonation.expiresAt,
+        impersonatedBy: impersonation.operatorId,
+        impersonationReason: impersonation.reason,
+      });
+      return session.id;
+    } catch (error) {
+      this.handleDatabaseError(error, 'createImpersonationSession');
+    }
+  }
+
+  /**
+   * Exchange a refresh token for the next one of its session.
+   * Presenting a token that was already rotated revokes the whole session.
+   * @param refreshToken - Refresh token presented by the client
+   * @returns Owner and session of the token, and its replacement
+   * @throws {UnauthorizedError} When the token is invalid, expired, revoked or reused
+   */
+  async rotate(refreshToken: string): Promise<IRotatedSession> {
+    const payload = this.verify(refreshToken);
+    const nextJti = crypto.randomUUID();
+    const nextToken = this.sign(payload.id, payload.fam, nextJti);
+
+    try {
+      const session = await this.model
+        .findOneAndUpdate(
+          { _id: payload.fam, user: payload.id, currentJti: payload.jti, revokedAt: { $exists: false } },
+          { currentJti: nextJti, expiresAt: this.getExpiry(nextToken), lastSeenAt: new Date() },
+          { new: true },
+        )
+        .exec();
+
+      if (!session) {
+        await this.handleRejectedToken(payload);
+        throw new UnauthorizedError('Invalid refresh token');
+      }
+
+      return { userId: payload.id, sessionId: payload.fam, refreshToken: nextToken };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'rotate');
+    }
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to
+   * @param refreshToken - Refresh token presented by the client
+   * @throws {UnauthorizedError} When the token is invalid or expired
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const payload = this.verify(refreshToken);
+    await this.revokeSessions({ _id: payload.fam, user: payload.id }, SessionRevocationReason.LOGOUT);
+  }
+
+  /**
+   * Revoke every active session of a user
+   * @param userId - User ID
+   * @param reason - Why the sessions are revoked
+   */
+  async revokeAllForUser(userId: string, reason: SessionRevocationReason): Promise<void> {
+    await this.revokeSessions({ user: userId }, reason);
+  }
+
+  /**
+   * Revoke every active session of several users, e.g. all users of a suspended agency
+   * @param userIds - User IDs
+   * @param reason - Why the sessions are revoked
+   */
+  async revokeAllForUsers(userIds: string[], reason: SessionRevocationReason): Promise<void> {
+    await this.revokeSessions({ user: { $in: userIds } }, reason);
+  }
+
+  /**
+   * End an impersonation session
+   * @param sessionId - Session ID
+   * @returns The ended session
+   * @throws {NotFoundError} When there is no such active impersonation session
+   */
+  async endImpersonation(sessionId: string): Promise<ISession> {
+    try {
+      const session = await this.model
+        .findOneAndUpdate(
+          this.activeFilter({ _id: sessionId, impersonatedBy: { $exists: true } }),
+          { revokedAt: new Date(), revokedReason: SessionRevocationReason.IMPERSONATION_ENDED },
+          { new: true },
+        )
+        .exec();
+      if (!session) {
+        throw new NotFoundError(`Impersonation session not found with ID: ${sessionId}`);
+      }
+      return session;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'endImpersonation');
+    }
+  }
+
+  /**
+   * Revoke one session of a user, e.g. a lost device
+   * @param userId - User ID
+   * @param sessionId - Session ID
+   * @throws {NotFoundError} When the user has no such active session
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await this.revokeSessions(
+      { _id: sessionId, user: userId },
+      SessionRevocationReason.REVOKED_BY_USER,
+    );
+    if (!revoked) {
+      throw new NotFoundError(`Session not found with ID: ${sessionId}`);
+    }
+  }
+
+  /**
+   * List the active sessions of a user, most recently used first
+   * @param userId - User ID
+   * @returns Active sessions
+   */
+  async listActiveSessions(userId: string): Promise<ISession[]> {
+    return this.find(this.activeFilter({ user: userId }), { sort: { lastSeenAt: -1 } });
+  }
+
+  /**
+   * Check that a session is still active and record that it was just used
+   * @param userId - User ID
+   * @param sessionId - Session ID carried by the access token
+   * @returns The active session, or null when it is revoked, expired or not the user's
+   */
+  async touch(userId: string, sessionId: string): Promise<ISession | null> {
+    try {
+      const session = await this.model
+        .findOne(this.activeFilter({ _id: sessionId, user: userId }))
+        .select('lastSeenAt impersonatedBy')
+        .exec();
+      if (!session) {
+        return null;
+      }
+
+      if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION) {
+        await this.model.updateOne({ _id: sessionId }, { lastSeenAt: new Date() }).exec();
+      }
+      return session;
+    } catch (error) {
+      this.handleDatabaseError(error, 'touch');
+    }
+  }
+
+  /**
+   * Revoke the session of a token that failed rotation if the token was a stale one
+   * @param payload - Verified token payload
+   */
+  private async handleRejectedToken(payload: IRefreshTokenPayload): Promise<void> {
+    const session = await this.model.findOne({ _id: payload.fam, user: payload.id }).exec();
+    if (!session || session.revokedAt) {
+      return;
+    }
+
+    logger.warn(`Refresh token reuse detected for user ${payload.id}, revoking session ${payload.fam}`);
+    await this.revokeSessions({ _id: payload.fam }, SessionRevocationReason.REUSE_DETECTED);
+  }
+
+  /**
+   * Mark active sessions matching a filter as revoked
+   * @param filter - Sessions to revoke
+   * @param reason - Why the sessions are revoked
+   * @returns Number of sessions revoked
+   */
+  private async revokeSessions(filter: FilterQuery<ISession>, reason: SessionRevocationReason): Promise<number> {
+    try {
+      const result = await this.model
+        .updateMany(this.activeFilter(filter), { revokedAt: new Date(), revokedReason: reason })
+        .exec();
+      return result.modifiedCount;
+    } catch (error) {
+      this.handleDatabaseError(error, 'revokeSessions');
+    }
+  }
+
+  /**
+   * Restrict a filter to sessions that are neither revoked nor expired
+   * @param filter - Base filter
+   * @returns Filter on active sessions
+   */
+  private activeFilter(filter: FilterQuery<ISession>): FilterQuery<ISession> {
+    return { ...filter, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } };
+  }
+
+  /**
+   * Sign a refresh token for a session
+   * @param userId - User ID
+   * @param sessionId - Session ID
+   * @param jti - Unique token ID
+   * @returns Signed refresh token
+   * @throws {InternalServerError} When signing fails
+   */
+  private sign(userId: string, sessionId: string, jti: string): string {
+    try {
+      return jwt.sign({ id: userId, fam: sessionId }, config.jwt.refreshPrivateKey as Secret, {
+        ...this.refreshTokenOptions,
+        jwtid: jti,
+      });
+    } catch (error) {
+      throw new InternalServerError(`Token generation failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Verify a refresh token signature, expiry and shape
+   * @param refreshToken - Refresh token presented by the client
+   * @returns Token payload
+   * @throws {UnauthorizedError} When the token is invalid or expired
+   */
+  private verify(refreshToken: string): IRefreshTokenPayload {
+    try {
+      const payload = jwt.verify(refreshToken, config.jwt.refreshPublicKey as Secret, {
+        algorithms: ['RS256'],
+      }) as IRefreshTokenPayload;
+      if (!payload.id || !payload.fam || !payload.jti) {
+        throw new UnauthorizedError('Invalid refresh token');
+      }
+      return payload;
+    } catch {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+  }
+
+  /**
+   * Read the expiry of a freshly signed token
+   * @param refreshToken - Signed refresh token
+   * @returns Expiry date
+   */
+  private getExpiry(refreshToken: string): Date {
+    const { exp } = jwt.decode(refreshToken) as JwtPayload;
+    return new Date((exp ?? 0) * MILLISECONDS_IN_SECOND);
+  }
+}
+
+export const sessionService = new SessionService();
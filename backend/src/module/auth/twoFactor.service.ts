@@ -0,0 +1,229 @@
+import crypto from 'node:crypto';
+
+import { Agency } from '../../shared/models/agency.model';
+import { Role } from '../../shared/models/role.model';
+import { IUser, User } from '../../shared/models/user.model';
+import { BadRequestError, BusinessError, NotFoundError, UnauthorizedError } from '../../shared/utils/CustomError';
+import { buildTotpUri, generateTotpSecret, matchTotpStep } from '../../shared/utils/totp';
+import { UserRole } from '../../types/enum/user';
+
+import { ITwoFactorSetupResponse, ITwoFactorStatusResponse, ISecondFactorInput } from './auth.interface';
+
+const TOTP_ISSUER = 'AthithiPro CRM';
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_BYTES = 5;
+const RECOVERY_CODE_GROUP_LENGTH = 5;
+const TWO_FACTOR_SECRET_FIELDS =
+  '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes +twoFactor.lastUsedStep';
+
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(code.replace(/-/g, '').toLowerCase()).digest('hex');
+
+/**
+ * Two-Factor Service Class
+ * TOTP enrollment, verification and recovery codes for user accounts
+ */
+export class TwoFactorService {
+  /**
+   * Whether the user's agency forces their role to use two-factor authentication
+   * @param user - User document
+   * @returns True when 2FA is mandatory for the user
+   */
+  async isRequiredFor(user: IUser): Promise<boolean> {
+    const [agency, role] = await Promise.all([
+      Agency.findById(user.agency).select('settings.twoFactorRequiredRoles').lean(),
+      Role.findById(user.role).select('type').lean(),
+    ]);
+    const requiredRoles: UserRole[] = agency?.settings?.twoFactorRequiredRoles ?? [];
+
+    return Boolean(role && requiredRoles.includes(role.type as UserRole));
+  }
+
+  /**
+   * Current two-factor state of a user
+   * @param userId - User ID
+   * @returns Enrollment status, enforcement and remaining recovery codes
+   */
+  async getStatus(userId: string): Promise<ITwoFactorStatusResponse> {
+    const user = await this.loadUser(userId);
+
+    return {
+      enabled: user.twoFactor.enabled,
+      required: await this.isRequiredFor(user),
+      recoveryCodesRemaining: user.twoFactor.recoveryCodes?.length ?? 0,
+    };
+  }
+
+  /**
+   * Generate a pending TOTP secret to be confirmed with a first code
+   * @param userId - User ID
+   * @returns Secret and provisioning URI for authenticator apps
+   * @throws {BusinessError} When 2FA is already enabled
+   */
+  async beginEnrollment(userId: string): Promise<ITwoFactorSetupResponse> {
+    const user = await this.loadUser(userId);
+    if (user.twoFactor.enabled) {
+      throw new BusinessError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactor.pendingSecret = secret;
+    await user.save();
+
+    return { secret, otpauthUrl: buildTotpUri(secret, user.email, TOTP_ISSUER) };
+  }
+
+  /**
+   * Enable 2FA once the user proves their app generates valid codes
+   * @param userId - User ID
+   * @param code - Code from the authenticator app
+   * @returns One-time recovery codes, shown to the user only once
+   * @throws {BusinessError} When no enrollment is in progress
+   * @throws {BadRequestError} When the code is wrong
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.loadUser(userId);
+    const { enabled, pendingSecret } = user.twoFactor;
+    if (enabled || !pendingSecret) {
+      throw new BusinessError('Start two-factor enrollment before confirming it');
+    }
+
+    const step = matchTotpStep(pendingSecret, code);
+    if (step === null) {
+      throw new BadRequestError('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    user.twoFactor.enabled = true;
+    user.twoFactor.secret = pendingSecret;
+    user.twoFactor.pendingSecret = null;
+    user.twoFactor.lastUsedStep = step;
+    user.twoFactor.recoveryCodes = recoveryCodes.map(hashRecoveryCode);
+    user.twoFactor.enabledAt = new Date();
+    await user.save();
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP or recovery code as the second step of a login.
+   * Codes are single use: the TOTP step and recovery codes are consumed.
+   * @param userId - User ID
+   * @param factor - TOTP code or recovery code
+   * @returns Whether the factor was accepted
+   */
+  async verify(userId: string, factor: ISecondFactorInput): Promise<boolean> {
+    const user = await this.loadUser(userId);
+    const { enabled, secret, lastUsedStep } = user.twoFactor;
+    if (!enabled || !secret) {
+      return false;
+    }
+
+    if (factor.recoveryCode) {
+      const hash = hashRecoveryCode(factor.recoveryCode);
+      const result = await User.updateOne(
+        { _id: userId, 'twoFactor.recoveryCodes': hash },
+        { $pull: { 'twoFactor.recoveryCodes': hash } },
+      );
+      return result.modifiedCount === 1;
+    }
+
+    const step = factor.code ? matchTotpStep(secret, factor.code) : null;
+    if (step === null || (typeof lastUsedStep === 'number' && step <= lastUsedStep)) {
+      return false;
+    }
+
+    // Guard against the same code being replayed by a concurrent request
+    const result = await User.updateOne(
+      {
+        _id: userId,
+        $or: [{ 'twoFactor.lastUsedStep': { $exists: false } }, { 'twoFactor.lastUsedStep': { $lt: step } }],
+      },
+      { 'twoFactor.lastUsedStep': step },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Replace the recovery codes after re-authenticating with a TOTP code
+   * @param userId - User ID
+   * @param code - Code from the authenticator app
+   * @returns New recovery codes
+   * @throws {UnauthorizedError} When the code is wrong
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.assertCode(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await User.updateOne({ _id: userId }, { 'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode) });
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn 2FA off after re-authenticating with a TOTP code
+   * @param userId - User ID
+   * @param code - Code from the authenticator app
+   * @throws {BusinessError} When the agency requires 2FA for the user's role
+   * @throws {UnauthorizedError} When the code is wrong
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.loadUser(userId);
+    if (await this.isRequiredFor(user)) {
+      throw new BusinessError('Your agency requires two-factor authentication for your role');
+    }
+    await this.assertCode(userId, code);
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        'twoFactor.enabled': false,
+        $unset: {
+          'twoFactor.secret': 1,
+          'twoFactor.pendingSecret': 1,
+          'twoFactor.recoveryCodes': 1,
+          'twoFactor.lastUsedStep': 1,
+          'twoFactor.enabledAt': 1,
+        },
+      },
+    );
+  }
+
+  /**
+   * Require a valid TOTP code for a sensitive change
+   * @param userId - User ID
+   * @param code - Code from the authenticator app
+   * @throws {UnauthorizedError} When the code is wrong
+   */
+  private async assertCode(userId: string, code: string): Promise<void> {
+    if (!(await this.verify(userId, { code }))) {
+      throw new UnauthorizedError('Invalid authentication code');
+    }
+  }
+
+  /**
+   * Load a user together with their two-factor secrets
+   * @param userId - User ID
+   * @returns User document
+   * @throws {NotFoundError} When the user does not exist
+   */
+  private async loadUser(userId: string): Promise<IUser> {
+    const user = await User.findById(userId).select(TWO_FACTOR_SECRET_FIELDS);
+    if (!user) {
+      throw new NotFoundError(`User not found with ID: ${userId}`);
+    }
+    return user;
+  }
+
+  /**
+   * Generate human friendly single-use recovery codes such as "a1b2c-3d4e5"
+   * @returns Plain recovery codes
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(RECOVERY_CODE_BYTES).toString('hex');
+      return `${code.slice(0, RECOVERY_CODE_GROUP_LENGTH)}-${code.slice(RECOVERY_CODE_GROUP_LENGTH)}`;
+    });
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
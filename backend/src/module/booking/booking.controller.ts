@@ -0,0 +1,157 @@
+import { Response, NextFunction } from 'express';
+
+import { IBooking } from '../../shared/models/booking.model';
+import { getAuthenticatedUser } from '../../shared/utils/authUser';
+import { CreatedSuccess, NoContentSuccess, OkSuccess } from '../../shared/utils/CustomSuccess';
+import { AuthenticatedRequest } from '../../types/express/index';
+
+import { IBookingResponse } from './booking.interface';
+import { bookingService } from './booking.service';
+import { ListBookingsQuery } from './booking.validator';
+
+/**
+ * Map a booking document to its API representation
+ * @param booking - Booking document
+ * @returns Booking response payload
+ */
+export const toBookingResponse = (booking: IBooking): IBookingResponse => ({
+  id: booking.id,
+  leadId: booking.lead.toString(),
+  status: booking.status,
+  itinerary: booking.itinerary && {
+    id: booking.itinerary._id.toString(),
+    name: booking.itinerary.name,
+    description: booking.itinerary.description,
+    startDate: booking.itinerary.startDate,
+    endDate: booking.itinerary.endDate,
+  },
+  totalAmount: booking.totalAmount,
+  paidAmount: booking.paidAmount,
+  paymentStages: booking.paymentStages.map((stage) => ({
+    id: stage._id.toString(),
+    name: stage.name,
+    amount: stage.amount,
+    dueDate: stage.dueDate,
+    paid: stage.paid,
+    paidAt: stage.paidAt,
+  })),
+  createdBy: booking.createdBy.toString(),
+  createdAt: booking.createdAt,
+  updatedAt: booking.updatedAt,
+});
+
+/**
+ * Booking Controller Class
+ * Implements controller layer with proper error handling and response formatting
+ * All handlers are agency scoped through the authenticated user
+ */
+export class BookingController {
+  /**
+   * Create a new booking
+   * Validation is handled by middleware
+   */
+  async createBooking(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency, id } = getAuthenticatedUser(req);
+      const booking = await bookingService.createBooking(agency, id, req.body);
+      res.customSuccess(new CreatedSuccess(toBookingResponse(booking), 'Booking created successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List bookings with pagination and filtering
+   */
+  async listBookings(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const result = await bookingService.listBookings(agency, req.query as unknown as ListBookingsQuery);
+      res.customSuccess(
+        new OkSuccess({
+          bookings: result.bookings.map(toBookingResponse),
+          pagination: {
+            totalBookings: result.totalBookings,
+            totalPages: result.totalPages,
+            currentPage: result.currentPage,
+            hasNextPage: result.hasNextPage,
+            hasPrevPage: result.hasPrevPage,
+          },
+        }),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get booking by ID
+   */
+  async getBooking(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const booking = await bookingService.getBookingById(agency, req.params.bookingId);
+      res.customSuccess(new OkSuccess(toBookingResponse(booking)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update booking
+   * Validation is handled by middleware
+   */
+  async updateBooking(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const booking = await bookingService.updateBooking(agency, req.params.bookingId, req.body);
+      res.customSuccess(new OkSuccess(toBookingResponse(booking), 'Booking updated successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change booking status
+   * Validation is handled by middleware
+   */
+  async changeStatus(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const booking = await bookingService.changeStatus(agency, req.params.bookingId, req.body.status);
+      res.customSuccess(new OkSuccess(toBookingResponse(booking), 'Booking status updated successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Mark a payment stage as paid
+   * Validation is handled by middleware
+   */
+  async markStagePaid(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const { bookingId, stageId } = req.params;
+      const booking = await bookingService.markStagePaid(agency, bookingId, stageId, req.body.paidAt);
+      res.customSuccess(new OkSuccess(toBookingResponse(booking), 'Payment recorded successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete booking
+   */
+  async deleteBooking(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      await bookingService.deleteBooking(agency, req.params.bookingId);
+      res.customSuccess(new NoContentSuccess('Booking deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const bookingController = new BookingController();
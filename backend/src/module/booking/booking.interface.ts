@@ -0,0 +1,39 @@
+import { IBooking } from '../../shared/models/booking.model';
+import { BookingStatus } from '../../types/enum/booking';
+
+export interface IPaymentStageResponse {
+  id: string;
+  name: string;
+  amount: number;
+  dueDate: Date;
+  paid: boolean;
+  paidAt?: Date;
+}
+
+export interface IBookingResponse {
+  id: string;
+  leadId: string;
+  status: BookingStatus;
+  itinerary?: {
+    id: string;
+    name: string;
+    description?: string;
+    startDate?: Date;
+    endDate?: Date;
+  };
+  totalAmount: number;
+  paidAmount: number;
+  paymentStages: IPaymentStageResponse[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPaginatedBookings {
+  bookings: IBooking[];
+  totalBookings: number;
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
@@ -0,0 +1,304 @@
+import { Router } from 'express';
+import passport from 'passport';
+
+import { checkPermission } from '../../shared/middlewares/checkPermission.middleware';
+import { validateBody, validateParams, validateQuery } from '../../shared/middlewares/validation.middleware';
+
+import { bookingController } from './booking.controller';
+import {
+  createBookingSchema,
+  updateBookingSchema,
+  bookingStatusSchema,
+  markStagePaidSchema,
+  listBookingsQuerySchema,
+  bookingIdParamSchema,
+  paymentStageParamSchema,
+} from './booking.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /bookings:
+ *   post:
+ *     summary: Create a booking for a lead of the caller's agency
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leadId
+ *               - totalAmount
+ *             properties:
+ *               leadId:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ *               status:
+ *                 type: string
+ *                 enum: [draft, confirmed]
+ *                 description: Defaults to draft; confirming requires stages that add up to the total
+ *               itinerary:
+ *                 type: object
+ *                 required:
+ *                   - name
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                   description:
+ *                     type: string
+ *                   startDate:
+ *                     type: string
+ *                     format: date-time
+ *                   endDate:
+ *                     type: string
+ *                     format: date-time
+ *               totalAmount:
+ *                 type: number
+ *                 minimum: 0
+ *               paymentStages:
+ *                 type: array
+ *                 description: Stage amounts may not add up to more than totalAmount
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - name
+ *                     - amount
+ *                     - dueDate
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     amount:
+ *                       type: number
+ *                     dueDate:
+ *                       type: string
+ *                       format: date-time
+ */
+// Create booking
+router.post(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('bookings', 'create'),
+  validateBody(createBookingSchema),
+  bookingController.createBooking,
+);
+
+/**
+ * @swagger
+ * /bookings:
+ *   get:
+ *     summary: List the agency's bookings with pagination and filtering
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: leadId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, confirmed, paid, completed, cancelled]
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [totalAmount, paidAmount, createdAt, updatedAt]
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ */
+// List bookings
+router.get(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('bookings', 'read'),
+  validateQuery(listBookingsQuerySchema),
+  bookingController.listBookings,
+);
+
+/**
+ * @swagger
+ * /bookings/{bookingId}:
+ *   get:
+ *     summary: Get booking by ID
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Get booking details
+router.get(
+  '/:bookingId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('bookings', 'read'),
+  validateParams(bookingIdParamSchema),
+  bookingController.getBooking,
+);
+
+/**
+ * @swagger
+ * /bookings/{bookingId}:
+ *   patch:
+ *     summary: Update itinerary, total or payment schedule of a draft or confirmed booking
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: >
+ *               itinerary, totalAmount and paymentStages as on create. Existing stages are referenced by id;
+ *               paid stages cannot be removed or have their amount changed.
+ */
+// Update booking
+router.patch(
+  '/:bookingId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('bookings', 'update'),
+  validateParams(bookingIdParamSchema),
+  validateBody(updateBookingSchema),
+  bookingController.updateBooking,
+);
+
+/**
+ * @swagger
+ * /bookings/{bookingId}/status:
+ *   patch:
+ *     summary: Move a booking through draft, confirmed, paid, completed or cancelled
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [draft, confirmed, paid, completed, cancelled]
+ */
+// Change booking status
+router.patch(
+  '/:bookingId/status',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('bookings', 'update'),
+  validateParams(bookingIdParamSchema),
+  validateBody(bookingStatusSchema),
+  bookingController.changeStatus,
+);
+
+/**
+ * @swagger
+ * /bookings/{bookingId}/stages/{stageId}/pay:
+ *   patch:
+ *     summary: Mark a payment stage of a confirmed booking as paid
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *       - in: path
+ *         name: stageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               paidAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ */
+// Mark payment stage paid
+router.patch(
+  '/:bookingId/stages/:stageId/pay',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('bookings', 'update'),
+  validateParams(paymentStageParamSchema),
+  validateBody(markStagePaidSchema),
+  bookingController.markStagePaid,
+);
+
+/**
+ * @swagger
+ * /bookings/{bookingId}:
+ *   delete:
+ *     summary: Delete a draft or cancelled booking
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Delete booking
+router.delete(
+  '/:bookingId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('bookings', 'delete'),
+  validateParams(bookingIdParamSchema),
+  bookingController.deleteBooking,
+);
+
+export default router;
@@ -0,0 +1,306 @@
+import { Error as MongooseError, FilterQuery, SortOrder } from 'mongoose';
+
+import { Booking, IBooking, IPaymentStage } from '../../shared/models/booking.model';
+import { BaseService } from '../../shared/services/BaseService';
+import {
+  BadRequestError,
+  BusinessError,
+  NotFoundError,
+  InternalServerError,
+  CustomError,
+} from '../../shared/utils/CustomError';
+import { BookingStatus } from '../../types/enum/booking';
+import { leadService } from '../lead/lead.service';
+
+import { IPaginatedBookings } from './booking.interface';
+import { CreateBookingInput, ListBookingsQuery, PaymentStageInput, UpdateBookingInput } from './booking.validator';
+
+// Amounts are compared in minor units so floating point drift never blocks a payment
+const CENTS_PER_UNIT = 100;
+
+// Allowed status moves; completed and cancelled are terminal
+const STATUS_TRANSITIONS = new Map<BookingStatus, BookingStatus[]>([
+  [BookingStatus.DRAFT, [BookingStatus.CONFIRMED, BookingStatus.CANCELLED]],
+  [BookingStatus.CONFIRMED, [BookingStatus.PAID, BookingStatus.CANCELLED]],
+  [BookingStatus.PAID, [BookingStatus.COMPLETED, BookingStatus.CANCELLED]],
+  [BookingStatus.COMPLETED, []],
+  [BookingStatus.CANCELLED, []],
+]);
+
+const EDITABLE_STATUSES = new Set([BookingStatus.DRAFT, BookingStatus.CONFIRMED]);
+const DELETABLE_STATUSES = new Set([BookingStatus.DRAFT, BookingStatus.CANCELLED]);
+
+const toCents = (amount: number): number => Math.round(amount * CENTS_PER_UNIT);
+
+type StageUpdate = Omit<PaymentStageInput, 'id'> & Partial<Pick<IPaymentStage, '_id' | 'paid' | 'paidAt'>>;
+
+/**
+ * Booking Service Class
+ * Extends BaseService to inherit common CRUD operations
+ * Owns the booking status machine and the payment-stage ledger; paidAmount is always derived here
+ */
+export class BookingService extends BaseService<IBooking> {
+  constructor() {
+    super(Booking, 'Booking');
+  }
+
+  /**
+   * Create a new booking for a lead of the agency
+   * @param agencyId - Agency the booking belongs to
+   * @param userId - User creating the booking
+   * @param data - Booking creation data
+   * @returns Created booking
+   */
+  async createBooking(agencyId: string, userId: string, data: CreateBookingInput): Promise<IBooking> {
+    try {
+      const { leadId, status = BookingStatus.DRAFT, paymentStages, ...fields } = data;
+      await leadService.assertLeadInAgency(agencyId, leadId);
+
+      const booking = new Booking({
+        ...fields,
+        lead: leadId,
+        agency: agencyId,
+        createdBy: userId,
+      });
+      booking.set('paymentStages', this.mergeStages(booking, paymentStages));
+      if (status !== BookingStatus.DRAFT) {
+        this.assertTransition(booking, status);
+        booking.status = status;
+      }
+      this.applyLedger(booking);
+      return await booking.save();
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Booking creation failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get a booking of the agency by ID
+   * @param agencyId - Agency ID
+   * @param bookingId - Booking ID
+   * @returns Booking document
+   */
+  async getBookingById(agencyId: string, bookingId: string): Promise<IBooking> {
+    const booking = await this.findOne({ _id: bookingId, agency: agencyId });
+    if (!booking) {
+      throw new NotFoundError(`Booking not found with ID: ${bookingId}`);
+    }
+    return booking;
+  }
+
+  /**
+   * Update itinerary, total or payment schedule of a draft or confirmed booking
+   * @param agencyId - Agency ID
+   * @param bookingId - Booking ID
+   * @param data - Update data
+   * @returns Updated booking
+   */
+  async updateBooking(agencyId: string, bookingId: string, data: UpdateBookingInput): Promise<IBooking> {
+    const booking = await this.getBookingById(agencyId, bookingId);
+    if (!EDITABLE_STATUSES.has(booking.status)) {
+      throw new BusinessError(`A ${booking.status} booking can no longer be edited`);
+    }
+
+    const { paymentStages, ...fields } = data;
+    booking.set(fields);
+    if (paymentStages) {
+      booking.set('paymentStages', this.mergeStages(booking, paymentStages));
+    }
+    this.applyLedger(booking);
+    this.settleIfFullyPaid(booking);
+    return this.saveBooking(booking, 'updateBooking');
+  }
+
+  /**
+   * Move a booking to a new status, enforcing the allowed transitions
+   * @param agencyId - Agency ID
+   * @param bookingId - Booking ID
+   * @param status - Target status
+   * @returns Updated booking
+   */
+  async changeStatus(agencyId: string, bookingId: string, status: BookingStatus): Promise<IBooking> {
+    const booking = await this.getBookingById(agencyId, bookingId);
+    this.assertTransition(booking, status);
+
+    booking.status = status;
+    this.applyLedger(booking);
+    return this.saveBooking(booking, 'changeStatus');
+  }
+
+  /**
+   * Record payment of a single stage; the booking becomes paid once the total is covered
+   * @param agencyId - Agency ID
+   * @param bookingId - Booking ID
+   * @param stageId - Payment stage ID
+   * @param paidAt - Payment date, defaults to now
+   * @returns Updated booking
+   */
+  async markStagePaid(agencyId: string, bookingId: string, stageId: string, paidAt = new Date()): Promise<IBooking> {
+    const booking = await this.getBookingById(agencyId, bookingId);
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new BusinessError('Payments can only be recorded on confirmed bookings');
+    }
+
+    const stage = booking.paymentStages.id(stageId);
+    if (!stage) {
+      throw new NotFoundError(`Payment stage not found with ID: ${stageId}`);
+    }
+    if (stage.paid) {
+      throw new BusinessError('Payment stage is already paid');
+    }
+
+    stage.paid = true;
+    stage.paidAt = paidAt;
+    this.applyLedger(booking);
+    this.settleIfFullyPaid(booking);
+    return this.saveBooking(booking, 'markStagePaid');
+  }
+
+  /**
+   * Delete a draft or cancelled booking of the agency
+   * @param agencyId - Agency ID
+   * @param bookingId - Booking ID
+   */
+  async deleteBooking(agencyId: string, bookingId: string): Promise<void> {
+    const booking = await this.getBookingById(agencyId, bookingId);
+    if (!DELETABLE_STATUSES.has(booking.status)) {
+      throw new BusinessError('Only draft or cancelled bookings can be deleted');
+    }
+    await this.deleteById(booking.id);
+  }
+
+  /**
+   * List agency bookings with pagination and filtering
+   * @param agencyId - Agency ID
+   * @param query - Validated list query
+   * @returns Paginated bookings
+   */
+  async listBookings(agencyId: string, query: ListBookingsQuery): Promise<IPaginatedBookings> {
+    const { page, limit, sort, order, leadId, status } = query;
+    const filter: FilterQuery<IBooking> = { agency: agencyId };
+
+    if (leadId) {
+      filter.lead = leadId;
+    }
+    if (status) {
+      filter.status = status;
+    }
+
+    const sortObj: Record<string, SortOrder> = { [sort]: order === 'asc' ? 1 : -1 };
+    const result = await this.paginate(filter, page, limit, sortObj);
+
+    return {
+      bookings: result.documents,
+      totalBookings: result.totalDocuments,
+      totalPages: result.totalPages,
+      currentPage: result.currentPage,
+      hasNextPage: result.hasNextPage,
+      hasPrevPage: result.hasPrevPage,
+    };
+  }
+
+  /**
+   * Ensure a status move is allowed from the booking's current status
+   * @param booking - Booking document
+   * @param status - Target status
+   * @throws {BusinessError} When the transition is not allowed
+   */
+  private assertTransition(booking: IBooking, status: BookingStatus): void {
+    const allowed = STATUS_TRANSITIONS.get(booking.status) ?? [];
+    if (!allowed.includes(status)) {
+      throw new BusinessError(`Cannot move booking from ${booking.status} to ${status}`);
+    }
+    if (status === BookingStatus.PAID && toCents(booking.paidAmount) < toCents(booking.totalAmount)) {
+      throw new BusinessError('Booking cannot be marked paid before the total amount is received');
+    }
+  }
+
+  /**
+   * Recompute paidAmount from paid stages and validate the payment schedule against the total
+   * @param booking - Booking document, updated in place
+   * @throws {BusinessError} When the schedule exceeds the total, or does not cover it once confirmed
+   */
+  private applyLedger(booking: IBooking): void {
+    const totalCents = toCents(booking.totalAmount);
+    let scheduledCents = 0;
+    let paidCents = 0;
+
+    for (const stage of booking.paymentStages) {
+      scheduledCents += toCents(stage.amount);
+      if (stage.paid) {
+        paidCents += toCents(stage.amount);
+      }
+    }
+
+    if (scheduledCents > totalCents) {
+      throw new BusinessError('Payment stages add up to more than the booking total amount');
+    }
+    const requiresFullSchedule = ![BookingStatus.DRAFT, BookingStatus.CANCELLED].includes(booking.status);
+    if (requiresFullSchedule && scheduledCents !== totalCents) {
+      throw new BusinessError('Payment stages must add up to the booking total amount once confirmed');
+    }
+
+    booking.paidAmount = paidCents / CENTS_PER_UNIT;
+  }
+
+  /**
+   * Move a confirmed booking to paid once its paid stages cover the total amount
+   * @param booking - Booking document, updated in place
+   */
+  private settleIfFullyPaid(booking: IBooking): void {
+    const fullyPaid = toCents(booking.paidAmount) === toCents(booking.totalAmount);
+    if (booking.status === BookingStatus.CONFIRMED && fullyPaid) {
+      booking.status = BookingStatus.PAID;
+    }
+  }
+
+  /**
+   * Build the new payment schedule; paid stages keep their server-side payment state
+   * @param booking - Booking document holding the current schedule
+   * @param stages - Requested schedule
+   * @returns Stages to store on the booking
+   * @throws {BusinessError} When a paid stage would be removed or have its amount changed
+   */
+  private mergeStages(booking: IBooking, stages: PaymentStageInput[]): StageUpdate[] {
+    const keptIds = new Set(stages.map((stage) => stage.id));
+    if (booking.paymentStages.some((stage) => stage.paid && !keptIds.has(stage.id))) {
+      throw new BusinessError('Paid payment stages cannot be removed');
+    }
+
+    return stages.map(({ id, ...fields }) => {
+      if (!id) {
+        return fields;
+      }
+      const current = booking.paymentStages.id(id);
+      if (!current) {
+        throw new BadRequestError(`Payment stage not found with ID: ${id}`);
+      }
+      if (current.paid && toCents(current.amount) !== toCents(fields.amount)) {
+        throw new BusinessError('The amount of a paid payment stage cannot be changed');
+      }
+      return { ...fields, _id: current._id, paid: current.paid, paidAt: current.paidAt };
+    });
+  }
+
+  /**
+   * Persist a booking, reporting concurrent modifications as a retryable conflict
+   * @param booking - Booking document
+   * @param operation - Operation name for error reporting
+   * @returns Saved booking
+   */
+  private async saveBooking(booking: IBooking, operation: string): Promise<IBooking> {
+    try {
+      return await booking.save();
+    } catch (error) {
+      if (error instanceof MongooseError.VersionError) {
+        throw new BusinessError('Booking was modified by another request, please retry');
+      }
+      this.handleDatabaseError(error, operation);
+    }
+  }
+}
+
+export const bookingService = new BookingService();
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+
+import { PAGINATION_DEFAULT_LIMIT, PAGINATION_DEFAULT_PAGE } from '../../shared/constant/validation';
+import { BookingStatus } from '../../types/enum/booking';
+
+const NAME_MAX_LENGTH = 200;
+const DESCRIPTION_MAX_LENGTH = 5000;
+
+// Common validation schemas
+const objectIdSchema = z.string().regex(/^[\dA-Fa-f]{24}$/, 'Invalid ObjectId format');
+
+const itinerarySchema = z.object({
+  name: z.string().trim().min(1, 'Itinerary name is required').max(NAME_MAX_LENGTH),
+  description: z.string().max(DESCRIPTION_MAX_LENGTH).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+// Paid state is owned by the server; stages are marked paid through their own endpoint
+const paymentStageSchema = z.object({
+  id: objectIdSchema.optional(),
+  name: z.string().trim().min(1, 'Stage name is required').max(NAME_MAX_LENGTH),
+  amount: z.number().positive('Stage amount must be positive'),
+  dueDate: z.coerce.date(),
+});
+
+// Create booking schema; a booking starts as a draft unless confirmed straight away
+export const createBookingSchema = z.object({
+  leadId: objectIdSchema,
+  status: z.enum([BookingStatus.DRAFT, BookingStatus.CONFIRMED]).optional(),
+  itinerary: itinerarySchema.optional(),
+  totalAmount: z.number().min(0, 'Total amount cannot be negative'),
+  paymentStages: z.array(paymentStageSchema).optional().default([]),
+});
+
+// Update booking schema; the lead and status cannot be changed here
+export const updateBookingSchema = z.object({
+  itinerary: itinerarySchema.optional(),
+  totalAmount: z.number().min(0, 'Total amount cannot be negative').optional(),
+  paymentStages: z.array(paymentStageSchema).optional(),
+});
+
+// Status transition schema
+export const bookingStatusSchema = z.object({
+  status: z.nativeEnum(BookingStatus),
+});
+
+// Stage payment schema
+export const markStagePaidSchema = z.object({
+  paidAt: z.coerce.date().optional(),
+});
+
+// Query parameters schema for listing bookings
+export const listBookingsQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_PAGE)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_LIMIT)),
+  leadId: objectIdSchema.optional(),
+  status: z.nativeEnum(BookingStatus).optional(),
+  sort: z.enum(['totalAmount', 'paidAmount', 'createdAt', 'updatedAt']).optional().default('createdAt'),
+  order: z.enum(['asc', 'desc']).optional().default('desc'),
+});
+
+// Parameter validation schemas
+export const bookingIdParamSchema = z.object({
+  bookingId: objectIdSchema.describe('Booking MongoDB ObjectId'),
+});
+
+export const paymentStageParamSchema = z.object({
+  bookingId: objectIdSchema.describe('Booking MongoDB ObjectId'),
+  stageId: objectIdSchema.describe('Payment stage ObjectId'),
+});
+
+// Export types
+export type PaymentStageInput = z.infer<typeof paymentStageSchema>;
+export type CreateBookingInput = z.infer<typeof createBookingSchema>;
+export type UpdateBookingInput = z.infer<typeof updateBookingSchema>;
+export type BookingStatusInput = z.infer<typeof bookingStatusSchema>;
+export type MarkStagePaidInput = z.infer<typeof markStagePaidSchema>;
+export type ListBookingsQuery = z.infer<typeof listBookingsQuerySchema>;
+export type BookingIdParam = z.infer<typeof bookingIdParamSchema>;
+export type PaymentStageParam = z.infer<typeof paymentStageParamSchema>;
@@ -0,0 +1,179 @@
+import { Response, NextFunction } from 'express';
+
+import { ICommunication } from '../../shared/models/communication.model';
+import { getAuthenticatedUser } from '../../shared/utils/authUser';
+import { CreatedSuccess, NoContentSuccess, OkSuccess } from '../../shared/utils/CustomSuccess';
+import { AuthenticatedRequest } from '../../types/express/index';
+
+import { ICommunicationResponse } from './communication.interface';
+import { communicationService } from './communication.service';
+import { ListCommunicationsQuery } from './communication.validator';
+import { communicationEmailService } from './communicationEmail.service';
+import { communicationSmsService } from './communicationSms.service';
+import { communicationWhatsAppService } from './communicationWhatsApp.service';
+
+/**
+ * Map a communication document to its API representation
+ * @param communication - Communication document
+ * @returns Communication response payload
+ */
+export const toCommunicationResponse = (communication: ICommunication): ICommunicationResponse => ({
+  id: communication.id,
+  leadId: communication.lead.toString(),
+  channel: communication.channel,
+  direction: communication.direction,
+  content: communication.content,
+  sentAt: communication.sentAt,
+  sentBy: communication.sentBy?.toString(),
+  attachments: communication.attachments.map((attachment) => ({
+    id: attachment._id.toString(),
+    name: attachment.name,
+    url: attachment.url,
+    type: attachment.type,
+  })),
+  metadata: communication.metadata,
+  aiSentiment: communication.aiSentiment,
+  createdBy: communication.createdBy?.toString(),
+  createdAt: communication.createdAt,
+  updatedAt: communication.updatedAt,
+});
+
+/**
+ * Communication Controller Class
+ * Implements controller layer with proper error handling and response formatting
+ * All handlers are agency scoped through the authenticated user
+ */
+export class CommunicationController {
+  /**
+   * Log a new communication
+   * Validation is handled by middleware
+   */
+  async createCommunication(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency, id } = getAuthenticatedUser(req);
+      const communication = await communicationService.createCommunication(agency, id, req.body);
+      res.customSuccess(
+        new CreatedSuccess(toCommunicationResponse(communication), 'Communication logged successfully'),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send an email to a lead and log it
+   * Validation is handled by middleware
+   */
+  async sendEmail(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency, id } = getAuthenticatedUser(req);
+      const communication = await communicationEmailService.sendEmail(agency, id, req.body);
+      res.customSuccess(new CreatedSuccess(toCommunicationResponse(communication), 'Email queued for delivery'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a WhatsApp message to a lead and log it
+   * Validation is handled by middleware
+   */
+  async sendWhatsApp(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency, id } = getAuthenticatedUser(req);
+      const communication = await communicationWhatsAppService.sendWhatsApp(agency, id, req.body);
+      res.customSuccess(new CreatedSuccess(toCommunicationResponse(communication), 'WhatsApp message sent'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send an SMS to a lead and log it
+   * Validation is handled by middleware
+   */
+  async sendSms(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency, id } = getAuthenticatedUser(req);
+      const communication = await communicationSmsService.sendSms(agency, id, req.body);
+      res.customSuccess(new CreatedSuccess(toCommunicationResponse(communication), 'SMS sent'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List communications with pagination and filtering
+   */
+  async listCommunications(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const result = await communicationService.listCommunications(
+        agency,
+        req.query as unknown as ListCommunicationsQuery,
+      );
+      res.customSuccess(
+        new OkSuccess({
+          communications: result.communications.map(toCommunicationResponse),
+          pagination: {
+            totalCommunications: result.totalCommunications,
+            totalPages: result.totalPages,
+            currentPage: result.currentPage,
+            hasNextPage: result.hasNextPage,
+            hasPrevPage: result.hasPrevPage,
+          },
+        }),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get communication by ID
+   */
+  async getCommunication(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const communication = await communicationService.getCommunicationById(agency, req.params.communicationId);
+      res.customSuccess(new OkSuccess(toCommunicationResponse(communication)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download a file of a communication
+   */
+  async downloadAttachment(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const { communicationId, attachmentId } = req.params;
+      const { filename, contentType, stream } = await communicationService.openAttachment(
+        agency,
+        communicationId,
+        attachmentId,
+      );
+      res.attachment(filename);
+      res.type(contentType);
+      stream.on('error', next).pipe(res);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete communication
+   */
+  async deleteCommunication(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      await communicationService.deleteCommunication(agency, req.params.communicationId);
+      res.customSuccess(new NoContentSuccess('Communication deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const communicationController = new CommunicationController();
@@ -0,0 +1,108 @@
+import { ICommunication } from '../../shared/models/communication.model';
+import { IWhatsAppTemplate } from '../../shared/services/whatsappApi.service';
+import { CommunicationChannel, CommunicationDirection } from '../../types/enum/communication';
+import { EmailDeliveryStatus } from '../../types/enum/email';
+import { SmsDeliveryStatus, SmsEncoding, SmsProviderType } from '../../types/enum/sms';
+import { WhatsAppMessageStatus } from '../../types/enum/whatsapp';
+
+export interface ICommunicationResponse {
+  id: string;
+  leadId: string;
+  channel: CommunicationChannel;
+  direction: CommunicationDirection;
+  content: string;
+  sentAt: Date;
+  sentBy?: string;
+  attachments: {
+    id: string;
+    name: string;
+    url: string;
+    type: string;
+  }[];
+  metadata?: Record<string, unknown>;
+  aiSentiment?: number;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Kept under `metadata.email` of email communications
+export interface IEmailMetadata {
+  subject: string;
+  from: string;
+  to: string[];
+  cc?: string[];
+  replyTo?: string;
+  messageId: string;
+  inReplyTo?: string;
+  references: string[];
+  // Outgoing emails only; these follow the mail queue
+  deliveryStatus?: EmailDeliveryStatus;
+  attempts?: number;
+  error?: string | null;
+  deliveredAt?: Date | null;
+}
+
+// Kept under `metadata.whatsapp` of WhatsApp communications
+export interface IWhatsAppMetadata {
+  // WhatsApp message id (`wamid...`)
+  messageId: string;
+  // Business number of the agency
+  phoneNumberId: string;
+  // Lead's WhatsApp number as international digits
+  waId: string;
+  // `text` or `template` when outgoing; as WhatsApp reports it (`image`, `location`...) when incoming
+  type: string;
+  template?: IWhatsAppTemplate;
+  // Message an incoming one replies to
+  context?: string;
+  // Outgoing messages only; these follow the receipts
+  status?: WhatsAppMessageStatus;
+  statusUpdatedAt?: Date;
+  error?: string | null;
+}
+
+export interface IWhatsAppWebhookResult {
+  messages: number;
+  receipts: number;
+  leadsCreated: number;
+}
+
+// Kept under `metadata.sms` of SMS communications
+export interface ISmsMetadata {
+  // Provider's message id, which receipts refer to; unset until the provider accepts an outgoing message
+  messageId?: string;
+  provider: SmsProviderType;
+  // Sender ID or number of the agency when outgoing; the lead's number when incoming
+  from: string;
+  // Lead's number as international digits when outgoing; the receiving number when incoming
+  to: string;
+  encoding: SmsEncoding;
+  segments: number;
+  // Outgoing messages only; these follow the delivery receipts
+  status?: SmsDeliveryStatus;
+  statusUpdatedAt?: Date;
+  error?: string | null;
+}
+
+export interface IInboundSmsResult {
+  // Communications logged, one per lead of the receiving agency texted at the sending number
+  messages: number;
+  leadsOptedOut: number;
+  leadsOptedIn: number;
+}
+
+export interface IInboundEmailResult {
+  communication: ICommunication;
+  // Whether the sender was unknown and became a new lead
+  leadCreated: boolean;
+}
+
+export interface IPaginatedCommunications {
+  communications: ICommunication[];
+  totalCommunications: number;
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
@@ -0,0 +1,415 @@
+import { Router } from 'express';
+import passport from 'passport';
+
+import { checkPermission } from '../../shared/middlewares/checkPermission.middleware';
+import { validateBody, validateParams, validateQuery } from '../../shared/middlewares/validation.middleware';
+
+import { communicationController } from './communication.controller';
+import {
+  createCommunicationSchema,
+  sendEmailSchema,
+  sendWhatsAppSchema,
+  sendSmsSchema,
+  listCommunicationsQuerySchema,
+  communicationIdParamSchema,
+  attachmentParamSchema,
+} from './communication.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /communications:
+ *   post:
+ *     summary: Log a communication with a lead of the caller's agency
+ *     tags: [Communications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leadId
+ *               - channel
+ *               - direction
+ *               - content
+ *             properties:
+ *               leadId:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ *               channel:
+ *                 type: string
+ *                 enum: [email, phone, whatsapp, sms, in_person, other]
+ *               direction:
+ *                 type: string
+ *                 enum: [incoming, outgoing]
+ *               content:
+ *                 type: string
+ *                 maxLength: 10000
+ *               sentAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ *               attachments:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - name
+ *                     - url
+ *                     - type
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     url:
+ *                       type: string
+ *                       format: uri
+ *                     type:
+ *                       type: string
+ *               metadata:
+ *                 type: object
+ *               aiSentiment:
+ *                 type: number
+ *                 minimum: -1
+ *                 maximum: 1
+ */
+// Log communication
+router.post(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('communications', 'create'),
+  validateBody(createCommunicationSchema),
+  communicationController.createCommunication,
+);
+
+/**
+ * @swagger
+ * /communications/email:
+ *   post:
+ *     summary: Email a lead of the caller's agency and log it as an outgoing communication
+ *     description: >
+ *       The email is queued and sent through the configured mail transport, from the
+ *       platform sender address with the caller as Reply-To. It is threaded under the
+ *       email given in `inReplyTo`, or else the lead's latest email. The delivery status
+ *       is kept in `metadata.email` of the returned communication.
+ *     tags: [Communications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leadId
+ *               - subject
+ *               - content
+ *             properties:
+ *               leadId:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ *               subject:
+ *                 type: string
+ *                 maxLength: 255
+ *               content:
+ *                 type: string
+ *                 maxLength: 10000
+ *                 description: Plain text body
+ *               inReplyTo:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ *                 description: ID of the email communication answered
+ *               attachments:
+ *                 type: array
+ *                 maxItems: 10
+ *                 description: Up to 5 MB per file and 10 MB in total
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - name
+ *                     - type
+ *                     - content
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     type:
+ *                       type: string
+ *                       example: application/pdf
+ *                     content:
+ *                       type: string
+ *                       format: byte
+ *     responses:
+ *       201:
+ *         description: Email queued and communication logged
+ *       400:
+ *         description: Invalid body, or the lead has no email address
+ */
+// Send email to lead
+router.post(
+  '/email',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('communications', 'create'),
+  validateBody(sendEmailSchema),
+  communicationController.sendEmail,
+);
+
+/**
+ * @swagger
+ * /communications/whatsapp:
+ *   post:
+ *     summary: Send a WhatsApp message to a lead of the caller's agency and log it
+ *     description: >
+ *       The message is sent from the agency's `settings.whatsappPhoneNumberId` to the
+ *       lead's phone number; numbers without a country code get PHONE_DEFAULT_COUNTRY_CODE.
+ *       Free-form `text` messages are only accepted within 24 hours of the lead's last
+ *       WhatsApp message; use an approved `template` otherwise. The delivery and read
+ *       receipts are kept in `metadata.whatsapp` of the returned communication.
+ *     tags: [Communications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leadId
+ *               - type
+ *             properties:
+ *               leadId:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ *               type:
+ *                 type: string
+ *                 enum: [text, template]
+ *               content:
+ *                 type: string
+ *                 maxLength: 4096
+ *                 description: Message text, for `text` messages
+ *               template:
+ *                 type: object
+ *                 description: Approved template, for `template` messages
+ *                 required:
+ *                   - name
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                     example: booking_confirmation
+ *                   language:
+ *                     type: string
+ *                     default: en
+ *                   parameters:
+ *                     type: array
+ *                     maxItems: 10
+ *                     description: Values of the body placeholders {{1}}, {{2}}... in order
+ *                     items:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Message accepted by WhatsApp and communication logged
+ *       400:
+ *         description: >
+ *           Invalid body, the lead has no phone number, WhatsApp is not set up for the
+ *           agency, the session window is closed or WhatsApp rejected the message
+ */
+// Send WhatsApp message to lead
+router.post(
+  '/whatsapp',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('communications', 'create'),
+  validateBody(sendWhatsAppSchema),
+  communicationController.sendWhatsApp,
+);
+
+/**
+ * @swagger
+ * /communications/sms:
+ *   post:
+ *     summary: Send an SMS to a lead of the caller's agency and log it
+ *     description: >
+ *       The SMS is sent through the configured provider under the agency's
+ *       `settings.smsSenderId`, or SMS_DEFAULT_SENDER_ID, to the lead's phone number;
+ *       numbers without a country code get PHONE_DEFAULT_COUNTRY_CODE. Text with any
+ *       character outside the GSM-7 alphabet, such as Hindi, is sent as UCS-2 with 70
+ *       characters per segment instead of 160. Leads who replied STOP are not texted
+ *       until they reply START. The SMS is logged as queued before it is sent, and
+ *       is left logged as failed when the provider rejects it. Delivery receipts are
+ *       kept in `metadata.sms` of the returned communication.
+ *     tags: [Communications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leadId
+ *               - content
+ *             properties:
+ *               leadId:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ *               content:
+ *                 type: string
+ *                 description: Message text, up to 10 segments
+ *                 example: आपकी बुकिंग की पुष्टि हो गई है
+ *     responses:
+ *       201:
+ *         description: SMS accepted by the provider and communication logged
+ *       400:
+ *         description: >
+ *           Invalid body, the text is over 10 segments, the lead has no phone number,
+ *           the lead opted out of SMS or the provider rejected the message
+ */
+// Send SMS to lead
+router.post(
+  '/sms',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('communications', 'create'),
+  validateBody(sendSmsSchema),
+  communicationController.sendSms,
+);
+
+/**
+ * @swagger
+ * /communications:
+ *   get:
+ *     summary: List the agency's communications with pagination and filtering
+ *     tags: [Communications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: leadId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: channel
+ *         schema:
+ *           type: string
+ *           enum: [email, phone, whatsapp, sms, in_person, other]
+ *       - in: query
+ *         name: direction
+ *         schema:
+ *           type: string
+ *           enum: [incoming, outgoing]
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [sentAt, createdAt]
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ */
+// List communications
+router.get(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('communications', 'read'),
+  validateQuery(listCommunicationsQuerySchema),
+  communicationController.listCommunications,
+);
+
+/**
+ * @swagger
+ * /communications/{communicationId}:
+ *   get:
+ *     summary: Get communication by ID
+ *     tags: [Communications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: communicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Get communication details
+router.get(
+  '/:communicationId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('communications', 'read'),
+  validateParams(communicationIdParamSchema),
+  communicationController.getCommunication,
+);
+
+/**
+ * @swagger
+ * /communications/{communicationId}/attachments/{attachmentId}:
+ *   get:
+ *     summary: Download a file sent with a communication
+ *     tags: [Communications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: communicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Download communication attachment
+router.get(
+  '/:communicationId/attachments/:attachmentId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('communications', 'read'),
+  validateParams(attachmentParamSchema),
+  communicationController.downloadAttachment,
+);
+
+/**
+ * @swagger
+ * /communications/{communicationId}:
+ *   delete:
+ *     summary: Delete communication
+ *     tags: [Communications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: communicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Delete communication
+router.delete(
+  '/:communicationId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('communications', 'delete'),
+  validateParams(communicationIdParamSchema),
+  communicationController.deleteCommunication,
+);
+
+export default router;
@@ -0,0 +1,170 @@
+import { FilterQuery, SortOrder, Types } from 'mongoose';
+
+import { Communication, IAttachment, ICommunication } from '../../shared/models/communication.model';
+import { attachmentStorageService, IStoredAttachment } from '../../shared/services/attachmentStorage.service';
+import { BaseService } from '../../shared/services/BaseService';
+import { NotFoundError, InternalServerError, CustomError } from '../../shared/utils/CustomError';
+import { IMimeAttachment } from '../../shared/utils/mime';
+import { CommunicationDirection } from '../../types/enum/communication';
+import { leadService } from '../lead/lead.service';
+
+import { IPaginatedCommunications } from './communication.interface';
+import { CreateCommunicationInput, ListCommunicationsQuery } from './communication.validator';
+
+/**
+ * Communication Service Class
+ * Extends BaseService to inherit common CRUD operations
+ * Keeps the per-agency log of messages exchanged with leads
+ */
+export class CommunicationService extends BaseService<ICommunication> {
+  constructor() {
+    super(Communication, 'Communication');
+  }
+
+  /**
+   * Log a communication with a lead of the agency
+   * @param agencyId - Agency the communication belongs to
+   * @param userId - User logging the communication, recorded as sender of outgoing messages
+   * @param data - Communication data
+   * @returns Created communication
+   */
+  async createCommunication(agencyId: string, userId: string, data: CreateCommunicationInput): Promise<ICommunication> {
+    try {
+      const { leadId, ...fields } = data;
+      await leadService.assertLeadInAgency(agencyId, leadId);
+
+      const communication = new Communication({
+        ...fields,
+        lead: leadId,
+        agency: agencyId,
+        createdBy: userId,
+      });
+      if (fields.direction === CommunicationDirection.OUTGOING) {
+        communication.set('sentBy', userId);
+      }
+      return await communication.save();
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Communication creation failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get a communication of the agency by ID
+   * @param agencyId - Agency ID
+   * @param communicationId - Communication ID
+   * @returns Communication document
+   */
+  async getCommunicationById(agencyId: string, communicationId: string): Promise<ICommunication> {
+    const communication = await this.findOne({ _id: communicationId, agency: agencyId });
+    if (!communication) {
+      throw new NotFoundError(`Communication not found with ID: ${communicationId}`);
+    }
+    return communication;
+  }
+
+  /**
+   * Store the files of a communication that is about to be saved. Files already
+   * stored are removed again when one of them fails.
+   * @param agencyId - Agency owning the files
+   * @param communicationId - ID the communication will be saved under
+   * @param files - Files to store
+   * @returns Attachment entries pointing at the download route
+   */
+  async storeAttachments(
+    agencyId: string,
+    communicationId: Types.ObjectId,
+    files: IMimeAttachment[],
+  ): Promise<IAttachment[]> {
+    const attachments: IAttachment[] = [];
+    try {
+      for (const file of files) {
+        const fileId = new Types.ObjectId();
+        await attachmentStorageService.store(fileId, agencyId, file);
+        attachments.push({
+          _id: fileId,
+          name: file.filename,
+          type: file.contentType,
+          url: `/api/v1/communications/${communicationId.toString()}/attachments/${fileId.toString()}`,
+        });
+      }
+      return attachments;
+    } catch (error) {
+      await attachmentStorageService.remove(attachments.map((attachment) => attachment._id));
+      throw error;
+    }
+  }
+
+  /**
+   * Open a file sent or received with a communication of the agency
+   * @param agencyId - Agency ID
+   * @param communicationId - Communication ID
+   * @param attachmentId - Attachment ID
+   * @returns File name, content type and content stream
+   * @throws {NotFoundError} When the communication has no such stored file
+   */
+  async openAttachment(agencyId: string, communicationId: string, attachmentId: string): Promise<IStoredAttachment> {
+    const communication = await this.getCommunicationById(agencyId, communicationId);
+    if (!communication.attachments.id(attachmentId)) {
+      throw new NotFoundError(`Attachment not found with ID: ${attachmentId}`);
+    }
+    return attachmentStorageService.open(new Types.ObjectId(attachmentId));
+  }
+
+  /**
+   * Delete a communication of the agency, along with its stored files
+   * @param agencyId - Agency ID
+   * @param communicationId - Communication ID
+   */
+  async deleteCommunication(agencyId: string, communicationId: string): Promise<void> {
+    try {
+      const communication = await this.model.findOneAndDelete({ _id: communicationId, agency: agencyId }).exec();
+      if (!communication) {
+        throw new NotFoundError(`Communication not found with ID: ${communicationId}`);
+      }
+      await attachmentStorageService.remove(communication.attachments.map((attachment) => attachment._id));
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'deleteCommunication');
+    }
+  }
+
+  /**
+   * List agency communications with pagination and filtering
+   * @param agencyId - Agency ID
+   * @param query - Validated list query
+   * @returns Paginated communications
+   */
+  async listCommunications(agencyId: string, query: ListCommunicationsQuery): Promise<IPaginatedCommunications> {
+    const { page, limit, sort, order, leadId, channel, direction } = query;
+    const filter: FilterQuery<ICommunication> = { agency: agencyId };
+
+    if (leadId) {
+      filter.lead = leadId;
+    }
+    if (channel) {
+      filter.channel = channel;
+    }
+    if (direction) {
+      filter.direction = direction;
+    }
+
+    const sortObj: Record<string, SortOrder> = { [sort]: order === 'asc' ? 1 : -1 };
+    const result = await this.paginate(filter, page, limit, sortObj);
+
+    return {
+      communications: result.documents,
+      totalCommunications: result.totalDocuments,
+      totalPages: result.totalPages,
+      currentPage: result.currentPage,
+      hasNextPage: result.hasNextPage,
+      hasPrevPage: result.hasPrevPage,
+    };
+  }
+}
+
+export const communicationService = new CommunicationService();
@@ -0,0 +1,175 @@
+import { z } from 'zod';
+
+import { PAGINATION_DEFAULT_LIMIT, PAGINATION_DEFAULT_PAGE } from '../../shared/constant/validation';
+import { countSmsSegments } from '../../shared/utils/smsSegments';
+import { CommunicationChannel, CommunicationDirection } from '../../types/enum/communication';
+import { WhatsAppMessageType } from '../../types/enum/whatsapp';
+
+const CONTENT_MAX_LENGTH = 10_000;
+const ATTACHMENT_NAME_MAX_LENGTH = 255;
+// RFC 5322 caps a header line at 998 characters; subjects stay well below it
+const EMAIL_SUBJECT_MAX_LENGTH = 255;
+const EMAIL_ATTACHMENTS_MAX_COUNT = 10;
+const BYTES_IN_MEGABYTE = 1_048_576;
+const EMAIL_ATTACHMENT_MAX_MEGABYTES = 5;
+const EMAIL_ATTACHMENTS_MAX_TOTAL_MEGABYTES = 10;
+// Limits of the WhatsApp Cloud API
+const WHATSAPP_TEXT_MAX_LENGTH = 4096;
+const WHATSAPP_TEMPLATE_NAME_MAX_LENGTH = 512;
+const WHATSAPP_TEMPLATE_PARAMETER_MAX_LENGTH = 1024;
+const WHATSAPP_TEMPLATE_PARAMETERS_MAX_COUNT = 10;
+// Longer SMS are split into too many billed segments to be worth sending
+const SMS_MAX_SEGMENTS = 10;
+
+// Common validation schemas
+const objectIdSchema = z.string().regex(/^[\dA-Fa-f]{24}$/, 'Invalid ObjectId format');
+
+const attachmentSchema = z.object({
+  name: z.string().trim().min(1, 'Attachment name is required').max(ATTACHMENT_NAME_MAX_LENGTH),
+  url: z.string().url('Invalid attachment URL'),
+  type: z.string().min(1, 'Attachment type is required'),
+});
+
+/**
+ * Add up the decoded size of base64 attachments
+ * @param attachments - Attachments with base64 content
+ * @returns Size in bytes
+ */
+const decodedSize = (attachments: { content?: string }[]): number => {
+  let total = 0;
+  for (const { content } of attachments) {
+    total += Buffer.byteLength(content ?? '', 'base64');
+  }
+  return total;
+};
+
+// Files sent with an email, as base64 content
+const emailAttachmentSchema = z.object({
+  name: z.string().trim().min(1, 'Attachment name is required').max(ATTACHMENT_NAME_MAX_LENGTH),
+  type: z.string().regex(/^[\w!#$&+.^-]+\/[\w!#$&+.^-]+$/, 'Invalid attachment content type'),
+  content: z
+    .string()
+    .regex(/^[\d+/A-Za-z]*={0,2}$/, 'Attachment content must be base64')
+    .refine((content) => decodedSize([{ content }]) <= EMAIL_ATTACHMENT_MAX_MEGABYTES * BYTES_IN_MEGABYTE, {
+      message: `Attachments must not exceed ${EMAIL_ATTACHMENT_MAX_MEGABYTES} MB each`,
+    }),
+});
+
+// Create communication schema; outgoing messages are attributed to the caller
+export const createCommunicationSchema = z.object({
+  leadId: objectIdSchema,
+  channel: z.nativeEnum(CommunicationChannel),
+  direction: z.nativeEnum(CommunicationDirection),
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Content is required')
+    .max(CONTENT_MAX_LENGTH, 'Content must not exceed 10000 characters'),
+  sentAt: z.coerce.date().optional(),
+  attachments: z.array(attachmentSchema).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  aiSentiment: z.number().min(-1).max(1).optional(),
+});
+
+// Send email schema; the lead's address is the recipient
+export const sendEmailSchema = z.object({
+  leadId: objectIdSchema,
+  subject: z.string().trim().min(1, 'Subject is required').max(EMAIL_SUBJECT_MAX_LENGTH),
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Content is required')
+    .max(CONTENT_MAX_LENGTH, 'Content must not exceed 10000 characters'),
+  // Email communication this one answers; defaults to the lead's latest email
+  inReplyTo: objectIdSchema.optional(),
+  attachments: z
+    .array(emailAttachmentSchema)
+    .max(EMAIL_ATTACHMENTS_MAX_COUNT, 'At most 10 attachments can be sent')
+    .optional()
+    .default([])
+    .refine((attachments) => decodedSize(attachments) <= EMAIL_ATTACHMENTS_MAX_TOTAL_MEGABYTES * BYTES_IN_MEGABYTE, {
+      message: `Attachments must not exceed ${EMAIL_ATTACHMENTS_MAX_TOTAL_MEGABYTES} MB in total`,
+    }),
+});
+
+// WhatsApp message to a lead: free-form text inside the session window, or an approved template
+export const sendWhatsAppSchema = z.discriminatedUnion('type', [
+  z.object({
+    leadId: objectIdSchema,
+    type: z.literal(WhatsAppMessageType.TEXT),
+    content: z
+      .string()
+      .trim()
+      .min(1, 'Content is required')
+      .max(WHATSAPP_TEXT_MAX_LENGTH, 'Content must not exceed 4096 characters'),
+  }),
+  z.object({
+    leadId: objectIdSchema,
+    type: z.literal(WhatsAppMessageType.TEMPLATE),
+    template: z.object({
+      name: z
+        .string()
+        .trim()
+        .max(WHATSAPP_TEMPLATE_NAME_MAX_LENGTH)
+        .regex(/^[\d_a-z]+$/, 'Template name must contain only lowercase letters, digits and underscores'),
+      language: z
+        .string()
+        .trim()
+        .regex(/^[a-z]{2,3}$|^[a-z]{2,3}_[A-Z]{2}$/, 'Invalid template language code (e.g., en or en_US)')
+        .default('en'),
+      parameters: z
+        .array(
+          z.string().trim().min(1, 'Template parameters must not be empty').max(WHATSAPP_TEMPLATE_PARAMETER_MAX_LENGTH),
+        )
+        .max(WHATSAPP_TEMPLATE_PARAMETERS_MAX_COUNT, 'At most 10 template parameters can be sent')
+        .default([]),
+    }),
+  }),
+]);
+
+// SMS to a lead; Hindi and other non-GSM text fits 70 characters per segment instead of 160
+export const sendSmsSchema = z.object({
+  leadId: objectIdSchema,
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Content is required')
+    .refine((content) => countSmsSegments(content).segments <= SMS_MAX_SEGMENTS, {
+      message: `SMS must fit in ${SMS_MAX_SEGMENTS} segments`,
+    }),
+});
+
+// Query parameters schema for listing communications
+export const listCommunicationsQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_PAGE)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_LIMIT)),
+  leadId: objectIdSchema.optional(),
+  channel: z.nativeEnum(CommunicationChannel).optional(),
+  direction: z.nativeEnum(CommunicationDirection).optional(),
+  sort: z.enum(['sentAt', 'createdAt']).optional().default('sentAt'),
+  order: z.enum(['asc', 'desc']).optional().default('desc'),
+});
+
+// Parameter validation schemas
+export const communicationIdParamSchema = z.object({
+  communicationId: objectIdSchema.describe('Communication MongoDB ObjectId'),
+});
+
+export const attachmentParamSchema = z.object({
+  communicationId: objectIdSchema.describe('Communication MongoDB ObjectId'),
+  attachmentId: objectIdSchema.describe('Attachment MongoDB ObjectId'),
+});
+
+// Export types
+export type CreateCommunicationInput = z.infer<typeof createCommunicationSchema>;
+export type SendEmailInput = z.infer<typeof sendEmailSchema>;
+export type SendWhatsAppInput = z.infer<typeof sendWhatsAppSchema>;
+export type SendSmsInput = z.infer<typeof sendSmsSchema>;
+export type ListCommunicationsQuery = z.infer<typeof listCommunicationsQuerySchema>;
+export type CommunicationIdParam = z.infer<typeof communicationIdParamSchema>;
@@ -0,0 +1,189 @@
+import { Types } from 'mongoose';
+
+import { config } from '../../shared/config/index';
+import { Agency, IAgency } from '../../shared/models/agency.model';
+import { Communication, ICommunication } from '../../shared/models/communication.model';
+import { IUser, User } from '../../shared/models/user.model';
+import { attachmentStorageService } from '../../shared/services/attachmentStorage.service';
+import { mailQueueService } from '../../shared/services/mailQueue.service';
+import { BusinessError, CustomError, InternalServerError, NotFoundError } from '../../shared/utils/CustomError';
+import { textToHtml } from '../../shared/utils/emailTemplate';
+import { createMessageId, extractEmailAddress } from '../../shared/utils/mime';
+import { CommunicationChannel, CommunicationDirection } from '../../types/enum/communication';
+import { EmailDeliveryStatus } from '../../types/enum/email';
+import { leadService } from '../lead/lead.service';
+
+import { IEmailMetadata } from './communication.interface';
+import { communicationService } from './communication.service';
+import { SendEmailInput } from './communication.validator';
+
+// Message-IDs an email continues, so mail clients thread the reply
+interface IEmailThread {
+  inReplyTo?: string;
+  references: string[];
+}
+
+/**
+ * Communication Email Service
+ * Sends emails to leads through the agency's mail transport and logs each one as
+ * an outgoing communication that follows its delivery status
+ */
+class CommunicationEmailService {
+  /**
+   * Send an email to a lead of the agency, threaded under the email it answers
+   * @param agencyId - Agency sending the email
+   * @param userId - User sending the email, who receives the lead's replies
+   * @param data - Subject, text, attachments and the email answered
+   * @returns Logged communication, with the email queued for delivery
+   * @throws {BusinessError} When the lead has no email address
+   */
+  async sendEmail(agencyId: string, userId: string, data: SendEmailInput): Promise<ICommunication> {
+    try {
+      const lead = await leadService.getLeadById(agencyId, data.leadId);
+      if (!lead.email) {
+        throw new BusinessError('Lead has no email address');
+      }
+      const [agency, user] = await Promise.all([Agency.findById(agencyId).exec(), User.findById(userId).exec()]);
+      if (!agency || !user) {
+        throw new NotFoundError('Sender not found');
+      }
+
+      const thread = await this.findThread(agencyId, lead.id as string, data.inReplyTo);
+      const from = this.senderAddress(user, agency);
+      const metadata: IEmailMetadata = {
+        subject: data.subject,
+        from,
+        to: [lead.email],
+        replyTo: user.email,
+        messageId: createMessageId(from),
+        ...thread,
+        deliveryStatus: EmailDeliveryStatus.QUEUED,
+        attempts: 0,
+        error: null,
+        deliveredAt: null,
+      };
+      return await this.logAndQueue(agencyId, userId, data, metadata);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Email sending failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Store the attachments, log the communication and queue the email. Nothing is
+   * left behind when a step fails.
+   * @param agencyId - Agency sending the email
+   * @param userId - User sending the email
+   * @param data - Subject, text and attachments
+   * @param metadata - Addresses and headers of the email
+   * @returns Logged communication
+   */
+  private async logAndQueue(
+    agencyId: string,
+    userId: string,
+    data: SendEmailInput,
+    metadata: IEmailMetadata,
+  ): Promise<ICommunication> {
+    const communicationId = new Types.ObjectId();
+    const attachments = await communicationService.storeAttachments(
+      agencyId,
+      communicationId,
+      data.attachments.map(({ name, type, content }) => ({
+        filename: name,
+        contentType: type,
+        content: Buffer.from(content, 'base64'),
+      })),
+    );
+    const communication = new Communication({
+      _id: communicationId,
+      agency: agencyId,
+      lead: data.leadId,
+      channel: CommunicationChannel.EMAIL,
+      direction: CommunicationDirection.OUTGOING,
+      content: data.content,
+      sentBy: userId,
+      createdBy: userId,
+      attachments,
+      metadata: { email: metadata },
+    });
+
+    try {
+      await communication.save();
+      await this.enqueue(communication, metadata);
+      return communication;
+    } catch (error) {
+      await Communication.deleteOne({ _id: communicationId }).exec();
+      await attachmentStorageService.remove(attachments.map((attachment) => attachment._id));
+      throw error;
+    }
+  }
+
+  /**
+   * Queue the email of a logged communication
+   * @param communication - Logged communication, whose content and files make up the email
+   * @param metadata - Addresses and headers of the email
+   */
+  private async enqueue(communication: ICommunication, metadata: IEmailMetadata): Promise<void> {
+    const { from, to, replyTo, subject, messageId, inReplyTo, references } = metadata;
+    await mailQueueService.enqueue({
+      agency: communication.agency,
+      communication: communication._id as Types.ObjectId,
+      from,
+      to,
+      replyTo,
+      subject,
+      text: communication.content,
+      html: textToHtml(communication.content),
+      messageId,
+      inReplyTo,
+      references,
+      attachments: communication.attachments.map((attachment) => ({
+        fileId: attachment._id,
+        filename: attachment.name,
+        contentType: attachment.type,
+      })),
+    });
+  }
+
+  /**
+   * Find the email a new one answers: the one asked for, or else the lead's latest
+   * @param agencyId - Agency ID
+   * @param leadId - Lead ID
+   * @param communicationId - Email communication answered, when chosen by the user
+   * @returns Threading headers; empty when the lead has no earlier email
+   * @throws {NotFoundError} When the chosen communication is not an email of the lead
+   */
+  private async findThread(agencyId: string, leadId: string, communicationId?: string): Promise<IEmailThread> {
+    const filter = {
+      agency: agencyId,
+      lead: leadId,
+      channel: CommunicationChannel.EMAIL,
+      'metadata.email.messageId': { $exists: true },
+      ...(communicationId ? { _id: communicationId } : {}),
+    };
+    const previous = await Communication.findOne(filter).sort({ sentAt: -1 }).exec();
+    if (!previous) {
+      if (communicationId) {
+        throw new NotFoundError(`Email not found with ID: ${communicationId}`);
+      }
+      return { references: [] };
+    }
+    const { messageId, references = [] } = previous.metadata?.email as Pick<IEmailMetadata, 'messageId' | 'references'>;
+    return { inReplyTo: messageId, references: [...references, messageId] };
+  }
+
+  /**
+   * Address lead emails from the configured sender, showing who wrote them
+   * @param user - Sending user
+   * @param agency - Sending agency
+   * @returns From header value
+   */
+  private senderAddress(user: IUser, agency: IAgency): string {
+    const name = `${user.firstName} ${user.lastName} (${agency.name})`.replace(/["\\]/g, '');
+    return `"${name}" <${extractEmailAddress(config.mail.from)}>`;
+  }
+}
+
+export const communicationEmailService = new CommunicationEmailService();
@@ -0,0 +1,181 @@
+import { Types } from 'mongoose';
+
+import { Agency, IAgency } from '../../shared/models/agency.model';
+import { Communication, ICommunication } from '../../shared/models/communication.model';
+import { ILead, Lead } from '../../shared/models/lead.model';
+import { User } from '../../shared/models/user.model';
+import { attachmentStorageService } from '../../shared/services/attachmentStorage.service';
+import { BadRequestError, CustomError, InternalServerError, NotFoundError } from '../../shared/utils/CustomError';
+import { IParsedAddress, IParsedEmail, parseMimeMessage } from '../../shared/utils/mimeParser';
+import { CommunicationChannel, CommunicationDirection } from '../../types/enum/communication';
+import { LeadSource } from '../../types/enum/lead';
+
+import { IEmailMetadata, IInboundEmailResult } from './communication.interface';
+import { communicationService } from './communication.service';
+
+// Agency that receives an email, and the user it was addressed to when known
+interface IEmailRecipient {
+  agency: IAgency;
+  userId?: Types.ObjectId;
+}
+
+/**
+ * Communication Inbound Service
+ * Logs emails forwarded by the mail relay on a lead of the agency they were
+ * addressed to: replies are matched by their thread headers, other emails by the
+ * sender's address, and unknown senders become new leads of that agency
+ */
+class CommunicationInboundService {
+  /**
+   * Log a raw email as an incoming communication of the agency it was addressed to.
+   * An email the relay posts again is recognized by its Message-ID and logged once.
+   * Thread headers and Message-IDs are only matched within that agency.
+   * @param raw - Raw RFC 5322 message
+   * @returns Logged communication and whether its lead was created for it
+   * @throws {BadRequestError} When the email has no sender address
+   * @throws {NotFoundError} When no agency receives mail for the recipients
+   */
+  async receiveEmail(raw: Buffer): Promise<IInboundEmailResult> {
+    try {
+      const email = parseMimeMessage(raw);
+      if (!email.from?.address.includes('@')) {
+        throw new BadRequestError('Email has no sender address');
+      }
+      const recipient = await this.findRecipient(email);
+      const logged = email.messageId
+        ? await Communication.findOne({
+            agency: recipient.agency._id,
+            direction: CommunicationDirection.INCOMING,
+            'metadata.email.messageId': email.messageId,
+          }).exec()
+        : null;
+      if (logged) {
+        return { communication: logged, leadCreated: false };
+      }
+
+      const threadLead = await this.findThreadLead(recipient.agency, email);
+      const { lead, leadCreated } = threadLead
+        ? { lead: threadLead, leadCreated: false }
+        : await this.findOrCreateSenderLead(recipient, email.from);
+      const communication = await this.logEmail(lead, email, email.from);
+      return { communication, leadCreated };
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Inbound email failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Find the lead of the latest earlier email of the agency named by the thread headers
+   * @param agency - Receiving agency
+   * @param email - Parsed email
+   * @returns Lead, or null when the email does not continue a thread of the agency
+   */
+  private async findThreadLead(agency: IAgency, email: IParsedEmail): Promise<ILead | null> {
+    const messageIds = [...new Set([email.inReplyTo, ...email.references])].filter(Boolean);
+    if (messageIds.length === 0) {
+      return null;
+    }
+    const previous = await Communication.findOne({
+      agency: agency._id,
+      'metadata.email.messageId': { $in: messageIds },
+    })
+      .sort({ sentAt: -1 })
+      .exec();
+    return previous ? Lead.findOne({ _id: previous.lead, agency: agency._id }).exec() : null;
+  }
+
+  /**
+   * Find the sender's lead in the agency the email was addressed to, or create one
+   * assigned to the user it was addressed to
+   * @param recipient - Receiving agency and user
+   * @param sender - Sender of the email
+   * @returns Lead and whether it was created
+   */
+  private async findOrCreateSenderLead(
+    recipient: IEmailRecipient,
+    sender: IParsedAddress,
+  ): Promise<{ lead: ILead; leadCreated: boolean }> {
+    const { agency, userId } = recipient;
+    const existing = await Lead.findOne({ agency: agency._id, email: sender.address }).sort({ updatedAt: -1 }).exec();
+    if (existing) {
+      return { lead: existing, leadCreated: false };
+    }
+    const lead = await Lead.create({
+      agency: agency._id,
+      name: sender.name || sender.address.split('@')[0],
+      email: sender.address,
+      source: LeadSource.EMAIL,
+      assignedTo: userId,
+    });
+    return { lead, leadCreated: true };
+  }
+
+  /**
+   * Find who an email was addressed to: an active user of an agency, or else an
+   * agency by the domain of a recipient
+   * @param email - Parsed email
+   * @returns Receiving agency and user
+   * @throws {NotFoundError} When no active agency receives mail for the recipients
+   */
+  private async findRecipient(email: IParsedEmail): Promise<IEmailRecipient> {
+    const recipients = [...email.to, ...email.cc];
+    const user = await User.findOne({ email: { $in: recipients }, isActive: true }).exec();
+    if (user) {
+      const agency = await Agency.findOne({ _id: user.agency, isActive: true }).exec();
+      if (agency) {
+        return { agency, userId: user._id as Types.ObjectId };
+      }
+    }
+
+    const domains = recipients.map((recipient) => recipient.split('@')[1]);
+    const agency = await Agency.findOne({ domain: { $in: domains }, isActive: true }).exec();
+    if (!agency) {
+      throw new NotFoundError('No agency receives mail for these recipients');
+    }
+    return { agency };
+  }
+
+  /**
+   * Store the attachments and log the email on the lead
+   * @param lead - Lead the email comes from
+   * @param email - Parsed email
+   * @param sender - Sender of the email
+   * @returns Logged communication
+   */
+  private async logEmail(lead: ILead, email: IParsedEmail, sender: IParsedAddress): Promise<ICommunication> {
+    const agencyId = lead.agency.toString();
+    const communicationId = new Types.ObjectId();
+    const attachments = await communicationService.storeAttachments(agencyId, communicationId, email.attachments);
+    const metadata: IEmailMetadata = {
+      subject: email.subject,
+      from: sender.name ? `${sender.name} <${sender.address}>` : sender.address,
+      to: email.to,
+      cc: email.cc,
+      messageId: email.messageId ?? `<${communicationId.toString()}@inbound>`,
+      ...(email.inReplyTo ? { inReplyTo: email.inReplyTo } : {}),
+      references: email.references,
+    };
+
+    try {
+      return await Communication.create({
+        _id: communicationId,
+        agency: agencyId,
+        lead: lead._id,
+        channel: CommunicationChannel.EMAIL,
+        direction: CommunicationDirection.INCOMING,
+        content: email.text || email.subject || '(no content)',
+        sentAt: email.date ?? new Date(),
+        attachments,
+        metadata: { email: metadata },
+      });
+    } catch (error) {
+      await attachmentStorageService.remove(attachments.map((attachment) => attachment._id));
+      throw error;
+    }
+  }
+}
+
+export const communicationInboundService = new CommunicationInboundService();
@@ -0,0 +1,307 @@
+import { Types } from 'mongoose';
+
+import { config } from '../../shared/config/index';
+import { Agency } from '../../shared/models/agency.model';
+import { Communication, ICommunication } from '../../shared/models/communication.model';
+import { Lead } from '../../shared/models/lead.model';
+import { ISmsInbound, ISmsReceipt, smsProvider } from '../../shared/services/smsProvider.service';
+import { BadRequestError, BusinessError, CustomError, InternalServerError } from '../../shared/utils/CustomError';
+import logger from '../../shared/utils/logger';
+import { toInternationalDigits } from '../../shared/utils/phone';
+import { countSmsSegments } from '../../shared/utils/smsSegments';
+import { CommunicationChannel, CommunicationDirection } from '../../types/enum/communication';
+import { SmsDeliveryStatus } from '../../types/enum/sms';
+import { leadService } from '../lead/lead.service';
+
+import { IInboundSmsResult, ISmsMetadata } from './communication.interface';
+import { SendSmsInput } from './communication.validator';
+
+// Carrier-standard keywords, matched against the whole trimmed message
+const OPT_OUT_KEYWORDS = new Set(['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT']);
+const OPT_IN_KEYWORDS = new Set(['START', 'UNSTOP', 'YES']);
+
+// A receipt only moves a message forward, since providers may deliver receipts out of order
+const PRECEDING_STATUSES = new Map<SmsDeliveryStatus, SmsDeliveryStatus[]>([
+  [SmsDeliveryStatus.SENT, [SmsDeliveryStatus.QUEUED]],
+  [SmsDeliveryStatus.DELIVERED, [SmsDeliveryStatus.QUEUED, SmsDeliveryStatus.SENT]],
+  [SmsDeliveryStatus.FAILED, [SmsDeliveryStatus.QUEUED, SmsDeliveryStatus.SENT]],
+]);
+
+// Fields of an outgoing SMS set once the provider has answered
+type SmsDeliveryUpdate = Pick<ISmsMetadata, 'messageId' | 'status' | 'error'>;
+
+/**
+ * Communication SMS Service
+ * Sends SMS to leads through the configured provider under the agency's sender ID,
+ * follows their delivery receipts and handles replies, including STOP and START
+ */
+class CommunicationSmsService {
+  /**
+   * Send an SMS to a lead of the agency and log it
+   * @param agencyId - Agency sending the SMS
+   * @param userId - User sending the SMS
+   * @param data - Lead and text
+   * @returns Logged communication, with its status following the receipts
+   * @throws {BusinessError} When the lead has no phone number or has opted out of SMS
+   * @throws {CustomError} When the provider refuses the SMS, which is then logged as failed
+   */
+  async sendSms(agencyId: string, userId: string, data: SendSmsInput): Promise<ICommunication> {
+    try {
+      const lead = await leadService.getLeadById(agencyId, data.leadId);
+      if (!lead.phone) {
+        throw new BusinessError('Lead has no phone number');
+      }
+      if (lead.smsOptedOutAt) {
+        throw new BusinessError('Lead has opted out of SMS by replying STOP');
+      }
+      const agency = await Agency.findById(agencyId).exec();
+      const from = agency?.settings.smsSenderId || config.sms.defaultSenderId;
+      const to = toInternationalDigits(lead.phone, config.phone.defaultCountryCode);
+
+      const { encoding, segments } = countSmsSegments(data.content);
+      const metadata: ISmsMetadata = {
+        provider: smsProvider.type,
+        from,
+        to,
+        encoding,
+        segments,
+        status: SmsDeliveryStatus.QUEUED,
+        statusUpdatedAt: new Date(),
+        error: null,
+      };
+      // Logged before it is sent, so an SMS the provider accepted is never missing from the log
+      const communication = await Communication.create({
+        agency: agencyId,
+        lead: lead._id,
+        channel: CommunicationChannel.SMS,
+        direction: CommunicationDirection.OUTGOING,
+        content: data.content,
+        sentBy: userId,
+        createdBy: userId,
+        metadata: { sms: metadata },
+      });
+      return await this.deliver(communication, metadata);
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`SMS sending failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Move an outgoing SMS to the status a delivery receipt reports
+   * @param params - Form fields of the provider's receipt webhook
+   * @returns Whether a message was updated
+   * @throws {BadRequestError} When the provider does not recognize the receipt
+   */
+  async receiveReceipt(params: Record<string, string>): Promise<boolean> {
+    const receipt = smsProvider.parseReceipt(params);
+    if (!receipt) {
+      throw new BadRequestError('Unrecognized SMS delivery receipt');
+    }
+    try {
+      return await this.applyReceipt(receipt);
+    } catch (error) {
+      throw new InternalServerError(`SMS receipt failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Log an incoming SMS on every lead of the receiving agency texted at the sending
+   * number, and opt them out of or back into SMS when it is a STOP or START keyword.
+   * An SMS that cannot be told apart as one agency's is dropped. An SMS posted again
+   * is recognized by its id and logged once.
+   * @param params - Form fields of the provider's inbound webhook
+   * @returns Number of communications logged and leads opted out or in
+   * @throws {BadRequestError} When the provider does not recognize the message
+   */
+  async receiveSms(params: Record<string, string>): Promise<IInboundSmsResult> {
+    const inbound = smsProvider.parseInbound(params);
+    if (!inbound) {
+      throw new BadRequestError('Unrecognized incoming SMS');
+    }
+    const result: IInboundSmsResult = { messages: 0, leadsOptedOut: 0, leadsOptedIn: 0 };
+    try {
+      const agencyId = await this.findReceivingAgency(inbound);
+      if (!agencyId) {
+        logger.warn(`Dropped SMS ${inbound.messageId}: no single agency texted +${inbound.from} from +${inbound.to}`);
+        return result;
+      }
+      const known = await Communication.exists({
+        agency: agencyId,
+        direction: CommunicationDirection.INCOMING,
+        'metadata.sms.messageId': inbound.messageId,
+      }).exec();
+      if (known) {
+        return result;
+      }
+
+      const leadIds = await this.findRecipientLeads(agencyId, inbound);
+      await this.logSms(agencyId, leadIds, inbound);
+      result.messages = leadIds.length;
+      await this.applyKeyword(leadIds, inbound.text, result);
+      return result;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Incoming SMS failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Hand a logged SMS to the provider, then record the provider's message id and
+   * status, or the provider's error
+   * @param communication - Communication logged as queued
+   * @param metadata - SMS details it was logged with
+   * @returns Communication with its provider message id
+   */
+  private async deliver(communication: ICommunication, metadata: ISmsMetadata): Promise<ICommunication> {
+    try {
+      const { messageId, status } = await smsProvider.send({
+        from: metadata.from,
+        to: metadata.to,
+        text: communication.content,
+      });
+      return await this.updateDelivery(communication, { messageId, status, error: null });
+    } catch (error) {
+      await this.updateDelivery(communication, { status: SmsDeliveryStatus.FAILED, error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  private async updateDelivery(communication: ICommunication, update: SmsDeliveryUpdate): Promise<ICommunication> {
+    const fields = Object.entries({ ...update, statusUpdatedAt: new Date() }).map(([field, value]) => [
+      `metadata.sms.${field}`,
+      value,
+    ]);
+    const updated = await Communication.findOneAndUpdate(
+      { _id: communication._id },
+      { $set: Object.fromEntries(fields) },
+      { new: true },
+    ).exec();
+    return updated ?? communication;
+  }
+
+  private async applyReceipt(receipt: ISmsReceipt): Promise<boolean> {
+    const preceding = PRECEDING_STATUSES.get(receipt.status);
+    if (!preceding) {
+      return false;
+    }
+    const update = await Communication.updateOne(
+      {
+        channel: CommunicationChannel.SMS,
+        direction: CommunicationDirection.OUTGOING,
+        'metadata.sms.messageId': receipt.messageId,
+        'metadata.sms.status': { $in: preceding },
+      },
+      {
+        $set: {
+          'metadata.sms.status': receipt.status,
+          'metadata.sms.statusUpdatedAt': new Date(),
+          ...(receipt.error ? { 'metadata.sms.error': receipt.error } : {}),
+        },
+      },
+    ).exec();
+    return update.modifiedCount > 0;
+  }
+
+  /**
+   * Work out the one agency an incoming SMS is for: the agency whose sender ID is
+   * the receiving number, or else the only agency that texted the sender from it,
+   * as happens with a shared default sender
+   * @param inbound - Incoming SMS
+   * @returns Agency ID, or null when no single agency can be told apart
+   */
+  private async findReceivingAgency(inbound: ISmsInbound): Promise<Types.ObjectId | null> {
+    if (!inbound.to) {
+      return null;
+    }
+    // Numeric sender IDs are saved with or without their plus sign
+    const receivingNumber = { $in: [inbound.to, `+${inbound.to}`] };
+    const owners = await Agency.find({ 'settings.smsSenderId': receivingNumber }).select('_id').limit(2).exec();
+    if (owners.length > 0) {
+      return owners.length === 1 ? (owners[0]._id as Types.ObjectId) : null;
+    }
+    const agencies = await Communication.find({
+      channel: CommunicationChannel.SMS,
+      direction: CommunicationDirection.OUTGOING,
+      'metadata.sms.to': inbound.from,
+      'metadata.sms.from': receivingNumber,
+    }).distinct<'agency', Types.ObjectId>('agency');
+    return agencies.length === 1 ? agencies[0] : null;
+  }
+
+  /**
+   * Find the leads of the agency that were texted at the sending number, newest first
+   * and each once
+   * @param agencyId - Receiving agency
+   * @param inbound - Incoming SMS
+   * @returns Lead IDs
+   */
+  private async findRecipientLeads(agencyId: Types.ObjectId, inbound: ISmsInbound): Promise<Types.ObjectId[]> {
+    const texts = await Communication.find({
+      agency: agencyId,
+      channel: CommunicationChannel.SMS,
+      direction: CommunicationDirection.OUTGOING,
+      'metadata.sms.to': inbound.from,
+    })
+      .sort({ sentAt: -1 })
+      .select('lead')
+      .exec();
+
+    const leadIds = new Map(texts.map((text) => [text.lead.toString(), text.lead]));
+    return [...leadIds.values()];
+  }
+
+  private async logSms(agencyId: Types.ObjectId, leadIds: Types.ObjectId[], inbound: ISmsInbound): Promise<void> {
+    const { encoding, segments } = countSmsSegments(inbound.text);
+    const metadata: ISmsMetadata = {
+      messageId: inbound.messageId,
+      provider: smsProvider.type,
+      from: inbound.from,
+      to: inbound.to,
+      encoding,
+      segments,
+    };
+    for (const leadId of leadIds) {
+      await Communication.create({
+        agency: agencyId,
+        lead: leadId,
+        channel: CommunicationChannel.SMS,
+        direction: CommunicationDirection.INCOMING,
+        content: inbound.text || '(empty SMS)',
+        metadata: { sms: metadata },
+      });
+    }
+  }
+
+  /**
+   * Opt the leads out of SMS on a STOP keyword, or back in on a START keyword. Each
+   * lead is saved on its own so the change shows up in its history.
+   * @param leadIds - Leads the SMS was logged on
+   * @param text - Text of the SMS
+   * @param result - Counts being added up
+   */
+  private async applyKeyword(leadIds: Types.ObjectId[], text: string, result: IInboundSmsResult): Promise<void> {
+    const keyword = text.trim().toUpperCase();
+    const optOut = OPT_OUT_KEYWORDS.has(keyword);
+    if (!optOut && !OPT_IN_KEYWORDS.has(keyword)) {
+      return;
+    }
+
+    const leads = await Lead.find({ _id: { $in: leadIds }, smsOptedOutAt: optOut ? null : { $ne: null } }).exec();
+    for (const lead of leads) {
+      lead.smsOptedOutAt = optOut ? new Date() : null;
+      await lead.save();
+    }
+    if (optOut) {
+      result.leadsOptedOut = leads.length;
+    } else {
+      result.leadsOptedIn = leads.length;
+    }
+  }
+}
+
+export const communicationSmsService = new CommunicationSmsService();
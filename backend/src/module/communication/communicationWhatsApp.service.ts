@@ -0,0 +1,363 @@
+import { Types } from 'mongoose';
+
+import { config } from '../../shared/config/index';
+import { MILLISECONDS_IN_SECOND, WHATSAPP_SESSION_WINDOW } from '../../shared/constant/timeValues';
+import { Agency, IAgency } from '../../shared/models/agency.model';
+import { IAttachment, Communication, ICommunication } from '../../shared/models/communication.model';
+import { ILead, Lead } from '../../shared/models/lead.model';
+import { attachmentStorageService } from '../../shared/services/attachmentStorage.service';
+import {
+  IWhatsAppTemplate,
+  whatsappApiService,
+  WhatsAppOutboundMessage,
+} from '../../shared/services/whatsappApi.service';
+import { BusinessError, CustomError, InternalServerError } from '../../shared/utils/CustomError';
+import logger from '../../shared/utils/logger';
+import { phoneNumberPattern, toInternationalDigits } from '../../shared/utils/phone';
+import { CommunicationChannel, CommunicationDirection } from '../../types/enum/communication';
+import { LeadSource } from '../../types/enum/lead';
+import { WhatsAppMessageStatus, WhatsAppMessageType } from '../../types/enum/whatsapp';
+import { leadService } from '../lead/lead.service';
+import {
+  WhatsAppChangeValue,
+  WhatsAppInboundMessage,
+  WhatsAppLocation,
+  WhatsAppMedia,
+  WhatsAppStatus,
+  WhatsAppWebhookInput,
+} from '../webhook/webhook.validator';
+
+import { IWhatsAppMetadata, IWhatsAppWebhookResult } from './communication.interface';
+import { communicationService } from './communication.service';
+import { SendWhatsAppInput } from './communication.validator';
+
+// A receipt only moves a message forward, since WhatsApp may deliver receipts out of order
+const PRECEDING_STATUSES = new Map<string, WhatsAppMessageStatus[]>([
+  [WhatsAppMessageStatus.SENT, [WhatsAppMessageStatus.ACCEPTED]],
+  [WhatsAppMessageStatus.DELIVERED, [WhatsAppMessageStatus.ACCEPTED, WhatsAppMessageStatus.SENT]],
+  [
+    WhatsAppMessageStatus.READ,
+    [WhatsAppMessageStatus.ACCEPTED, WhatsAppMessageStatus.SENT, WhatsAppMessageStatus.DELIVERED],
+  ],
+  [WhatsAppMessageStatus.FAILED, [WhatsAppMessageStatus.ACCEPTED, WhatsAppMessageStatus.SENT]],
+]);
+
+const fromUnixSeconds = (timestamp: string): Date => new Date(Number(timestamp) * MILLISECONDS_IN_SECOND);
+
+const describeLocation = ({ name, address, latitude, longitude }: WhatsAppLocation): string => {
+  const coordinates = `(${latitude}, ${longitude})`;
+  return `Shared a location: ${[name, address, coordinates].filter(Boolean).join(', ')}`;
+};
+
+const mediaOf = (message: WhatsAppInboundMessage): WhatsAppMedia | undefined =>
+  message.image ?? message.video ?? message.audio ?? message.document ?? message.sticker;
+
+/**
+ * Describe an incoming message in the communications log
+ * @param message - Message from the webhook
+ * @returns Text, caption or a short description of what was sent
+ */
+const describeInboundMessage = (message: WhatsAppInboundMessage): string => {
+  if (message.location) {
+    return describeLocation(message.location);
+  }
+  return message.text?.body || message.button?.text || mediaOf(message)?.caption || `(${message.type} message)`;
+};
+
+/**
+ * Communication WhatsApp Service
+ * Sends WhatsApp messages to leads from the agency's business number and logs the
+ * messages and receipts the WhatsApp webhook reports, creating leads for unknown numbers
+ */
+class CommunicationWhatsAppService {
+  /**
+   * Send a WhatsApp message to a lead of the agency and log it
+   * @param agencyId - Agency sending the message
+   * @param userId - User sending the message
+   * @param data - Text, or template with its parameters
+   * @returns Logged communication, with its status following the receipts
+   * @throws {BusinessError} When the lead has no phone number, the agency has no
+   * WhatsApp number, or free-form text is sent outside the session window
+   */
+  async sendWhatsApp(agencyId: string, userId: string, data: SendWhatsAppInput): Promise<ICommunication> {
+    try {
+      const lead = await leadService.getLeadById(agencyId, data.leadId);
+      if (!lead.phone) {
+        throw new BusinessError('Lead has no phone number');
+      }
+      const agency = await Agency.findById(agencyId).exec();
+      const phoneNumberId = agency?.settings.whatsappPhoneNumberId;
+      if (!phoneNumberId) {
+        throw new BusinessError('WhatsApp is not set up for this agency');
+      }
+      if (data.type === WhatsAppMessageType.TEXT) {
+        await this.assertSessionOpen(agencyId, lead.id as string);
+      }
+
+      const message = this.toOutboundMessage(data);
+      const waId = toInternationalDigits(lead.phone, config.phone.defaultCountryCode);
+      const messageId = await whatsappApiService.sendMessage(phoneNumberId, waId, message);
+      const metadata: IWhatsAppMetadata = {
+        messageId,
+        phoneNumberId,
+        waId,
+        type: message.type,
+        ...(message.type === WhatsAppMessageType.TEMPLATE ? { template: message.template } : {}),
+        status: WhatsAppMessageStatus.ACCEPTED,
+        statusUpdatedAt: new Date(),
+        error: null,
+      };
+      return await Communication.create({
+        agency: agencyId,
+        lead: lead._id,
+        channel: CommunicationChannel.WHATSAPP,
+        direction: CommunicationDirection.OUTGOING,
+        content: message.type === WhatsAppMessageType.TEXT ? message.text : this.describeTemplate(message.template),
+        sentBy: userId,
+        createdBy: userId,
+        metadata: { whatsapp: metadata },
+      });
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`WhatsApp sending failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Log the messages and receipts of a WhatsApp webhook. Messages WhatsApp posts
+   * again are recognized by their id and logged once.
+   * @param payload - Verified webhook payload
+   * @returns Number of messages logged, receipts applied and leads created
+   */
+  async receiveWebhook(payload: WhatsAppWebhookInput): Promise<IWhatsAppWebhookResult> {
+    const result: IWhatsAppWebhookResult = { messages: 0, receipts: 0, leadsCreated: 0 };
+    try {
+      for (const entry of payload.entry) {
+        for (const change of entry.changes) {
+          if (change.field === 'messages') {
+            await this.receiveChange(change.value, result);
+          }
+        }
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`WhatsApp webhook failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * WhatsApp refuses free-form messages to anyone who has not written in the last
+   * 24 hours; checking first gives the sender a clearer error
+   * @param agencyId - Agency sending the message
+   * @param leadId - Lead the message is for
+   * @throws {BusinessError} When the lead has not written within the window
+   */
+  private async assertSessionOpen(agencyId: string, leadId: string): Promise<void> {
+    const lastIncoming = await Communication.findOne({
+      agency: agencyId,
+      lead: leadId,
+      channel: CommunicationChannel.WHATSAPP,
+      direction: CommunicationDirection.INCOMING,
+      sentAt: { $gte: new Date(Date.now() - WHATSAPP_SESSION_WINDOW) },
+    }).exec();
+    if (!lastIncoming) {
+      throw new BusinessError(
+        'The lead has not written on WhatsApp in the last 24 hours; send an approved template instead',
+      );
+    }
+  }
+
+  private toOutboundMessage(data: SendWhatsAppInput): WhatsAppOutboundMessage {
+    if (data.type === WhatsAppMessageType.TEXT) {
+      return { type: WhatsAppMessageType.TEXT, text: data.content };
+    }
+    // The validator fills in the template's default language and parameters
+    return { type: WhatsAppMessageType.TEMPLATE, template: data.template as IWhatsAppTemplate };
+  }
+
+  private describeTemplate(template: IWhatsAppTemplate): string {
+    const parameters = template.parameters.length > 0 ? `: ${template.parameters.join(' | ')}` : '';
+    return `Template ${template.name} (${template.language})${parameters}`;
+  }
+
+  /**
+   * Apply the receipts and log the messages reported for one business number
+   * @param value - Change reported by the webhook
+   * @param result - Counts being added up
+   */
+  private async receiveChange(value: WhatsAppChangeValue, result: IWhatsAppWebhookResult): Promise<void> {
+    for (const status of value.statuses) {
+      if (await this.applyStatus(status)) {
+        result.receipts++;
+      }
+    }
+    if (value.messages.length === 0) {
+      return;
+    }
+
+    const phoneNumberId = value.metadata.phone_number_id;
+    const agency = await Agency.findOne({ 'settings.whatsappPhoneNumberId': phoneNumberId, isActive: true }).exec();
+    if (!agency) {
+      // Answering with an error would have WhatsApp post the messages again for days
+      logger.warn(`WhatsApp messages to unknown business number ${phoneNumberId} were dropped`);
+      return;
+    }
+    for (const message of value.messages) {
+      const contact = value.contacts.find((candidate) => candidate.wa_id === message.from);
+      const logged = await this.receiveMessage(agency, message, contact?.profile?.name);
+      result.messages += logged.logged ? 1 : 0;
+      result.leadsCreated += logged.leadCreated ? 1 : 0;
+    }
+  }
+
+  /**
+   * Move an outgoing message to the status a receipt reports
+   * @param status - Receipt from the webhook
+   * @returns Whether a message was updated
+   */
+  private async applyStatus(status: WhatsAppStatus): Promise<boolean> {
+    const preceding = PRECEDING_STATUSES.get(status.status);
+    if (!preceding) {
+      return false;
+    }
+    const [error] = status.errors ?? [];
+    const update = await Communication.updateOne(
+      {
+        channel: CommunicationChannel.WHATSAPP,
+        direction: CommunicationDirection.OUTGOING,
+        'metadata.whatsapp.messageId': status.id,
+        'metadata.whatsapp.status': { $in: preceding },
+      },
+      {
+        $set: {
+          'metadata.whatsapp.status': status.status,
+          'metadata.whatsapp.statusUpdatedAt': fromUnixSeconds(status.timestamp),
+          ...(error ? { 'metadata.whatsapp.error': `${error.title} (${error.code})` } : {}),
+        },
+      },
+    ).exec();
+    return update.modifiedCount > 0;
+  }
+
+  /**
+   * Log an incoming message on the lead with that number, creating the lead when
+   * the number is unknown to the agency
+   * @param agency - Agency owning the business number
+   * @param message - Message from the webhook
+   * @param profileName - WhatsApp profile name of the sender
+   * @returns Whether the message was logged and whether its lead was created
+   */
+  private async receiveMessage(
+    agency: IAgency,
+    message: WhatsAppInboundMessage,
+    profileName?: string,
+  ): Promise<{ logged: boolean; leadCreated: boolean }> {
+    const known = await Communication.exists({ 'metadata.whatsapp.messageId': message.id }).exec();
+    if (known) {
+      return { logged: false, leadCreated: false };
+    }
+
+    const { lead, leadCreated } = await this.findOrCreateLead(agency, message.from, profileName);
+    await this.logMessage(agency, lead, message);
+    return { logged: true, leadCreated };
+  }
+
+  /**
+   * Store the media of an incoming message and log the message on the lead
+   * @param agency - Agency owning the business number
+   * @param lead - Lead the message comes from
+   * @param message - Message from the webhook
+   */
+  private async logMessage(agency: IAgency, lead: ILead, message: WhatsAppInboundMessage): Promise<void> {
+    const communicationId = new Types.ObjectId();
+    const attachments = await this.storeMedia(lead, communicationId, message);
+    const metadata: IWhatsAppMetadata = {
+      messageId: message.id,
+      phoneNumberId: agency.settings.whatsappPhoneNumberId as string,
+      waId: message.from,
+      type: message.type,
+      ...(message.context ? { context: message.context.id } : {}),
+    };
+
+    try {
+      await Communication.create({
+        _id: communicationId,
+        agency: agency._id,
+        lead: lead._id,
+        channel: CommunicationChannel.WHATSAPP,
+        direction: CommunicationDirection.INCOMING,
+        content: describeInboundMessage(message),
+        sentAt: fromUnixSeconds(message.timestamp),
+        attachments,
+        metadata: { whatsapp: metadata },
+      });
+    } catch (error) {
+      await attachmentStorageService.remove(attachments.map((attachment) => attachment._id));
+      throw error;
+    }
+  }
+
+  /**
+   * Find the agency's lead with a WhatsApp number, however its phone was typed, or
+   * create one named after the WhatsApp profile
+   * @param agency - Agency owning the business number
+   * @param waId - Sender as international digits
+   * @param profileName - WhatsApp profile name of the sender
+   * @returns Lead and whether it was created
+   */
+  private async findOrCreateLead(
+    agency: IAgency,
+    waId: string,
+    profileName?: string,
+  ): Promise<{ lead: ILead; leadCreated: boolean }> {
+    const existing = await Lead.findOne({ agency: agency._id, phone: { $regex: phoneNumberPattern(waId) } })
+      .sort({ updatedAt: -1 })
+      .exec();
+    if (existing) {
+      return { lead: existing, leadCreated: false };
+    }
+    const lead = await Lead.create({
+      agency: agency._id,
+      name: profileName?.trim() || `+${waId}`,
+      phone: `+${waId}`,
+      source: LeadSource.WHATSAPP,
+    });
+    return { lead, leadCreated: true };
+  }
+
+  /**
+   * Download and store the media of a message. Media that cannot be downloaded is
+   * left out, so the message is still logged and WhatsApp does not post it again.
+   * @param lead - Lead the message comes from
+   * @param communicationId - Communication the media belongs to
+   * @param message - Message from the webhook
+   * @returns Stored attachments
+   */
+  private async storeMedia(
+    lead: ILead,
+    communicationId: Types.ObjectId,
+    message: WhatsAppInboundMessage,
+  ): Promise<IAttachment[]> {
+    const media = mediaOf(message);
+    if (!media) {
+      return [];
+    }
+    try {
+      const { contentType, content } = await whatsappApiService.downloadMedia(media.id);
+      const extension = contentType.split(';')[0].split('/')[1] ?? 'bin';
+      return await communicationService.storeAttachments(lead.agency.toString(), communicationId, [
+        { filename: media.filename ?? `${message.type}-${media.id}.${extension}`, contentType, content },
+      ]);
+    } catch (error) {
+      logger.warn(`WhatsApp media ${media.id} could not be stored: ${(error as Error).message}`);
+      return [];
+    }
+  }
+}
+
+export const communicationWhatsAppService = new CommunicationWhatsAppService();
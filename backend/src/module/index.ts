@@ -4,12 +4,30 @@ import '../types/express/index';
 import { OkSuccess } from '../shared/utils/customSuccess';
 
 import agencyRoutes from './agency/agency.routes';
+import auditRoutes from './audit/audit.routes';
 import authRoutes from './auth/auth.routes';
+import bookingRoutes from './booking/booking.routes';
+import communicationRoutes from './communication/communication.routes';
+import leadRoutes from './lead/lead.routes';
+import platformRoutes from './platform/platform.routes';
+import roleRoutes from './role/role.routes';
+import taskRoutes from './task/task.routes';
+import userRoutes from './user/user.routes';
+import webhookRoutes from './webhook/webhook.routes';
 
 const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/agency', agencyRoutes);
+router.use('/leads', leadRoutes);
+router.use('/tasks', taskRoutes);
+router.use('/bookings', bookingRoutes);
+router.use('/communications', communicationRoutes);
+router.use('/users', userRoutes);
+router.use('/roles', roleRoutes);
+router.use('/platform', platformRoutes);
+router.use('/audit-logs', auditRoutes);
+router.use('/webhooks', webhookRoutes);
 
 router.get('/health', (req, res) => {
   const uptime = process.uptime();
@@ -0,0 +1,242 @@
+import { Response, NextFunction } from 'express';
+
+import { ILead } from '../../shared/models/lead.model';
+import { getAuthenticatedUser } from '../../shared/utils/authUser';
+import { CreatedSuccess, NoContentSuccess, OkSuccess } from '../../shared/utils/CustomSuccess';
+import { LeadTimelineItemType } from '../../types/enum/lead';
+import { AuthenticatedRequest } from '../../types/express/index';
+import { toActorSummary } from '../audit/audit.controller';
+import { toBookingResponse } from '../booking/booking.controller';
+import { toCommunicationResponse } from '../communication/communication.controller';
+import { toTaskResponse } from '../task/task.controller';
+
+import {
+  ILeadResponse,
+  ILeadTimelineEntry,
+  ILeadTimelineItemResponse,
+  ILeadVersion,
+  ILeadVersionResponse,
+} from './lead.interface';
+import { leadService } from './lead.service';
+import { LeadTimelineQuery, ListLeadsQuery } from './lead.validator';
+import { leadHistoryService } from './leadHistory.service';
+import { leadTimelineService } from './leadTimeline.service';
+
+/**
+ * Map a lead document to its API representation
+ * @param lead - Lead document
+ * @returns Lead response payload
+ */
+export const toLeadResponse = (lead: ILead): ILeadResponse => ({
+  id: lead.id,
+  name: lead.name,
+  email: lead.email,
+  phone: lead.phone,
+  status: lead.status,
+  source: lead.source,
+  tags: lead.tags,
+  notes: lead.notes,
+  budget: lead.budget,
+  travelDates: lead.travelDates,
+  assignedTo: lead.assignedTo?.toString(),
+  collaborators: lead.collaborators.map(String),
+  aiPriorityScore: lead.aiPriorityScore,
+  preferences: lead.preferences ? Object.fromEntries(lead.preferences) : {},
+  isReturnCustomer: lead.isReturnCustomer,
+  previousBookings: lead.previousBookings.map(String),
+  smsOptedOutAt: lead.smsOptedOutAt ?? null,
+  createdBy: lead.createdBy?.toString(),
+  createdAt: lead.createdAt,
+  updatedAt: lead.updatedAt,
+});
+
+/**
+ * Map a timeline entry to its API representation
+ * @param entry - Timeline entry
+ * @returns Timeline item payload
+ */
+const toTimelineItemResponse = (entry: ILeadTimelineEntry): ILeadTimelineItemResponse => {
+  switch (entry.type) {
+    case LeadTimelineItemType.COMMUNICATION: {
+      return { type: entry.type, date: entry.date, data: toCommunicationResponse(entry.communication) };
+    }
+    case LeadTimelineItemType.TASK: {
+      return { type: entry.type, date: entry.date, data: toTaskResponse(entry.task) };
+    }
+    default: {
+      return { type: entry.type, date: entry.date, data: toBookingResponse(entry.booking) };
+    }
+  }
+};
+
+/**
+ * Map a lead version to its API representation
+ * @param leadVersion - Lead version with its actor populated
+ * @returns Lead version payload
+ */
+const toLeadVersionResponse = (leadVersion: ILeadVersion): ILeadVersionResponse => {
+  const { version, auditLog } = leadVersion;
+  const revertedTo = auditLog.details?.revertedTo;
+  return {
+    id: auditLog.id,
+    version,
+    action: auditLog.action,
+    actor: toActorSummary(auditLog),
+    actorType: auditLog.actorType,
+    impersonatedBy: auditLog.impersonatedBy?.toString(),
+    changes: auditLog.changes,
+    ...(typeof revertedTo === 'number' && { revertedTo }),
+    createdAt: auditLog.createdAt,
+  };
+};
+
+/**
+ * Lead Controller Class
+ * Implements controller layer with proper error handling and response formatting
+ * All handlers are agency scoped through the authenticated user
+ */
+export class LeadController {
+  /**
+   * Create a new lead
+   * Validation is handled by middleware
+   * @param req
+   * @param res
+   * @param next
+   */
+  async createLead(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency, id } = getAuthenticatedUser(req);
+      const lead = await leadService.createLead(agency, id, req.body);
+      res.customSuccess(new CreatedSuccess(toLeadResponse(lead), 'Lead created successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List leads with pagination and filtering
+   * @param req
+   * @param res
+   * @param next
+   */
+  async listLeads(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await leadService.listLeads(getAuthenticatedUser(req), req.query as unknown as ListLeadsQuery);
+      res.customSuccess(
+        new OkSuccess({
+          leads: result.leads.map(toLeadResponse),
+          pagination: {
+            totalLeads: result.totalLeads,
+            totalPages: result.totalPages,
+            currentPage: result.currentPage,
+            hasNextPage: result.hasNextPage,
+            hasPrevPage: result.hasPrevPage,
+          },
+        }),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get lead by ID
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getLead(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const lead = await leadService.getLead(getAuthenticatedUser(req), req.params.leadId);
+      res.customSuccess(new OkSuccess(toLeadResponse(lead)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the merged timeline of communications, completed tasks and bookings of a lead
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getTimeline(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const entries = await leadTimelineService.getTimeline(
+        getAuthenticatedUser(req),
+        req.params.leadId,
+        req.query as unknown as LeadTimelineQuery,
+      );
+      res.customSuccess(new OkSuccess({ items: entries.map(toTimelineItemResponse) }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the recorded versions of a lead, newest first
+   * @param req
+   * @param res
+   * @param next
+   */
+  async getHistory(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const versions = await leadHistoryService.getHistory(getAuthenticatedUser(req), req.params.leadId);
+      res.customSuccess(new OkSuccess({ versions: versions.map(toLeadVersionResponse) }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revert a lead to a previous version
+   * @param req
+   * @param res
+   * @param next
+   */
+  async revertLead(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const lead = await leadHistoryService.revertToVersion(
+        getAuthenticatedUser(req),
+        req.params.leadId,
+        req.params.versionId,
+      );
+      res.customSuccess(new OkSuccess(toLeadResponse(lead), 'Lead reverted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update lead
+   * Validation is handled by middleware
+   * @param req
+   * @param res
+   * @param next
+   */
+  async updateLead(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const lead = await leadService.updateLead(getAuthenticatedUser(req), req.params.leadId, req.body);
+      res.customSuccess(new OkSuccess(toLeadResponse(lead), 'Lead updated successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete lead
+   * @param req
+   * @param res
+   * @param next
+   */
+  async deleteLead(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await leadService.deleteLead(getAuthenticatedUser(req), req.params.leadId);
+      res.customSuccess(new NoContentSuccess('Lead deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const leadController = new LeadController();
@@ -0,0 +1,76 @@
+import { IAuditChange, IAuditLog } from '../../shared/models/auditLog.model';
+import { IBooking } from '../../shared/models/booking.model';
+import { ICommunication } from '../../shared/models/communication.model';
+import { ILead } from '../../shared/models/lead.model';
+import { ITask } from '../../shared/models/task.model';
+import { AuditActorType } from '../../types/enum/audit';
+import { LeadSource, LeadStatus, LeadTimelineItemType } from '../../types/enum/lead';
+import { IAuditActorSummary } from '../audit/audit.interface';
+import { IBookingResponse } from '../booking/booking.interface';
+import { ICommunicationResponse } from '../communication/communication.interface';
+import { ITaskResponse } from '../task/task.interface';
+
+export interface ILeadResponse {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  status: LeadStatus;
+  source: LeadSource;
+  tags: string[];
+  notes?: string;
+  budget?: number;
+  travelDates?: {
+    start?: Date;
+    end?: Date;
+  };
+  assignedTo?: string;
+  collaborators: string[];
+  aiPriorityScore: number;
+  preferences: Record<string, string>;
+  isReturnCustomer: boolean;
+  previousBookings: string[];
+  smsOptedOutAt?: Date | null;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPaginatedLeads {
+  leads: ILead[];
+  totalLeads: number;
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export type ILeadTimelineEntry =
+  | { type: LeadTimelineItemType.COMMUNICATION; date: Date; communication: ICommunication }
+  | { type: LeadTimelineItemType.TASK; date: Date; task: ITask }
+  | { type: LeadTimelineItemType.BOOKING; date: Date; booking: IBooking };
+
+export interface ILeadTimelineItemResponse {
+  type: LeadTimelineItemType;
+  date: Date;
+  data: ICommunicationResponse | ITaskResponse | IBookingResponse;
+}
+
+// A recorded version of a lead: the audit entry of the create or update that produced it
+export interface ILeadVersion {
+  version: number;
+  auditLog: IAuditLog;
+}
+
+export interface ILeadVersionResponse {
+  id: string;
+  version: number;
+  action: string;
+  actor: IAuditActorSummary | null;
+  actorType: AuditActorType;
+  impersonatedBy?: string;
+  changes: IAuditChange[];
+  // Version this one restored, for reverts
+  revertedTo?: number;
+  createdAt: Date;
+}
@@ -0,0 +1,353 @@
+import { Router } from 'express';
+import passport from 'passport';
+
+import { checkPermission } from '../../shared/middlewares/checkPermission.middleware';
+import { validateBody, validateParams, validateQuery } from '../../shared/middlewares/validation.middleware';
+
+import { leadController } from './lead.controller';
+import {
+  createLeadSchema,
+  updateLeadSchema,
+  listLeadsQuerySchema,
+  leadTimelineQuerySchema,
+  leadVersionParamSchema,
+  leadIdParamSchema,
+} from './lead.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /leads:
+ *   post:
+ *     summary: Create a new lead in the caller's agency
+ *     tags: [Leads]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - source
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               phone:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *                 enum: [new, contacted, qualified, proposal, negotiation, booked, lost]
+ *               source:
+ *                 type: string
+ *                 enum: [website, referral, social, email, phone, whatsapp, marketplace, other]
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               notes:
+ *                 type: string
+ *               budget:
+ *                 type: number
+ *                 minimum: 0
+ *               travelDates:
+ *                 type: object
+ *                 properties:
+ *                   start:
+ *                     type: string
+ *                     format: date-time
+ *                   end:
+ *                     type: string
+ *                     format: date-time
+ *               assignedTo:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ *               collaborators:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   pattern: '^[0-9a-fA-F]{24}$'
+ *               aiPriorityScore:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *               preferences:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *               isReturnCustomer:
+ *                 type: boolean
+ */
+// Create lead
+router.post(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('leads', 'create'),
+  validateBody(createLeadSchema),
+  leadController.createLead,
+);
+
+/**
+ * @swagger
+ * /leads:
+ *   get:
+ *     summary: List the agency's leads with pagination and filtering
+ *     tags: [Leads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Items per page
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search term for name, email or phone
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: Filter by lead status
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *         description: Filter by lead source
+ *       - in: query
+ *         name: assignedTo
+ *         schema:
+ *           type: string
+ *         description: Filter by assigned user ID
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *         description: Filter by tag
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [name, status, budget, aiPriorityScore, createdAt, updatedAt]
+ *         description: Sort field
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Sort order
+ */
+// List leads
+router.get(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('leads', 'read'),
+  validateQuery(listLeadsQuerySchema),
+  leadController.listLeads,
+);
+
+/**
+ * @swagger
+ * /leads/{leadId}:
+ *   get:
+ *     summary: Get lead by ID
+ *     tags: [Leads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Lead MongoDB ObjectId
+ */
+// Get lead details
+router.get(
+  '/:leadId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('leads', 'read'),
+  validateParams(leadIdParamSchema),
+  leadController.getLead,
+);
+
+/**
+ * @swagger
+ * /leads/{leadId}/timeline:
+ *   get:
+ *     summary: Chronological feed of a lead's communications, completed tasks and bookings
+ *     tags: [Leads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Lead MongoDB ObjectId
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *         description: Maximum number of items, defaults to 50
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Newest first by default
+ */
+// Get lead timeline
+router.get(
+  '/:leadId/timeline',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('leads', 'read'),
+  validateParams(leadIdParamSchema),
+  validateQuery(leadTimelineQuerySchema),
+  leadController.getTimeline,
+);
+
+/**
+ * @swagger
+ * /leads/{leadId}/history:
+ *   get:
+ *     summary: Versions of a lead with who changed which fields and when, newest first
+ *     description: Built from the audit trail; every create and update of the lead is a version
+ *     tags: [Leads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Lead MongoDB ObjectId
+ */
+// Get lead history
+router.get(
+  '/:leadId/history',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('leads', 'read'),
+  validateParams(leadIdParamSchema),
+  leadController.getHistory,
+);
+
+/**
+ * @swagger
+ * /leads/{leadId}/history/{versionId}/revert:
+ *   post:
+ *     summary: Restore a lead to the field values of a previous version
+ *     description: Undoes the changes recorded after the version; the revert is recorded as a new version
+ *     tags: [Leads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Lead MongoDB ObjectId
+ *       - in: path
+ *         name: versionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: ID of the version, as listed in the lead history
+ */
+// Revert lead to a version
+router.post(
+  '/:leadId/history/:versionId/revert',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('leads', 'revert'),
+  validateParams(leadVersionParamSchema),
+  leadController.revertLead,
+);
+
+/**
+ * @swagger
+ * /leads/{leadId}:
+ *   patch:
+ *     summary: Update lead
+ *     tags: [Leads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Lead MongoDB ObjectId
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Any subset of the fields accepted on create
+ */
+// Update lead
+router.patch(
+  '/:leadId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('leads', 'update'),
+  validateParams(leadIdParamSchema),
+  validateBody(updateLeadSchema),
+  leadController.updateLead,
+);
+
+/**
+ * @swagger
+ * /leads/{leadId}:
+ *   delete:
+ *     summary: Delete lead
+ *     tags: [Leads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: leadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Lead MongoDB ObjectId
+ */
+// Delete lead
+router.delete(
+  '/:leadId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('leads', 'delete'),
+  validateParams(leadIdParamSchema),
+  leadController.deleteLead,
+);
+
+export default router;
@@ -0,0 +1,201 @@
+import { FilterQuery, SortOrder } from 'mongoose';
+
+import { ILead, Lead } from '../../shared/models/lead.model';
+import { BaseService } from '../../shared/services/BaseService';
+import { assertAgencyUsers } from '../../shared/utils/agencyScope';
+import { BadRequestError, NotFoundError, InternalServerError, CustomError } from '../../shared/utils/CustomError';
+import { escapeRegex } from '../../shared/utils/escapeRegex';
+import { AuthenticatedUser } from '../../types/express/index';
+import { agencyRoleService } from '../agency/agencyRole.service';
+
+import { IPaginatedLeads } from './lead.interface';
+import { CreateLeadInput, ListLeadsQuery, UpdateLeadInput } from './lead.validator';
+
+/**
+ * Lead Service Class
+ * Extends BaseService to inherit common CRUD operations
+ * Every operation is scoped to the agency of the calling user
+ */
+export class LeadService extends BaseService<ILead> {
+  constructor() {
+    super(Lead, 'Lead');
+  }
+
+  /**
+   * Create a new lead inside an agency
+   * @param agencyId - Agency the lead belongs to
+   * @param userId - User creating the lead
+   * @param data - Lead creation data
+   * @returns Created lead
+   */
+  async createLead(agencyId: string, userId: string, data: CreateLeadInput): Promise<ILead> {
+    try {
+      await assertAgencyUsers(agencyId, [data.assignedTo, ...(data.collaborators ?? [])]);
+
+      // Use model directly to avoid interface conflicts with string ObjectIds
+      const lead = new Lead({
+        ...data,
+        agency: agencyId,
+        createdBy: userId,
+      });
+      return await lead.save();
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Lead creation failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get a lead of the agency by ID
+   * @param agencyId - Agency ID
+   * @param leadId - Lead ID
+   * @returns Lead document
+   */
+  async getLeadById(agencyId: string, leadId: string): Promise<ILead> {
+    const lead = await this.findOne({ _id: leadId, agency: agencyId });
+    if (!lead) {
+      throw new NotFoundError(`Lead not found with ID: ${leadId}`);
+    }
+    return lead;
+  }
+
+  /**
+   * Get a lead the caller may read
+   * @param actor - Calling user
+   * @param leadId - Lead ID
+   * @returns Lead document
+   */
+  async getLead(actor: AuthenticatedUser, leadId: string): Promise<ILead> {
+    const lead = await this.getLeadById(actor.agency, leadId);
+    await agencyRoleService.assertCanAccess(actor, 'leads', 'read', lead);
+    return lead;
+  }
+
+  /**
+   * Ensure a lead referenced by another record belongs to the agency
+   * @param agencyId - Agency ID
+   * @param leadId - Lead ID
+   * @throws {BadRequestError} When the lead is missing or outside the agency
+   */
+  async assertLeadInAgency(agencyId: string, leadId: string): Promise<void> {
+    const exists = await this.exists({ _id: leadId, agency: agencyId });
+    if (!exists) {
+      throw new BadRequestError('Lead does not belong to this agency');
+    }
+  }
+
+  /**
+   * Update a lead of the agency
+   * @param actor - Calling user
+   * @param leadId - Lead ID
+   * @param data - Update data
+   * @returns Updated lead
+   */
+  async updateLead(actor: AuthenticatedUser, leadId: string, data: UpdateLeadInput): Promise<ILead> {
+    try {
+      await agencyRoleService.assertCanAccess(actor, 'leads', 'update', await this.getLeadById(actor.agency, leadId));
+      await assertAgencyUsers(actor.agency, [data.assignedTo, ...(data.collaborators ?? [])]);
+
+      const lead = await this.model
+        .findOneAndUpdate({ _id: leadId, agency: actor.agency }, data, { new: true, runValidators: true })
+        .exec();
+      if (!lead) {
+        throw new NotFoundError(`Lead not found with ID: ${leadId}`);
+      }
+      return lead;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'updateLead');
+    }
+  }
+
+  /**
+   * Delete a lead of the agency
+   * @param actor - Calling user
+   * @param leadId - Lead ID
+   */
+  async deleteLead(actor: AuthenticatedUser, leadId: string): Promise<void> {
+    try {
+      await agencyRoleService.assertCanAccess(actor, 'leads', 'delete', await this.getLeadById(actor.agency, leadId));
+
+      const lead = await this.model.findOneAndDelete({ _id: leadId, agency: actor.agency }).exec();
+      if (!lead) {
+        throw new NotFoundError(`Lead not found with ID: ${leadId}`);
+      }
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'deleteLead');
+    }
+  }
+
+  /**
+   * List agency leads with pagination and filtering.
+   * Callers who may only read their own leads see just the leads assigned to them.
+   * @param actor - Calling user
+   * @param query - Validated list query
+   * @returns Paginated leads
+   */
+  async listLeads(actor: AuthenticatedUser, query: ListLeadsQuery): Promise<IPaginatedLeads> {
+    const { page, limit, sort, order } = query;
+    const sortObj: Record<string, SortOrder> = { [sort]: order === 'asc' ? 1 : -1 };
+
+    const filter = this.buildListFilter(actor.agency, query);
+    const ownership = await agencyRoleService.scopeFilter(actor, 'leads', 'read');
+    if (Object.keys(ownership).length > 0) {
+      filter.$and = [ownership];
+    }
+
+    const result = await this.paginate(filter, page, limit, sortObj);
+
+    return {
+      leads: result.documents,
+      totalLeads: result.totalDocuments,
+      totalPages: result.totalPages,
+      currentPage: result.currentPage,
+      hasNextPage: result.hasNextPage,
+      hasPrevPage: result.hasPrevPage,
+    };
+  }
+
+  /**
+   * Build the agency-scoped filter for listing leads
+   * @param agencyId - Agency ID
+   * @param query - Validated list query
+   * @returns Mongo filter
+   */
+  private buildListFilter(agencyId: string, query: ListLeadsQuery): FilterQuery<ILead> {
+    const { search, status, source, assignedTo, tag } = query;
+    const filter: FilterQuery<ILead> = { agency: agencyId };
+
+    if (search) {
+      const pattern = escapeRegex(search);
+      filter.$or = [
+        { name: { $regex: pattern, $options: 'i' } },
+        { email: { $regex: pattern, $options: 'i' } },
+        { phone: { $regex: pattern, $options: 'i' } },
+      ];
+    }
+    if (status) {
+      filter.status = status;
+    }
+    if (source) {
+      filter.source = source;
+    }
+    if (assignedTo) {
+      filter.assignedTo = assignedTo;
+    }
+    if (tag) {
+      filter.tags = tag;
+    }
+
+    return filter;
+  }
+}
+
+export const leadService = new LeadService();
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+
+import { PAGINATION_DEFAULT_LIMIT, PAGINATION_DEFAULT_PAGE } from '../../shared/constant/validation';
+import { LeadSource, LeadStatus } from '../../types/enum/lead';
+
+const NAME_MAX_LENGTH = 100;
+const PHONE_MAX_LENGTH = 20;
+const EMAIL_MAX_LENGTH = 255;
+const NOTES_MAX_LENGTH = 5000;
+const TAG_MAX_LENGTH = 50;
+const TAGS_MAX_COUNT = 50;
+const COLLABORATORS_MAX_COUNT = 20;
+const TIMELINE_DEFAULT_LIMIT = 50;
+const TIMELINE_MAX_LIMIT = 200;
+
+// Common validation schemas
+const objectIdSchema = z.string().regex(/^[\dA-Fa-f]{24}$/, 'Invalid ObjectId format');
+
+const travelDatesSchema = z
+  .object({
+    start: z.coerce.date().optional(),
+    end: z.coerce.date().optional(),
+  })
+  .refine((dates) => !dates.start || !dates.end || dates.end >= dates.start, {
+    message: 'Travel end date must be on or after the start date',
+    path: ['end'],
+  });
+
+// Fields shared by create and update; defaults are applied by the model
+const leadFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(NAME_MAX_LENGTH, 'Name must not exceed 100 characters'),
+  email: z
+    .string()
+    .email('Invalid email format')
+    .toLowerCase()
+    .trim()
+    .max(EMAIL_MAX_LENGTH, 'Email must not exceed 255 characters')
+    .optional(),
+  phone: z.string().trim().max(PHONE_MAX_LENGTH, 'Phone must not exceed 20 characters').optional(),
+  status: z.nativeEnum(LeadStatus).optional(),
+  source: z.nativeEnum(LeadSource),
+  tags: z
+    .array(z.string().trim().min(1).max(TAG_MAX_LENGTH, 'Tag must not exceed 50 characters'))
+    .max(TAGS_MAX_COUNT, 'Cannot have more than 50 tags')
+    .optional(),
+  notes: z.string().max(NOTES_MAX_LENGTH, 'Notes must not exceed 5000 characters').optional(),
+  budget: z.number().nonnegative('Budget cannot be negative').optional(),
+  travelDates: travelDatesSchema.optional(),
+  assignedTo: objectIdSchema.optional(),
+  collaborators: z
+    .array(objectIdSchema)
+    .max(COLLABORATORS_MAX_COUNT, 'Cannot have more than 20 collaborators')
+    .optional(),
+  aiPriorityScore: z.number().min(0).max(1).optional(),
+  preferences: z.record(z.string()).optional(),
+  isReturnCustomer: z.boolean().optional(),
+});
+
+// Create lead schema
+export const createLeadSchema = leadFieldsSchema;
+
+// Update lead schema (all fields optional)
+export const updateLeadSchema = leadFieldsSchema.partial();
+
+// Query parameters schema for listing leads
+export const listLeadsQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_PAGE)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_LIMIT)),
+  search: z.string().trim().optional(),
+  status: z.nativeEnum(LeadStatus).optional(),
+  source: z.nativeEnum(LeadSource).optional(),
+  assignedTo: objectIdSchema.optional(),
+  tag: z.string().trim().optional(),
+  sort: z
+    .enum(['name', 'status', 'budget', 'aiPriorityScore', 'createdAt', 'updatedAt'])
+    .optional()
+    .default('createdAt'),
+  order: z.enum(['asc', 'desc']).optional().default('desc'),
+});
+
+// Query parameters schema for the lead timeline
+export const leadTimelineQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(TIMELINE_MAX_LIMIT).optional().default(TIMELINE_DEFAULT_LIMIT),
+  order: z.enum(['asc', 'desc']).optional().default('desc'),
+});
+
+// Parameter validation schemas
+export const leadIdParamSchema = z.object({
+  leadId: objectIdSchema.describe('Lead MongoDB ObjectId'),
+});
+
+export const leadVersionParamSchema = leadIdParamSchema.extend({
+  versionId: objectIdSchema.describe('Audit log ObjectId of the lead version'),
+});
+
+// Export types
+export type CreateLeadInput = z.infer<typeof createLeadSchema>;
+export type UpdateLeadInput = z.infer<typeof updateLeadSchema>;
+export type ListLeadsQuery = z.infer<typeof listLeadsQuerySchema>;
+export type LeadTimelineQuery = z.infer<typeof leadTimelineQuerySchema>;
+export type LeadIdParam = z.infer<typeof leadIdParamSchema>;
+export type LeadVersionParam = z.infer<typeof leadVersionParamSchema>;
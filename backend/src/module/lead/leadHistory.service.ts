@@ -0,0 +1,143 @@
+import { isDeepStrictEqual } from 'node:util';
+
+import { AuditLog, IAuditLog } from '../../shared/models/auditLog.model';
+import { toSnapshot } from '../../shared/models/auditTrail.plugin';
+import { ILead } from '../../shared/models/lead.model';
+import { assertAgencyUsers } from '../../shared/utils/agencyScope';
+import { BusinessError, CustomError, InternalServerError, NotFoundError } from '../../shared/utils/CustomError';
+import { AuditAction } from '../../types/enum/audit';
+import { AuthenticatedUser } from '../../types/express/index';
+
+import { ILeadVersion } from './lead.interface';
+import { leadService } from './lead.service';
+
+const ACTOR_SUMMARY_FIELDS = 'firstName lastName email';
+// Ownership of a lead is not part of its history
+const NON_REVERTIBLE_FIELDS = new Set(['agency', 'createdBy']);
+
+// Missing fields are recorded as absent rather than null
+const isSameValue = (first: unknown, second: unknown): boolean => isDeepStrictEqual(first ?? null, second ?? null);
+
+/**
+ * Lead History Service Class
+ * Versions of a lead as recorded by the audit trail: each create or update of the
+ * lead is a version, numbered from the oldest. Reverting restores the field values
+ * of a version by undoing the changes recorded after it, which is refused when the
+ * lead was changed without being recorded since.
+ */
+class LeadHistoryService {
+  /**
+   * List the versions of a lead of the agency, newest first
+   * @param actor - Calling user, who must be able to read the lead
+   * @param leadId - Lead ID
+   * @returns Lead versions with their actor populated
+   */
+  async getHistory(actor: AuthenticatedUser, leadId: string): Promise<ILeadVersion[]> {
+    await leadService.getLead(actor, leadId);
+
+    const auditLogs = await this.findVersions(actor.agency, leadId);
+    await AuditLog.populate(auditLogs, { path: 'actor', select: ACTOR_SUMMARY_FIELDS });
+    return auditLogs.map((auditLog, index) => ({ version: index + 1, auditLog })).reverse();
+  }
+
+  /**
+   * Restore a lead to the field values it had at a version. The revert is itself
+   * recorded as a new version.
+   * @param actor - Calling user
+   * @param leadId - Lead ID
+   * @param versionId - Audit log ID of the version to restore
+   * @returns Reverted lead
+   * @throws {NotFoundError} When the lead has no such version
+   * @throws {BusinessError} When the lead changed outside its history since, or already matches the version
+   */
+  async revertToVersion(actor: AuthenticatedUser, leadId: string, versionId: string): Promise<ILead> {
+    const lead = await leadService.getLeadById(actor.agency, leadId);
+    const auditLogs = await this.findVersions(actor.agency, leadId);
+    const index = auditLogs.findIndex((auditLog) => auditLog.id === versionId);
+    if (index === -1) {
+      throw new NotFoundError(`Lead version not found with ID: ${versionId}`);
+    }
+    const unrecordedField = this.findUnrecordedChange(lead, auditLogs, index);
+    if (unrecordedField) {
+      throw new BusinessError(
+        `The lead's ${unrecordedField} was changed without being recorded since this version, so it cannot be restored`,
+      );
+    }
+
+    lead.set(Object.fromEntries(this.valuesBefore(auditLogs.slice(index + 1))));
+    if (!lead.isModified()) {
+      throw new BusinessError('The lead already matches this version');
+    }
+    await assertAgencyUsers(actor.agency, [lead.assignedTo?.toString(), ...lead.collaborators.map(String)]);
+
+    try {
+      lead.$locals.auditDetails = { revertedTo: index + 1 };
+      return await lead.save();
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Lead revert failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Read the create and update entries of a lead, oldest first
+   * @param agencyId - Agency ID
+   * @param leadId - Lead ID
+   * @returns Audit log entries
+   */
+  private async findVersions(agencyId: string, leadId: string): Promise<IAuditLog[]> {
+    return AuditLog.find({
+      agency: agencyId,
+      resource: 'leads',
+      resourceId: leadId,
+      action: { $in: [AuditAction.CREATE, AuditAction.UPDATE] },
+    })
+      .sort({ createdAt: 1, _id: 1 })
+      .exec();
+  }
+
+  /**
+   * Find a field changed without an audit entry after a version: one whose value
+   * before a later change is not the value its previous change left, or whose last
+   * recorded value is not the lead's current value
+   * @param lead - Lead as currently stored
+   * @param auditLogs - All entries of the lead, oldest first
+   * @param versionIndex - Index of the version being restored
+   * @returns First such field or null when the history is complete
+   */
+  private findUnrecordedChange(lead: ILead, auditLogs: IAuditLog[], versionIndex: number): string | null {
+    const recorded = new Map<string, unknown>();
+    for (const [index, auditLog] of auditLogs.entries()) {
+      for (const change of auditLog.changes) {
+        const isGap = recorded.has(change.field) && !isSameValue(recorded.get(change.field), change.before);
+        if (isGap && index > versionIndex) {
+          return change.field;
+        }
+        recorded.set(change.field, change.after);
+      }
+    }
+
+    const current = toSnapshot(lead);
+    return [...recorded].find(([field, value]) => !isSameValue(value, current?.get(field)))?.[0] ?? null;
+  }
+
+  /**
+   * Work out the values fields had before a run of changes: the value before the
+   * first change of each field. Fields absent at the time come back undefined.
+   * @param auditLogs - Entries after the version being restored, oldest first
+   * @returns Values to restore keyed by field
+   */
+  private valuesBefore(auditLogs: IAuditLog[]): Map<string, unknown> {
+    const values = new Map<string, unknown>();
+    for (const change of auditLogs.flatMap((auditLog) => auditLog.changes)) {
+      if (!NON_REVERTIBLE_FIELDS.has(change.field) && !values.has(change.field)) {
+        values.set(change.field, change.before);
+      }
+    }
+    return values;
+  }
+}
+
+export const leadHistoryService = new LeadHistoryService();
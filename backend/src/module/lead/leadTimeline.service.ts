@@ -0,0 +1,63 @@
+import { Booking } from '../../shared/models/booking.model';
+import { Communication } from '../../shared/models/communication.model';
+import { Task } from '../../shared/models/task.model';
+import { LeadTimelineItemType } from '../../types/enum/lead';
+import { AuthenticatedUser } from '../../types/express/index';
+
+import { ILeadTimelineEntry } from './lead.interface';
+import { leadService } from './lead.service';
+import { LeadTimelineQuery } from './lead.validator';
+
+/**
+ * Lead Timeline Service Class
+ * Merges the communications, completed tasks and bookings of a lead into one chronological feed
+ */
+class LeadTimelineService {
+  /**
+   * Build the timeline of a lead of the agency
+   * Each source is read pre-sorted and capped at the limit, so the merged head is exact
+   * @param actor - Calling user, who must be able to read the lead
+   * @param leadId - Lead ID
+   * @param query - Validated timeline query
+   * @returns Timeline entries ordered by date
+   */
+  async getTimeline(actor: AuthenticatedUser, leadId: string, query: LeadTimelineQuery): Promise<ILeadTimelineEntry[]> {
+    await leadService.getLead(actor, leadId);
+
+    const { limit, order } = query;
+    const direction = order === 'asc' ? 1 : -1;
+    const scope = { agency: actor.agency, lead: leadId };
+
+    const [communications, tasks, bookings] = await Promise.all([
+      Communication.find(scope).sort({ sentAt: direction }).limit(limit).exec(),
+      Task.find({ ...scope, completed: true })
+        .sort({ completedAt: direction })
+        .limit(limit)
+        .exec(),
+      Booking.find(scope).sort({ createdAt: direction }).limit(limit).exec(),
+    ]);
+
+    const entries: ILeadTimelineEntry[] = [
+      ...communications.map((communication) => ({
+        type: LeadTimelineItemType.COMMUNICATION as const,
+        date: communication.sentAt,
+        communication,
+      })),
+      ...tasks.map((task) => ({
+        type: LeadTimelineItemType.TASK as const,
+        date: task.completedAt ?? task.updatedAt,
+        task,
+      })),
+      ...bookings.map((booking) => ({
+        type: LeadTimelineItemType.BOOKING as const,
+        date: booking.createdAt,
+        booking,
+      })),
+    ];
+
+    entries.sort((a, b) => direction * (a.date.getTime() - b.date.getTime()));
+    return entries.slice(0, limit);
+  }
+}
+
+export const leadTimelineService = new LeadTimelineService();
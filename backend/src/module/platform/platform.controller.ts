@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { IPlatformOperator } from '../../shared/models/platformOperator.model';
+import { getPlatformOperator } from '../../shared/utils/authUser';
+import { getClientInfo } from '../../shared/utils/clientInfo';
+import { CreatedSuccess, NoContentSuccess, OkSuccess } from '../../shared/utils/CustomSuccess';
+import { PlatformRequest } from '../../types/express/index';
+import { IAgency } from '../agency/agency.interface';
+
+import {
+  IAgencyUsage,
+  IAgencyUsageResponse,
+  IImpersonationResponse,
+  IImpersonationResult,
+  IPlatformOperatorResponse,
+} from './platform.interface';
+import { platformService } from './platform.service';
+import { AgencyUsageQuery } from './platform.validator';
+
+/**
+ * Map an operator document to its API representation
+ * @param operator - Platform operator document
+ * @returns Operator response payload
+ */
+const toOperatorResponse = (operator: IPlatformOperator): IPlatformOperatorResponse => ({
+  id: operator.id,
+  email: operator.email,
+  firstName: operator.firstName,
+  lastName: operator.lastName,
+  lastLoginAt: operator.lastLoginAt,
+});
+
+/**
+ * Map an agency to the summary shown to platform operators
+ * @param agency - Agency document
+ * @returns Agency summary
+ */
+const toAgencySummary = (agency: IAgency): IAgencyUsageResponse['agency'] => ({
+  id: agency.id,
+  name: agency.name,
+  code: agency.code,
+  domain: agency.domain,
+  isActive: agency.isActive,
+});
+
+/**
+ * Map agency usage to its API representation
+ * @param usage - Agency and its counts
+ * @returns Usage response payload
+ */
+const toAgencyUsageResponse = (usage: IAgencyUsage): IAgencyUsageResponse => ({
+  agency: toAgencySummary(usage.agency),
+  users: usage.users,
+  activeUsers: usage.activeUsers,
+  leads: usage.leads,
+  bookings: usage.bookings,
+});
+
+/**
+ * Map an impersonation to its API representation
+ * @param result - Impersonation session and user
+ * @returns Impersonation response payload
+ */
+const toImpersonationResponse = (result: IImpersonationResult): IImpersonationResponse => ({
+  token: result.token,
+  sessionId: result.sessionId,
+  expiresAt: result.expiresAt,
+  user: {
+    id: result.user.id,
+    email: result.user.email,
+    firstName: result.user.firstName,
+    lastName: result.user.lastName,
+    agency: result.user.agency.toString(),
+  },
+});
+
+/**
+ * Platform Controller Class
+ * Implements controller layer with proper error handling and response formatting
+ * Handlers act across agencies on behalf of the authenticated platform operator
+ */
+export class PlatformController {
+  /**
+   * Platform operator login
+   * Validation is handled by middleware
+   */
+  async login(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, operator } = await platformService.login(req.body);
+      res.customSuccess(new OkSuccess({ token, operator: toOperatorResponse(operator) }, 'Login successful'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List agencies with their usage
+   * Validation is handled by middleware
+   */
+  async listAgencyUsage(req: PlatformRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agencies, ...pagination } = await platformService.listAgencyUsage(
+        req.query as unknown as AgencyUsageQuery,
+      );
+      res.customSuccess(new OkSuccess({ agencies: agencies.map(toAgencyUsageResponse), ...pagination }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Suspend or reactivate an agency
+   * Validation is handled by middleware
+   */
+  async setAgencyStatus(req: PlatformRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const agency = await platformService.setAgencyStatus(
+        getPlatformOperator(req),
+        req.params.agencyId,
+        req.body,
+        getClientInfo(req),
+      );
+      res.customSuccess(
+        new OkSuccess(toAgencySummary(agency), agency.isActive ? 'Agency reactivated' : 'Agency suspended'),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start impersonating a user of an agency
+   * Validation is handled by middleware
+   */
+  async startImpersonation(req: PlatformRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await platformService.startImpersonation(
+        getPlatformOperator(req),
+        req.params.agencyId,
+        req.body,
+        getClientInfo(req),
+      );
+      res.customSuccess(new CreatedSuccess(toImpersonationResponse(result), 'Impersonation session started'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * End an impersonation session
+   */
+  async endImpersonation(req: PlatformRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await platformService.endImpersonation(getPlatformOperator(req), req.params.sessionId, getClientInfo(req));
+      res.customSuccess(new NoContentSuccess('Impersonation session ended'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const platformController = new PlatformController();
@@ -0,0 +1,67 @@
+import { IPlatformOperator } from '../../shared/models/platformOperator.model';
+import { IUser } from '../../shared/models/user.model';
+import { IAgency } from '../agency/agency.interface';
+
+export interface IPlatformLoginResult {
+  token: string;
+  operator: IPlatformOperator;
+}
+
+export interface IAgencyUsage {
+  agency: IAgency;
+  users: number;
+  activeUsers: number;
+  leads: number;
+  bookings: number;
+}
+
+export interface IPaginatedAgencyUsage {
+  agencies: IAgencyUsage[];
+  totalAgencies: number;
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface IImpersonationResult {
+  token: string;
+  sessionId: string;
+  expiresAt: Date;
+  user: IUser;
+}
+
+export interface IPlatformOperatorResponse {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  lastLoginAt?: Date;
+}
+
+export interface IAgencyUsageResponse {
+  agency: {
+    id: string;
+    name: string;
+    code: string;
+    domain: string;
+    isActive: boolean;
+  };
+  users: number;
+  activeUsers: number;
+  leads: number;
+  bookings: number;
+}
+
+export interface IImpersonationResponse {
+  token: string;
+  sessionId: string;
+  expiresAt: Date;
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    agency: string;
+  };
+}
@@ -0,0 +1,177 @@
+import { Router } from 'express';
+import passport from 'passport';
+
+import { loginLimiter } from '../../shared/middlewares/rateLimiter.middleware';
+import { validateBody, validateParams, validateQuery } from '../../shared/middlewares/validation.middleware';
+
+import { platformController } from './platform.controller';
+import {
+  agencyStatusSchema,
+  agencyUsageQuerySchema,
+  impersonationIdParamSchema,
+  impersonationSchema,
+  platformAgencyIdParamSchema,
+  platformLoginSchema,
+} from './platform.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /platform/auth/login:
+ *   post:
+ *     summary: Sign a platform operator in
+ *     description: Platform operators are not agency users; their tokens are only accepted by platform and agency administration routes
+ *     tags: [Platform]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ */
+// Platform operator login
+router.post('/auth/login', loginLimiter, validateBody(platformLoginSchema), platformController.login);
+
+/**
+ * @swagger
+ * /platform/agencies/usage:
+ *   get:
+ *     summary: List agencies with their number of users, leads and bookings
+ *     tags: [Platform]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ */
+// List agency usage
+router.get(
+  '/agencies/usage',
+  passport.authenticate('platform-jwt', { session: false }),
+  validateQuery(agencyUsageQuerySchema),
+  platformController.listAgencyUsage,
+);
+
+/**
+ * @swagger
+ * /platform/agencies/{agencyId}/status:
+ *   patch:
+ *     summary: Suspend or reactivate an agency
+ *     description: Suspending signs every user of the agency out and blocks their logins until it is reactivated
+ *     tags: [Platform]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agencyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isActive
+ *               - reason
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *               reason:
+ *                 type: string
+ *                 minLength: 10
+ */
+// Suspend or reactivate agency
+router.patch(
+  '/agencies/:agencyId/status',
+  passport.authenticate('platform-jwt', { session: false }),
+  validateParams(platformAgencyIdParamSchema),
+  validateBody(agencyStatusSchema),
+  platformController.setAgencyStatus,
+);
+
+/**
+ * @swagger
+ * /platform/agencies/{agencyId}/impersonations:
+ *   post:
+ *     summary: Start a one-hour session acting as a user of the agency
+ *     description: Impersonates the agency's super admin unless a user is given. The session is audited from start to end, including every request made with it.
+ *     tags: [Platform]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agencyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 minLength: 10
+ */
+// Start impersonation
+router.post(
+  '/agencies/:agencyId/impersonations',
+  passport.authenticate('platform-jwt', { session: false }),
+  validateParams(platformAgencyIdParamSchema),
+  validateBody(impersonationSchema),
+  platformController.startImpersonation,
+);
+
+/**
+ * @swagger
+ * /platform/impersonations/{sessionId}:
+ *   delete:
+ *     summary: End an impersonation session
+ *     tags: [Platform]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+// End impersonation
+router.delete(
+  '/impersonations/:sessionId',
+  passport.authenticate('platform-jwt', { session: false }),
+  validateParams(impersonationIdParamSchema),
+  platformController.endImpersonation,
+);
+
+export default router;
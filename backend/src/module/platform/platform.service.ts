@@ -0,0 +1,274 @@
+import jwt, { Secret, SignOptions } from 'jsonwebtoken';
+import { Types } from 'mongoose';
+
+import { config } from '../../shared/config/index';
+import { PLATFORM_TOKEN_AUDIENCE, PLATFORM_TOKEN_EXPIRES_IN } from '../../shared/constant/platform';
+import { IMPERSONATION_SESSION_TTL } from '../../shared/constant/timeValues';
+import { Booking } from '../../shared/models/booking.model';
+import { Lead } from '../../shared/models/lead.model';
+import { IPlatformOperator, PlatformOperator } from '../../shared/models/platformOperator.model';
+import { Role } from '../../shared/models/role.model';
+import { IUser, User } from '../../shared/models/user.model';
+import { auditService } from '../../shared/services/audit.service';
+import { BaseService } from '../../shared/services/BaseService';
+import { BusinessError, InternalServerError, NotFoundError, UnauthorizedError } from '../../shared/utils/CustomError';
+import logger from '../../shared/utils/logger';
+import { SessionRevocationReason } from '../../types/enum/auth';
+import { PlatformAuditAction } from '../../types/enum/platform';
+import { UserRole } from '../../types/enum/user';
+import { PlatformOperatorUser } from '../../types/express/index';
+import { IAgency } from '../agency/agency.interface';
+import { agencyService } from '../agency/agency.service';
+import { IClientInfo } from '../auth/auth.interface';
+import { authService } from '../auth/auth.service';
+import { sessionService } from '../auth/session.service';
+
+import { IImpersonationResult, IPaginatedAgencyUsage, IPlatformLoginResult } from './platform.interface';
+import { AgencyStatusInput, AgencyUsageQuery, ImpersonationInput, PlatformLoginInput } from './platform.validator';
+
+interface IAgencyCount {
+  _id: Types.ObjectId;
+  count: number;
+  active?: number;
+}
+
+/**
+ * Index per-agency counts by agency ID
+ * @param counts - Aggregation results grouped by agency
+ * @returns Counts keyed by agency ID
+ */
+const toCountMap = (counts: IAgencyCount[]): Map<string, IAgencyCount> =>
+  new Map(counts.map((count) => [count._id.toString(), count]));
+
+/**
+ * Platform Service Class
+ * Cross-agency administration for platform operators: their sign-in, tenant usage,
+ * suspending agencies and impersonating tenant users. Every action on a tenant is audited.
+ */
+export class PlatformService extends BaseService<IPlatformOperator> {
+  private readonly tokenOptions: SignOptions = {
+    expiresIn: PLATFORM_TOKEN_EXPIRES_IN,
+    algorithm: 'RS256',
+    audience: PLATFORM_TOKEN_AUDIENCE,
+  };
+
+  constructor() {
+    super(PlatformOperator, 'PlatformOperator');
+  }
+
+  /**
+   * Create the first platform operator from the environment while none exists
+   */
+  async ensureBootstrapOperator(): Promise<void> {
+    const { operatorEmail, operatorPassword } = config.platform;
+    if (!operatorEmail || !operatorPassword || (await this.exists({}))) {
+      return;
+    }
+
+    await this.model.create({
+      email: operatorEmail,
+      password: operatorPassword,
+      firstName: 'Platform',
+      lastName: 'Operator',
+    });
+    logger.info(`Created platform operator ${operatorEmail}`);
+  }
+
+  /**
+   * Sign a platform operator in
+   * @param data - Email and password
+   * @returns Platform access token and the operator
+   * @throws {UnauthorizedError} When the credentials are invalid or the operator is inactive
+   */
+  async login(data: PlatformLoginInput): Promise<IPlatformLoginResult> {
+    const operator = await this.model.findOne({ email: data.email, isActive: true }).select('+password').exec();
+    if (!operator || !(await operator.comparePassword(data.password))) {
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    operator.lastLoginAt = new Date();
+    await operator.save();
+
+    return { token: this.signToken(operator.id), operator };
+  }
+
+  /**
+   * List agencies with their number of users, leads and bookings
+   * @param query - Pagination and status filter
+   * @returns Paginated agency usage
+   */
+  async listAgencyUsage(query: AgencyUsageQuery): Promise<IPaginatedAgencyUsage> {
+    const filter = typeof query.isActive === 'boolean' ? { isActive: query.isActive } : {};
+    const { agencies, ...pagination } = await agencyService.listAgencies(filter, query.page, query.limit);
+    const agencyIds = agencies.map((agency) => agency._id as Types.ObjectId);
+    const match = { $match: { agency: { $in: agencyIds } } };
+
+    const [users, leads, bookings] = await Promise.all([
+      User.aggregate<IAgencyCount>([
+        match,
+        { $group: { _id: '$agency', count: { $sum: 1 }, active: { $sum: { $cond: ['$isActive', 1, 0] } } } },
+      ]),
+      Lead.aggregate<IAgencyCount>([match, { $group: { _id: '$agency', count: { $sum: 1 } } }]),
+      Booking.aggregate<IAgencyCount>([match, { $group: { _id: '$agency', count: { $sum: 1 } } }]),
+    ]);
+    const [userCounts, leadCounts, bookingCounts] = [users, leads, bookings].map(toCountMap);
+
+    return {
+      ...pagination,
+      agencies: agencies.map((agency) => ({
+        agency,
+        users: userCounts.get(agency.id)?.count ?? 0,
+        activeUsers: userCounts.get(agency.id)?.active ?? 0,
+        leads: leadCounts.get(agency.id)?.count ?? 0,
+        bookings: bookingCounts.get(agency.id)?.count ?? 0,
+      })),
+    };
+  }
+
+  /**
+   * Suspend or reactivate an agency. Suspending signs all of its users out and
+   * blocks their logins until the agency is reactivated.
+   * @param operator - Calling platform operator
+   * @param agencyId - Agency ID
+   * @param data - New status and the reason for it
+   * @param client - IP and user agent of the operator
+   * @returns Updated agency
+   * @throws {NotFoundError} When the agency does not exist
+   * @throws {BusinessError} When the agency is scheduled for deletion or already has the status
+   */
+  async setAgencyStatus(
+    operator: PlatformOperatorUser,
+    agencyId: string,
+    data: AgencyStatusInput,
+    client: IClientInfo,
+  ): Promise<IAgency> {
+    const agency = await agencyService.getAgencyById(agencyId);
+    if (agency.deletion) {
+      throw new BusinessError('Agency is scheduled for deletion; restore it first');
+    }
+    if (agency.isActive === data.isActive) {
+      throw new BusinessError(`Agency is already ${agency.isActive ? 'active' : 'suspended'}`);
+    }
+
+    try {
+      agency.isActive = data.isActive;
+      await agency.save();
+    } catch (error) {
+      this.handleDatabaseError(error, 'setAgencyStatus');
+    }
+
+    if (!data.isActive) {
+      await agencyService.signOutUsers(agencyId, SessionRevocationReason.AGENCY_SUSPENDED);
+    }
+
+    await auditService.logPlatformAction(
+      operator.id,
+      data.isActive ? PlatformAuditAction.AGENCY_REACTIVATED : PlatformAuditAction.AGENCY_SUSPENDED,
+      client,
+      { agency: agencyId, reason: data.reason },
+    );
+    return agency;
+  }
+
+  /**
+   * Open a short-lived session acting as a user of an agency, its super admin by default.
+   * The session is marked as impersonated and every request made with it is audited.
+   * @param operator - Calling platform operator
+   * @param agencyId - Agency ID
+   * @param data - User to impersonate and the reason for it
+   * @param client - IP and user agent of the operator
+   * @returns Access token of the session and the impersonated user
+   * @throws {NotFoundError} When the agency or an active user to impersonate does not exist
+   * @throws {BusinessError} When the agency is suspended
+   */
+  async startImpersonation(
+    operator: PlatformOperatorUser,
+    agencyId: string,
+    data: ImpersonationInput,
+    client: IClientInfo,
+  ): Promise<IImpersonationResult> {
+    const agency = await agencyService.getAgencyById(agencyId);
+    if (!agency.isActive) {
+      throw new BusinessError('Reactivate the agency before impersonating its users');
+    }
+
+    const user = await this.findImpersonationTarget(agencyId, data.userId);
+    const expiresAt = new Date(Date.now() + IMPERSONATION_SESSION_TTL);
+    const { sessionId, token } = await authService.startImpersonation(user.id, client, {
+      operatorId: operator.id,
+      reason: data.reason,
+      expiresAt,
+    });
+
+    await auditService.logPlatformAction(operator.id, PlatformAuditAction.IMPERSONATION_STARTED, client, {
+      agency: agencyId,
+      user: user.id,
+      sessionId,
+      reason: data.reason,
+      expiresAt,
+    });
+    return { token, sessionId, expiresAt, user };
+  }
+
+  /**
+   * End an impersonation session before it expires
+   * @param operator - Calling platform operator
+   * @param sessionId - Impersonation session ID
+   * @param client - IP and user agent of the operator
+   * @throws {NotFoundError} When there is no such active impersonation session
+   */
+  async endImpersonation(operator: PlatformOperatorUser, sessionId: string, client: IClientInfo): Promise<void> {
+    const session = await sessionService.endImpersonation(sessionId);
+    // The session only knows the user, whose agency's audit log shows the session ending
+    const user = await User.findById(session.user).select('agency').exec();
+
+    await auditService.logPlatformAction(operator.id, PlatformAuditAction.IMPERSONATION_ENDED, client, {
+      sessionId,
+      user: session.user.toString(),
+      ...(user && { agency: user.agency.toString() }),
+      startedBy: session.impersonatedBy?.toString(),
+    });
+  }
+
+  /**
+   * Find the active user to impersonate: the given one, or the agency's longest-standing super admin
+   * @param agencyId - Agency ID
+   * @param userId - User to impersonate, if chosen
+   * @returns User document
+   * @throws {NotFoundError} When the agency has no such active user
+   */
+  private async findImpersonationTarget(agencyId: string, userId?: string): Promise<IUser> {
+    let user: IUser | null;
+    if (userId) {
+      user = await User.findOne({ _id: userId, agency: agencyId, isActive: true }).exec();
+    } else {
+      const superAdminRole = await Role.findOne({ agency: agencyId, type: UserRole.SUPER_ADMIN }).exec();
+      user = superAdminRole
+        ? await User.findOne({ agency: agencyId, role: superAdminRole._id, isActive: true })
+            .sort({ createdAt: 1 })
+            .exec()
+        : null;
+    }
+
+    if (!user) {
+      throw new NotFoundError('No active user to impersonate in this agency');
+    }
+    return user;
+  }
+
+  /**
+   * Sign a platform access token for an operator
+   * @param operatorId - Operator ID
+   * @returns Signed token
+   * @throws {InternalServerError} When signing fails
+   */
+  private signToken(operatorId: string): string {
+    try {
+      return jwt.sign({ id: operatorId }, config.jwt.secret as Secret, this.tokenOptions);
+    } catch (error) {
+      throw new InternalServerError(`Token generation failed: ${(error as Error).message}`);
+    }
+  }
+}
+
+export const platformService = new PlatformService();
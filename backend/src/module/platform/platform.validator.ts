@@ -0,0 +1,69 @@
+import { z } from 'zod';
+
+import { PAGINATION_DEFAULT_LIMIT, PAGINATION_DEFAULT_PAGE } from '../../shared/constant/validation';
+import { emailSchema } from '../auth/auth.validator';
+
+const REASON_MIN_LENGTH = 10;
+const REASON_MAX_LENGTH = 500;
+
+// Common validation schemas
+const objectIdSchema = z.string().regex(/^[\dA-Fa-f]{24}$/, 'Invalid ObjectId format');
+
+// Operator actions on tenants must say why, for the audit log
+const reasonSchema = z
+  .string()
+  .trim()
+  .min(REASON_MIN_LENGTH, 'Reason must be at least 10 characters')
+  .max(REASON_MAX_LENGTH, 'Reason must not exceed 500 characters');
+
+const paginationSchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_PAGE)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_LIMIT)),
+});
+
+// Platform operator login schema
+export const platformLoginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, 'Password is required'),
+});
+
+// Query parameters schema for agency usage statistics
+export const agencyUsageQuerySchema = paginationSchema.extend({
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((val) => val === 'true')
+    .optional(),
+});
+
+// Suspend / reactivate agency schema
+export const agencyStatusSchema = z.object({
+  isActive: z.boolean(),
+  reason: reasonSchema,
+});
+
+// Impersonation schema; the agency's super admin is impersonated unless a user is given
+export const impersonationSchema = z.object({
+  userId: objectIdSchema.optional(),
+  reason: reasonSchema,
+});
+
+// Path parameter schemas
+export const platformAgencyIdParamSchema = z.object({
+  agencyId: objectIdSchema,
+});
+
+export const impersonationIdParamSchema = z.object({
+  sessionId: objectIdSchema,
+});
+
+// Type exports
+export type PlatformLoginInput = z.infer<typeof platformLoginSchema>;
+export type AgencyUsageQuery = z.infer<typeof agencyUsageQuerySchema>;
+export type AgencyStatusInput = z.infer<typeof agencyStatusSchema>;
+export type ImpersonationInput = z.infer<typeof impersonationSchema>;
@@ -0,0 +1,126 @@
+import { Response, NextFunction } from 'express';
+
+import { IPermission } from '../../shared/models/permission.model';
+import { IRole } from '../../shared/models/role.model';
+import { getAuthenticatedUser } from '../../shared/utils/authUser';
+import { CreatedSuccess, NoContentSuccess, OkSuccess } from '../../shared/utils/CustomSuccess';
+import { AuthenticatedRequest } from '../../types/express/index';
+
+import { IPermissionResponse, IRoleResponse } from './role.interface';
+import { roleService } from './role.service';
+
+/**
+ * Map a role document to its API representation
+ * @param role - Role document
+ * @param userCount - Number of users holding the role, when known
+ * @returns Role response payload
+ */
+export const toRoleResponse = (role: IRole, userCount?: number): IRoleResponse => ({
+  id: role.id,
+  name: role.name,
+  type: role.type,
+  description: role.description,
+  permissions: role.permissions,
+  isSystem: role.isSystem,
+  userCount,
+  createdAt: role.createdAt,
+  updatedAt: role.updatedAt,
+});
+
+/**
+ * Map a permission document to its API representation
+ * @param permission - Permission document
+ * @returns Permission response payload
+ */
+const toPermissionResponse = (permission: IPermission): IPermissionResponse => ({
+  name: permission.name,
+  resource: permission.resource,
+  action: permission.action,
+  scope: permission.scope,
+});
+
+/**
+ * Role Controller Class
+ * Implements controller layer with proper error handling and response formatting
+ * Handlers are agency scoped through the authenticated user
+ */
+export class RoleController {
+  /**
+   * List the permission catalogue
+   */
+  async listPermissions(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const permissions = await roleService.listPermissions();
+      res.customSuccess(new OkSuccess({ permissions: permissions.map(toPermissionResponse) }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List agency roles
+   */
+  async listRoles(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const roles = await roleService.listRoles(agency);
+      res.customSuccess(new OkSuccess({ roles: roles.map(({ role, userCount }) => toRoleResponse(role, userCount)) }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get role by ID
+   */
+  async getRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const role = await roleService.getRole(agency, req.params.roleId);
+      res.customSuccess(new OkSuccess(toRoleResponse(role)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a custom role
+   * Validation is handled by middleware
+   */
+  async createRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = await roleService.createRole(getAuthenticatedUser(req), req.body);
+      res.customSuccess(new CreatedSuccess(toRoleResponse(role, 0), 'Role created successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a role
+   * Validation is handled by middleware
+   */
+  async updateRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = await roleService.updateRole(getAuthenticatedUser(req), req.params.roleId, req.body);
+      res.customSuccess(new OkSuccess(toRoleResponse(role), 'Role updated successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a custom role
+   */
+  async deleteRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      await roleService.deleteRole(agency, req.params.roleId);
+      res.customSuccess(new NoContentSuccess('Role deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const roleController = new RoleController();
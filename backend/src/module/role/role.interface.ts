@@ -0,0 +1,27 @@
+import { PermissionAction } from '../../shared/constant/permissions';
+import { IRole, RoleType } from '../../shared/models/role.model';
+import { PermissionScope } from '../../types/enum/permission';
+
+export interface IRoleWithUserCount {
+  role: IRole;
+  userCount: number;
+}
+
+export interface IRoleResponse {
+  id: string;
+  name: string;
+  type: RoleType;
+  description: string;
+  permissions: string[];
+  isSystem: boolean;
+  userCount?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPermissionResponse {
+  name: string;
+  resource: string;
+  action: PermissionAction;
+  scope: PermissionScope;
+}
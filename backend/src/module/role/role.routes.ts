@@ -0,0 +1,177 @@
+import { Router } from 'express';
+import passport from 'passport';
+
+import { checkPermission } from '../../shared/middlewares/checkPermission.middleware';
+import { validateBody, validateParams } from '../../shared/middlewares/validation.middleware';
+
+import { roleController } from './role.controller';
+import { createRoleSchema, updateRoleSchema, roleIdParamSchema } from './role.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /roles/permissions:
+ *   get:
+ *     summary: List the permission catalogue roles can be granted
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ */
+// List permission catalogue
+router.get(
+  '/permissions',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('roles', 'read'),
+  roleController.listPermissions,
+);
+
+/**
+ * @swagger
+ * /roles:
+ *   get:
+ *     summary: List the agency's roles with the number of users holding each
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ */
+// List roles
+router.get(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('roles', 'read'),
+  roleController.listRoles,
+);
+
+/**
+ * @swagger
+ * /roles:
+ *   post:
+ *     summary: Create a custom role
+ *     description: Permissions must be in the catalogue; callers other than super admins can only grant permissions they hold
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 minLength: 2
+ *                 maxLength: 50
+ *                 example: Visa Desk
+ *               description:
+ *                 type: string
+ *                 maxLength: 200
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   example: leads:read
+ */
+// Create role
+router.post(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('roles', 'create'),
+  validateBody(createRoleSchema),
+  roleController.createRole,
+);
+
+/**
+ * @swagger
+ * /roles/{roleId}:
+ *   get:
+ *     summary: Get an agency role by ID
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+// Get role details
+router.get(
+  '/:roleId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('roles', 'read'),
+  validateParams(roleIdParamSchema),
+  roleController.getRole,
+);
+
+/**
+ * @swagger
+ * /roles/{roleId}:
+ *   patch:
+ *     summary: Update a role's name, description or permissions
+ *     description: System roles cannot be renamed, the super admin role cannot be modified and users cannot edit their own role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ */
+// Update role
+router.patch(
+  '/:roleId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('roles', 'update'),
+  validateParams(roleIdParamSchema),
+  validateBody(updateRoleSchema),
+  roleController.updateRole,
+);
+
+/**
+ * @swagger
+ * /roles/{roleId}:
+ *   delete:
+ *     summary: Delete a custom role that no user holds or is invited to
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: roleId
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+// Delete role
+router.delete(
+  '/:roleId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('roles', 'delete'),
+  validateParams(roleIdParamSchema),
+  roleController.deleteRole,
+);
+
+export default router;
@@ -0,0 +1,267 @@
+import { Types } from 'mongoose';
+
+import {
+  OWNABLE_ACTIONS,
+  PERMISSION_CATALOGUE,
+  RESOURCE_OWNER_FIELDS,
+  toPermissionName,
+} from '../../shared/constant/permissions';
+import { Invitation } from '../../shared/models/invitation.model';
+import { IPermission, Permission } from '../../shared/models/permission.model';
+import { IRole, Role, SYSTEM_ROLE_TYPES } from '../../shared/models/role.model';
+import { User } from '../../shared/models/user.model';
+import { BaseService } from '../../shared/services/BaseService';
+import { permissionCacheService } from '../../shared/services/permissionCache.service';
+import { BadRequestError, BusinessError, ForbiddenError, NotFoundError } from '../../shared/utils/CustomError';
+import { parsePermission, resolvePermissionScope, WILDCARD } from '../../shared/utils/permissionEvaluator';
+import { PermissionScope } from '../../types/enum/permission';
+import { InvitationStatus, UserRole } from '../../types/enum/user';
+import { AuthenticatedUser } from '../../types/express/index';
+
+import { IRoleWithUserCount } from './role.interface';
+import { CreateRoleInput, UpdateRoleInput } from './role.validator';
+
+/**
+ * Role Service Class
+ * Agency roles and the permission catalogue they draw from.
+ * System roles come with every agency; agencies add their own custom roles.
+ */
+export class RoleService extends BaseService<IRole> {
+  constructor() {
+    super(Role, 'Role');
+  }
+
+  /**
+   * Upsert the permission catalogue and retire permissions no longer in it.
+   * Also brings roles created before custom roles up to date: flags system roles
+   * and replaces the unique `{agency, type}` index.
+   */
+  async syncPermissionCatalogue(): Promise<void> {
+    // Resources with an owner also get `:own` variants of their ownable actions
+    const catalogue = Object.entries(PERMISSION_CATALOGUE).flatMap(([resource, actions]) =>
+      actions.flatMap((action) => {
+        const scopes =
+          RESOURCE_OWNER_FIELDS.has(resource) && OWNABLE_ACTIONS.includes(action)
+            ? [PermissionScope.ANY, PermissionScope.OWN]
+            : [PermissionScope.ANY];
+        return scopes.map((scope) => ({ name: toPermissionName(resource, action, scope), resource, action, scope }));
+      }),
+    );
+
+    await Permission.bulkWrite(
+      catalogue.map((permission) => ({
+        updateOne: {
+          filter: { name: permission.name },
+          update: { $set: { ...permission, isActive: true } },
+          upsert: true,
+        },
+      })),
+    );
+    await Permission.updateMany(
+      { name: { $nin: catalogue.map((permission) => permission.name) } },
+      { isActive: false },
+    ).exec();
+    await this.model.updateMany({ type: { $in: SYSTEM_ROLE_TYPES } }, { isSystem: true }).exec();
+    await this.model.syncIndexes();
+  }
+
+  /**
+   * List the active permissions roles can be granted
+   * @returns Permissions ordered by resource and action
+   */
+  async listPermissions(): Promise<IPermission[]> {
+    return Permission.find({ isActive: true }).sort({ resource: 1, action: 1, scope: 1 }).exec();
+  }
+
+  /**
+   * List the agency's roles, system roles first, with the number of users holding each
+   * @param agencyId - Agency ID
+   * @returns Roles with their user counts
+   */
+  async listRoles(agencyId: string): Promise<IRoleWithUserCount[]> {
+    const [roles, counts] = await Promise.all([
+      this.model.find({ agency: agencyId, isActive: true }).sort({ isSystem: -1, name: 1 }).exec(),
+      User.aggregate<{ _id: Types.ObjectId; count: number }>([
+        { $match: { agency: new Types.ObjectId(agencyId) } },
+        { $group: { _id: '$role', count: { $sum: 1 } } },
+      ]),
+    ]);
+    const userCounts = new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+
+    return roles.map((role) => ({ role, userCount: userCounts.get(role.id) ?? 0 }));
+  }
+
+  /**
+   * Get an active role of the agency
+   * @param agencyId - Agency ID
+   * @param roleId - Role ID
+   * @returns Role document
+   * @throws {NotFoundError} When the agency has no such role
+   */
+  async getRole(agencyId: string, roleId: string): Promise<IRole> {
+    const role = await this.model.findOne({ _id: roleId, agency: agencyId, isActive: true }).exec();
+    if (!role) {
+      throw new NotFoundError(`Role not found with ID: ${roleId}`);
+    }
+    return role;
+  }
+
+  /**
+   * Create a custom role for the caller's agency
+   * @param actor - Calling user
+   * @param data - Role name, description and permissions
+   * @returns Created role
+   * @throws {BadRequestError} When a permission is not in the catalogue
+   * @throws {BusinessError} When the agency already has a role with the name
+   * @throws {ForbiddenError} When the caller grants permissions they do not hold
+   */
+  async createRole(actor: AuthenticatedUser, data: CreateRoleInput): Promise<IRole> {
+    await this.assertNameAvailable(actor.agency, data.name);
+    await this.assertCanGrant(actor, data.permissions);
+
+    try {
+      return await this.model.create({
+        ...data,
+        type: UserRole.CUSTOM,
+        agency: actor.agency,
+        isSystem: false,
+      });
+    } catch (error) {
+      this.handleDatabaseError(error, 'createRole');
+    }
+  }
+
+  /**
+   * Update a role. System roles keep their name and the super admin role cannot change at all.
+   * @param actor - Calling user
+   * @param roleId - Role ID
+   * @param data - Fields to update
+   * @returns Updated role
+   * @throws {BadRequestError} When renaming a system role or a permission is not in the catalogue
+   * @throws {BusinessError} When users edit their own role or the name is taken
+   * @throws {ForbiddenError} When editing the super admin role or granting permissions the caller does not hold
+   */
+  async updateRole(actor: AuthenticatedUser, roleId: string, data: UpdateRoleInput): Promise<IRole> {
+    const role = await this.getRole(actor.agency, roleId);
+    if (role.type === UserRole.SUPER_ADMIN) {
+      throw new ForbiddenError('The super admin role cannot be modified');
+    }
+    if (role.id === actor.role.id) {
+      throw new BusinessError('You cannot change your own role');
+    }
+
+    if (data.name && data.name !== role.name) {
+      if (role.isSystem) {
+        throw new BadRequestError('System roles cannot be renamed');
+      }
+      await this.assertNameAvailable(actor.agency, data.name, roleId);
+    }
+    if (data.permissions) {
+      await this.assertCanGrant(actor, data.permissions);
+    }
+
+    try {
+      role.set(data);
+      const updated = await role.save();
+      await permissionCacheService.invalidate(actor.agency, roleId);
+      return updated;
+    } catch (error) {
+      this.handleDatabaseError(error, 'updateRole');
+    }
+  }
+
+  /**
+   * Delete a custom role nobody holds or is invited to
+   * @param agencyId - Agency ID
+   * @param roleId - Role ID
+   * @throws {BusinessError} When the role is a system role or still in use
+   */
+  async deleteRole(agencyId: string, roleId: string): Promise<void> {
+    const role = await this.getRole(agencyId, roleId);
+    if (role.isSystem) {
+      throw new BusinessError('System roles cannot be deleted');
+    }
+
+    const [userCount, invitationCount] = await Promise.all([
+      User.countDocuments({ agency: agencyId, role: role._id }).exec(),
+      Invitation.countDocuments({
+        agency: agencyId,
+        role: role._id,
+        status: InvitationStatus.PENDING,
+        expiresAt: { $gt: new Date() },
+      }).exec(),
+    ]);
+    if (userCount > 0) {
+      throw new BusinessError(`Role is assigned to ${userCount} user(s); move them to another role first`);
+    }
+    if (invitationCount > 0) {
+      throw new BusinessError(`Role has ${invitationCount} pending invitation(s); revoke them first`);
+    }
+
+    await this.model.deleteOne({ _id: role._id }).exec();
+    await permissionCacheService.invalidate(agencyId, roleId);
+  }
+
+  /**
+   * Ensure the agency has no other role with the name
+   * @param agencyId - Agency ID
+   * @param name - Role name
+   * @param excludeRoleId - Role being renamed
+   * @throws {BusinessError} When the name is taken
+   */
+  private async assertNameAvailable(agencyId: string, name: string, excludeRoleId?: string): Promise<void> {
+    const filter = excludeRoleId ? { _id: { $ne: excludeRoleId } } : {};
+    if (await this.model.exists({ ...filter, agency: agencyId, name })) {
+      throw new BusinessError(`Role '${name}' already exists`);
+    }
+  }
+
+  /**
+   * Ensure the permissions are in the catalogue and, for anyone but super admins,
+   * held by the caller so nobody can hand out more access than they have
+   * @param actor - Calling user
+   * @param permissions - Permissions being granted
+   * @throws {BadRequestError} When a permission is not in the catalogue
+   * @throws {ForbiddenError} When the caller does not hold a permission
+   */
+  private async assertCanGrant(actor: AuthenticatedUser, permissions: string[]): Promise<void> {
+    const catalogue = await Permission.find({ isActive: true }).exec();
+    const knownNames = new Set(catalogue.map((permission) => permission.name));
+    const knownResources = new Set(catalogue.map((permission) => permission.resource));
+    // Besides catalogue entries, `*` and `resource:*` wildcards may be granted
+    const unknown = permissions.filter((permission) => {
+      const { resource, action } = parsePermission(permission);
+      return action === WILDCARD ? resource !== WILDCARD && !knownResources.has(resource) : !knownNames.has(permission);
+    });
+    if (unknown.length > 0) {
+      throw new BadRequestError(`Unknown permissions: ${unknown.join(', ')}`);
+    }
+
+    await this.assertHoldsPermissions(actor, permissions);
+  }
+
+  /**
+   * Ensure the caller holds every permission, so nobody can hand out more access
+   * than they have by granting it to a role or by giving someone a role that has it.
+   * Super admins hold every permission.
+   * @param actor - Calling user
+   * @param permissions - Permissions being handed out
+   * @throws {ForbiddenError} When the caller does not hold a permission
+   */
+  async assertHoldsPermissions(actor: AuthenticatedUser, permissions: string[]): Promise<void> {
+    if (actor.role.type === UserRole.SUPER_ADMIN) {
+      return;
+    }
+    const actorRole = await this.getRole(actor.agency, actor.role.id);
+    const notHeld = permissions.filter((permission) => {
+      const { resource, action, scope } = parsePermission(permission);
+      const heldScope = resolvePermissionScope(actorRole.permissions, resource, action);
+      return heldScope !== PermissionScope.ANY && heldScope !== scope;
+    });
+    if (notHeld.length > 0) {
+      throw new ForbiddenError(`You cannot grant permissions you do not have: ${notHeld.join(', ')}`);
+    }
+  }
+}
+
+export const roleService = new RoleService();
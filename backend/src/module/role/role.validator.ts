@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+const ROLE_NAME_MIN_LENGTH = 2;
+const ROLE_NAME_MAX_LENGTH = 50;
+const ROLE_DESCRIPTION_MAX_LENGTH = 200;
+const MAX_ROLE_PERMISSIONS = 100;
+
+// Common validation schemas
+const objectIdSchema = z.string().regex(/^[\dA-Fa-f]{24}$/, 'Invalid ObjectId format');
+
+const roleNameSchema = z
+  .string()
+  .trim()
+  .min(ROLE_NAME_MIN_LENGTH, 'Role name must be at least 2 characters')
+  .max(ROLE_NAME_MAX_LENGTH, 'Role name must not exceed 50 characters');
+
+const roleDescriptionSchema = z
+  .string()
+  .trim()
+  .max(ROLE_DESCRIPTION_MAX_LENGTH, 'Description must not exceed 200 characters');
+
+// `*`, `resource:*`, `resource:action` or `resource:action:own`
+const PERMISSION_PATTERN = /^(\*|[a-z]+:(\*|[a-z]+(:own)?))$/;
+
+// Permissions are catalogue names or wildcards; duplicates are dropped
+const permissionsSchema = z
+  .array(
+    z.string().regex(PERMISSION_PATTERN, 'Invalid permission format (e.g., leads:read, leads:update:own, leads:*)'),
+  )
+  .max(MAX_ROLE_PERMISSIONS, 'Too many permissions')
+  .transform((permissions) => [...new Set(permissions)]);
+
+// Create custom role schema
+export const createRoleSchema = z.object({
+  name: roleNameSchema,
+  description: roleDescriptionSchema.optional(),
+  permissions: permissionsSchema,
+});
+
+// Update role schema (all fields optional)
+export const updateRoleSchema = z
+  .object({
+    name: roleNameSchema.optional(),
+    description: roleDescriptionSchema.optional(),
+    permissions: permissionsSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Parameter validation schemas
+export const roleIdParamSchema = z.object({
+  roleId: objectIdSchema,
+});
+
+// Export types
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
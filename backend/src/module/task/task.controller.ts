@@ -0,0 +1,150 @@
+import { Response, NextFunction } from 'express';
+
+import { ITask } from '../../shared/models/task.model';
+import { getAuthenticatedUser } from '../../shared/utils/authUser';
+import { CreatedSuccess, NoContentSuccess, OkSuccess } from '../../shared/utils/CustomSuccess';
+import { TaskDueBucket } from '../../types/enum/task';
+import { AuthenticatedRequest } from '../../types/express/index';
+
+import { ITaskResponse } from './task.interface';
+import { taskService } from './task.service';
+import { DueTasksQuery, ListTasksQuery } from './task.validator';
+
+/**
+ * Map a task document to its API representation
+ * @param task - Task document
+ * @returns Task response payload
+ */
+export const toTaskResponse = (task: ITask): ITaskResponse => ({
+  id: task.id,
+  title: task.title,
+  description: task.description,
+  type: task.type,
+  priority: task.priority,
+  dueDate: task.dueDate,
+  completed: task.completed,
+  completedAt: task.completedAt,
+  leadId: task.lead?.toString(),
+  assignedTo: task.assignedTo.toString(),
+  createdBy: task.createdBy.toString(),
+  createdAt: task.createdAt,
+  updatedAt: task.updatedAt,
+});
+
+/**
+ * Task Controller Class
+ * Implements controller layer with proper error handling and response formatting
+ * All handlers are agency scoped through the authenticated user
+ */
+export class TaskController {
+  /**
+   * Create a new task
+   * Validation is handled by middleware
+   */
+  async createTask(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency, id } = getAuthenticatedUser(req);
+      const task = await taskService.createTask(agency, id, req.body);
+      res.customSuccess(new CreatedSuccess(toTaskResponse(task), 'Task created successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List tasks with pagination and filtering
+   */
+  async listTasks(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const result = await taskService.listTasks(agency, req.query as unknown as ListTasksQuery);
+      res.customSuccess(
+        new OkSuccess({
+          tasks: result.tasks.map(toTaskResponse),
+          pagination: {
+            totalTasks: result.totalTasks,
+            totalPages: result.totalPages,
+            currentPage: result.currentPage,
+            hasNextPage: result.hasNextPage,
+            hasPrevPage: result.hasPrevPage,
+          },
+        }),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List open tasks due today, overdue or upcoming for an assignee
+   * Defaults to the calling user when no assignee is given
+   */
+  async listDueTasks(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency, id } = getAuthenticatedUser(req);
+      const { assignedTo = id, tzOffset } = req.query as unknown as DueTasksQuery;
+      const tasks = await taskService.listDueTasks(agency, assignedTo, req.params.bucket as TaskDueBucket, tzOffset);
+      res.customSuccess(new OkSuccess(tasks.map(toTaskResponse)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get task by ID
+   */
+  async getTask(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const task = await taskService.getTaskById(agency, req.params.taskId);
+      res.customSuccess(new OkSuccess(toTaskResponse(task)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update task
+   * Validation is handled by middleware
+   */
+  async updateTask(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const task = await taskService.updateTask(agency, req.params.taskId, req.body);
+      res.customSuccess(new OkSuccess(toTaskResponse(task), 'Task updated successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Toggle task completion
+   * Validation is handled by middleware
+   */
+  async setCompletion(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const task = await taskService.setCompletion(agency, req.params.taskId, req.body.completed);
+      res.customSuccess(
+        new OkSuccess(toTaskResponse(task), task.completed ? 'Task marked as completed' : 'Task reopened'),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete task
+   */
+  async deleteTask(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      await taskService.deleteTask(agency, req.params.taskId);
+      res.customSuccess(new NoContentSuccess('Task deleted successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const taskController = new TaskController();
@@ -0,0 +1,27 @@
+import { ITask } from '../../shared/models/task.model';
+import { TaskPriority, TaskType } from '../../types/enum/task';
+
+export interface ITaskResponse {
+  id: string;
+  title: string;
+  description?: string;
+  type: TaskType;
+  priority: TaskPriority;
+  dueDate: Date;
+  completed: boolean;
+  completedAt?: Date;
+  leadId?: string;
+  assignedTo: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPaginatedTasks {
+  tasks: ITask[];
+  totalTasks: number;
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
@@ -0,0 +1,286 @@
+import { Router } from 'express';
+import passport from 'passport';
+
+import { checkPermission } from '../../shared/middlewares/checkPermission.middleware';
+import { validateBody, validateParams, validateQuery } from '../../shared/middlewares/validation.middleware';
+
+import { taskController } from './task.controller';
+import {
+  createTaskSchema,
+  updateTaskSchema,
+  taskCompletionSchema,
+  listTasksQuerySchema,
+  dueTasksQuerySchema,
+  taskIdParamSchema,
+  dueBucketParamSchema,
+} from './task.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /tasks:
+ *   post:
+ *     summary: Create a new task in the caller's agency
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - type
+ *               - dueDate
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 maxLength: 200
+ *               description:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [call, email, meeting, document, follow_up, other]
+ *               priority:
+ *                 type: string
+ *                 enum: [low, medium, high, urgent]
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *               leadId:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ *               assignedTo:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ *                 description: Defaults to the caller
+ */
+// Create task
+router.post(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('tasks', 'create'),
+  validateBody(createTaskSchema),
+  taskController.createTask,
+);
+
+/**
+ * @swagger
+ * /tasks:
+ *   get:
+ *     summary: List the agency's tasks with pagination and filtering
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: assignedTo
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: leadId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: completed
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: priority
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [dueDate, priority, createdAt, updatedAt]
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ */
+// List tasks
+router.get(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('tasks', 'read'),
+  validateQuery(listTasksQuerySchema),
+  taskController.listTasks,
+);
+
+/**
+ * @swagger
+ * /tasks/due/{bucket}:
+ *   get:
+ *     summary: List an assignee's open tasks due today, overdue or upcoming
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bucket
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [today, overdue, upcoming]
+ *       - in: query
+ *         name: assignedTo
+ *         schema:
+ *           type: string
+ *         description: Assignee user ID, defaults to the caller
+ *       - in: query
+ *         name: tzOffset
+ *         schema:
+ *           type: integer
+ *         description: Client timezone offset in minutes (Date#getTimezoneOffset), used to compute "today"
+ */
+// List tasks by due-date bucket
+router.get(
+  '/due/:bucket',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('tasks', 'read'),
+  validateParams(dueBucketParamSchema),
+  validateQuery(dueTasksQuerySchema),
+  taskController.listDueTasks,
+);
+
+/**
+ * @swagger
+ * /tasks/{taskId}:
+ *   get:
+ *     summary: Get task by ID
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Get task details
+router.get(
+  '/:taskId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('tasks', 'read'),
+  validateParams(taskIdParamSchema),
+  taskController.getTask,
+);
+
+/**
+ * @swagger
+ * /tasks/{taskId}:
+ *   patch:
+ *     summary: Update task
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Any subset of the fields accepted on create
+ */
+// Update task
+router.patch(
+  '/:taskId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('tasks', 'update'),
+  validateParams(taskIdParamSchema),
+  validateBody(updateTaskSchema),
+  taskController.updateTask,
+);
+
+/**
+ * @swagger
+ * /tasks/{taskId}/completion:
+ *   patch:
+ *     summary: Mark a task completed or reopen it
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - completed
+ *             properties:
+ *               completed:
+ *                 type: boolean
+ */
+// Toggle task completion
+router.patch(
+  '/:taskId/completion',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('tasks', 'update'),
+  validateParams(taskIdParamSchema),
+  validateBody(taskCompletionSchema),
+  taskController.setCompletion,
+);
+
+/**
+ * @swagger
+ * /tasks/{taskId}:
+ *   delete:
+ *     summary: Delete task
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Delete task
+router.delete(
+  '/:taskId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('tasks', 'delete'),
+  validateParams(taskIdParamSchema),
+  taskController.deleteTask,
+);
+
+export default router;
@@ -0,0 +1,258 @@
+import { FilterQuery, SortOrder } from 'mongoose';
+
+import { MINUTE_IN_MILLISECONDS, ONE_DAY_IN_MILLISECONDS } from '../../shared/constant/timeValues';
+import { ITask, Task } from '../../shared/models/task.model';
+import { BaseService } from '../../shared/services/BaseService';
+import { assertAgencyUsers } from '../../shared/utils/agencyScope';
+import { NotFoundError, InternalServerError, CustomError } from '../../shared/utils/CustomError';
+import { TaskDueBucket } from '../../types/enum/task';
+import { leadService } from '../lead/lead.service';
+
+import { IPaginatedTasks } from './task.interface';
+import { CreateTaskInput, ListTasksQuery, UpdateTaskInput } from './task.validator';
+
+/**
+ * Task Service Class
+ * Extends BaseService to inherit common CRUD operations
+ * Every operation is scoped to the agency of the calling user
+ */
+export class TaskService extends BaseService<ITask> {
+  constructor() {
+    super(Task, 'Task');
+  }
+
+  /**
+   * Create a new task inside an agency
+   * @param agencyId - Agency the task belongs to
+   * @param userId - User creating the task, and default assignee
+   * @param data - Task creation data
+   * @returns Created task
+   */
+  async createTask(agencyId: string, userId: string, data: CreateTaskInput): Promise<ITask> {
+    try {
+      const { leadId, assignedTo = userId, ...fields } = data;
+      await this.assertReferences(agencyId, leadId, assignedTo);
+
+      const task = new Task({
+        ...fields,
+        lead: leadId,
+        assignedTo,
+        agency: agencyId,
+        createdBy: userId,
+      });
+      return await task.save();
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new InternalServerError(`Task creation failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get a task of the agency by ID
+   * @param agencyId - Agency ID
+   * @param taskId - Task ID
+   * @returns Task document
+   */
+  async getTaskById(agencyId: string, taskId: string): Promise<ITask> {
+    const task = await this.findOne({ _id: taskId, agency: agencyId });
+    if (!task) {
+      throw new NotFoundError(`Task not found with ID: ${taskId}`);
+    }
+    return task;
+  }
+
+  /**
+   * Update a task of the agency
+   * @param agencyId - Agency ID
+   * @param taskId - Task ID
+   * @param data - Update data
+   * @returns Updated task
+   */
+  async updateTask(agencyId: string, taskId: string, data: UpdateTaskInput): Promise<ITask> {
+    const { leadId, ...fields } = data;
+    await this.assertReferences(agencyId, leadId, fields.assignedTo);
+
+    const update = leadId ? { ...fields, lead: leadId } : fields;
+    return this.updateScoped(agencyId, taskId, update);
+  }
+
+  /**
+   * Mark a task completed or reopen it, stamping completedAt accordingly.
+   * Completing a task that is already done keeps its original completedAt.
+   * @param agencyId - Agency ID
+   * @param taskId - Task ID
+   * @param completed - New completion state
+   * @returns Updated task
+   */
+  async setCompletion(agencyId: string, taskId: string, completed: boolean): Promise<ITask> {
+    if (!completed) {
+      return this.updateScoped(agencyId, taskId, { completed, $unset: { completedAt: 1 } });
+    }
+    try {
+      const task = await this.model
+        .findOneAndUpdate(
+          { _id: taskId, agency: agencyId, completed: { $ne: true } },
+          { completed, completedAt: new Date() },
+          { new: true, runValidators: true },
+        )
+        .exec();
+      return task ?? (await this.getTaskById(agencyId, taskId));
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'updateTask');
+    }
+  }
+
+  /**
+   * Delete a task of the agency
+   * @param agencyId - Agency ID
+   * @param taskId - Task ID
+   */
+  async deleteTask(agencyId: string, taskId: string): Promise<void> {
+    try {
+      const task = await this.model.findOneAndDelete({ _id: taskId, agency: agencyId }).exec();
+      if (!task) {
+        throw new NotFoundError(`Task not found with ID: ${taskId}`);
+      }
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'deleteTask');
+    }
+  }
+
+  /**
+   * List agency tasks with pagination and filtering
+   * @param agencyId - Agency ID
+   * @param query - Validated list query
+   * @returns Paginated tasks
+   */
+  async listTasks(agencyId: string, query: ListTasksQuery): Promise<IPaginatedTasks> {
+    const { page, limit, sort, order, assignedTo, leadId, completed, type, priority } = query;
+    const filter: FilterQuery<ITask> = { agency: agencyId };
+
+    if (assignedTo) {
+      filter.assignedTo = assignedTo;
+    }
+    if (leadId) {
+      filter.lead = leadId;
+    }
+    if (typeof completed === 'boolean') {
+      filter.completed = completed;
+    }
+    if (type) {
+      filter.type = type;
+    }
+    if (priority) {
+      filter.priority = priority;
+    }
+
+    const sortObj: Record<string, SortOrder> = { [sort]: order === 'asc' ? 1 : -1 };
+    const result = await this.paginate(filter, page, limit, sortObj);
+
+    return {
+      tasks: result.documents,
+      totalTasks: result.totalDocuments,
+      totalPages: result.totalPages,
+      currentPage: result.currentPage,
+      hasNextPage: result.hasNextPage,
+      hasPrevPage: result.hasPrevPage,
+    };
+  }
+
+  /**
+   * List an assignee's open tasks in one of the dashboard due-date buckets
+   * @param agencyId - Agency ID
+   * @param assigneeId - Assigned user ID
+   * @param bucket - today, overdue or upcoming
+   * @param tzOffset - Client timezone offset in minutes, as returned by Date#getTimezoneOffset
+   * @returns Open tasks ordered by due date
+   */
+  async listDueTasks(agencyId: string, assigneeId: string, bucket: TaskDueBucket, tzOffset = 0): Promise<ITask[]> {
+    return this.find(
+      { agency: agencyId, assignedTo: assigneeId, completed: false, dueDate: this.getDueDateFilter(bucket, tzOffset) },
+      { sort: { dueDate: 1 } },
+    );
+  }
+
+  /**
+   * Build the dueDate condition for a bucket; "today" is the client's calendar day
+   * @param bucket - today, overdue or upcoming
+   * @param tzOffset - Client timezone offset in minutes
+   * @returns Mongo condition on dueDate
+   */
+  private getDueDateFilter(bucket: TaskDueBucket, tzOffset: number): Record<string, Date> {
+    const { startOfDay, endOfDay } = this.getDayBounds(tzOffset);
+
+    switch (bucket) {
+      case TaskDueBucket.OVERDUE: {
+        return { $lt: startOfDay };
+      }
+      case TaskDueBucket.UPCOMING: {
+        return { $gte: endOfDay };
+      }
+      default: {
+        return { $gte: startOfDay, $lt: endOfDay };
+      }
+    }
+  }
+
+  /**
+   * Compute the start and end of the current day in the client's timezone
+   * @param tzOffset - Client timezone offset in minutes
+   * @returns Day bounds as UTC instants
+   */
+  private getDayBounds(tzOffset: number): { startOfDay: Date; endOfDay: Date } {
+    const offsetMs = tzOffset * MINUTE_IN_MILLISECONDS;
+    const clientNow = new Date(Date.now() - offsetMs);
+    clientNow.setUTCHours(0, 0, 0, 0);
+
+    const startOfDay = new Date(clientNow.getTime() + offsetMs);
+    const endOfDay = new Date(startOfDay.getTime() + ONE_DAY_IN_MILLISECONDS);
+    return { startOfDay, endOfDay };
+  }
+
+  /**
+   * Validate that the linked lead and assignee belong to the agency
+   * @param agencyId - Agency ID
+   * @param leadId - Linked lead ID, if any
+   * @param assigneeId - Assigned user ID, if any
+   */
+  private async assertReferences(agencyId: string, leadId?: string, assigneeId?: string): Promise<void> {
+    if (leadId) {
+      await leadService.assertLeadInAgency(agencyId, leadId);
+    }
+    await assertAgencyUsers(agencyId, [assigneeId]);
+  }
+
+  /**
+   * Apply an update to a task of the agency
+   * @param agencyId - Agency ID
+   * @param taskId - Task ID
+   * @param update - Update query
+   * @returns Updated task
+   */
+  private async updateScoped(agencyId: string, taskId: string, update: Record<string, unknown>): Promise<ITask> {
+    try {
+      const task = await this.model
+        .findOneAndUpdate({ _id: taskId, agency: agencyId }, update, { new: true, runValidators: true })
+        .exec();
+      if (!task) {
+        throw new NotFoundError(`Task not found with ID: ${taskId}`);
+      }
+      return task;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'updateTask');
+    }
+  }
+}
+
+export const taskService = new TaskService();
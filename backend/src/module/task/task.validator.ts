@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+import { PAGINATION_DEFAULT_LIMIT, PAGINATION_DEFAULT_PAGE } from '../../shared/constant/validation';
+import { TaskDueBucket, TaskPriority, TaskType } from '../../types/enum/task';
+
+const TITLE_MAX_LENGTH = 200;
+const DESCRIPTION_MAX_LENGTH = 2000;
+// Bounds of Date#getTimezoneOffset(), in minutes
+const MIN_TIMEZONE_OFFSET = -840;
+const MAX_TIMEZONE_OFFSET = 720;
+
+// Common validation schemas
+const objectIdSchema = z.string().regex(/^[\dA-Fa-f]{24}$/, 'Invalid ObjectId format');
+
+const booleanQuerySchema = z
+  .enum(['true', 'false'])
+  .transform((val) => val === 'true')
+  .optional();
+
+// Fields shared by create and update
+const taskFieldsSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(TITLE_MAX_LENGTH, 'Title must not exceed 200 characters'),
+  description: z.string().max(DESCRIPTION_MAX_LENGTH, 'Description must not exceed 2000 characters').optional(),
+  type: z.nativeEnum(TaskType),
+  priority: z.nativeEnum(TaskPriority).optional(),
+  dueDate: z.coerce.date(),
+  leadId: objectIdSchema.optional(),
+  assignedTo: objectIdSchema.optional(),
+});
+
+// Create task schema; assignee defaults to the creator
+export const createTaskSchema = taskFieldsSchema;
+
+// Update task schema (all fields optional); completion has its own endpoint
+export const updateTaskSchema = taskFieldsSchema.partial();
+
+// Completion toggle schema
+export const taskCompletionSchema = z.object({
+  completed: z.boolean(),
+});
+
+// Query parameters schema for listing tasks
+export const listTasksQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_PAGE)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_LIMIT)),
+  assignedTo: objectIdSchema.optional(),
+  leadId: objectIdSchema.optional(),
+  completed: booleanQuerySchema,
+  type: z.nativeEnum(TaskType).optional(),
+  priority: z.nativeEnum(TaskPriority).optional(),
+  sort: z.enum(['dueDate', 'priority', 'createdAt', 'updatedAt']).optional().default('dueDate'),
+  order: z.enum(['asc', 'desc']).optional().default('asc'),
+});
+
+// Query parameters schema for the due-date buckets
+export const dueTasksQuerySchema = z.object({
+  assignedTo: objectIdSchema.optional(),
+  tzOffset: z.coerce.number().int().min(MIN_TIMEZONE_OFFSET).max(MAX_TIMEZONE_OFFSET).optional().default(0),
+});
+
+// Parameter validation schemas
+export const taskIdParamSchema = z.object({
+  taskId: objectIdSchema.describe('Task MongoDB ObjectId'),
+});
+
+export const dueBucketParamSchema = z.object({
+  bucket: z.nativeEnum(TaskDueBucket),
+});
+
+// Export types
+export type CreateTaskInput = z.infer<typeof createTaskSchema>;
+export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
+export type TaskCompletionInput = z.infer<typeof taskCompletionSchema>;
+export type ListTasksQuery = z.infer<typeof listTasksQuerySchema>;
+export type DueTasksQuery = z.infer<typeof dueTasksQuerySchema>;
+export type TaskIdParam = z.infer<typeof taskIdParamSchema>;
@@ -0,0 +1,297 @@
+import crypto from 'node:crypto';
+
+import mongoose, { FilterQuery } from 'mongoose';
+
+import { CRYPTO_RANDOM_BYTES } from '../../shared/constant/encryption';
+import { ONE_DAY_IN_MILLISECONDS } from '../../shared/constant/timeValues';
+import { IAgency } from '../../shared/models/agency.model';
+import { IInvitation, Invitation } from '../../shared/models/invitation.model';
+import { IRole } from '../../shared/models/role.model';
+import { IUser, User } from '../../shared/models/user.model';
+import { BaseService } from '../../shared/services/BaseService';
+import { emailService } from '../../shared/services/email.service';
+import { BadRequestError, BusinessError, CustomError, NotFoundError } from '../../shared/utils/CustomError';
+import { isEmailDomainAllowed } from '../../shared/utils/emailDomain';
+import { InvitationStatus } from '../../types/enum/user';
+import { AuthenticatedUser } from '../../types/express/index';
+import { roleService } from '../role/role.service';
+
+import { IAcceptInvitationInput, IInvitationPreview, IPaginatedInvitations } from './user.interface';
+import { userService } from './user.service';
+import { CreateInvitationInput, ListInvitationsQuery } from './user.validator';
+
+const INVITATION_TTL_DAYS = 7;
+const INVITATION_TTL = INVITATION_TTL_DAYS * ONE_DAY_IN_MILLISECONDS;
+const ROLE_SUMMARY_FIELDS = 'name type';
+
+const hashInvitationToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Invitation Service Class
+ * Invites people to an agency with a role and turns accepted invitations into users
+ */
+export class InvitationService extends BaseService<IInvitation> {
+  constructor() {
+    super(Invitation, 'Invitation');
+  }
+
+  /**
+   * Invite an email address to the caller's agency and email the acceptance link.
+   * Inviting an address again replaces its pending invitation, whose seat the new one
+   * takes; the replacement and the email are stored in one transaction. The role may
+   * only carry permissions the caller holds.
+   * @param actor - Calling user
+   * @param data - Email and role of the invitee
+   * @returns Created invitation
+   * @throws {BadRequestError} When the email domain is not allowed or the role is outside the agency
+   * @throws {BusinessError} When the email already has an account or the agency is full
+   */
+  async createInvitation(actor: AuthenticatedUser, data: CreateInvitationInput): Promise<IInvitation> {
+    const agency = await userService.getActiveAgency(actor.agency);
+    if (!isEmailDomainAllowed(data.email, agency.settings.allowedDomains)) {
+      throw new BadRequestError(`Email domain is not allowed for ${agency.name}`);
+    }
+
+    const role = await userService.getAgencyRole(actor.agency, data.roleId);
+    userService.assertCanManage(actor, role.type);
+    await roleService.assertHoldsPermissions(actor, role.permissions);
+
+    if (await User.exists({ email: data.email })) {
+      throw new BusinessError('User with this email already exists');
+    }
+
+    await this.assertSeatForInvitee(actor.agency, data.email);
+
+    try {
+      const invitation = await this.replacePendingInvitation(actor, data.email, role, agency);
+      return await invitation.populate('role', ROLE_SUMMARY_FIELDS);
+    } catch (error) {
+      this.handleDatabaseError(error, 'createInvitation');
+    }
+  }
+
+  /**
+   * List the agency's invitations, newest first
+   * @param agencyId - Agency ID
+   * @param query - Validated list query
+   * @returns Paginated invitations with their role populated
+   */
+  async listInvitations(agencyId: string, query: ListInvitationsQuery): Promise<IPaginatedInvitations> {
+    const { page, limit, status } = query;
+    const filter: FilterQuery<IInvitation> = { agency: agencyId };
+    if (status) {
+      filter.status = status;
+    }
+
+    const result = await this.paginate(filter, page, limit);
+    await this.model.populate(result.documents, { path: 'role', select: ROLE_SUMMARY_FIELDS });
+
+    return {
+      invitations: result.documents,
+      totalInvitations: result.totalDocuments,
+      totalPages: result.totalPages,
+      currentPage: result.currentPage,
+      hasNextPage: result.hasNextPage,
+      hasPrevPage: result.hasPrevPage,
+    };
+  }
+
+  /**
+   * Revoke a pending invitation so its link stops working
+   * @param agencyId - Agency ID
+   * @param invitationId - Invitation ID
+   * @throws {NotFoundError} When the agency has no such pending invitation
+   */
+  async revokeInvitation(agencyId: string, invitationId: string): Promise<void> {
+    const result = await this.model
+      .updateOne(
+        { _id: invitationId, agency: agencyId, status: InvitationStatus.PENDING },
+        { status: InvitationStatus.REVOKED },
+      )
+      .exec();
+    if (result.modifiedCount === 0) {
+      throw new NotFoundError(`Pending invitation not found with ID: ${invitationId}`);
+    }
+  }
+
+  /**
+   * Describe a pending invitation for its acceptance page
+   * @param token - Token from the invitation link
+   * @returns Invitee email, agency and role names
+   * @throws {BadRequestError} When the token is invalid, used or expired
+   */
+  async previewInvitation(token: string): Promise<IInvitationPreview> {
+    const invitation = await this.getPendingByToken(token);
+    await invitation.populate([
+      { path: 'agency', select: 'name' },
+      { path: 'role', select: 'name' },
+    ]);
+
+    return {
+      email: invitation.email,
+      agencyName: (invitation.agency as unknown as IAgency).name,
+      roleName: (invitation.role as unknown as IRole).name,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  /**
+   * Create the invitee's account. The email counts as verified since the link was delivered to it.
+   * @param data - Token from the link and the new account details
+   * @returns Created user
+   * @throws {BadRequestError} When the token is invalid, used, expired or sent to another email,
+   * or the domain is no longer allowed
+   * @throws {BusinessError} When the email already has an account or the agency is full
+   */
+  async acceptInvitation(data: IAcceptInvitationInput): Promise<IUser> {
+    const invitation = await this.getPendingByToken(data.token);
+    if (invitation.email !== data.email.toLowerCase()) {
+      throw new BadRequestError('This invitation was sent to a different email address');
+    }
+    await this.assertCanJoin(invitation);
+
+    // Claim the invitation first so the same link cannot create two accounts
+    const claimed = await this.model
+      .findOneAndUpdate(
+        { _id: invitation._id, status: InvitationStatus.PENDING },
+        { status: InvitationStatus.ACCEPTED, acceptedAt: new Date() },
+      )
+      .exec();
+    if (!claimed) {
+      throw new BadRequestError('Invalid or expired invitation');
+    }
+    return this.createInvitedUser(invitation, data);
+  }
+
+  /**
+   * Ensure the agency has a seat for an invitee. A pending invitation to the same
+   * email gives its seat to the one replacing it.
+   * @param agencyId - Agency ID
+   * @param email - Invitee's email
+   * @throws {BusinessError} When the agency is full
+   */
+  private async assertSeatForInvitee(agencyId: string, email: string): Promise<void> {
+    const replacedInvitations = await this.model
+      .countDocuments({
+        agency: agencyId,
+        email,
+        status: InvitationStatus.PENDING,
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+    await userService.assertSeatAvailable(agencyId, replacedInvitations);
+  }
+
+  /**
+   * Revoke the email's pending invitations and store the new one with its email in one
+   * transaction, so a failure leaves the previous invitation working
+   * @param actor - Calling user
+   * @param email - Invitee's email
+   * @param role - Invited role
+   * @param agency - Inviting agency
+   * @returns Created invitation
+   */
+  private async replacePendingInvitation(
+    actor: AuthenticatedUser,
+    email: string,
+    role: IRole,
+    agency: IAgency,
+  ): Promise<IInvitation> {
+    const token = crypto.randomBytes(CRYPTO_RANDOM_BYTES).toString('hex');
+    return mongoose.connection.transaction(async (session) => {
+      await this.model
+        .updateMany(
+          { agency: actor.agency, email, status: InvitationStatus.PENDING },
+          { status: InvitationStatus.REVOKED },
+          { session },
+        )
+        .exec();
+      const [invitation] = await this.model.create(
+        [
+          {
+            email,
+            agency: actor.agency,
+            role: role._id,
+            tokenHash: hashInvitationToken(token),
+            invitedBy: actor.id,
+            expiresAt: new Date(Date.now() + INVITATION_TTL),
+          },
+        ],
+        { session },
+      );
+      await emailService.sendInvitationEmail(invitation.email, token, agency, session);
+      return invitation;
+    });
+  }
+
+  /**
+   * Ensure the invitee can still join the agency with the invited role
+   * @param invitation - Pending invitation
+   * @throws {BadRequestError} When the domain is no longer allowed or the role is gone
+   * @throws {BusinessError} When the email already has an account or the agency is full
+   */
+  private async assertCanJoin(invitation: IInvitation): Promise<void> {
+    const agencyId = invitation.agency.toString();
+    const agency = await userService.getActiveAgency(agencyId);
+    if (!isEmailDomainAllowed(invitation.email, agency.settings.allowedDomains)) {
+      throw new BadRequestError(`Email domain is not allowed for ${agency.name}`);
+    }
+    if (await User.exists({ email: invitation.email })) {
+      throw new BusinessError('User with this email already exists');
+    }
+    await userService.getAgencyRole(agencyId, invitation.role.toString());
+    await userService.assertSeatAvailable(agencyId, 1);
+  }
+
+  /**
+   * Create the account of a claimed invitation, releasing the claim when that fails
+   * @param invitation - Claimed invitation
+   * @param data - New account details
+   * @returns Created user
+   */
+  private async createInvitedUser(invitation: IInvitation, data: IAcceptInvitationInput): Promise<IUser> {
+    try {
+      const user = await User.create({
+        email: invitation.email,
+        password: data.password,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        agency: invitation.agency,
+        role: invitation.role,
+        isEmailVerified: true,
+      });
+      await this.model.updateOne({ _id: invitation._id }, { acceptedUser: user._id }).exec();
+      return user;
+    } catch (error) {
+      await this.model
+        .updateOne({ _id: invitation._id }, { status: InvitationStatus.PENDING, $unset: { acceptedAt: 1 } })
+        .exec();
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'acceptInvitation');
+    }
+  }
+
+  /**
+   * Find the pending, unexpired invitation of a token
+   * @param token - Token from the invitation link
+   * @returns Invitation document
+   * @throws {BadRequestError} When the token is invalid, used or expired
+   */
+  private async getPendingByToken(token: string): Promise<IInvitation> {
+    const invitation = await this.model
+      .findOne({
+        tokenHash: hashInvitationToken(token),
+        status: InvitationStatus.PENDING,
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+    if (!invitation) {
+      throw new BadRequestError('Invalid or expired invitation');
+    }
+    return invitation;
+  }
+}
+
+export const invitationService = new InvitationService();
@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+
+import { IInvitation } from '../../shared/models/invitation.model';
+import { IRole } from '../../shared/models/role.model';
+import { IUser } from '../../shared/models/user.model';
+import { getAuthenticatedUser } from '../../shared/utils/authUser';
+import { CreatedSuccess, NoContentSuccess, OkSuccess } from '../../shared/utils/CustomSuccess';
+import { InvitationStatus } from '../../types/enum/user';
+import { AuthenticatedRequest } from '../../types/express/index';
+
+import { invitationService } from './invitation.service';
+import { IAgencyUserResponse, IInvitationResponse, IUserRoleSummary } from './user.interface';
+import { userService } from './user.service';
+import { ListInvitationsQuery, ListUsersQuery } from './user.validator';
+
+/**
+ * Map a populated role to its summary, or null when it was not populated
+ * @param role - Role reference
+ * @returns Role summary
+ */
+const toRoleSummary = (role: Types.ObjectId | IRole): IUserRoleSummary | null =>
+  role instanceof Types.ObjectId ? null : { id: role.id, name: role.name, type: role.type };
+
+/**
+ * Map a user document to its API representation
+ * @param user - User document with its role populated
+ * @returns User response payload
+ */
+export const toAgencyUserResponse = (user: IUser): IAgencyUserResponse => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  role: toRoleSummary(user.role as unknown as IRole),
+  isActive: user.isActive,
+  isEmailVerified: user.isEmailVerified,
+  twoFactorEnabled: Boolean(user.twoFactor?.enabled),
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+/**
+ * Map an invitation document to its API representation
+ * @param invitation - Invitation document with its role populated
+ * @returns Invitation response payload
+ */
+export const toInvitationResponse = (invitation: IInvitation): IInvitationResponse => ({
+  id: invitation.id,
+  email: invitation.email,
+  role: toRoleSummary(invitation.role as unknown as IRole),
+  status: invitation.status,
+  expired: invitation.status === InvitationStatus.PENDING && invitation.expiresAt <= new Date(),
+  invitedBy: invitation.invitedBy.toString(),
+  expiresAt: invitation.expiresAt,
+  acceptedAt: invitation.acceptedAt,
+  createdAt: invitation.createdAt,
+});
+
+/**
+ * User Controller Class
+ * Implements controller layer with proper error handling and response formatting
+ * Management handlers are agency scoped through the authenticated user
+ */
+export class UserController {
+  /**
+   * List agency users with pagination and filtering
+   */
+  async listUsers(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const result = await userService.listUsers(agency, req.query as unknown as ListUsersQuery);
+      res.customSuccess(
+        new OkSuccess({
+          users: result.users.map(toAgencyUserResponse),
+          pagination: {
+            totalUsers: result.totalUsers,
+            totalPages: result.totalPages,
+            currentPage: result.currentPage,
+            hasNextPage: result.hasNextPage,
+            hasPrevPage: result.hasPrevPage,
+          },
+        }),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get user by ID
+   */
+  async getUser(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const user = await userService.getAgencyUser(agency, req.params.userId);
+      res.customSuccess(new OkSuccess(toAgencyUserResponse(user)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a user's role
+   * Validation is handled by middleware
+   */
+  async changeRole(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await userService.changeRole(getAuthenticatedUser(req), req.params.userId, req.body.roleId);
+      res.customSuccess(new OkSuccess(toAgencyUserResponse(user), 'User role updated successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Deactivate or reactivate a user
+   * Validation is handled by middleware
+   */
+  async setStatus(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await userService.setActive(getAuthenticatedUser(req), req.params.userId, req.body.isActive);
+      res.customSuccess(
+        new OkSuccess(toAgencyUserResponse(user), user.isActive ? 'User reactivated' : 'User deactivated'),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Invite a user to the agency
+   * Validation is handled by middleware
+   */
+  async createInvitation(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitation = await invitationService.createInvitation(getAuthenticatedUser(req), req.body);
+      res.customSuccess(new CreatedSuccess(toInvitationResponse(invitation), 'Invitation sent successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List agency invitations with pagination
+   */
+  async listInvitations(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      const result = await invitationService.listInvitations(agency, req.query as unknown as ListInvitationsQuery);
+      res.customSuccess(
+        new OkSuccess({
+          invitations: result.invitations.map(toInvitationResponse),
+          pagination: {
+            totalInvitations: result.totalInvitations,
+            totalPages: result.totalPages,
+            currentPage: result.currentPage,
+            hasNextPage: result.hasNextPage,
+            hasPrevPage: result.hasPrevPage,
+          },
+        }),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { agency } = getAuthenticatedUser(req);
+      await invitationService.revokeInvitation(agency, req.params.invitationId);
+      res.customSuccess(new NoContentSuccess('Invitation revoked successfully'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Describe an invitation for its acceptance page (public)
+   */
+  async previewInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const preview = await invitationService.previewInvitation(req.params.token);
+      res.customSuccess(new OkSuccess(preview));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const userController = new UserController();
@@ -0,0 +1,69 @@
+import { IInvitation } from '../../shared/models/invitation.model';
+import { RoleType } from '../../shared/models/role.model';
+import { IUser } from '../../shared/models/user.model';
+import { InvitationStatus } from '../../types/enum/user';
+
+export interface IUserRoleSummary {
+  id: string;
+  name: string;
+  type: RoleType;
+}
+
+export interface IAgencyUserResponse {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: IUserRoleSummary | null;
+  isActive: boolean;
+  isEmailVerified: boolean;
+  twoFactorEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IInvitationResponse {
+  id: string;
+  email: string;
+  role: IUserRoleSummary | null;
+  status: InvitationStatus;
+  expired: boolean;
+  invitedBy: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  createdAt: Date;
+}
+
+// Public details shown on the acceptance page
+export interface IInvitationPreview {
+  email: string;
+  agencyName: string;
+  roleName: string;
+  expiresAt: Date;
+}
+
+export interface IAcceptInvitationInput {
+  token: string;
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface IPaginatedUsers {
+  users: IUser[];
+  totalUsers: number;
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface IPaginatedInvitations {
+  invitations: IInvitation[];
+  totalInvitations: number;
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
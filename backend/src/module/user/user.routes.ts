@@ -0,0 +1,273 @@
+import { Router } from 'express';
+import passport from 'passport';
+
+import { checkPermission } from '../../shared/middlewares/checkPermission.middleware';
+import { validateBody, validateParams, validateQuery } from '../../shared/middlewares/validation.middleware';
+
+import { userController } from './user.controller';
+import {
+  listUsersQuerySchema,
+  listInvitationsQuerySchema,
+  changeUserRoleSchema,
+  userStatusSchema,
+  createInvitationSchema,
+  userIdParamSchema,
+  invitationIdParamSchema,
+  invitationTokenParamSchema,
+} from './user.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /users/invitations/token/{token}:
+ *   get:
+ *     summary: Get the email, agency and role of a pending invitation
+ *     tags: [Users]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+// Preview invitation (public)
+router.get('/invitations/token/:token', validateParams(invitationTokenParamSchema), userController.previewInvitation);
+
+/**
+ * @swagger
+ * /users/invitations:
+ *   post:
+ *     summary: Invite an email address to the caller's agency with a role
+ *     description: The email domain must be in the agency's allowedDomains and the agency must have a free seat under maxUsers; pending invitations hold a seat
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - roleId
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               roleId:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Create invitation
+router.post(
+  '/invitations',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('users', 'create'),
+  validateBody(createInvitationSchema),
+  userController.createInvitation,
+);
+
+/**
+ * @swagger
+ * /users/invitations:
+ *   get:
+ *     summary: List the agency's invitations with pagination
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, accepted, revoked]
+ */
+// List invitations
+router.get(
+  '/invitations',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('users', 'read'),
+  validateQuery(listInvitationsQuerySchema),
+  userController.listInvitations,
+);
+
+/**
+ * @swagger
+ * /users/invitations/{invitationId}:
+ *   delete:
+ *     summary: Revoke a pending invitation
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+// Revoke invitation
+router.delete(
+  '/invitations/:invitationId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('users', 'create'),
+  validateParams(invitationIdParamSchema),
+  userController.revokeInvitation,
+);
+
+/**
+ * @swagger
+ * /users:
+ *   get:
+ *     summary: List the agency's users with pagination and filtering
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches first name, last name or email
+ *       - in: query
+ *         name: roleId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ */
+// List users
+router.get(
+  '/',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('users', 'read'),
+  validateQuery(listUsersQuerySchema),
+  userController.listUsers,
+);
+
+/**
+ * @swagger
+ * /users/{userId}:
+ *   get:
+ *     summary: Get an agency user by ID
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ */
+// Get user details
+router.get(
+  '/:userId',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('users', 'read'),
+  validateParams(userIdParamSchema),
+  userController.getUser,
+);
+
+/**
+ * @swagger
+ * /users/{userId}/role:
+ *   patch:
+ *     summary: Move a user to another role of the agency
+ *     description: Only super admins can grant or revoke the super admin role; users cannot change their own role
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - roleId
+ *             properties:
+ *               roleId:
+ *                 type: string
+ *                 pattern: '^[0-9a-fA-F]{24}$'
+ */
+// Change user role
+router.patch(
+  '/:userId/role',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('users', 'update'),
+  validateParams(userIdParamSchema),
+  validateBody(changeUserRoleSchema),
+  userController.changeRole,
+);
+
+/**
+ * @swagger
+ * /users/{userId}/status:
+ *   patch:
+ *     summary: Deactivate or reactivate a user
+ *     description: Deactivation revokes every session of the user; reactivation needs a free seat under maxUsers
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isActive
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ */
+// Deactivate / reactivate user
+router.patch(
+  '/:userId/status',
+  passport.authenticate('jwt', { session: false }),
+  checkPermission('users', 'update'),
+  validateParams(userIdParamSchema),
+  validateBody(userStatusSchema),
+  userController.setStatus,
+);
+
+export default router;
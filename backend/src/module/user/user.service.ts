@@ -0,0 +1,243 @@
+import { FilterQuery } from 'mongoose';
+
+import { Agency, IAgency } from '../../shared/models/agency.model';
+import { Invitation } from '../../shared/models/invitation.model';
+import { IRole, Role, RoleType } from '../../shared/models/role.model';
+import { IUser, User } from '../../shared/models/user.model';
+import { BaseService } from '../../shared/services/BaseService';
+import {
+  BadRequestError,
+  BusinessError,
+  CustomError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../shared/utils/CustomError';
+import { escapeRegex } from '../../shared/utils/escapeRegex';
+import { SessionRevocationReason } from '../../types/enum/auth';
+import { InvitationStatus, UserRole } from '../../types/enum/user';
+import { AuthenticatedUser } from '../../types/express/index';
+import { sessionService } from '../auth/session.service';
+import { roleService } from '../role/role.service';
+
+import { IPaginatedUsers } from './user.interface';
+import { ListUsersQuery } from './user.validator';
+
+const ROLE_SUMMARY_FIELDS = 'name type';
+
+/**
+ * User Service Class
+ * Agency administration of user accounts: listing, role changes and deactivation.
+ * Every operation is scoped to the agency of the calling user.
+ */
+export class UserService extends BaseService<IUser> {
+  constructor() {
+    super(User, 'User');
+  }
+
+  /**
+   * List agency users with pagination and filtering
+   * @param agencyId - Agency ID
+   * @param query - Validated list query
+   * @returns Paginated users with their role populated
+   */
+  async listUsers(agencyId: string, query: ListUsersQuery): Promise<IPaginatedUsers> {
+    const { page, limit, search, roleId, isActive } = query;
+    const filter: FilterQuery<IUser> = { agency: agencyId };
+
+    if (search) {
+      const pattern = escapeRegex(search);
+      filter.$or = [
+        { firstName: { $regex: pattern, $options: 'i' } },
+        { lastName: { $regex: pattern, $options: 'i' } },
+        { email: { $regex: pattern, $options: 'i' } },
+      ];
+    }
+    if (roleId) {
+      filter.role = roleId;
+    }
+    if (typeof isActive === 'boolean') {
+      filter.isActive = isActive;
+    }
+
+    const result = await this.paginate(filter, page, limit);
+    await this.model.populate(result.documents, { path: 'role', select: ROLE_SUMMARY_FIELDS });
+
+    return {
+      users: result.documents,
+      totalUsers: result.totalDocuments,
+      totalPages: result.totalPages,
+      currentPage: result.currentPage,
+      hasNextPage: result.hasNextPage,
+      hasPrevPage: result.hasPrevPage,
+    };
+  }
+
+  /**
+   * Get a user of the agency by ID
+   * @param agencyId - Agency ID
+   * @param userId - User ID
+   * @returns User with their role populated
+   * @throws {NotFoundError} When the agency has no such user
+   */
+  async getAgencyUser(agencyId: string, userId: string): Promise<IUser> {
+    const user = await this.model
+      .findOne({ _id: userId, agency: agencyId })
+      .populate('role', ROLE_SUMMARY_FIELDS)
+      .exec();
+    if (!user) {
+      throw new NotFoundError(`User not found with ID: ${userId}`);
+    }
+    return user;
+  }
+
+  /**
+   * Move a user to another role of the agency
+   * @param actor - Calling user
+   * @param userId - User ID
+   * @param roleId - New role ID
+   * @returns Updated user
+   * @throws {BusinessError} When users try to change their own role
+   * @throws {ForbiddenError} When a non super admin touches super admin accounts, or the
+   * new role has permissions the caller does not hold
+   */
+  async changeRole(actor: AuthenticatedUser, userId: string, roleId: string): Promise<IUser> {
+    this.assertNotSelf(actor, userId, 'You cannot change your own role');
+
+    const user = await this.getAgencyUser(actor.agency, userId);
+    const role = await this.getAgencyRole(actor.agency, roleId);
+    this.assertCanManage(actor, (user.role as unknown as IRole).type, role.type);
+    await roleService.assertHoldsPermissions(actor, role.permissions);
+
+    return this.updateScoped(actor.agency, userId, { role: role._id });
+  }
+
+  /**
+   * Deactivate or reactivate a user. Deactivation signs the user out everywhere.
+   * @param actor - Calling user
+   * @param userId - User ID
+   * @param isActive - New state
+   * @returns Updated user
+   * @throws {BusinessError} When users try to deactivate themselves or no seat is left
+   * @throws {ForbiddenError} When a non super admin touches super admin accounts
+   */
+  async setActive(actor: AuthenticatedUser, userId: string, isActive: boolean): Promise<IUser> {
+    this.assertNotSelf(actor, userId, 'You cannot change the status of your own account');
+
+    const user = await this.getAgencyUser(actor.agency, userId);
+    this.assertCanManage(actor, (user.role as unknown as IRole).type);
+
+    if (isActive && !user.isActive) {
+      await this.assertSeatAvailable(actor.agency);
+    }
+
+    const updated = await this.updateScoped(actor.agency, userId, { isActive });
+    if (!isActive) {
+      await sessionService.revokeAllForUser(userId, SessionRevocationReason.USER_DEACTIVATED);
+    }
+    return updated;
+  }
+
+  /**
+   * Get an active agency by ID
+   * @param agencyId - Agency ID
+   * @returns Agency document
+   * @throws {NotFoundError} When the agency does not exist or is inactive
+   */
+  async getActiveAgency(agencyId: string): Promise<IAgency> {
+    const agency = await Agency.findOne({ _id: agencyId, isActive: true }).exec();
+    if (!agency) {
+      throw new NotFoundError(`Agency not found with ID: ${agencyId}`);
+    }
+    return agency;
+  }
+
+  /**
+   * Get an active role of the agency
+   * @param agencyId - Agency ID
+   * @param roleId - Role ID
+   * @returns Role document
+   * @throws {BadRequestError} When the role does not belong to the agency
+   */
+  async getAgencyRole(agencyId: string, roleId: string): Promise<IRole> {
+    const role = await Role.findOne({ _id: roleId, agency: agencyId, isActive: true }).exec();
+    if (!role) {
+      throw new BadRequestError('Role does not belong to this agency');
+    }
+    return role;
+  }
+
+  /**
+   * Ensure the agency has a free seat under `settings.maxUsers`.
+   * Active users and pending invitations both hold a seat.
+   * @param agencyId - Agency ID
+   * @param heldSeats - Seats already held by the caller, e.g. the invitation being accepted
+   * @throws {BusinessError} When the agency is full
+   */
+  async assertSeatAvailable(agencyId: string, heldSeats = 0): Promise<void> {
+    const agency = await this.getActiveAgency(agencyId);
+    const [activeUsers, pendingInvitations] = await Promise.all([
+      this.model.countDocuments({ agency: agencyId, isActive: true }).exec(),
+      Invitation.countDocuments({
+        agency: agencyId,
+        status: InvitationStatus.PENDING,
+        expiresAt: { $gt: new Date() },
+      }).exec(),
+    ]);
+
+    if (activeUsers + pendingInvitations - heldSeats >= agency.settings.maxUsers) {
+      throw new BusinessError(`Agency has reached its limit of ${agency.settings.maxUsers} users`);
+    }
+  }
+
+  /**
+   * Only super admins may grant, revoke or modify the super admin role
+   * @param actor - Calling user
+   * @param roleTypes - Roles involved in the change
+   * @throws {ForbiddenError} When a non super admin touches a super admin role
+   */
+  assertCanManage(actor: AuthenticatedUser, ...roleTypes: RoleType[]): void {
+    if (actor.role.type !== UserRole.SUPER_ADMIN && roleTypes.includes(UserRole.SUPER_ADMIN)) {
+      throw new ForbiddenError('Only super admins can manage super admin accounts');
+    }
+  }
+
+  /**
+   * Prevent users from locking themselves out
+   * @param actor - Calling user
+   * @param userId - Target user ID
+   * @param message - Error message
+   * @throws {BusinessError} When the target is the caller
+   */
+  private assertNotSelf(actor: AuthenticatedUser, userId: string, message: string): void {
+    if (actor.id === userId) {
+      throw new BusinessError(message);
+    }
+  }
+
+  /**
+   * Apply an update to a user of the agency
+   * @param agencyId - Agency ID
+   * @param userId - User ID
+   * @param update - Update query
+   * @returns Updated user with their role populated
+   */
+  private async updateScoped(agencyId: string, userId: string, update: Record<string, unknown>): Promise<IUser> {
+    try {
+      const user = await this.model
+        .findOneAndUpdate({ _id: userId, agency: agencyId }, update, { new: true, runValidators: true })
+        .populate('role', ROLE_SUMMARY_FIELDS)
+        .exec();
+      if (!user) {
+        throw new NotFoundError(`User not found with ID: ${userId}`);
+      }
+      return user;
+    } catch (error) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'updateUser');
+    }
+  }
+}
+
+export const userService = new UserService();
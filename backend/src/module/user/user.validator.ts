@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+import { PAGINATION_DEFAULT_LIMIT, PAGINATION_DEFAULT_PAGE } from '../../shared/constant/validation';
+import { InvitationStatus } from '../../types/enum/user';
+
+const EMAIL_MAX_LENGTH = 255;
+const INVITATION_TOKEN_MAX_LENGTH = 64;
+
+// Common validation schemas
+const objectIdSchema = z.string().regex(/^[\dA-Fa-f]{24}$/, 'Invalid ObjectId format');
+
+const emailSchema = z
+  .string()
+  .email('Invalid email format')
+  .toLowerCase()
+  .trim()
+  .max(EMAIL_MAX_LENGTH, 'Email must not exceed 255 characters');
+
+const invitationTokenSchema = z
+  .string()
+  .min(1, 'Invitation token is required')
+  .max(INVITATION_TOKEN_MAX_LENGTH, 'Invalid token format');
+
+const paginationSchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_PAGE)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : PAGINATION_DEFAULT_LIMIT)),
+});
+
+// Query parameters schema for listing agency users
+export const listUsersQuerySchema = paginationSchema.extend({
+  search: z.string().trim().optional(),
+  roleId: objectIdSchema.optional(),
+  isActive: z
+    .enum(['true', 'false'])
+    .transform((val) => val === 'true')
+    .optional(),
+});
+
+// Query parameters schema for listing invitations
+export const listInvitationsQuerySchema = paginationSchema.extend({
+  status: z.nativeEnum(InvitationStatus).optional(),
+});
+
+// Role change schema
+export const changeUserRoleSchema = z.object({
+  roleId: objectIdSchema,
+});
+
+// Deactivate / reactivate schema
+export const userStatusSchema = z.object({
+  isActive: z.boolean(),
+});
+
+// Invitation schema
+export const createInvitationSchema = z.object({
+  email: emailSchema,
+  roleId: objectIdSchema,
+});
+
+// Parameter validation schemas
+export const userIdParamSchema = z.object({
+  userId: objectIdSchema.describe('User MongoDB ObjectId'),
+});
+
+export const invitationIdParamSchema = z.object({
+  invitationId: objectIdSchema.describe('Invitation MongoDB ObjectId'),
+});
+
+export const invitationTokenParamSchema = z.object({
+  token: invitationTokenSchema,
+});
+
+// Export types
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+export type ListInvitationsQuery = z.infer<typeof listInvitationsQuerySchema>;
+export type ChangeUserRoleInput = z.infer<typeof changeUserRoleSchema>;
+export type UserStatusInput = z.infer<typeof userStatusSchema>;
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema>;
@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { BadRequestError } from '../../shared/utils/CustomError';
+import { CreatedSuccess, OkSuccess } from '../../shared/utils/CustomSuccess';
+import { toCommunicationResponse } from '../communication/communication.controller';
+import { communicationInboundService } from '../communication/communicationInbound.service';
+import { communicationSmsService } from '../communication/communicationSms.service';
+import { communicationWhatsAppService } from '../communication/communicationWhatsApp.service';
+
+import { WhatsAppVerifyQuery } from './webhook.validator';
+
+/**
+ * Webhook Controller Class
+ * Receives messages and events from outside services, which authenticate with
+ * their own credentials instead of user tokens
+ */
+export class WebhookController {
+  /**
+   * Log an email posted by the mail relay as raw MIME
+   */
+  async receiveEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new BadRequestError('Expected a raw email with a message/rfc822 content type');
+      }
+      const { communication, leadCreated } = await communicationInboundService.receiveEmail(req.body);
+      res.customSuccess(
+        new CreatedSuccess({ communication: toCommunicationResponse(communication), leadCreated }, 'Email received'),
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Answer Meta's webhook verification by echoing the challenge as plain text
+   * Validation and the verify token check are handled by middleware
+   */
+  verifyWhatsApp(req: Request, res: Response): void {
+    const query = req.query as unknown as WhatsAppVerifyQuery;
+    res.type('text/plain').send(query['hub.challenge']);
+  }
+
+  /**
+   * Log the messages and receipts of a signed WhatsApp webhook
+   * Signature and validation are handled by middleware
+   */
+  async receiveWhatsApp(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await communicationWhatsAppService.receiveWebhook(req.body);
+      res.customSuccess(new OkSuccess(result, 'WhatsApp webhook processed'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Move an outgoing SMS to the status of a delivery receipt
+   * The provider's signature is checked by middleware
+   */
+  async receiveSmsStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const updated = await communicationSmsService.receiveReceipt(req.body);
+      res.customSuccess(new OkSuccess({ updated }, 'SMS receipt processed'));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Log an incoming SMS and handle its STOP or START keyword
+   * The provider's signature is checked by middleware
+   */
+  async receiveSms(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await communicationSmsService.receiveSms(req.body);
+      res.customSuccess(new OkSuccess(result, 'SMS received'));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const webhookController = new WebhookController();
@@ -0,0 +1,209 @@
+import express, { Router } from 'express';
+
+import { auditAsSystem } from '../../shared/middlewares/auditContext.middleware';
+import { validateBody, validateQuery } from '../../shared/middlewares/validation.middleware';
+import {
+  authenticateMailRelay,
+  verifySmsWebhook,
+  verifyWhatsAppSignature,
+  verifyWhatsAppSubscription,
+} from '../../shared/middlewares/webhookAuth.middleware';
+
+import { webhookController } from './webhook.controller';
+import { whatsappVerifyQuerySchema, whatsappWebhookSchema } from './webhook.validator';
+
+// Raw emails carry their attachments base64-encoded
+const INBOUND_EMAIL_LIMIT = '25mb';
+
+const router = Router();
+
+// Leads created or updated from webhooks are recorded as changed by the system
+router.use(auditAsSystem);
+
+/**
+ * @swagger
+ * /webhooks/email:
+ *   post:
+ *     summary: Receive an email forwarded by the mail relay
+ *     description: >
+ *       The email is logged as an incoming communication with its attachments in the
+ *       agency of the user or domain it was addressed to. It is matched to a lead of
+ *       that agency by its In-Reply-To and References headers, or else by the sender's
+ *       address. Unknown senders become new leads with the `email` source. An email
+ *       posted again is recognized by its Message-ID and logged once.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         message/rfc822:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       201:
+ *         description: Email logged
+ *       401:
+ *         description: Missing or invalid MAIL_INBOUND_TOKEN
+ *       404:
+ *         description: No agency receives mail for the recipients
+ */
+// Receive inbound email
+router.post(
+  '/email',
+  authenticateMailRelay,
+  express.raw({ type: ['message/rfc822', 'text/plain', 'application/octet-stream'], limit: INBOUND_EMAIL_LIMIT }),
+  webhookController.receiveEmail,
+);
+
+/**
+ * @swagger
+ * /webhooks/whatsapp:
+ *   get:
+ *     summary: Verify the WhatsApp webhook URL
+ *     description: Meta calls this once when the webhook is set up and expects the challenge back.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: query
+ *         name: hub.mode
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [subscribe]
+ *       - in: query
+ *         name: hub.verify_token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Must equal WHATSAPP_VERIFY_TOKEN
+ *       - in: query
+ *         name: hub.challenge
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The challenge, as plain text
+ *       403:
+ *         description: Invalid verify token
+ */
+// Verify WhatsApp webhook
+router.get(
+  '/whatsapp',
+  validateQuery(whatsappVerifyQuerySchema),
+  verifyWhatsAppSubscription,
+  webhookController.verifyWhatsApp,
+);
+
+/**
+ * @swagger
+ * /webhooks/whatsapp:
+ *   post:
+ *     summary: Receive WhatsApp messages and receipts
+ *     description: >
+ *       Payload of the WhatsApp Cloud API webhook, signed in the X-Hub-Signature-256
+ *       header with WHATSAPP_APP_SECRET. Messages are logged as incoming communications
+ *       of the agency whose `settings.whatsappPhoneNumberId` they were sent to, on the
+ *       lead with the sender's number. Unknown numbers become new leads with the
+ *       `whatsapp` source. Sent, delivered, read and failed receipts update
+ *       `metadata.whatsapp.status` of the outgoing message. Messages posted again are
+ *       logged once.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: header
+ *         name: X-Hub-Signature-256
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: sha256=5d41402abc4b2a76b9719d911017c592...
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Number of messages logged, receipts applied and leads created
+ *       400:
+ *         description: Invalid payload
+ *       401:
+ *         description: Missing or invalid signature
+ */
+// Receive WhatsApp messages and receipts
+router.post(
+  '/whatsapp',
+  verifyWhatsAppSignature,
+  validateBody(whatsappWebhookSchema),
+  webhookController.receiveWhatsApp,
+);
+
+/**
+ * @swagger
+ * /webhooks/sms/status:
+ *   post:
+ *     summary: Receive an SMS delivery receipt
+ *     description: >
+ *       Form-encoded receipt of the configured SMS provider, such as Twilio's status
+ *       callback signed in the X-Twilio-Signature header. The fake provider posts
+ *       `id`, `status` and `error` with SMS_WEBHOOK_TOKEN in the X-Sms-Token header.
+ *       The receipt moves `metadata.sms.status` of the outgoing SMS forward; receipts
+ *       arriving out of order never move it back.
+ *     tags: [Webhooks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Whether an SMS was updated
+ *       400:
+ *         description: Unrecognized receipt
+ *       401:
+ *         description: Missing or invalid signature
+ */
+// Receive SMS delivery receipt
+router.post(
+  '/sms/status',
+  express.urlencoded({ extended: false }),
+  verifySmsWebhook,
+  webhookController.receiveSmsStatus,
+);
+
+/**
+ * @swagger
+ * /webhooks/sms/inbound:
+ *   post:
+ *     summary: Receive an SMS from a lead
+ *     description: >
+ *       Form-encoded incoming message of the configured SMS provider, authenticated
+ *       like the status webhook; the fake provider posts `id`, `from`, `to` and `text`.
+ *       The SMS belongs to the agency whose `settings.smsSenderId` is the receiving
+ *       number, or else to the only agency that texted the sender from it; otherwise
+ *       it is dropped. It is logged as an incoming communication on that agency's
+ *       leads that were texted at the sender's number.
+ *       STOP, STOPALL, UNSUBSCRIBE, CANCEL, END and QUIT opt those leads out of SMS
+ *       by setting `smsOptedOutAt`; START, UNSTOP and YES opt them back in. Numbers
+ *       that were never texted are ignored, and an SMS posted again is logged once.
+ *     tags: [Webhooks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Number of messages logged and leads opted out or in
+ *       400:
+ *         description: Unrecognized message
+ *       401:
+ *         description: Missing or invalid signature
+ */
+// Receive incoming SMS
+router.post('/sms/inbound', express.urlencoded({ extended: false }), verifySmsWebhook, webhookController.receiveSms);
+
+export default router;
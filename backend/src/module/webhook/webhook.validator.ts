@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+// Media a lead sent; the id is downloaded through the Cloud API
+const whatsappMediaSchema = z.object({
+  id: z.string(),
+  mime_type: z.string().optional(),
+  caption: z.string().optional(),
+  filename: z.string().optional(),
+});
+
+const whatsappLocationSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  name: z.string().optional(),
+  address: z.string().optional(),
+});
+
+const whatsappInboundMessageSchema = z.object({
+  id: z.string(),
+  from: z.string().regex(/^\d+$/, 'Invalid WhatsApp number'),
+  timestamp: z.string(),
+  type: z.string(),
+  text: z.object({ body: z.string() }).optional(),
+  image: whatsappMediaSchema.optional(),
+  video: whatsappMediaSchema.optional(),
+  audio: whatsappMediaSchema.optional(),
+  document: whatsappMediaSchema.optional(),
+  sticker: whatsappMediaSchema.optional(),
+  location: whatsappLocationSchema.optional(),
+  // Quick reply button of a template
+  button: z.object({ text: z.string() }).optional(),
+  context: z.object({ id: z.string() }).optional(),
+});
+
+// Receipt of an outgoing message
+const whatsappStatusSchema = z.object({
+  id: z.string(),
+  status: z.string(),
+  timestamp: z.string(),
+  recipient_id: z.string(),
+  errors: z.array(z.object({ code: z.number(), title: z.string() })).optional(),
+});
+
+const whatsappChangeValueSchema = z.object({
+  metadata: z.object({ phone_number_id: z.string() }),
+  contacts: z
+    .array(z.object({ wa_id: z.string(), profile: z.object({ name: z.string() }).optional() }))
+    .optional()
+    .default([]),
+  messages: z.array(whatsappInboundMessageSchema).optional().default([]),
+  statuses: z.array(whatsappStatusSchema).optional().default([]),
+});
+
+// Payload of the WhatsApp Cloud API webhook; unknown fields are dropped
+export const whatsappWebhookSchema = z.object({
+  object: z.literal('whatsapp_business_account'),
+  entry: z.array(
+    z.object({
+      id: z.string(),
+      changes: z.array(z.object({ field: z.string(), value: whatsappChangeValueSchema })),
+    }),
+  ),
+});
+
+// Query Meta sends once to verify the webhook URL
+export const whatsappVerifyQuerySchema = z.object({
+  'hub.mode': z.literal('subscribe'),
+  'hub.verify_token': z.string(),
+  'hub.challenge': z.string(),
+});
+
+// Export types
+export type WhatsAppWebhookInput = z.infer<typeof whatsappWebhookSchema>;
+export type WhatsAppChangeValue = z.infer<typeof whatsappChangeValueSchema>;
+export type WhatsAppInboundMessage = z.infer<typeof whatsappInboundMessageSchema>;
+export type WhatsAppMedia = z.infer<typeof whatsappMediaSchema>;
+export type WhatsAppLocation = z.infer<typeof whatsappLocationSchema>;
+export type WhatsAppStatus = z.infer<typeof whatsappStatusSchema>;
+export type WhatsAppVerifyQuery = z.infer<typeof whatsappVerifyQuerySchema>;
@@ -6,13 +6,63 @@ export const config = {
   mongoUri: process.env.MONGO_URI,
   pasetoSecret: process.env.PASETO_SECRET as string,
   smtpHost: process.env.SMTP_HOST,
-  whatsappApiKey: process.env.WHATSAPP_API_KEY,
+  smtp: {
+    port: Number.parseInt(process.env.SMTP_PORT || '587', 10),
+    // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASS,
+  },
+  mail: {
+    // smtp, file or memory; without SMTP_HOST mail goes to the file outbox
+    transport: process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'file'),
+    from: process.env.MAIL_FROM || 'AthithiPro CRM <no-reply@athitipro.aionos.co>',
+    outboxDir: process.env.MAIL_OUTBOX_DIR || 'outbox',
+    // Bearer token the mail relay posts inbound mail with; inbound mail is refused while unset
+    inboundToken: process.env.MAIL_INBOUND_TOKEN,
+  },
+  // Frontend the links in emails point to
+  appUrl: process.env.APP_URL || 'http://localhost:8080',
+  whatsapp: {
+    // WhatsApp Cloud API; point it at `npm run whatsapp:stub` to develop without Meta
+    apiUrl: process.env.WHATSAPP_API_URL || 'https://graph.facebook.com/v20.0',
+    apiKey: process.env.WHATSAPP_API_KEY,
+    // Signs webhook payloads (X-Hub-Signature-256); webhooks are refused while unset
+    appSecret: process.env.WHATSAPP_APP_SECRET,
+    // Echoed back when Meta verifies the webhook URL
+    verifyToken: process.env.WHATSAPP_VERIFY_TOKEN,
+  },
+  sms: {
+    // twilio or fake; without TWILIO_ACCOUNT_SID messages go to the fake provider, which only logs them
+    provider: process.env.SMS_PROVIDER || (process.env.TWILIO_ACCOUNT_SID ? 'twilio' : 'fake'),
+    // Sender ID of agencies that have not set their own
+    defaultSenderId: process.env.SMS_DEFAULT_SENDER_ID || 'ATHITI',
+    // Public URL of this API; providers post delivery receipts to it and sign requests with it
+    webhookBaseUrl: process.env.SMS_WEBHOOK_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`,
+    // Token the fake provider's webhooks carry; they are refused while unset
+    webhookToken: process.env.SMS_WEBHOOK_TOKEN,
+    twilio: {
+      apiUrl: process.env.TWILIO_API_URL || 'https://api.twilio.com/2010-04-01',
+      accountSid: process.env.TWILIO_ACCOUNT_SID,
+      // Also signs Twilio's webhooks (X-Twilio-Signature)
+      authToken: process.env.TWILIO_AUTH_TOKEN,
+    },
+  },
+  phone: {
+    // Prefixed to lead phone numbers saved without a country code
+    defaultCountryCode: process.env.PHONE_DEFAULT_COUNTRY_CODE || '91',
+  },
   allowedOrigins: process.env.ALLOWED_ORIGINS,
   datadogApiKey: process.env.DATADOG_API_KEY,
   nodeEnvironment: process.env.NODE_ENV,
   redis: {
     url: process.env.REDIS_URL as string,
   },
+  // First platform operator, created on startup while none exists
+  platform: {
+    operatorEmail: process.env.PLATFORM_OPERATOR_EMAIL,
+    operatorPassword: process.env.PLATFORM_OPERATOR_PASSWORD,
+  },
   jwt: {
     secret: process.env.JWT_PRIVATE_KEY || 'fallback-jwt-secret-change-in-production',
     expiresIn: process.env.JWT_EXPIRES_IN || '24h',
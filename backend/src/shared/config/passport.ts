@@ -1,9 +1,18 @@
+import { Request } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
 import passport from 'passport';
-import { Strategy as JwtStrategy, ExtractJwt } from 'passport-jwt';
+import { Strategy as JwtStrategy, ExtractJwt, VerifiedCallback } from 'passport-jwt';
 import { Strategy as LocalStrategy } from 'passport-local';
 
-import { Role } from '../models/role.model';
-import { User } from '../models/user.model';
+import { sessionService } from '../../module/auth/session.service';
+import { PlatformAuditAction } from '../../types/enum/platform';
+import { UserRole } from '../../types/enum/user';
+import { PLATFORM_TOKEN_AUDIENCE } from '../constant/platform';
+import { PlatformOperator } from '../models/platformOperator.model';
+import { IUser, User } from '../models/user.model';
+import { auditService } from '../services/audit.service';
+import { permissionCacheService } from '../services/permissionCache.service';
+import { getClientInfo } from '../utils/clientInfo';
 
 import { config } from './index';
 
@@ -34,6 +43,22 @@ passport.use(
   ),
 );
 
+// Everything a platform operator does while impersonating a user is audited
+const auditImpersonatedRequest = async (
+  req: Request,
+  operatorId: string,
+  sessionId: string,
+  user: IUser,
+): Promise<void> => {
+  await auditService.logPlatformAction(operatorId, PlatformAuditAction.IMPERSONATION_REQUEST, getClientInfo(req), {
+    sessionId,
+    user: user.id.toString(),
+    agency: user.agency.toString(),
+    method: req.method,
+    path: req.originalUrl,
+  });
+};
+
 // JWT Strategy for token authentication
 passport.use(
   new JwtStrategy(
@@ -41,25 +66,44 @@ passport.use(
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       secretOrKey: config.jwt.secret,
       algorithms: ['RS256'],
+      passReqToCallback: true,
     },
-    async (payload, done) => {
+    async (req: Request, payload: JwtPayload, done: VerifiedCallback) => {
       try {
+        // Tokens of revoked or expired sessions are rejected even before they expire
+        const session = payload.sid ? await sessionService.touch(payload.id, payload.sid) : null;
+        if (!session) {
+          return done(null, false);
+        }
+
         const user = await User.findById(payload.id).select('-password');
         if (!user) {
           return done(new Error('User not found'));
         }
+        // Deactivated users are signed out even if a session was missed
+        if (!user.isActive) {
+          return done(null, false);
+        }
 
-        const role = await Role.findById(user.role);
+        const role = await permissionCacheService.getRole(user.agency.toString(), user.role.toString());
         if (!role) {
           return done(new Error('Role not found'));
         }
 
+        const impersonatedBy = session.impersonatedBy?.toString();
+        if (impersonatedBy) {
+          await auditImpersonatedRequest(req, impersonatedBy, payload.sid, user);
+        }
+
         return done(null, {
           id: user.id.toString(),
           agency: user.agency.toString(),
+          sessionId: payload.sid,
           role: {
-            type: role.type as 'super_admin' | 'manager' | 'agent',
+            id: role.id,
+            type: role.type as UserRole,
           },
+          impersonatedBy,
         });
       } catch (error) {
         return done(error);
@@ -68,4 +112,29 @@ passport.use(
   ),
 );
 
+// Platform JWT Strategy for platform operators, who are not tenant users
+passport.use(
+  'platform-jwt',
+  new JwtStrategy(
+    {
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      secretOrKey: config.jwt.secret,
+      algorithms: ['RS256'],
+      audience: PLATFORM_TOKEN_AUDIENCE,
+    },
+    async (payload: JwtPayload, done: VerifiedCallback) => {
+      try {
+        const operator = await PlatformOperator.findOne({ _id: payload.id, isActive: true });
+        if (!operator) {
+          return done(null, false);
+        }
+
+        return done(null, { id: operator.id, email: operator.email });
+      } catch (error) {
+        return done(error);
+      }
+    },
+  ),
+);
+
 export { default } from 'passport';
@@ -0,0 +1,13 @@
+import Redis from 'ioredis';
+
+import { REDIS_COMMAND_TIMEOUT } from '../constant/timeValues';
+
+import { config } from './index';
+
+// Shared connection for rate limiting and caches. Commands fail after a short timeout
+// instead of waiting in the offline queue while a lost connection is retried, so
+// callers with a fallback can use it.
+export const redis = new Redis(config.redis.url, { commandTimeout: REDIS_COMMAND_TIMEOUT });
+
+// Whether commands can be sent right now; false while connecting or reconnecting
+export const isRedisReady = (): boolean => redis.status === 'ready';
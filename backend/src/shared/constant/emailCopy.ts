@@ -0,0 +1,130 @@
+import { EmailTemplate } from '../../types/enum/email';
+import { Locale } from '../../types/enum/locale';
+
+// Wording of one transactional email; `agencyName` is the agency it is sent for
+export interface IEmailCopy {
+  subject: string;
+  heading: string;
+  intro: string;
+  action: string;
+  expiry: string;
+}
+
+// Wording shared by every email of a locale
+export interface IEmailChrome {
+  linkHint: string;
+  footer: (agencyName: string) => string;
+}
+
+type CopyBuilder = (agencyName: string) => IEmailCopy;
+
+const ENGLISH_COPY = new Map<EmailTemplate, CopyBuilder>([
+  [
+    EmailTemplate.VERIFY_EMAIL,
+    (): IEmailCopy => ({
+      subject: 'Verify your email address',
+      heading: 'Email verification',
+      intro: 'Please click the button below to verify your email address.',
+      action: 'Verify email',
+      expiry: 'This link expires in 24 hours.',
+    }),
+  ],
+  [
+    EmailTemplate.WELCOME,
+    (agencyName): IEmailCopy => ({
+      subject: `Welcome to ${agencyName}`,
+      heading: `Welcome to ${agencyName}`,
+      intro:
+        'Your agency is ready and you are its first administrator. Please click the button below to verify your email address.',
+      action: 'Verify email',
+      expiry: 'This link expires in 24 hours.',
+    }),
+  ],
+  [
+    EmailTemplate.PASSWORD_RESET,
+    (): IEmailCopy => ({
+      subject: 'Reset your password',
+      heading: 'Password reset',
+      intro: 'Please click the button below to reset your password. If you did not ask for this, ignore this email.',
+      action: 'Reset password',
+      expiry: 'This link expires in 30 minutes.',
+    }),
+  ],
+  [
+    EmailTemplate.INVITATION,
+    (agencyName): IEmailCopy => ({
+      subject: `You're invited to join ${agencyName}`,
+      heading: `Join ${agencyName}`,
+      intro: `You have been invited to join ${agencyName}. Click the button below to create your account.`,
+      action: 'Accept invitation',
+      expiry: 'This link expires in 7 days.',
+    }),
+  ],
+]);
+
+const HINDI_COPY = new Map<EmailTemplate, CopyBuilder>([
+  [
+    EmailTemplate.VERIFY_EMAIL,
+    (): IEmailCopy => ({
+      subject: 'अपना ईमेल पता सत्यापित करें',
+      heading: 'ईमेल सत्यापन',
+      intro: 'अपना ईमेल पता सत्यापित करने के लिए नीचे दिए गए बटन पर क्लिक करें।',
+      action: 'ईमेल सत्यापित करें',
+      expiry: 'यह लिंक 24 घंटे में समाप्त हो जाएगा।',
+    }),
+  ],
+  [
+    EmailTemplate.WELCOME,
+    (agencyName): IEmailCopy => ({
+      subject: `${agencyName} में आपका स्वागत है`,
+      heading: `${agencyName} में आपका स्वागत है`,
+      intro:
+        'आपकी एजेंसी तैयार है और आप इसके पहले व्यवस्थापक हैं। अपना ईमेल पता सत्यापित करने के लिए नीचे दिए गए बटन पर क्लिक करें।',
+      action: 'ईमेल सत्यापित करें',
+      expiry: 'यह लिंक 24 घंटे में समाप्त हो जाएगा।',
+    }),
+  ],
+  [
+    EmailTemplate.PASSWORD_RESET,
+    (): IEmailCopy => ({
+      subject: 'अपना पासवर्ड रीसेट करें',
+      heading: 'पासवर्ड रीसेट',
+      intro:
+        'अपना पासवर्ड रीसेट करने के लिए नीचे दिए गए बटन पर क्लिक करें। यदि आपने यह अनुरोध नहीं किया है, तो इस ईमेल को अनदेखा करें।',
+      action: 'पासवर्ड रीसेट करें',
+      expiry: 'यह लिंक 30 मिनट में समाप्त हो जाएगा।',
+    }),
+  ],
+  [
+    EmailTemplate.INVITATION,
+    (agencyName): IEmailCopy => ({
+      subject: `${agencyName} से जुड़ने का निमंत्रण`,
+      heading: `${agencyName} से जुड़ें`,
+      intro: `आपको ${agencyName} से जुड़ने के लिए आमंत्रित किया गया है। अपना खाता बनाने के लिए नीचे दिए गए बटन पर क्लिक करें।`,
+      action: 'निमंत्रण स्वीकार करें',
+      expiry: 'यह लिंक 7 दिनों में समाप्त हो जाएगा।',
+    }),
+  ],
+]);
+
+export const EMAIL_COPY = new Map<Locale, Map<EmailTemplate, CopyBuilder>>([
+  [Locale.EN, ENGLISH_COPY],
+  [Locale.HI, HINDI_COPY],
+]);
+
+export const EMAIL_CHROME = new Map<Locale, IEmailChrome>([
+  [
+    Locale.EN,
+    {
+      linkHint: "If the button doesn't work, copy this link into your browser:",
+      footer: (agencyName): string => `This email was sent by ${agencyName} through AthithiPro CRM.`,
+    },
+  ],
+  [
+    Locale.HI,
+    {
+      linkHint: 'यदि बटन काम नहीं करता है, तो इस लिंक को अपने ब्राउज़र में कॉपी करें:',
+      footer: (agencyName): string => `यह ईमेल ${agencyName} द्वारा AthithiPro CRM के माध्यम से भेजा गया था।`,
+    },
+  ],
+]);
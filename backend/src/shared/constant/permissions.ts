@@ -0,0 +1,29 @@
+import { PermissionScope } from '../../types/enum/permission';
+
+export const PERMISSION_ACTIONS = ['create', 'read', 'update', 'delete', 'revert', 'manage'] as const;
+
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];
+
+// Every resource:action pair the API checks with checkPermission; seeded into the Permission collection.
+// `manage` covers every action on the resource. Agencies are administered by platform operators, not tenant roles.
+export const PERMISSION_CATALOGUE: Record<string, PermissionAction[]> = {
+  users: ['create', 'read', 'update', 'manage'],
+  roles: ['create', 'read', 'update', 'delete', 'manage'],
+  leads: ['create', 'read', 'update', 'delete', 'revert', 'manage'],
+  tasks: ['create', 'read', 'update', 'delete', 'manage'],
+  bookings: ['create', 'read', 'update', 'delete', 'manage'],
+  communications: ['create', 'read', 'delete', 'manage'],
+  audit: ['read'],
+};
+
+// Resources whose records have an owner, keyed to the owning user field.
+// Their grants can be limited to owned records with an `:own` suffix, e.g. `leads:update:own`.
+export const RESOURCE_OWNER_FIELDS = new Map<string, string>([['leads', 'assignedTo']]);
+
+export const OWNABLE_ACTIONS: PermissionAction[] = ['read', 'update', 'delete'];
+
+export const toPermissionName = (
+  resource: string,
+  action: PermissionAction,
+  scope: PermissionScope = PermissionScope.ANY,
+): string => (scope === PermissionScope.OWN ? `${resource}:${action}:${scope}` : `${resource}:${action}`);
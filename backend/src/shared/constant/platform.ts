@@ -0,0 +1,3 @@
+// Platform tokens carry this audience so tenant routes never accept them, and vice versa
+export const PLATFORM_TOKEN_AUDIENCE = 'platform';
+export const PLATFORM_TOKEN_EXPIRES_IN = '1h';
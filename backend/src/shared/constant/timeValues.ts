@@ -1,3 +1,4 @@
+const HOURS_IN_DAY = 24;
 const MINUTES_IN_HOUR = 60;
 const SECONDS_IN_MINUTE = 60;
 export const MILLISECONDS_IN_SECOND = 1000;
@@ -5,6 +6,8 @@ export const NANOSECONDS_IN_MILLISECOND = 1_000_000;
 
 const FIFTEEN_MINUTES = 15;
 const THIRTY_MINUTES = 30;
+const TEN_MINUTES = 10;
+const THIRTY_DAYS = 30;
 
 export const SIGNUP_RATE_LIMITER_TIME = MINUTES_IN_HOUR * SECONDS_IN_MINUTE * MILLISECONDS_IN_SECOND; // 1 hour
 export const LOGIN_RATE_LIMITER_TIME = FIFTEEN_MINUTES * SECONDS_IN_MINUTE * MILLISECONDS_IN_SECOND; // 15 minutes
@@ -13,3 +16,20 @@ export const RESPONSE_TIME_IN_MILLISECONDS = MILLISECONDS_IN_SECOND * NANOSECOND
 export const TWENTY_FOUR_HOURS_IN_MILLISECONDS = MINUTES_IN_HOUR * SECONDS_IN_MINUTE * MILLISECONDS_IN_SECOND;
 export const THIRTY_MINUTES_IN_MILLISECONDS = THIRTY_MINUTES * SECONDS_IN_MINUTE * MILLISECONDS_IN_SECOND;
 export const MINUTES_IN_MILLISECONDS = MINUTES_IN_HOUR * SECONDS_IN_MINUTE * MILLISECONDS_IN_SECOND;
+export const MINUTE_IN_MILLISECONDS = SECONDS_IN_MINUTE * MILLISECONDS_IN_SECOND;
+export const ONE_DAY_IN_MILLISECONDS = HOURS_IN_DAY * MINUTES_IN_HOUR * MINUTE_IN_MILLISECONDS;
+export const PERMISSION_CACHE_TTL_SECONDS = TEN_MINUTES * SECONDS_IN_MINUTE; // 10 minutes
+export const REDIS_COMMAND_TIMEOUT = MILLISECONDS_IN_SECOND / 2; // 500 milliseconds
+// Impersonation sessions have no refresh token and end after this long
+export const IMPERSONATION_SESSION_TTL = MINUTES_IN_HOUR * MINUTE_IN_MILLISECONDS; // 1 hour
+export const AGENCY_DELETION_GRACE_PERIOD = THIRTY_DAYS * ONE_DAY_IN_MILLISECONDS; // 30 days
+// Exports stay downloadable this long after the agency is purged, then are deleted too
+export const AGENCY_EXPORT_RETENTION = THIRTY_DAYS * ONE_DAY_IN_MILLISECONDS; // 30 days
+export const AGENCY_PURGE_INTERVAL = MINUTES_IN_HOUR * MINUTE_IN_MILLISECONDS; // 1 hour
+export const MAIL_QUEUE_INTERVAL = MINUTE_IN_MILLISECONDS; // 1 minute
+export const MAIL_RETRY_BASE_DELAY = MINUTE_IN_MILLISECONDS; // 1 minute, growing with every failed attempt
+// A claimed email is sent again after this long if its sender never reported back
+export const MAIL_SEND_LOCK = TEN_MINUTES * MINUTE_IN_MILLISECONDS; // 10 minutes
+export const SENT_EMAIL_RETENTION = THIRTY_DAYS * ONE_DAY_IN_MILLISECONDS; // 30 days
+// WhatsApp accepts free-form messages only this long after the lead last wrote
+export const WHATSAPP_SESSION_WINDOW = ONE_DAY_IN_MILLISECONDS; // 24 hours
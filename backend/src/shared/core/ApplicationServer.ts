@@ -2,12 +2,19 @@ import http from 'http';
 
 import { Application } from 'express';
 
+import { agencyArchiveService } from '../../module/agency/agencyArchive.service';
+import { platformService } from '../../module/platform/platform.service';
+import { roleService } from '../../module/role/role.service';
 import { connectDB, closeDB } from '../config/db';
+import { AGENCY_PURGE_INTERVAL, MAIL_QUEUE_INTERVAL } from '../constant/timeValues';
+import { mailQueueService } from '../services/mailQueue.service';
 import { InternalServerError } from '../utils/CustomError';
 
 // ApplicationServer handles server lifecycle and graceful shutdown
 export class ApplicationServer {
   private server: http.Server | null = null;
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private mailQueueTimer: NodeJS.Timeout | null = null;
   private readonly port: number;
   private readonly timeout: number;
   private isShuttingDown = false;
@@ -48,8 +55,10 @@ export class ApplicationServer {
     try {
       console.log('Starting server initialization...');
       await this.connectDatabase();
+      await this.seedDatabase();
       this.createServer();
       await this.startListening();
+      this.startBackgroundJobs();
       console.log(`Server successfully started on port ${this.port}`);
       console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
       console.log(`Server timeout: ${this.timeout}ms`);
@@ -72,6 +81,47 @@ export class ApplicationServer {
     }
   }
 
+  // Seed reference data the API depends on
+  private async seedDatabase(): Promise<void> {
+    try {
+      await roleService.syncPermissionCatalogue();
+      console.log('Permission catalogue synced');
+      await platformService.ensureBootstrapOperator();
+    } catch (error) {
+      console.error('Database seeding failed:', error);
+      throw new InternalServerError('Failed to seed database');
+    }
+  }
+
+  // Purge agencies whose deletion grace period is over, now and then every hour,
+  // and send queued emails, now and then every minute
+  private startBackgroundJobs(): void {
+    this.runAgencyPurge();
+    this.purgeTimer = setInterval(() => this.runAgencyPurge(), AGENCY_PURGE_INTERVAL);
+    this.purgeTimer.unref();
+    mailQueueService.processQueue();
+    this.mailQueueTimer = setInterval(() => mailQueueService.processQueue(), MAIL_QUEUE_INTERVAL);
+    this.mailQueueTimer.unref();
+  }
+
+  private stopBackgroundJobs(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+    }
+    if (this.mailQueueTimer) {
+      clearInterval(this.mailQueueTimer);
+    }
+  }
+
+  // Purge failures are logged and retried on the next run
+  private async runAgencyPurge(): Promise<void> {
+    try {
+      await agencyArchiveService.purgeExpiredAgencies();
+    } catch (error) {
+      console.error('Agency purge failed:', error);
+    }
+  }
+
   // Create HTTP server and setup error handlers
   private createServer(): void {
     try {
@@ -153,6 +203,7 @@ export class ApplicationServer {
         await this.closeServer();
         console.log('HTTP server closed');
       }
+      this.stopBackgroundJobs();
       console.log('Closing database connection...');
       await closeDB();
       console.log('Database connection closed');
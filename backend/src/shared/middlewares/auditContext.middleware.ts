@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { markSystemRequest, runWithRequest } from '../utils/requestContext';
+
+/**
+ * Expose the request to the audit trail hooks so record changes can be
+ * attributed to the signed-in user and tagged with the request details
+ */
+export const auditContext = (req: Request, res: Response, next: NextFunction): void => {
+  runWithRequest(req, next);
+};
+
+/**
+ * Attribute the record changes of unauthenticated callers such as webhooks to
+ * the system, so they still show up in the audit trail
+ */
+export const auditAsSystem = (req: Request, res: Response, next: NextFunction): void => {
+  markSystemRequest();
+  next();
+};
@@ -1,35 +1,26 @@
-import { Request, Response, NextFunction } from 'express';
+import { Response, NextFunction } from 'express';
 
 import { agencyRoleService } from '../../module/agency/agencyRole.service';
-import { UserRole } from '../../types/enum/user';
+import { AuthenticatedRequest } from '../../types/express/index';
 import { ForbiddenError } from '../utils/CustomError';
 
-interface AuthenticatedUser {
-  agency: string;
-  role: {
-    type: UserRole;
-  };
-}
-
-interface AuthenticatedRequest extends Request {
-  user?: AuthenticatedUser;
-}
-
 export const checkPermission =
   (resource: string, action: string) =>
   async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
-    if (!req.user) {
-      throw new ForbiddenError('User not authenticated');
-    }
+    try {
+      if (!req.user) {
+        throw new ForbiddenError('User not authenticated');
+      }
 
-    const { agency, role } = req.user;
-    const permission = `${resource}:${action}`;
+      // Owner-scoped grants pass here; services narrow them to the user's own records
+      const hasPermission = await agencyRoleService.hasPermission(req.user, resource, action);
 
-    const hasPermission = await agencyRoleService.hasPermission(agency, role.type, permission);
+      if (!hasPermission) {
+        throw new ForbiddenError(`User does not have ${action} permission for ${resource}`);
+      }
 
-    if (!hasPermission) {
-      throw new ForbiddenError(`User does not have ${action} permission for ${resource}`);
+      next();
+    } catch (error) {
+      next(error);
     }
-
-    next();
   };
@@ -1,16 +1,13 @@
 import rateLimit from 'express-rate-limit';
-import Redis from 'ioredis';
 import RedisStore from 'rate-limit-redis';
 
-import { config } from '../config';
+import { redis } from '../config/redis';
 import {
   LOGIN_RATE_LIMITER_TIME,
   PASSWORD_RESET_RATE_LIMITER_TIME,
   SIGNUP_RATE_LIMITER_TIME,
 } from '../constant/timeValues';
 
-const redis = new Redis(config.redis.url);
-
 // Signup rate limiter: 5 attempts per hour per IP
 export const signupLimiter = rateLimit({
   store: new RedisStore({
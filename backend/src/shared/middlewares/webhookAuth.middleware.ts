@@ -0,0 +1,83 @@
+import crypto from 'node:crypto';
+
+import { Request, Response, NextFunction } from 'express';
+
+import { config } from '../config/index';
+import { smsProvider } from '../services/smsProvider.service';
+import { BadRequestError, ForbiddenError, UnauthorizedError } from '../utils/CustomError';
+
+const sha256 = (value: string): Buffer => crypto.createHash('sha256').update(value).digest();
+
+const secretsMatch = (provided: string, secret: string): boolean =>
+  crypto.timingSafeEqual(sha256(provided), sha256(secret));
+
+/**
+ * Let through requests of the mail relay, which sends `MAIL_INBOUND_TOKEN` as a
+ * bearer token. Tokens are compared in constant time; hashing them first evens out
+ * their lengths.
+ */
+export const authenticateMailRelay = (req: Request, res: Response, next: NextFunction): void => {
+  const token = config.mail.inboundToken;
+  const provided = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1];
+  if (!token || !provided || !secretsMatch(provided, token)) {
+    next(new UnauthorizedError('Invalid mail relay token'));
+    return;
+  }
+  next();
+};
+
+/**
+ * Let through WhatsApp webhooks signed with `WHATSAPP_APP_SECRET`: the
+ * `X-Hub-Signature-256` header holds the HMAC-SHA256 of the raw body. The verified
+ * body is then parsed as JSON.
+ */
+export const verifyWhatsAppSignature = (req: Request, res: Response, next: NextFunction): void => {
+  const secret = config.whatsapp.appSecret;
+  const signature = /^sha256=([\da-f]{64})$/i.exec(req.get('x-hub-signature-256') ?? '')?.[1];
+  if (!secret || !signature || !Buffer.isBuffer(req.body)) {
+    next(new UnauthorizedError('Invalid WhatsApp signature'));
+    return;
+  }
+  const expected = crypto.createHmac('sha256', secret).update(req.body).digest();
+  if (!crypto.timingSafeEqual(Buffer.from(signature, 'hex'), expected)) {
+    next(new UnauthorizedError('Invalid WhatsApp signature'));
+    return;
+  }
+
+  try {
+    req.body = JSON.parse(req.body.toString('utf8'));
+  } catch {
+    next(new BadRequestError('WhatsApp webhook body is not valid JSON'));
+    return;
+  }
+  next();
+};
+
+/**
+ * Let through the request Meta sends to verify the webhook URL, which carries
+ * `WHATSAPP_VERIFY_TOKEN` as `hub.verify_token`
+ */
+export const verifyWhatsAppSubscription = (req: Request, res: Response, next: NextFunction): void => {
+  const token = config.whatsapp.verifyToken;
+  const provided = req.query['hub.verify_token'];
+  if (!token || typeof provided !== 'string' || !secretsMatch(provided, token)) {
+    next(new ForbiddenError('Invalid WhatsApp verify token'));
+    return;
+  }
+  next();
+};
+
+/**
+ * Let through SMS webhooks the configured provider made, as it authenticates them.
+ * Providers sign the public URL they posted to, which is rebuilt from
+ * `SMS_WEBHOOK_BASE_URL` since the app may run behind a proxy.
+ */
+export const verifySmsWebhook = (req: Request, res: Response, next: NextFunction): void => {
+  const params = (req.body ?? {}) as Record<string, string>;
+  const url = `${config.sms.webhookBaseUrl}${req.originalUrl}`;
+  if (!smsProvider.isAuthentic({ url, headers: req.headers, params })) {
+    next(new UnauthorizedError('Invalid SMS webhook signature'));
+    return;
+  }
+  next();
+};
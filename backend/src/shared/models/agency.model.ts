@@ -1,13 +1,32 @@
-import { Schema, model, Document } from 'mongoose';
+import { Schema, model, Document, Types } from 'mongoose';
+
+import { Locale } from '../../types/enum/locale';
+import { UserRole } from '../../types/enum/user';
+
+import { auditTrail } from './auditTrail.plugin';
+
+// A deleted agency is kept, signed out, until `purgeAfter`; it can be restored until then
+export interface IAgencyDeletion {
+  requestedAt: Date;
+  requestedBy: Types.ObjectId;
+  purgeAfter: Date;
+  exportFileId: Types.ObjectId;
+  wasActive: boolean;
+}
 
 export interface IAgency extends Document {
   name: string;
   code: string;
   domain: string;
   isActive: boolean;
+  deletion?: IAgencyDeletion;
   settings: {
     maxUsers: number;
     allowedDomains: string[];
+    twoFactorRequiredRoles: UserRole[];
+    locale: Locale;
+    whatsappPhoneNumberId?: string;
+    smsSenderId?: string;
     customBranding?: {
       logo?: string;
       colors?: {
@@ -42,6 +61,18 @@ const agencySchema = new Schema<IAgency>(
       type: Boolean,
       default: true,
     },
+    deletion: {
+      type: new Schema<IAgencyDeletion>(
+        {
+          requestedAt: { type: Date, required: true },
+          requestedBy: { type: Schema.Types.ObjectId, ref: 'PlatformOperator', required: true },
+          purgeAfter: { type: Date, required: true },
+          exportFileId: { type: Schema.Types.ObjectId, required: true },
+          wasActive: { type: Boolean, required: true },
+        },
+        { _id: false },
+      ),
+    },
     settings: {
       maxUsers: {
         type: Number,
@@ -53,6 +84,29 @@ const agencySchema = new Schema<IAgency>(
           trim: true,
         },
       ],
+      // Users with these roles must enroll in 2FA before they can sign in
+      twoFactorRequiredRoles: [
+        {
+          type: String,
+          enum: Object.values(UserRole),
+        },
+      ],
+      // Language of the emails sent for the agency
+      locale: {
+        type: String,
+        enum: Object.values(Locale),
+        default: Locale.EN,
+      },
+      // WhatsApp Cloud API number the agency messages leads from
+      whatsappPhoneNumberId: {
+        type: String,
+        trim: true,
+      },
+      // Sender ID or number the agency's SMS come from; the platform default when empty
+      smsSenderId: {
+        type: String,
+        trim: true,
+      },
       customBranding: {
         logo: String,
         colors: {
@@ -67,4 +121,12 @@ const agencySchema = new Schema<IAgency>(
   },
 );
 
+// The purge job looks up agencies whose grace period is over
+agencySchema.index({ 'deletion.purgeAfter': 1 }, { sparse: true });
+
+// WhatsApp webhooks name the business number a message was sent to
+agencySchema.index({ 'settings.whatsappPhoneNumberId': 1 }, { unique: true, sparse: true });
+
+agencySchema.plugin(auditTrail, { resource: 'agencies', agencyField: '_id' });
+
 export const Agency = model<IAgency>('Agency', agencySchema);
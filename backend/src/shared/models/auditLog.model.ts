@@ -0,0 +1,103 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+import { AuditActorType, AuditStatus } from '../../types/enum/audit';
+
+export interface IAuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * One audited action: a record created, updated or deleted through the API or a
+ * webhook, an authentication event or a platform operator action. `changes` holds
+ * the top-level fields that differ between the record before and after the action.
+ */
+export interface IAuditLog extends Document {
+  agency?: Types.ObjectId;
+  actor?: Types.ObjectId;
+  actorType: AuditActorType;
+  impersonatedBy?: Types.ObjectId;
+  action: string;
+  resource?: string;
+  resourceId?: Types.ObjectId;
+  changes: IAuditChange[];
+  status: AuditStatus;
+  ip: string;
+  userAgent: string;
+  method?: string;
+  path?: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const auditChangeSchema = new Schema<IAuditChange>(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    before: Schema.Types.Mixed,
+    after: Schema.Types.Mixed,
+  },
+  { _id: false },
+);
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    agency: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agency',
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: (doc: IAuditLog): string =>
+        doc.actorType === AuditActorType.PLATFORM_OPERATOR ? 'PlatformOperator' : 'User',
+    },
+    actorType: {
+      type: String,
+      enum: Object.values(AuditActorType),
+      default: AuditActorType.USER,
+    },
+    impersonatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'PlatformOperator',
+    },
+    action: {
+      type: String,
+      required: true,
+    },
+    resource: String,
+    resourceId: Schema.Types.ObjectId,
+    changes: {
+      type: [auditChangeSchema],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: Object.values(AuditStatus),
+      default: AuditStatus.SUCCESS,
+    },
+    ip: {
+      type: String,
+      default: '',
+    },
+    userAgent: {
+      type: String,
+      default: '',
+    },
+    method: String,
+    path: String,
+    details: Schema.Types.Mixed,
+  },
+  {
+    timestamps: true,
+  },
+);
+
+auditLogSchema.index({ agency: 1, createdAt: -1 });
+auditLogSchema.index({ agency: 1, actor: 1, createdAt: -1 });
+auditLogSchema.index({ agency: 1, resource: 1, resourceId: 1, createdAt: -1 });
+
+export const AuditLog = model<IAuditLog>('AuditLog', auditLogSchema);
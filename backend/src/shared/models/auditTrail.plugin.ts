@@ -0,0 +1,222 @@
+import { isDeepStrictEqual } from 'node:util';
+
+import { ClientSession, Document, Query, Schema } from 'mongoose';
+
+import { AuditAction } from '../../types/enum/audit';
+import { auditService } from '../services/audit.service';
+
+import { IAuditChange } from './auditLog.model';
+
+export interface IAuditTrailOptions {
+  // Resource name recorded on the audit log, as in the permission catalogue
+  resource: string;
+  // Field holding the record's agency; agencies themselves use `_id`
+  agencyField?: string;
+  // Fields recorded as changed without their values
+  redact?: string[];
+  // Fail writes whose audit entry cannot be stored, for models whose history is read back from the trail
+  required?: boolean;
+}
+
+type Snapshot = Map<string, unknown>;
+
+// Plugin options with their defaults applied
+interface IAuditTrailSettings {
+  resource: string;
+  agencyField: string;
+  redact: Set<string>;
+  required: boolean;
+}
+
+interface IRecordChange {
+  action: AuditAction;
+  before: Snapshot | null;
+  after: Snapshot | null;
+  // Only these fields are compared when set
+  fields?: Set<string> | null;
+  details?: Record<string, unknown>;
+}
+
+interface IPendingSave {
+  isNew: boolean;
+  before: Snapshot | null;
+  fields: Set<string> | null;
+}
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(['_id', '__v', 'createdAt', 'updatedAt']);
+// Credentials and tokens never reach the audit log, whatever the model
+const ALWAYS_REDACTED = ['password', 'emailVerificationToken', 'passwordResetToken', 'twoFactor', 'tokenHash'];
+const AUDITED_UPDATES: ['findOneAndUpdate', 'updateOne'] = ['findOneAndUpdate', 'updateOne'];
+const AUDITED_DELETES: ['findOneAndDelete', 'deleteOne'] = ['findOneAndDelete', 'deleteOne'];
+
+/**
+ * Copy a record into plain JSON values keyed by top-level field
+ * @param record - Document or lean object
+ * @returns Snapshot or null when there is no record
+ */
+export const toSnapshot = (record: unknown): Snapshot | null => {
+  if (!record) {
+    return null;
+  }
+  const plain = record instanceof Document ? record.toObject({ depopulate: true }) : record;
+  return new Map(Object.entries(JSON.parse(JSON.stringify(plain)) as Record<string, unknown>));
+};
+
+/**
+ * List the top-level fields that differ between two snapshots of a record
+ * @param before - Record before the change, null when it was created
+ * @param after - Record after the change, null when it was deleted
+ * @param redact - Fields recorded without their values
+ * @param fields - Limit the comparison to these fields
+ * @returns Field changes
+ */
+export const diffSnapshots = (
+  before: Snapshot | null,
+  after: Snapshot | null,
+  redact: Set<string>,
+  fields: Set<string> | null = null,
+): IAuditChange[] => {
+  const candidates = fields ?? new Set([...(before?.keys() ?? []), ...(after?.keys() ?? [])]);
+
+  return [...candidates]
+    .filter((field) => !IGNORED_FIELDS.has(field) && !isDeepStrictEqual(before?.get(field), after?.get(field)))
+    .map((field) => (redact.has(field) ? { field } : { field, before: before?.get(field), after: after?.get(field) }));
+};
+
+/**
+ * Record a change to an audited record for the current request
+ * @param settings - Audit trail settings of the model
+ * @param change - Record before and after the change
+ * @param session - Transaction the change belongs to
+ */
+const recordChange = async (
+  settings: IAuditTrailSettings,
+  change: IRecordChange,
+  session: ClientSession | null,
+): Promise<void> => {
+  const { action, before, after, fields, details } = change;
+  const record = after ?? before;
+  const agency = record?.get(settings.agencyField);
+  await auditService.recordChange(
+    {
+      action,
+      resource: settings.resource,
+      resourceId: String(record?.get('_id')),
+      ...(typeof agency === 'string' && { agency }),
+      changes: diffSnapshots(before, after, settings.redact, fields),
+      ...(details && { details }),
+    },
+    session,
+    settings.required,
+  );
+};
+
+/**
+ * Audit documents saved with `save`, which `Model.create` also uses.
+ * Services can add context to the entry through `doc.$locals.auditDetails`.
+ * @param schema - Schema of the audited model
+ * @param settings - Audit trail settings of the model
+ */
+const auditSaves = (schema: Schema, settings: IAuditTrailSettings): void => {
+  const pendingSaves = new WeakMap<Document, IPendingSave>();
+
+  schema.pre('save', async function () {
+    if (!auditService.isRecording()) {
+      return;
+    }
+    if (this.isNew) {
+      pendingSaves.set(this, { isNew: true, before: null, fields: null });
+      return;
+    }
+    // Documents only know which paths changed, so read the stored values first
+    const stored = await this.$model().findById(this._id).session(this.$session()).lean().exec();
+    const fields = new Set(this.modifiedPaths().map((path) => path.split('.')[0]));
+    pendingSaves.set(this, { isNew: false, before: toSnapshot(stored), fields });
+  });
+
+  schema.post('save', async (doc: Document) => {
+    const pending = pendingSaves.get(doc);
+    if (!pending) {
+      return;
+    }
+    pendingSaves.delete(doc);
+
+    await recordChange(
+      settings,
+      {
+        ...pending,
+        action: pending.isNew ? AuditAction.CREATE : AuditAction.UPDATE,
+        after: toSnapshot(doc),
+        details: doc.$locals.auditDetails as Record<string, unknown> | undefined,
+      },
+      doc.$session(),
+    );
+  });
+};
+
+/**
+ * Audit single-record updates and deletes run as queries
+ * @param schema - Schema of the audited model
+ * @param settings - Audit trail settings of the model
+ */
+const auditQueries = (schema: Schema, settings: IAuditTrailSettings): void => {
+  const pendingQueries = new WeakMap<object, Snapshot | null>();
+
+  // Read the matched record before the query changes it
+  schema.pre(
+    [...AUDITED_UPDATES, ...AUDITED_DELETES],
+    { document: false, query: true },
+    async function (this: Query<unknown, unknown>) {
+      if (!auditService.isRecording()) {
+        return;
+      }
+      const session = this.getOptions().session ?? null;
+      pendingQueries.set(this, toSnapshot(await this.model.findOne(this.getFilter()).session(session).lean().exec()));
+    },
+  );
+
+  schema.post(AUDITED_UPDATES, { document: false, query: true }, async function (this: Query<unknown, unknown>) {
+    const before = pendingQueries.get(this);
+    pendingQueries.delete(this);
+    // Nothing matched, or auditing was off when the query started
+    if (!before) {
+      return;
+    }
+    const session = this.getOptions().session ?? null;
+    const after = toSnapshot(await this.model.findById(before.get('_id')).session(session).lean().exec());
+    await recordChange(settings, { action: AuditAction.UPDATE, before, after }, session);
+  });
+
+  schema.post(AUDITED_DELETES, { document: false, query: true }, async function (this: Query<unknown, unknown>) {
+    const before = pendingQueries.get(this);
+    pendingQueries.delete(this);
+    if (!before) {
+      return;
+    }
+    await recordChange(
+      settings,
+      { action: AuditAction.DELETE, before, after: null },
+      this.getOptions().session ?? null,
+    );
+  });
+};
+
+/**
+ * Mongoose plugin recording every create, update and delete made while handling
+ * an authenticated or system request in the audit log, with the fields that changed.
+ * Covers `save` (and so `Model.create`), `findOneAndUpdate`, `updateOne`,
+ * `findOneAndDelete` and `deleteOne`; bulk writes are not audited.
+ * @param schema - Schema of the audited model
+ * @param options - Resource name and field handling
+ */
+export const auditTrail = (schema: Schema, options: IAuditTrailOptions): void => {
+  const settings: IAuditTrailSettings = {
+    resource: options.resource,
+    agencyField: options.agencyField ?? 'agency',
+    redact: new Set([...ALWAYS_REDACTED, ...(options.redact ?? [])]),
+    required: options.required ?? false,
+  };
+  auditSaves(schema, settings);
+  auditQueries(schema, settings);
+};
@@ -0,0 +1,118 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+import { BookingStatus } from '../../types/enum/booking';
+
+import { auditTrail } from './auditTrail.plugin';
+
+export interface IPaymentStage {
+  _id: Types.ObjectId;
+  name: string;
+  amount: number;
+  dueDate: Date;
+  paid: boolean;
+  paidAt?: Date;
+}
+
+export interface IItinerary {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface IBooking extends Document {
+  agency: Types.ObjectId;
+  lead: Types.ObjectId;
+  status: BookingStatus;
+  itinerary?: IItinerary;
+  totalAmount: number;
+  paidAmount: number;
+  paymentStages: Types.DocumentArray<IPaymentStage>;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentStageSchema = new Schema<IPaymentStage>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  dueDate: {
+    type: Date,
+    required: true,
+  },
+  paid: {
+    type: Boolean,
+    default: false,
+  },
+  paidAt: Date,
+});
+
+const itinerarySchema = new Schema<IItinerary>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  description: String,
+  startDate: Date,
+  endDate: Date,
+});
+
+const bookingSchema = new Schema<IBooking>(
+  {
+    agency: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agency',
+      required: true,
+    },
+    lead: {
+      type: Schema.Types.ObjectId,
+      ref: 'Lead',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(BookingStatus),
+      default: BookingStatus.DRAFT,
+    },
+    itinerary: itinerarySchema,
+    totalAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    // Derived from paymentStages by the booking service, never written by clients
+    paidAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    paymentStages: [paymentStageSchema],
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    // Concurrent stage payments on the same booking must not overwrite each other
+    optimisticConcurrency: true,
+  },
+);
+
+bookingSchema.index({ agency: 1, lead: 1 });
+bookingSchema.index({ agency: 1, status: 1 });
+
+bookingSchema.plugin(auditTrail, { resource: 'bookings' });
+
+export const Booking = model<IBooking>('Booking', bookingSchema);
@@ -0,0 +1,109 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+import { CommunicationChannel, CommunicationDirection } from '../../types/enum/communication';
+
+import { auditTrail } from './auditTrail.plugin';
+
+export interface IAttachment {
+  _id: Types.ObjectId;
+  name: string;
+  url: string;
+  type: string;
+}
+
+export interface ICommunication extends Document {
+  agency: Types.ObjectId;
+  lead: Types.ObjectId;
+  channel: CommunicationChannel;
+  direction: CommunicationDirection;
+  content: string;
+  sentAt: Date;
+  sentBy?: Types.ObjectId;
+  attachments: Types.DocumentArray<IAttachment>;
+  metadata?: Record<string, unknown>;
+  aiSentiment?: number;
+  // Empty for records created from inbound messages
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attachmentSchema = new Schema<IAttachment>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  url: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    required: true,
+  },
+});
+
+const communicationSchema = new Schema<ICommunication>(
+  {
+    agency: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agency',
+      required: true,
+    },
+    lead: {
+      type: Schema.Types.ObjectId,
+      ref: 'Lead',
+      required: true,
+    },
+    channel: {
+      type: String,
+      enum: Object.values(CommunicationChannel),
+      required: true,
+    },
+    direction: {
+      type: String,
+      enum: Object.values(CommunicationDirection),
+      required: true,
+    },
+    content: {
+      type: String,
+      required: true,
+    },
+    sentAt: {
+      type: Date,
+      default: Date.now,
+    },
+    // Agency user who sent an outgoing message; empty for incoming messages
+    sentBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    attachments: [attachmentSchema],
+    metadata: Schema.Types.Mixed,
+    aiSentiment: {
+      type: Number,
+      min: -1,
+      max: 1,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+communicationSchema.index({ agency: 1, lead: 1, sentAt: -1 });
+// Replies are matched to earlier emails by their Message-ID
+communicationSchema.index({ 'metadata.email.messageId': 1 }, { sparse: true });
+// WhatsApp receipts name the message they report on
+communicationSchema.index({ 'metadata.whatsapp.messageId': 1 }, { sparse: true });
+// SMS delivery receipts name the message they report on
+communicationSchema.index({ 'metadata.sms.messageId': 1 }, { sparse: true });
+
+communicationSchema.plugin(auditTrail, { resource: 'communications' });
+
+export const Communication = model<ICommunication>('Communication', communicationSchema);
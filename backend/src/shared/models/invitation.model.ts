@@ -0,0 +1,79 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+import { InvitationStatus } from '../../types/enum/user';
+
+import { auditTrail } from './auditTrail.plugin';
+
+/**
+ * Invitation of an email address to join an agency with a given role.
+ * Only a hash of the token is stored; the plain token is sent in the email link.
+ */
+export interface IInvitation extends Document {
+  email: string;
+  agency: Types.ObjectId;
+  role: Types.ObjectId;
+  tokenHash: string;
+  invitedBy: Types.ObjectId;
+  status: InvitationStatus;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedUser?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invitationSchema = new Schema<IInvitation>(
+  {
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    agency: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agency',
+      required: true,
+    },
+    role: {
+      type: Schema.Types.ObjectId,
+      ref: 'Role',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(InvitationStatus),
+      default: InvitationStatus.PENDING,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    acceptedAt: Date,
+    acceptedUser: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+invitationSchema.index({ agency: 1, status: 1, expiresAt: 1 });
+invitationSchema.index({ agency: 1, email: 1 });
+
+invitationSchema.plugin(auditTrail, { resource: 'invitations' });
+
+export const Invitation = model<IInvitation>('Invitation', invitationSchema);
@@ -0,0 +1,133 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+import { LeadSource, LeadStatus } from '../../types/enum/lead';
+
+import { auditTrail } from './auditTrail.plugin';
+
+export interface ILead extends Document {
+  agency: Types.ObjectId;
+  name: string;
+  email?: string;
+  phone?: string;
+  status: LeadStatus;
+  source: LeadSource;
+  tags: string[];
+  notes?: string;
+  budget?: number;
+  travelDates?: {
+    start?: Date;
+    end?: Date;
+  };
+  assignedTo?: Types.ObjectId;
+  collaborators: Types.ObjectId[];
+  aiPriorityScore: number;
+  preferences?: Map<string, string>;
+  isReturnCustomer: boolean;
+  previousBookings: Types.ObjectId[];
+  // Set when the lead replied STOP to an SMS; no SMS is sent to them until they reply START
+  smsOptedOutAt?: Date | null;
+  // Empty for records created from inbound messages
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const leadSchema = new Schema<ILead>(
+  {
+    agency: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agency',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    phone: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(LeadStatus),
+      default: LeadStatus.NEW,
+    },
+    source: {
+      type: String,
+      enum: Object.values(LeadSource),
+      required: true,
+    },
+    tags: [
+      {
+        type: String,
+        trim: true,
+      },
+    ],
+    notes: String,
+    budget: {
+      type: Number,
+      min: 0,
+    },
+    travelDates: {
+      start: Date,
+      end: Date,
+    },
+    assignedTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    collaborators: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
+    aiPriorityScore: {
+      type: Number,
+      min: 0,
+      max: 1,
+      default: 0.5,
+    },
+    preferences: {
+      type: Map,
+      of: String,
+    },
+    isReturnCustomer: {
+      type: Boolean,
+      default: false,
+    },
+    previousBookings: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Booking',
+      },
+    ],
+    smsOptedOutAt: {
+      type: Date,
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Every lead query is scoped to an agency, so lead indexes lead with it
+leadSchema.index({ agency: 1, status: 1 });
+leadSchema.index({ agency: 1, assignedTo: 1 });
+leadSchema.index({ agency: 1, email: 1 });
+
+// Lead history is rebuilt from the audit trail, so a lead change is never left unrecorded
+leadSchema.plugin(auditTrail, { resource: 'leads', required: true });
+
+export const Lead = model<ILead>('Lead', leadSchema);
@@ -0,0 +1,127 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+import { EmailDeliveryStatus } from '../../types/enum/email';
+
+// A file stored with the attachment storage service, read when the email is sent
+export interface IOutboundAttachment {
+  fileId: Types.ObjectId;
+  filename: string;
+  contentType: string;
+}
+
+/**
+ * A rendered email waiting in, or done with, the send queue. Failed attempts are
+ * retried with backoff; finished messages are removed after a while.
+ */
+export interface IOutboundEmail extends Document {
+  agency?: Types.ObjectId;
+  // Communication logged for the email, whose delivery status follows the queue
+  communication?: Types.ObjectId;
+  from: string;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+  messageId: string;
+  inReplyTo?: string;
+  references: string[];
+  attachments: IOutboundAttachment[];
+  status: EmailDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  sentAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const outboundEmailSchema = new Schema<IOutboundEmail>(
+  {
+    // Agency the email was sent for; empty for platform mail
+    agency: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agency',
+    },
+    communication: {
+      type: Schema.Types.ObjectId,
+      ref: 'Communication',
+    },
+    from: {
+      type: String,
+      required: true,
+    },
+    to: {
+      type: [String],
+      required: true,
+    },
+    replyTo: String,
+    subject: {
+      type: String,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+    html: {
+      type: String,
+      required: true,
+    },
+    messageId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    inReplyTo: String,
+    references: {
+      type: [String],
+      default: [],
+    },
+    attachments: [
+      {
+        _id: false,
+        fileId: {
+          type: Schema.Types.ObjectId,
+          required: true,
+        },
+        filename: {
+          type: String,
+          required: true,
+        },
+        contentType: {
+          type: String,
+          required: true,
+        },
+      },
+    ],
+    status: {
+      type: String,
+      enum: Object.values(EmailDeliveryStatus),
+      default: EmailDeliveryStatus.QUEUED,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    // A claimed message is pushed back while it is being sent, so a crashed send is retried
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastError: String,
+    sentAt: Date,
+    // Set once the message is sent or given up on
+    expiresAt: Date,
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// The queue claims due messages oldest first
+outboundEmailSchema.index({ status: 1, nextAttemptAt: 1 });
+outboundEmailSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OutboundEmail = model<IOutboundEmail>('OutboundEmail', outboundEmailSchema);
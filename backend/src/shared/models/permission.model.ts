@@ -1,9 +1,13 @@
 import { Schema, model, Document } from 'mongoose';
 
+import { PermissionScope } from '../../types/enum/permission';
+import { PERMISSION_ACTIONS, PermissionAction } from '../constant/permissions';
+
 export interface IPermission extends Document {
   name: string;
   resource: string;
-  action: string;
+  action: PermissionAction;
+  scope: PermissionScope;
   isActive: boolean;
 }
 
@@ -23,7 +27,12 @@ const permissionSchema = new Schema<IPermission>(
     action: {
       type: String,
       required: true,
-      enum: ['create', 'read', 'update', 'delete', 'manage'],
+      enum: PERMISSION_ACTIONS,
+    },
+    scope: {
+      type: String,
+      enum: Object.values(PermissionScope),
+      default: PermissionScope.ANY,
     },
     isActive: {
       type: Boolean,
@@ -0,0 +1,78 @@
+import bcrypt from 'bcryptjs';
+import { Schema, model, Document } from 'mongoose';
+
+import { BCRYPT_SALT_ROUNDS } from '../constant/encryption';
+
+/**
+ * Staff operating the platform itself. Operators belong to no agency and hold no
+ * tenant role; they sign in separately and administer agencies across tenants.
+ */
+export interface IPlatformOperator extends Document {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  isActive: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  comparePassword(candidatePassword: string): Promise<boolean>;
+}
+
+const platformOperatorSchema = new Schema<IPlatformOperator>(
+  {
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      lowercase: true,
+    },
+    password: {
+      type: String,
+      required: true,
+      minlength: 8,
+      select: false,
+    },
+    firstName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    lastName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    lastLoginAt: Date,
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Hash password before saving
+platformOperatorSchema.pre('save', async function (next) {
+  if (!this.isModified('password')) {
+    return next();
+  }
+
+  try {
+    const salt = await bcrypt.genSalt(BCRYPT_SALT_ROUNDS);
+    this.password = await bcrypt.hash(this.password, salt);
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Compare password method
+platformOperatorSchema.methods.comparePassword = async function (candidatePassword: string): Promise<boolean> {
+  return bcrypt.compare(candidatePassword, this.password);
+};
+
+export const PlatformOperator = model<IPlatformOperator>('PlatformOperator', platformOperatorSchema);
@@ -1,6 +1,11 @@
 import { Schema, model, Document, Types } from 'mongoose';
 
-export type RoleType = 'super_admin' | 'manager' | 'agent';
+import { auditTrail } from './auditTrail.plugin';
+
+export type RoleType = 'super_admin' | 'manager' | 'agent' | 'custom';
+
+// Built-in roles every agency gets exactly one of
+export const SYSTEM_ROLE_TYPES: RoleType[] = ['super_admin', 'manager', 'agent'];
 
 export interface IRole extends Document {
   name: string;
@@ -8,7 +13,10 @@ export interface IRole extends Document {
   agency: Types.ObjectId;
   description: string;
   permissions: string[];
+  isSystem: boolean;
   isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const roleSchema = new Schema<IRole>(
@@ -21,7 +29,7 @@ const roleSchema = new Schema<IRole>(
     type: {
       type: String,
       required: true,
-      enum: ['super_admin', 'manager', 'agent'],
+      enum: ['super_admin', 'manager', 'agent', 'custom'],
     },
     agency: {
       type: Schema.Types.ObjectId,
@@ -30,7 +38,8 @@ const roleSchema = new Schema<IRole>(
     },
     description: {
       type: String,
-      required: true,
+      default: '',
+      trim: true,
     },
     permissions: [
       {
@@ -38,6 +47,11 @@ const roleSchema = new Schema<IRole>(
         ref: 'Permission',
       },
     ],
+    // System roles are created with the agency and cannot be renamed or deleted
+    isSystem: {
+      type: Boolean,
+      default: false,
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -48,7 +62,15 @@ const roleSchema = new Schema<IRole>(
   },
 );
 
-// Compound index to ensure unique role type per agency
-roleSchema.index({ agency: 1, type: 1 }, { unique: true });
+// Role names are unique per agency; any number of custom roles share the 'custom' type
+roleSchema.index({ agency: 1, name: 1 }, { unique: true });
+
+// One role of each system type per agency
+roleSchema.index(
+  { agency: 1, type: 1 },
+  { unique: true, name: 'agency_system_type_unique', partialFilterExpression: { type: { $in: SYSTEM_ROLE_TYPES } } },
+);
+
+roleSchema.plugin(auditTrail, { resource: 'roles' });
 
 export const Role = model<IRole>('Role', roleSchema);
@@ -0,0 +1,78 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+import { SessionRevocationReason } from '../../types/enum/auth';
+
+/**
+ * One session per login. It also holds the refresh-token family: every
+ * rotation replaces `currentJti`, so presenting any older token is treated as theft.
+ * Sessions a platform operator opened to act as the user record who did it and why.
+ */
+export interface ISession extends Document {
+  user: Types.ObjectId;
+  currentJti: string;
+  device: string;
+  ip: string;
+  userAgent: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+  impersonatedBy?: Types.ObjectId;
+  impersonationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    currentJti: {
+      type: String,
+      required: true,
+    },
+    device: {
+      type: String,
+      required: true,
+    },
+    ip: {
+      type: String,
+      default: '',
+    },
+    userAgent: {
+      type: String,
+      default: '',
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: Date,
+    revokedReason: {
+      type: String,
+      enum: Object.values(SessionRevocationReason),
+    },
+    impersonatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'PlatformOperator',
+    },
+    impersonationReason: String,
+  },
+  {
+    timestamps: true,
+  },
+);
+
+sessionSchema.index({ user: 1, revokedAt: 1 });
+sessionSchema.index({ impersonatedBy: 1 }, { sparse: true });
+// Let MongoDB drop sessions once their last refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = model<ISession>('Session', sessionSchema);
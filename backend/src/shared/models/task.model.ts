@@ -0,0 +1,81 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+import { TaskPriority, TaskType } from '../../types/enum/task';
+
+import { auditTrail } from './auditTrail.plugin';
+
+export interface ITask extends Document {
+  agency: Types.ObjectId;
+  title: string;
+  description?: string;
+  type: TaskType;
+  priority: TaskPriority;
+  dueDate: Date;
+  completed: boolean;
+  completedAt?: Date;
+  lead?: Types.ObjectId;
+  assignedTo: Types.ObjectId;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const taskSchema = new Schema<ITask>(
+  {
+    agency: {
+      type: Schema.Types.ObjectId,
+      ref: 'Agency',
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: String,
+    type: {
+      type: String,
+      enum: Object.values(TaskType),
+      required: true,
+    },
+    priority: {
+      type: String,
+      enum: Object.values(TaskPriority),
+      default: TaskPriority.MEDIUM,
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+    completed: {
+      type: Boolean,
+      default: false,
+    },
+    completedAt: Date,
+    lead: {
+      type: Schema.Types.ObjectId,
+      ref: 'Lead',
+    },
+    assignedTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Supports the per-assignee today / overdue / upcoming queries
+taskSchema.index({ agency: 1, assignedTo: 1, completed: 1, dueDate: 1 });
+taskSchema.index({ agency: 1, lead: 1 });
+
+taskSchema.plugin(auditTrail, { resource: 'tasks' });
+
+export const Task = model<ITask>('Task', taskSchema);
@@ -6,6 +6,17 @@ import { Schema, model, Document, Types } from 'mongoose';
 import { BCRYPT_SALT_ROUNDS, CRYPTO_RANDOM_BYTES } from '../constant/encryption';
 import { THIRTY_MINUTES_IN_MILLISECONDS, TWENTY_FOUR_HOURS_IN_MILLISECONDS } from '../constant/timeValues';
 
+import { auditTrail } from './auditTrail.plugin';
+
+export interface ITwoFactor {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string | null;
+  recoveryCodes: string[];
+  lastUsedStep?: number;
+  enabledAt?: Date;
+}
+
 export interface IUser extends Document {
   email: string;
   password: string;
@@ -22,6 +33,9 @@ export interface IUser extends Document {
   failedLoginAttempts: number;
   lastFailedLogin?: Date;
   accountLockedUntil?: Date;
+  twoFactor: ITwoFactor;
+  createdAt: Date;
+  updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
   generateEmailVerificationToken(): Promise<void>;
   generatePasswordResetToken(): Promise<void>;
@@ -79,6 +93,30 @@ const userSchema = new Schema<IUser>(
     },
     lastFailedLogin: Date,
     accountLockedUntil: Date,
+    // Secrets and hashed recovery codes are only loaded when explicitly selected
+    twoFactor: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      secret: {
+        type: String,
+        select: false,
+      },
+      pendingSecret: {
+        type: String,
+        select: false,
+      },
+      recoveryCodes: {
+        type: [String],
+        select: false,
+      },
+      lastUsedStep: {
+        type: Number,
+        select: false,
+      },
+      enabledAt: Date,
+    },
   },
   {
     timestamps: true,
@@ -124,4 +162,6 @@ userSchema.methods.generatePasswordResetToken = async function (): Promise<void>
   await this.save();
 };
 
+userSchema.plugin(auditTrail, { resource: 'users' });
+
 export const User = model<IUser>('User', userSchema);
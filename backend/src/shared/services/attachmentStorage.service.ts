@@ -0,0 +1,108 @@
+import { Readable } from 'node:stream';
+
+import mongoose, { Types } from 'mongoose';
+
+import { NotFoundError } from '../utils/CustomError';
+
+// Files attached to communications, kept in GridFS so every instance can serve them
+const ATTACHMENT_BUCKET_NAME = 'communicationAttachments';
+
+export interface IStoredAttachment {
+  filename: string;
+  contentType: string;
+  stream: Readable;
+}
+
+/**
+ * Attachment Storage Service
+ * Stores the files of communications, tagged with their agency so the agency
+ * purge can remove them
+ */
+class AttachmentStorageService {
+  /**
+   * Store a file
+   * @param fileId - ID to store the file under
+   * @param agencyId - Agency owning the file
+   * @param file - File to store
+   * @param file.filename - File name
+   * @param file.contentType - MIME type of the file
+   * @param file.content - File content
+   */
+  async store(
+    fileId: Types.ObjectId,
+    agencyId: string,
+    file: { filename: string; contentType: string; content: Buffer },
+  ): Promise<void> {
+    const upload = this.bucket().openUploadStreamWithId(fileId, file.filename, {
+      metadata: { agency: new Types.ObjectId(agencyId), contentType: file.contentType },
+    });
+    await new Promise<void>((resolve, reject) => {
+      Readable.from([file.content]).pipe(upload).on('finish', resolve).on('error', reject);
+    });
+  }
+
+  /**
+   * Open a stored file for download
+   * @param fileId - File ID
+   * @returns File name, content type and content stream
+   * @throws {NotFoundError} When the file does not exist
+   */
+  async open(fileId: Types.ObjectId): Promise<IStoredAttachment> {
+    const [file] = await this.bucket().find({ _id: fileId }).limit(1).toArray();
+    if (!file) {
+      throw new NotFoundError('Attachment not found');
+    }
+    return {
+      filename: file.filename,
+      contentType: (file.metadata?.contentType as string | undefined) ?? 'application/octet-stream',
+      stream: this.bucket().openDownloadStream(fileId),
+    };
+  }
+
+  /**
+   * Read a stored file into memory
+   * @param fileId - File ID
+   * @returns File content
+   * @throws {NotFoundError} When the file does not exist
+   */
+  async read(fileId: Types.ObjectId): Promise<Buffer> {
+    const { stream } = await this.open(fileId);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Remove stored files; files already gone are skipped
+   * @param fileIds - File IDs
+   */
+  async remove(fileIds: Types.ObjectId[]): Promise<void> {
+    const files = await this.bucket()
+      .find({ _id: { $in: fileIds } })
+      .toArray();
+    for (const file of files) {
+      await this.bucket().delete(file._id);
+    }
+  }
+
+  /**
+   * Remove every file of an agency
+   * @param agencyId - Agency ID
+   */
+  async removeAgencyFiles(agencyId: string): Promise<void> {
+    const files = await this.bucket()
+      .find({ 'metadata.agency': new Types.ObjectId(agencyId) })
+      .toArray();
+    await this.remove(files.map((file) => file._id));
+  }
+
+  private bucket(): mongoose.mongo.GridFSBucket {
+    return new mongoose.mongo.GridFSBucket(mongoose.connection.db as mongoose.mongo.Db, {
+      bucketName: ATTACHMENT_BUCKET_NAME,
+    });
+  }
+}
+
+export const attachmentStorageService = new AttachmentStorageService();
@@ -1,104 +1,201 @@
-import { Schema, model, Document } from 'mongoose';
+import { ClientSession, Types } from 'mongoose';
 
-interface IAuditLog extends Document {
-  userId?: string;
+import { IClientInfo } from '../../module/auth/auth.interface';
+import { AuditAction, AuditActorType, AuditStatus, AuthAuditAction } from '../../types/enum/audit';
+import { PlatformAuditAction } from '../../types/enum/platform';
+import { AuthenticatedUser, PlatformOperatorUser } from '../../types/express/index';
+import { AuditLog, IAuditChange } from '../models/auditLog.model';
+import { IUser } from '../models/user.model';
+import { getClientInfo } from '../utils/clientInfo';
+import { InternalServerError } from '../utils/CustomError';
+import logger from '../utils/logger';
+import { getCurrentRequest, isSystemRequest } from '../utils/requestContext';
+
+export interface IAuditEntry {
+  agency?: string | Types.ObjectId;
+  actor?: string | Types.ObjectId;
+  actorType?: AuditActorType;
+  impersonatedBy?: string;
   action: string;
+  resource?: string;
+  resourceId?: string | Types.ObjectId;
+  changes?: IAuditChange[];
+  status?: AuditStatus;
+  ip?: string;
+  userAgent?: string;
+  method?: string;
+  path?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface IRecordChangeInput {
+  action: AuditAction;
+  resource: string;
+  resourceId: string | Types.ObjectId;
+  agency?: string | Types.ObjectId;
+  changes: IAuditChange[];
+  details?: Record<string, unknown>;
+}
+
+// Who is making the current request, as the audit trail records it
+interface IRequestActor {
+  // Unset for the system
+  actor?: string;
+  actorType: AuditActorType;
+  agency?: string;
+  impersonatedBy?: string;
   ip: string;
   userAgent: string;
-  status: 'success' | 'failure';
-  details: any;
-  timestamp: Date;
+  method: string;
+  path: string;
 }
 
-const auditLogSchema = new Schema<IAuditLog>(
-  {
-    userId: {
-      type: String,
-      ref: 'User',
-    },
-    action: {
-      type: String,
-      required: true,
-    },
-    ip: {
-      type: String,
-      required: true,
-    },
-    userAgent: {
-      type: String,
-      required: true,
-    },
-    status: {
-      type: String,
-      enum: ['success', 'failure'],
-      required: true,
-    },
-    details: {
-      type: Schema.Types.Mixed,
-    },
-    timestamp: {
-      type: Date,
-      default: Date.now,
-    },
-  },
-  {
-    timestamps: true,
-  },
-);
-
-const AuditLog = model<IAuditLog>('AuditLog', auditLogSchema);
-
+/**
+ * Audit Service Class
+ * Writes the audit trail. Failures are logged rather than thrown so that
+ * auditing never fails the action being audited, except for entries marked as
+ * required, such as the changes lead history is rebuilt from.
+ */
 class AuditService {
+  /**
+   * Store an audit log entry
+   * @param entry - Audit log entry
+   * @param session - Transaction the audited change belongs to
+   * @param required - Fail instead of logging the error when the entry cannot be stored
+   * @throws {InternalServerError} When a required entry cannot be stored
+   */
+  async record(entry: IAuditEntry, session?: ClientSession | null, required = false): Promise<void> {
+    try {
+      await AuditLog.create([entry], { session });
+    } catch (error) {
+      const message = `Failed to write audit log for ${entry.action}: ${(error as Error).message}`;
+      if (required) {
+        throw new InternalServerError(message);
+      }
+      logger.error(message);
+    }
+  }
+
+  /**
+   * Whether record changes made now are audited: only while handling a request
+   * of a signed-in user or platform operator, or one made by the system
+   * @returns True when an actor is known
+   */
+  isRecording(): boolean {
+    return this.getRequestActor() !== null;
+  }
+
+  /**
+   * Record a change to a record, attributed to the actor of the current request
+   * @param change - Changed record and its field changes
+   * @param session - Transaction the change belongs to
+   * @param required - Fail the change when its entry cannot be stored
+   */
+  async recordChange(change: IRecordChangeInput, session?: ClientSession | null, required = false): Promise<void> {
+    const requestActor = this.getRequestActor();
+    if (!requestActor || change.changes.length === 0) {
+      return;
+    }
+
+    const { agency, ...actor } = requestActor;
+    await this.record({ ...actor, ...change, agency: change.agency ?? agency }, session, required);
+  }
+
   async logLoginAttempt(
-    userId: string | undefined,
-    ip: string,
-    userAgent: string,
-    status: 'success' | 'failure',
-    details?: any,
+    user: IUser | null,
+    client: IClientInfo,
+    status: AuditStatus,
+    details?: Record<string, unknown>,
   ): Promise<void> {
-    await AuditLog.create({
-      userId,
-      action: 'login',
-      ip,
-      userAgent,
-      status,
-      details,
-    });
+    await this.logAuthEvent(AuthAuditAction.LOGIN, user, { ...client, status, details });
   }
 
   async logPasswordReset(
-    userId: string,
-    ip: string,
-    userAgent: string,
-    status: 'success' | 'failure',
-    details?: any,
+    user: IUser | null,
+    client: IClientInfo,
+    status: AuditStatus,
+    details?: Record<string, unknown>,
   ): Promise<void> {
-    await AuditLog.create({
-      userId,
-      action: 'password_reset',
-      ip,
-      userAgent,
-      status,
-      details,
-    });
+    await this.logAuthEvent(AuthAuditAction.PASSWORD_RESET, user, { ...client, status, details });
   }
 
   async logEmailVerification(
+    user: IUser | null,
+    client: IClientInfo,
+    status: AuditStatus,
+    details?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.logAuthEvent(AuthAuditAction.EMAIL_VERIFICATION, user, { ...client, status, details });
+  }
+
+  async logPlatformAction(
     userId: string,
-    ip: string,
-    userAgent: string,
-    status: 'success' | 'failure',
-    details?: any,
+    action: PlatformAuditAction,
+    client: IClientInfo,
+    details?: Record<string, unknown>,
   ): Promise<void> {
-    await AuditLog.create({
-      userId,
-      action: 'email_verification',
-      ip,
-      userAgent,
-      status,
+    // Actions on an agency also show up in that agency's own audit log
+    const agency = typeof details?.agency === 'string' ? details.agency : null;
+    await this.record({
+      ...(agency && { agency }),
+      actor: userId,
+      actorType: AuditActorType.PLATFORM_OPERATOR,
+      action,
+      ip: client.ip,
+      userAgent: client.userAgent,
       details,
     });
   }
+
+  /**
+   * Record an authentication event of a user, who is unknown when the email matched nobody
+   * @param action - Authentication event
+   * @param user - User the event concerns
+   * @param event - Client IP and user agent, outcome and extra context such as the failure reason
+   */
+  private async logAuthEvent(
+    action: AuthAuditAction,
+    user: IUser | null,
+    event: Pick<IAuditEntry, 'ip' | 'userAgent' | 'status' | 'details'>,
+  ): Promise<void> {
+    await this.record({
+      ...(user && {
+        agency: user.agency,
+        actor: user._id as Types.ObjectId,
+        resource: 'users',
+        resourceId: user._id as Types.ObjectId,
+      }),
+      ...event,
+      action,
+    });
+  }
+
+  /**
+   * Read the actor and request details of the request being handled
+   * @returns Request actor or null outside of an authenticated or system request
+   */
+  private getRequestActor(): IRequestActor | null {
+    const req = getCurrentRequest();
+    const user = req?.user as AuthenticatedUser | PlatformOperatorUser | undefined;
+    if (!req || (!user && !isSystemRequest())) {
+      return null;
+    }
+
+    const request = { ...getClientInfo(req), method: req.method, path: req.originalUrl };
+    if (!user) {
+      return { ...request, actorType: AuditActorType.SYSTEM };
+    }
+    if (!('agency' in user)) {
+      return { ...request, actor: user.id, actorType: AuditActorType.PLATFORM_OPERATOR };
+    }
+    return {
+      ...request,
+      actor: user.id,
+      actorType: AuditActorType.USER,
+      agency: user.agency,
+      impersonatedBy: user.impersonatedBy,
+    };
+  }
 }
 
 export const auditService = new AuditService();
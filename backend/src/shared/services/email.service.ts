@@ -1,47 +1,104 @@
-// import nodemailer from 'nodemailer';
-// import { config } from '../config';
+import { ClientSession } from 'mongoose';
 
+import { EmailTemplate } from '../../types/enum/email';
+import { Locale } from '../../types/enum/locale';
+import { config } from '../config/index';
+import { IAgency } from '../models/agency.model';
+import { DEFAULT_BRAND_NAME, IEmailBranding, renderEmail } from '../utils/emailTemplate';
+
+import { mailQueueService } from './mailQueue.service';
+
+interface ITemplatedEmail {
+  to: string;
+  template: EmailTemplate;
+  // Agency whose language and branding the email uses
+  agency: IAgency | null;
+  actionUrl: string;
+}
+
+/**
+ * Email Service
+ * Renders the transactional emails and hands them to the mail queue, which sends
+ * them in the background; callers never wait on, or fail with, the mail server.
+ */
 class EmailService {
-  //   private transporter: nodemailer.Transporter;
-
-  constructor() {
-    // this.transporter = nodemailer.createTransport({
-    //   host: config.email.host,
-    //   port: config.email.port,
-    //   secure: config.email.secure,
-    //   auth: {
-    //     user: config.email.user,
-    //     pass: config.email.password,
-    //   },
-    // });
+  async sendVerificationEmail(email: string, token: string, agency: IAgency | null): Promise<void> {
+    await this.send({
+      to: email,
+      template: EmailTemplate.VERIFY_EMAIL,
+      agency,
+      actionUrl: `${config.appUrl}/confirm-mail?token=${encodeURIComponent(token)}`,
+    });
+  }
+
+  /**
+   * Welcome the first administrator of a new agency
+   * @param email - Administrator's email
+   * @param token - Email verification token
+   * @param agency - New agency
+   * @param session - Transaction creating the agency; the email is sent once it commits
+   */
+  async sendWelcomeEmail(email: string, token: string, agency: IAgency, session: ClientSession | null): Promise<void> {
+    await this.send(
+      {
+        to: email,
+        template: EmailTemplate.WELCOME,
+        agency,
+        actionUrl: `${config.appUrl}/confirm-mail?token=${encodeURIComponent(token)}`,
+      },
+      session,
+    );
+  }
+
+  async sendPasswordResetEmail(email: string, token: string, agency: IAgency | null): Promise<void> {
+    await this.send({
+      to: email,
+      template: EmailTemplate.PASSWORD_RESET,
+      agency,
+      actionUrl: `${config.appUrl}/forgot-password?token=${encodeURIComponent(token)}`,
+    });
+  }
+
+  /**
+   * Invite someone to join an agency
+   * @param email - Invitee's email
+   * @param token - Invitation token
+   * @param agency - Inviting agency
+   * @param session - Transaction storing the invitation; the email is sent once it commits
+   */
+  async sendInvitationEmail(
+    email: string,
+    token: string,
+    agency: IAgency,
+    session: ClientSession | null = null,
+  ): Promise<void> {
+    await this.send(
+      {
+        to: email,
+        template: EmailTemplate.INVITATION,
+        agency,
+        actionUrl: `${config.appUrl}/registration?invitation=${encodeURIComponent(token)}`,
+      },
+      session,
+    );
   }
 
-  async sendVerificationEmail(email: string, token: string): Promise<void> {
-    // const verificationUrl = `${config.app.url}/api/auth/verify-email/${token}`;
-    // await this.transporter.sendMail({
-    //   from: config.email.from,
-    //   to: email,
-    //   subject: 'Verify Your Email',
-    //   html: `
-    //     <h1>Email Verification</h1>
-    //     <p>Please click the link below to verify your email address. This link will expire in 24 hours.</p>
-    //     <a href="${verificationUrl}">Verify Email</a>
-    //   `,
-    // });
+  private async send(email: ITemplatedEmail, session: ClientSession | null = null): Promise<void> {
+    const { to, template, agency, actionUrl } = email;
+    const rendered = renderEmail(template, {
+      locale: agency?.settings.locale ?? Locale.EN,
+      branding: this.toBranding(agency),
+      actionUrl,
+    });
+    await mailQueueService.enqueue({ ...rendered, to: [to], ...(agency && { agency: agency.id as string }) }, session);
   }
 
-  async sendPasswordResetEmail(email: string, token: string): Promise<void> {
-    // const resetUrl = `${config.app.url}/api/auth/reset-password/${token}`;
-    // await this.transporter.sendMail({
-    //   from: config.email.from,
-    //   to: email,
-    //   subject: 'Password Reset Request',
-    //   html: `
-    //     <h1>Password Reset</h1>
-    //     <p>Please click the link below to reset your password. This link will expire in 30 minutes.</p>
-    //     <a href="${resetUrl}">Reset Password</a>
-    //   `,
-    // });
+  private toBranding(agency: IAgency | null): IEmailBranding {
+    if (!agency) {
+      return { name: DEFAULT_BRAND_NAME };
+    }
+    const { logo, colors } = agency.settings.customBranding ?? {};
+    return { name: agency.name, logo, primaryColor: colors?.primary, secondaryColor: colors?.secondary };
   }
 }
 
@@ -0,0 +1,193 @@
+import { ClientSession, Types } from 'mongoose';
+
+import { EmailDeliveryStatus } from '../../types/enum/email';
+import { config } from '../config/index';
+import { MAIL_RETRY_BASE_DELAY, MAIL_SEND_LOCK, SENT_EMAIL_RETENTION } from '../constant/timeValues';
+import { Communication } from '../models/communication.model';
+import { IOutboundAttachment, IOutboundEmail, OutboundEmail } from '../models/outboundEmail.model';
+import logger from '../utils/logger';
+import { createMessageId, IMimeMessage } from '../utils/mime';
+
+import { attachmentStorageService } from './attachmentStorage.service';
+import { mailTransport } from './mailTransport.service';
+
+// Six attempts over about six hours: retries wait 1, 4, 16, 64 and 256 minutes
+const MAX_SEND_ATTEMPTS = 6;
+const RETRY_BACKOFF_FACTOR = 4;
+
+export interface IQueuedEmail {
+  agency?: string | Types.ObjectId;
+  // Communication whose `metadata.email` records the delivery status
+  communication?: Types.ObjectId;
+  // Defaults to `config.mail.from`
+  from?: string;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+  // Generated when missing; callers that record the ID before queueing pass their own
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: IOutboundAttachment[];
+}
+
+/**
+ * Mail Queue Service
+ * Emails are stored before they are sent, so a mail outage never fails the request
+ * that triggered them. Sending starts right away and failed attempts are retried with
+ * backoff by the background job; several instances can share the queue because each
+ * message is claimed before it is sent.
+ */
+class MailQueueService {
+  private running: Promise<number> | null = null;
+  private rerunRequested = false;
+
+  /**
+   * Queue an email and start sending it
+   * @param email - Rendered email
+   * @param session - Transaction to store the email in; it is then sent by the next queue run, once committed
+   * @returns Queued email
+   */
+  async enqueue(email: IQueuedEmail, session: ClientSession | null = null): Promise<IOutboundEmail> {
+    const from = email.from ?? config.mail.from;
+    const messageId = email.messageId ?? createMessageId(from);
+    const [queued] = await OutboundEmail.create([{ ...email, from, messageId }], { session });
+    if (!session) {
+      this.processQueue();
+    }
+    return queued;
+  }
+
+  /**
+   * Send every due email. Runs never overlap within a process; a run requested
+   * while one is in progress starts again when it ends.
+   * @returns Number of emails sent by the run
+   */
+  async processQueue(): Promise<number> {
+    if (this.running) {
+      this.rerunRequested = true;
+      return this.running;
+    }
+    this.running = this.runOnce();
+    return this.running;
+  }
+
+  private async runOnce(): Promise<number> {
+    try {
+      return await this.sendDueEmails();
+    } finally {
+      this.running = null;
+      if (this.rerunRequested) {
+        this.rerunRequested = false;
+        this.processQueue();
+      }
+    }
+  }
+
+  private async sendDueEmails(): Promise<number> {
+    let sent = 0;
+    try {
+      for (let email = await this.claimNext(); email; email = await this.claimNext()) {
+        sent += (await this.deliver(email)) ? 1 : 0;
+      }
+    } catch (error) {
+      // The queue itself is unavailable; the next run picks up where this one stopped
+      logger.error(`Mail queue run failed: ${String(error)}`);
+    }
+    return sent;
+  }
+
+  /**
+   * Claim the oldest due email by counting the attempt and pushing its next
+   * attempt past the send lock
+   * @returns Claimed email, or null when none is due
+   */
+  private async claimNext(): Promise<IOutboundEmail | null> {
+    const now = Date.now();
+    return OutboundEmail.findOneAndUpdate(
+      { status: EmailDeliveryStatus.QUEUED, nextAttemptAt: { $lte: new Date(now) } },
+      { $inc: { attempts: 1 }, $set: { nextAttemptAt: new Date(now + MAIL_SEND_LOCK) } },
+      { sort: { nextAttemptAt: 1 }, new: true },
+    ).exec();
+  }
+
+  /**
+   * Hand a claimed email to the transport and record the outcome
+   * @param email - Claimed email
+   * @returns Whether the email was sent
+   */
+  private async deliver(email: IOutboundEmail): Promise<boolean> {
+    try {
+      await mailTransport.send(await this.toMimeMessage(email));
+      email.set({
+        status: EmailDeliveryStatus.SENT,
+        sentAt: new Date(),
+        lastError: null,
+        expiresAt: new Date(Date.now() + SENT_EMAIL_RETENTION),
+      });
+      await email.save();
+      await this.updateCommunication(email);
+      return true;
+    } catch (error) {
+      await this.recordFailure(email, error);
+      return false;
+    }
+  }
+
+  /**
+   * Assemble the message to send, reading its attachments from storage
+   * @param email - Claimed email
+   * @returns Message for the transport
+   */
+  private async toMimeMessage(email: IOutboundEmail): Promise<IMimeMessage> {
+    const { from, to, replyTo, subject, text, html, messageId, inReplyTo, references } = email;
+    const attachments = await Promise.all(
+      email.attachments.map(async ({ fileId, filename, contentType }) => ({
+        filename,
+        contentType,
+        content: await attachmentStorageService.read(fileId),
+      })),
+    );
+    return { from, to, replyTo, subject, text, html, messageId, inReplyTo, references, attachments };
+  }
+
+  /**
+   * Copy the delivery status onto the communication logged for the email
+   * @param email - Email whose attempt just finished
+   */
+  private async updateCommunication(email: IOutboundEmail): Promise<void> {
+    if (!email.communication) {
+      return;
+    }
+    await Communication.updateOne(
+      { _id: email.communication },
+      {
+        $set: {
+          'metadata.email.deliveryStatus': email.status,
+          'metadata.email.attempts': email.attempts,
+          'metadata.email.error': email.lastError ?? null,
+          'metadata.email.deliveredAt': email.sentAt ?? null,
+        },
+      },
+    ).exec();
+  }
+
+  private async recordFailure(email: IOutboundEmail, error: unknown): Promise<void> {
+    email.lastError = error instanceof Error ? error.message : String(error);
+    if (email.attempts >= MAX_SEND_ATTEMPTS) {
+      email.status = EmailDeliveryStatus.FAILED;
+      email.expiresAt = new Date(Date.now() + SENT_EMAIL_RETENTION);
+      logger.error(`Giving up on email ${email.messageId} to ${email.to.join(', ')}: ${email.lastError}`);
+    } else {
+      const delay = MAIL_RETRY_BASE_DELAY * RETRY_BACKOFF_FACTOR ** (email.attempts - 1);
+      email.nextAttemptAt = new Date(Date.now() + delay);
+      logger.warn(`Email ${email.messageId} failed (attempt ${email.attempts}), retrying: ${email.lastError}`);
+    }
+    await email.save();
+    await this.updateCommunication(email);
+  }
+}
+
+export const mailQueueService = new MailQueueService();
@@ -0,0 +1,120 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { MailTransportType } from '../../types/enum/email';
+import { config } from '../config/index';
+import { InternalServerError } from '../utils/CustomError';
+import logger from '../utils/logger';
+import { buildMimeMessage, extractEmailAddress, IMimeMessage } from '../utils/mime';
+import { ISmtpOptions, sendSmtpMail } from '../utils/smtp';
+
+/**
+ * Delivers serialized messages; which one is used comes from `config.mail.transport`
+ */
+export interface IMailTransport {
+  readonly type: MailTransportType;
+  send(message: IMimeMessage): Promise<void>;
+}
+
+export interface IDeliveredMail {
+  message: IMimeMessage;
+  raw: string;
+}
+
+/**
+ * Sends through the SMTP server configured with `SMTP_HOST`
+ */
+export class SmtpMailTransport implements IMailTransport {
+  readonly type = MailTransportType.SMTP;
+  private readonly options: ISmtpOptions;
+
+  constructor(options: ISmtpOptions) {
+    this.options = options;
+  }
+
+  async send(message: IMimeMessage): Promise<void> {
+    await sendSmtpMail(
+      this.options,
+      { from: extractEmailAddress(message.from), to: message.to.map(extractEmailAddress) },
+      buildMimeMessage(message),
+    );
+  }
+}
+
+/**
+ * Resolve the configured outbox directory against the working directory
+ * @param directory - `MAIL_OUTBOX_DIR`
+ * @returns Absolute outbox directory
+ * @throws {InternalServerError} When the directory is empty or the filesystem root
+ */
+const resolveOutboxDirectory = (directory: string): string => {
+  const resolved = path.resolve(directory);
+  if (!directory.trim() || path.parse(resolved).root === resolved) {
+    throw new InternalServerError(`MAIL_OUTBOX_DIR must name a directory below the filesystem root: "${directory}"`);
+  }
+  return resolved;
+};
+
+/**
+ * Writes each message to the outbox directory as an .eml file any mail client
+ * can open, so development needs no mail server
+ */
+export class FileMailTransport implements IMailTransport {
+  readonly type = MailTransportType.FILE;
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = resolveOutboxDirectory(directory);
+  }
+
+  async send(message: IMimeMessage): Promise<void> {
+    // The name is built from our own Message-ID, stripped of anything but word characters, dots and dashes
+    const file = path.join(this.directory, `${Date.now()}-${message.messageId.replace(/[^\w.-]/g, '')}.eml`);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, buildMimeMessage(message));
+    logger.info(`Email "${message.subject}" to ${message.to.join(', ')} written to ${file}`);
+  }
+}
+
+/**
+ * Keeps messages in memory for tests to inspect
+ */
+export class MemoryMailTransport implements IMailTransport {
+  readonly type = MailTransportType.MEMORY;
+  readonly sent: IDeliveredMail[] = [];
+
+  async send(message: IMimeMessage): Promise<void> {
+    this.sent.push({ message, raw: buildMimeMessage(message) });
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+/**
+ * Create the transport selected in the configuration
+ * @returns Mail transport
+ * @throws {InternalServerError} When SMTP is selected without a host, or the transport is unknown
+ */
+const createMailTransport = (): IMailTransport => {
+  switch (config.mail.transport) {
+    case MailTransportType.SMTP: {
+      if (!config.smtpHost) {
+        throw new InternalServerError('SMTP_HOST is required for the smtp mail transport');
+      }
+      return new SmtpMailTransport({ host: config.smtpHost, ...config.smtp });
+    }
+    case MailTransportType.FILE: {
+      return new FileMailTransport(config.mail.outboxDir);
+    }
+    case MailTransportType.MEMORY: {
+      return new MemoryMailTransport();
+    }
+    default: {
+      throw new InternalServerError(`Unknown mail transport: ${config.mail.transport}`);
+    }
+  }
+};
+
+export const mailTransport = createMailTransport();
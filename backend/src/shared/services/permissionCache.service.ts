@@ -0,0 +1,89 @@
+import { isRedisReady, redis } from '../config/redis';
+import { PERMISSION_CACHE_TTL_SECONDS } from '../constant/timeValues';
+import { Role, RoleType } from '../models/role.model';
+import logger from '../utils/logger';
+
+const KEY_PREFIX = 'role_permissions:';
+
+export interface ICachedRole {
+  id: string;
+  type: RoleType;
+  permissions: string[];
+}
+
+/**
+ * Permission Cache Service
+ * Keeps the role data authorization needs in Redis so authenticating and permission
+ * checks skip the database. Entries are dropped whenever a role changes and expire
+ * after a while in case a change bypassed the service. When Redis is disconnected the
+ * cache is skipped and the role is read from the database; a connected Redis that stops
+ * answering is given up on after the client's command timeout.
+ */
+class PermissionCacheService {
+  /**
+   * Get an active role of the agency, from the cache when possible
+   * @param agencyId - Agency ID
+   * @param roleId - Role ID
+   * @returns Role type and permissions, or null when the agency has no such active role
+   */
+  async getRole(agencyId: string, roleId: string): Promise<ICachedRole | null> {
+    const key = this.key(agencyId, roleId);
+    const cached = await this.read(key);
+    if (cached) {
+      return cached;
+    }
+
+    const role = await Role.findOne({ _id: roleId, agency: agencyId, isActive: true }).exec();
+    if (!role) {
+      return null;
+    }
+
+    const entry: ICachedRole = { id: role.id, type: role.type, permissions: role.permissions };
+    await this.write(key, entry);
+    return entry;
+  }
+
+  /**
+   * Drop a cached role after its permissions, type or status changed
+   * @param agencyId - Agency ID
+   * @param roleId - Role ID
+   */
+  async invalidate(agencyId: string, roleId: string): Promise<void> {
+    try {
+      await redis.del(this.key(agencyId, roleId));
+    } catch (error) {
+      // Stale entries still expire with the TTL
+      logger.warn(`Failed to invalidate cached role ${roleId}: ${String(error)}`);
+    }
+  }
+
+  private key(agencyId: string, roleId: string): string {
+    return `${KEY_PREFIX}${agencyId}:${roleId}`;
+  }
+
+  private async read(key: string): Promise<ICachedRole | null> {
+    if (!isRedisReady()) {
+      return null;
+    }
+    try {
+      const value = await redis.get(key);
+      return value ? (JSON.parse(value) as ICachedRole) : null;
+    } catch (error) {
+      logger.warn(`Permission cache read failed, falling back to the database: ${String(error)}`);
+      return null;
+    }
+  }
+
+  private async write(key: string, entry: ICachedRole): Promise<void> {
+    if (!isRedisReady()) {
+      return;
+    }
+    try {
+      await redis.set(key, JSON.stringify(entry), 'EX', PERMISSION_CACHE_TTL_SECONDS);
+    } catch (error) {
+      logger.warn(`Permission cache write failed: ${String(error)}`);
+    }
+  }
+}
+
+export const permissionCacheService = new PermissionCacheService();
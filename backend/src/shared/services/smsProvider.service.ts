@@ -0,0 +1,260 @@
+import crypto from 'node:crypto';
+import { IncomingHttpHeaders } from 'node:http';
+
+import axios from 'axios';
+
+import { SmsDeliveryStatus, SmsProviderType } from '../../types/enum/sms';
+import { config } from '../config/index';
+import { MILLISECONDS_IN_SECOND } from '../constant/timeValues';
+import { BusinessError, CustomError, InternalServerError } from '../utils/CustomError';
+import logger from '../utils/logger';
+import { toPhoneDigits } from '../utils/phone';
+
+const REQUEST_TIMEOUT_SECONDS = 15;
+const FAKE_RECEIPT_DELAY = MILLISECONDS_IN_SECOND;
+
+// Where providers post delivery receipts and incoming messages
+export const SMS_STATUS_WEBHOOK_PATH = '/api/v1/webhooks/sms/status';
+export const SMS_INBOUND_WEBHOOK_PATH = '/api/v1/webhooks/sms/inbound';
+
+export interface ISmsMessage {
+  // Sender ID or number the lead sees
+  from: string;
+  // Recipient as international digits
+  to: string;
+  text: string;
+}
+
+export interface ISmsSendResult {
+  messageId: string;
+  status: SmsDeliveryStatus;
+}
+
+// Webhook request as the provider made it, with its form fields
+export interface ISmsWebhookRequest {
+  url: string;
+  headers: IncomingHttpHeaders;
+  params: Record<string, string>;
+}
+
+export interface ISmsReceipt {
+  messageId: string;
+  status: SmsDeliveryStatus;
+  error?: string;
+}
+
+export interface ISmsInbound {
+  messageId: string;
+  // Digits of the sending and receiving numbers
+  from: string;
+  to: string;
+  text: string;
+}
+
+/**
+ * Sends SMS and reads the webhooks of one provider; which one is used comes from
+ * `config.sms.provider`
+ */
+export interface ISmsProvider {
+  readonly type: SmsProviderType;
+  send(message: ISmsMessage): Promise<ISmsSendResult>;
+  // Whether a webhook request was made by the provider
+  isAuthentic(request: ISmsWebhookRequest): boolean;
+  parseReceipt(params: Record<string, string>): ISmsReceipt | null;
+  parseInbound(params: Record<string, string>): ISmsInbound | null;
+}
+
+const secretsMatch = (provided: string, secret: string): boolean => {
+  const digest = (value: string): Buffer => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(provided), digest(secret));
+};
+
+// Twilio reports more states than the communication log keeps
+const TWILIO_STATUSES = new Map<string, SmsDeliveryStatus>([
+  ['accepted', SmsDeliveryStatus.QUEUED],
+  ['scheduled', SmsDeliveryStatus.QUEUED],
+  ['queued', SmsDeliveryStatus.QUEUED],
+  ['sending', SmsDeliveryStatus.QUEUED],
+  ['sent', SmsDeliveryStatus.SENT],
+  ['delivered', SmsDeliveryStatus.DELIVERED],
+  ['undelivered', SmsDeliveryStatus.FAILED],
+  ['failed', SmsDeliveryStatus.FAILED],
+]);
+
+/**
+ * Sends through the Twilio Messages API with `TWILIO_ACCOUNT_SID` and
+ * `TWILIO_AUTH_TOKEN`, which also signs Twilio's webhooks
+ */
+export class TwilioSmsProvider implements ISmsProvider {
+  readonly type = SmsProviderType.TWILIO;
+  private readonly accountSid: string;
+  private readonly authToken: string;
+
+  constructor(accountSid: string, authToken: string) {
+    this.accountSid = accountSid;
+    this.authToken = authToken;
+  }
+
+  async send(message: ISmsMessage): Promise<ISmsSendResult> {
+    const form = new URLSearchParams({
+      From: message.from,
+      To: `+${message.to}`,
+      Body: message.text,
+      StatusCallback: `${config.sms.webhookBaseUrl}${SMS_STATUS_WEBHOOK_PATH}`,
+    });
+    try {
+      const { data } = await axios.post<{ sid: string; status: string }>(
+        `${config.sms.twilio.apiUrl}/Accounts/${this.accountSid}/Messages.json`,
+        form.toString(),
+        {
+          auth: { username: this.accountSid, password: this.authToken },
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          timeout: REQUEST_TIMEOUT_SECONDS * MILLISECONDS_IN_SECOND,
+        },
+      );
+      return { messageId: data.sid, status: TWILIO_STATUSES.get(data.status) ?? SmsDeliveryStatus.QUEUED };
+    } catch (error) {
+      throw this.toError(error);
+    }
+  }
+
+  /**
+   * Twilio signs the URL followed by every form field, sorted by name, with HMAC-SHA1
+   */
+  isAuthentic(request: ISmsWebhookRequest): boolean {
+    const signature = request.headers['x-twilio-signature'];
+    if (typeof signature !== 'string') {
+      return false;
+    }
+    const signed = Object.entries(request.params)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([name, value]) => `${name}${value}`)
+      .join('');
+    const expected = crypto.createHmac('sha1', this.authToken).update(`${request.url}${signed}`).digest('base64');
+    return secretsMatch(signature, expected);
+  }
+
+  parseReceipt(params: Record<string, string>): ISmsReceipt | null {
+    const status = TWILIO_STATUSES.get(params.MessageStatus);
+    if (!params.MessageSid || !status) {
+      return null;
+    }
+    return {
+      messageId: params.MessageSid,
+      status,
+      ...(params.ErrorCode ? { error: `Twilio error ${params.ErrorCode}` } : {}),
+    };
+  }
+
+  parseInbound(params: Record<string, string>): ISmsInbound | null {
+    if (!params.MessageSid || !params.From) {
+      return null;
+    }
+    return {
+      messageId: params.MessageSid,
+      from: toPhoneDigits(params.From),
+      to: toPhoneDigits(params.To ?? ''),
+      text: params.Body ?? '',
+    };
+  }
+
+  private toError(error: unknown): CustomError {
+    if (axios.isAxiosError<{ message?: string }>(error) && error.response?.data?.message) {
+      return new BusinessError(`SMS provider rejected the message: ${error.response.data.message}`);
+    }
+    return new InternalServerError(`SMS sending failed: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Logs every message instead of sending it and posts a delivered receipt to the
+ * status webhook a moment later, authenticated with `SMS_WEBHOOK_TOKEN`. Incoming
+ * messages can be simulated by posting `id`, `from`, `to` and `text` to the inbound
+ * webhook with the same token.
+ */
+export class FakeSmsProvider implements ISmsProvider {
+  readonly type = SmsProviderType.FAKE;
+  readonly sent: (ISmsMessage & { messageId: string })[] = [];
+
+  async send(message: ISmsMessage): Promise<ISmsSendResult> {
+    const messageId = `fake-${crypto.randomUUID()}`;
+    this.sent.push({ ...message, messageId });
+    logger.info(`SMS ${messageId} from ${message.from} to +${message.to}: ${message.text}`);
+    setTimeout(() => {
+      void this.postReceipt(messageId);
+    }, FAKE_RECEIPT_DELAY).unref();
+    return { messageId, status: SmsDeliveryStatus.SENT };
+  }
+
+  isAuthentic(request: ISmsWebhookRequest): boolean {
+    const token = request.headers['x-sms-token'];
+    return (
+      Boolean(config.sms.webhookToken) && typeof token === 'string' && secretsMatch(token, config.sms.webhookToken)
+    );
+  }
+
+  parseReceipt(params: Record<string, string>): ISmsReceipt | null {
+    const status = Object.values(SmsDeliveryStatus).find((value) => value === params.status);
+    return params.id && status
+      ? { messageId: params.id, status, ...(params.error ? { error: params.error } : {}) }
+      : null;
+  }
+
+  parseInbound(params: Record<string, string>): ISmsInbound | null {
+    if (!params.from) {
+      return null;
+    }
+    return {
+      messageId: params.id || `fake-${crypto.randomUUID()}`,
+      from: toPhoneDigits(params.from),
+      to: toPhoneDigits(params.to ?? ''),
+      text: params.text ?? '',
+    };
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+
+  private async postReceipt(messageId: string): Promise<void> {
+    if (!config.sms.webhookToken) {
+      return;
+    }
+    try {
+      await axios.post(
+        `${config.sms.webhookBaseUrl}${SMS_STATUS_WEBHOOK_PATH}`,
+        new URLSearchParams({ id: messageId, status: SmsDeliveryStatus.DELIVERED }).toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'X-Sms-Token': config.sms.webhookToken } },
+      );
+    } catch (error) {
+      logger.warn(`Fake delivery receipt for SMS ${messageId} failed: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Create the provider selected in the configuration
+ * @returns SMS provider
+ * @throws {InternalServerError} When Twilio is selected without credentials, or the provider is unknown
+ */
+const createSmsProvider = (): ISmsProvider => {
+  switch (config.sms.provider) {
+    case SmsProviderType.TWILIO: {
+      const { accountSid, authToken } = config.sms.twilio;
+      if (!accountSid || !authToken) {
+        throw new InternalServerError(
+          'TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN are required for the twilio SMS provider',
+        );
+      }
+      return new TwilioSmsProvider(accountSid, authToken);
+    }
+    case SmsProviderType.FAKE: {
+      return new FakeSmsProvider();
+    }
+    default: {
+      throw new InternalServerError(`Unknown SMS provider: ${config.sms.provider}`);
+    }
+  }
+};
+
+export const smsProvider = createSmsProvider();
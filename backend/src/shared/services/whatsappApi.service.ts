@@ -0,0 +1,120 @@
+import axios, { AxiosInstance } from 'axios';
+
+import { WhatsAppMessageType } from '../../types/enum/whatsapp';
+import { config } from '../config/index';
+import { MILLISECONDS_IN_SECOND } from '../constant/timeValues';
+import { BusinessError, CustomError, InternalServerError } from '../utils/CustomError';
+
+const REQUEST_TIMEOUT_SECONDS = 15;
+
+export interface IWhatsAppTemplate {
+  name: string;
+  // Language the template was approved in, e.g. `en` or `hi`
+  language: string;
+  // Values of the body placeholders {{1}}, {{2}}... in order
+  parameters: string[];
+}
+
+export type WhatsAppOutboundMessage =
+  | { type: WhatsAppMessageType.TEXT; text: string }
+  | { type: WhatsAppMessageType.TEMPLATE; template: IWhatsAppTemplate };
+
+export interface IWhatsAppMedia {
+  contentType: string;
+  content: Buffer;
+}
+
+interface IGraphErrorBody {
+  error?: { message?: string };
+}
+
+/**
+ * WhatsApp API Service
+ * Talks to the WhatsApp Cloud API, or to a stub of it at `WHATSAPP_API_URL`,
+ * with the `WHATSAPP_API_KEY` access token
+ */
+class WhatsAppApiService {
+  /**
+   * Send a message from one of the business phone numbers
+   * @param phoneNumberId - Cloud API id of the sending number
+   * @param to - Recipient as international digits
+   * @param message - Text or template message
+   * @returns WhatsApp message id (`wamid...`), which receipts refer to
+   * @throws {BusinessError} When WhatsApp rejects the message
+   */
+  async sendMessage(phoneNumberId: string, to: string, message: WhatsAppOutboundMessage): Promise<string> {
+    try {
+      const { data } = await this.client().post<{ messages: { id: string }[] }>(`/${phoneNumberId}/messages`, {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to,
+        ...this.toPayload(message),
+      });
+      return data.messages[0].id;
+    } catch (error) {
+      throw this.toError(error);
+    }
+  }
+
+  /**
+   * Download media a lead sent; media ids resolve to a short-lived URL that needs
+   * the same access token
+   * @param mediaId - Media id from the webhook
+   * @returns Content and its MIME type
+   */
+  async downloadMedia(mediaId: string): Promise<IWhatsAppMedia> {
+    try {
+      const client = this.client();
+      const { data: media } = await client.get<{ url: string; mime_type: string }>(`/${mediaId}`);
+      const { data } = await client.get<ArrayBuffer>(media.url, { responseType: 'arraybuffer' });
+      return { contentType: media.mime_type, content: Buffer.from(data) };
+    } catch (error) {
+      throw this.toError(error);
+    }
+  }
+
+  private client(): AxiosInstance {
+    if (!config.whatsapp.apiKey) {
+      throw new InternalServerError('WhatsApp is not configured: WHATSAPP_API_KEY is not set');
+    }
+    return axios.create({
+      baseURL: config.whatsapp.apiUrl,
+      headers: { Authorization: `Bearer ${config.whatsapp.apiKey}` },
+      timeout: REQUEST_TIMEOUT_SECONDS * MILLISECONDS_IN_SECOND,
+    });
+  }
+
+  private toPayload(message: WhatsAppOutboundMessage): Record<string, unknown> {
+    if (message.type === WhatsAppMessageType.TEXT) {
+      return { type: 'text', text: { preview_url: false, body: message.text } };
+    }
+    const { name, language, parameters } = message.template;
+    return {
+      type: 'template',
+      template: {
+        name,
+        language: { code: language },
+        components:
+          parameters.length > 0
+            ? [{ type: 'body', parameters: parameters.map((text) => ({ type: 'text', text })) }]
+            : [],
+      },
+    };
+  }
+
+  /**
+   * Keep errors WhatsApp explains, such as an unknown template or a closed session
+   * window, as business errors the sender can act on
+   */
+  private toError(error: unknown): CustomError {
+    if (error instanceof CustomError) {
+      return error;
+    }
+    if (axios.isAxiosError<IGraphErrorBody>(error) && error.response?.data?.error?.message) {
+      return new BusinessError(`WhatsApp rejected the request: ${error.response.data.error.message}`);
+    }
+    return new InternalServerError(`WhatsApp request failed: ${(error as Error).message}`);
+  }
+}
+
+export const whatsappApiService = new WhatsAppApiService();
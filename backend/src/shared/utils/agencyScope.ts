@@ -0,0 +1,21 @@
+import { User } from '../models/user.model';
+
+import { BadRequestError } from './CustomError';
+
+/**
+ * Ensure referenced users (assignees, collaborators) belong to the agency
+ * @param agencyId - Agency ID
+ * @param userIds - Referenced user IDs, undefined entries are ignored
+ * @throws {BadRequestError} When any user is outside the agency
+ */
+export const assertAgencyUsers = async (agencyId: string, userIds: (string | undefined)[]): Promise<void> => {
+  const uniqueIds = [...new Set(userIds.filter(Boolean))];
+  if (uniqueIds.length === 0) {
+    return;
+  }
+
+  const count = await User.countDocuments({ _id: { $in: uniqueIds }, agency: agencyId }).exec();
+  if (count !== uniqueIds.length) {
+    throw new BadRequestError('Assigned users must belong to the same agency');
+  }
+};
@@ -0,0 +1,36 @@
+import {
+  AuthenticatedRequest,
+  AuthenticatedUser,
+  PlatformOperatorUser,
+  PlatformRequest,
+} from '../../types/express/index';
+
+import { UnauthorizedError } from './CustomError';
+
+/**
+ * Returns the user attached to the request by the passport JWT strategy
+ * @param req - Authenticated request
+ * @returns Authenticated user
+ * @throws {UnauthorizedError} When the request carries no user
+ */
+export const getAuthenticatedUser = (req: AuthenticatedRequest): AuthenticatedUser => {
+  if (!req.user) {
+    throw new UnauthorizedError('User not authenticated');
+  }
+
+  return req.user;
+};
+
+/**
+ * Returns the operator attached to the request by the passport platform JWT strategy
+ * @param req - Platform request
+ * @returns Authenticated platform operator
+ * @throws {UnauthorizedError} When the request carries no operator
+ */
+export const getPlatformOperator = (req: PlatformRequest): PlatformOperatorUser => {
+  if (!req.user) {
+    throw new UnauthorizedError('Platform operator not authenticated');
+  }
+
+  return req.user;
+};
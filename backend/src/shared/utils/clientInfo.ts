@@ -0,0 +1,13 @@
+import { Request } from 'express';
+
+import { IClientInfo } from '../../module/auth/auth.interface';
+
+/**
+ * Read the request details recorded on sessions and audit logs
+ * @param req - Express request
+ * @returns Client IP and user agent
+ */
+export const getClientInfo = (req: Request): IClientInfo => ({
+  ip: req.ip ?? '',
+  userAgent: req.get('user-agent') ?? '',
+});
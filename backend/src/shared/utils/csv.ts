@@ -0,0 +1,51 @@
+// Values containing these characters must be quoted
+const CSV_SPECIAL_CHARACTERS = /[\n\r",]/;
+
+/**
+ * Format one value as a CSV cell; dates become ISO strings and nested values JSON
+ * @param value - Cell value
+ * @returns Escaped cell
+ */
+const toCsvCell = (value: unknown): string => {
+  if (value === null || typeof value === 'undefined') {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object' && !('_bsontype' in value)) {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  return CSV_SPECIAL_CHARACTERS.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Format the header row of a CSV document
+ * @param columns - Field names
+ * @returns Header line
+ */
+export const toCsvHeader = (columns: string[]): string => columns.map(toCsvCell).join(',');
+
+/**
+ * Format one record as a CSV line, with empty cells for the fields it lacks
+ * @param row - Plain record
+ * @param columns - Field names of the header row
+ * @returns CSV line
+ */
+export const toCsvRow = (row: Record<string, unknown>, columns: string[]): string => {
+  const values = new Map(Object.entries(row));
+  return columns.map((column) => toCsvCell(values.get(column))).join(',');
+};
+
+/**
+ * Serialize records as CSV with a header row of every field found in them
+ * @param rows - Plain records
+ * @returns CSV document
+ */
+export const toCsv = (rows: Record<string, unknown>[]): string => {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  return [toCsvHeader(columns), ...rows.map((row) => toCsvRow(row, columns))].join('\r\n');
+};
@@ -0,0 +1,30 @@
+/**
+ * Returns the lower-cased domain part of an email address
+ * @param email - Email address
+ * @returns Domain, or an empty string when the address has none
+ */
+export const getEmailDomain = (email: string): string => {
+  const at = email.lastIndexOf('@');
+  return at === -1
+    ? ''
+    : email
+        .slice(at + 1)
+        .trim()
+        .toLowerCase();
+};
+
+/**
+ * Checks an email address against an agency's allowed domains.
+ * An empty list places no restriction on the domain.
+ * @param email - Email address
+ * @param allowedDomains - Domains configured in the agency settings
+ * @returns Whether the address may join the agency
+ */
+export const isEmailDomainAllowed = (email: string, allowedDomains: string[]): boolean => {
+  if (allowedDomains.length === 0) {
+    return true;
+  }
+
+  const domain = getEmailDomain(email);
+  return allowedDomains.some((allowed) => allowed.toLowerCase() === domain);
+};
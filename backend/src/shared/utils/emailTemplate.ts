@@ -0,0 +1,140 @@
+import { EmailTemplate } from '../../types/enum/email';
+import { Locale } from '../../types/enum/locale';
+import { EMAIL_CHROME, EMAIL_COPY, IEmailChrome, IEmailCopy } from '../constant/emailCopy';
+
+import { InternalServerError } from './CustomError';
+
+// Used when an agency has no custom branding, and for platform mail
+export const DEFAULT_BRAND_NAME = 'AthithiPro CRM';
+const DEFAULT_PRIMARY_COLOR = '#9b87f5';
+const DEFAULT_SECONDARY_COLOR = '#1a1f2c';
+
+const HTML_ESCAPES = new Map([
+  ['&', '&amp;'],
+  ['<', '&lt;'],
+  ['>', '&gt;'],
+  ['"', '&quot;'],
+  ["'", '&#39;'],
+]);
+
+export interface IEmailBranding {
+  name: string;
+  logo?: string;
+  primaryColor?: string;
+  secondaryColor?: string;
+}
+
+export interface IRenderEmailOptions {
+  locale: Locale;
+  branding: IEmailBranding;
+  // Link the call-to-action button opens
+  actionUrl: string;
+}
+
+export interface IRenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/["&'<>]/g, (character) => HTML_ESCAPES.get(character) ?? '');
+
+/**
+ * Look up the wording of a template, falling back to English for untranslated locales
+ * @param template - Email template
+ * @param locale - Preferred locale
+ * @param agencyName - Agency the email is sent for
+ * @returns Template wording and the shared wording of the locale
+ */
+const getCopy = (
+  template: EmailTemplate,
+  locale: Locale,
+  agencyName: string,
+): { copy: IEmailCopy; chrome: IEmailChrome } => {
+  const resolved = EMAIL_COPY.get(locale)?.has(template) ? locale : Locale.EN;
+  const buildCopy = EMAIL_COPY.get(resolved)?.get(template);
+  const chrome = EMAIL_CHROME.get(resolved);
+  if (!buildCopy || !chrome) {
+    throw new InternalServerError(`Email template ${template} is missing`);
+  }
+  return { copy: buildCopy(agencyName), chrome };
+};
+
+/**
+ * Lay out the HTML body: the agency's logo or name in its secondary color, the
+ * message, and a button in its primary color. Inline styles only, for mail clients.
+ * @param copy - Template wording
+ * @param chrome - Shared wording of the locale
+ * @param options - Locale, branding and link
+ * @returns HTML document
+ */
+const renderHtml = (copy: IEmailCopy, chrome: IEmailChrome, options: IRenderEmailOptions): string => {
+  const { branding, locale, actionUrl } = options;
+  const name = escapeHtml(branding.name);
+  const url = escapeHtml(actionUrl);
+  const primary = branding.primaryColor ?? DEFAULT_PRIMARY_COLOR;
+  const secondary = branding.secondaryColor ?? DEFAULT_SECONDARY_COLOR;
+  const masthead = branding.logo
+    ? `<img src="${escapeHtml(branding.logo)}" alt="${name}" style="max-height:48px">`
+    : `<span style="font-size:20px;font-weight:bold;color:#ffffff">${name}</span>`;
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head><meta charset="UTF-8"><title>${escapeHtml(copy.subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f4f4f7;font-family:Arial,Helvetica,sans-serif;color:#333333">
+<table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden">
+<tr><td style="padding:20px 32px;background:${secondary}">${masthead}</td></tr>
+<tr><td style="padding:32px">
+<h1 style="margin:0 0 16px;font-size:22px">${escapeHtml(copy.heading)}</h1>
+<p style="margin:0 0 24px;line-height:1.5">${escapeHtml(copy.intro)}</p>
+<p style="margin:0 0 24px"><a href="${url}" style="display:inline-block;padding:12px 24px;background:${primary};color:#ffffff;text-decoration:none;border-radius:6px;font-weight:bold">${escapeHtml(copy.action)}</a></p>
+<p style="margin:0 0 8px;font-size:13px;color:#666666">${escapeHtml(copy.expiry)}</p>
+<p style="margin:0;font-size:13px;color:#666666">${escapeHtml(chrome.linkHint)}<br><a href="${url}" style="color:${primary};word-break:break-all">${url}</a></p>
+</td></tr>
+<tr><td style="padding:16px 32px;font-size:12px;color:#999999;border-top:1px solid #eeeeee">${escapeHtml(chrome.footer(branding.name))}</td></tr>
+</table>
+</body>
+</html>
+`;
+};
+
+/**
+ * Render a transactional email in the agency's language and branding, as HTML
+ * with a plain-text alternative
+ * @param template - Email template
+ * @param options - Locale, branding and link
+ * @returns Subject and bodies
+ */
+export const renderEmail = (template: EmailTemplate, options: IRenderEmailOptions): IRenderedEmail => {
+  const { copy, chrome } = getCopy(template, options.locale, options.branding.name);
+  const text = [
+    copy.heading,
+    '',
+    copy.intro,
+    '',
+    `${copy.action}: ${options.actionUrl}`,
+    '',
+    copy.expiry,
+    '',
+    '--',
+    chrome.footer(options.branding.name),
+    '',
+  ].join('\n');
+
+  return { subject: copy.subject, text, html: renderHtml(copy, chrome, options) };
+};
+
+/**
+ * Lay out a message typed by an agency user as the HTML alternative of its plain text
+ * @param text - Message text
+ * @returns HTML document
+ */
+export const textToHtml = (text: string): string => `<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"></head>
+<body style="font-family:Arial,Helvetica,sans-serif;line-height:1.5;color:#333333">
+${escapeHtml(text).replace(/\r?\n/g, '<br>\n')}
+</body>
+</html>
+`;
@@ -0,0 +1,6 @@
+/**
+ * Escapes user input so it can be used literally inside a MongoDB `$regex`
+ * @param value - Raw search term
+ * @returns Escaped search term
+ */
+export const escapeRegex = (value: string): string => value.replace(/[$()*+.?[\\\]^{|}]/g, '\\$&');
@@ -0,0 +1,188 @@
+import crypto from 'node:crypto';
+
+const CRLF = '\r\n';
+// Long headers continue on lines starting with whitespace
+const FOLD = `${CRLF} `;
+// RFC 2045 limits encoded lines to 76 characters
+const BASE64_LINE_LENGTH = 76;
+// Encoded words may not exceed 75 characters, which leaves room for 45 bytes of UTF-8
+const ENCODED_WORD_MAX_BYTES = 45;
+const BOUNDARY_RANDOM_BYTES = 12;
+const MESSAGE_ID_RANDOM_BYTES = 16;
+const NON_PRINTABLE_ASCII = /[^ -~]/;
+// RFC 5322 specials, which must be quoted in a plain-ASCII display name
+const ADDRESS_SPECIALS = /[(),.:;<>@[\]]/;
+
+export interface IMimeAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface IMimeMessage {
+  from: string;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+  messageId: string;
+  // Message-ID of the message this one answers, and of the whole thread before it
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: IMimeAttachment[];
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded words when it is not plain ASCII,
+ * without splitting a character across words
+ * @param value - Header value
+ * @returns Value safe to use in a header
+ */
+export const encodeHeaderValue = (value: string): string => {
+  if (!NON_PRINTABLE_ASCII.test(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let word = '';
+  for (const character of value) {
+    if (Buffer.byteLength(word + character) > ENCODED_WORD_MAX_BYTES) {
+      words.push(word);
+      word = '';
+    }
+    word += character;
+  }
+  words.push(word);
+  return words.map((chunk) => `=?UTF-8?B?${Buffer.from(chunk).toString('base64')}?=`).join(FOLD);
+};
+
+/**
+ * Encode an address header such as `Agency Name <desk@agency.com>`, leaving the
+ * address itself untouched
+ * @param address - Address with an optional display name
+ * @returns Header value
+ */
+const encodeAddress = (address: string): string => {
+  const match = /^(.*?)\s*<([^>]+)>$/.exec(address.trim());
+  if (!match) {
+    return address.trim();
+  }
+  const name = match[1].replace(/^"|"$/g, '');
+  if (!name) {
+    return `<${match[2]}>`;
+  }
+  const displayName =
+    ADDRESS_SPECIALS.test(name) && !NON_PRINTABLE_ASCII.test(name)
+      ? `"${name.replace(/["\\]/g, '')}"`
+      : encodeHeaderValue(name);
+  return `${displayName} <${match[2]}>`;
+};
+
+/**
+ * Read the bare email address out of an address header value
+ * @param address - Address with an optional display name
+ * @returns Email address
+ */
+export const extractEmailAddress = (address: string): string => /<([^>]+)>/.exec(address)?.[1] ?? address.trim();
+
+/**
+ * Create a globally unique Message-ID for mail sent from an address
+ * @param from - Sender address, whose domain ends the ID
+ * @returns Message-ID including its angle brackets
+ */
+export const createMessageId = (from: string): string => {
+  const domain = extractEmailAddress(from).split('@')[1] || 'localhost';
+  return `<${crypto.randomBytes(MESSAGE_ID_RANDOM_BYTES).toString('hex')}@${domain}>`;
+};
+
+/**
+ * Base64-encode a body part, wrapped at the RFC 2045 line length
+ * @param content - Part content
+ * @returns Encoded lines
+ */
+const toBase64Lines = (content: string | Buffer): string =>
+  (
+    Buffer.from(content)
+      .toString('base64')
+      .match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g')) ?? []
+  ).join(CRLF);
+
+const createBoundary = (): string => `=_${crypto.randomBytes(BOUNDARY_RANDOM_BYTES).toString('hex')}`;
+
+/**
+ * Join body parts into a multipart body
+ * @param boundary - Boundary separating the parts
+ * @param parts - Parts, each with its own headers
+ * @returns Multipart body
+ */
+const joinParts = (boundary: string, parts: string[]): string =>
+  [...parts.map((part) => `--${boundary}${CRLF}${part}`), `--${boundary}--`, ''].join(CRLF);
+
+const textPart = (contentType: string, content: string): string =>
+  [`Content-Type: ${contentType}; charset=UTF-8`, 'Content-Transfer-Encoding: base64', '', toBase64Lines(content)].join(
+    CRLF,
+  );
+
+/**
+ * Encode an attachment part; non-ASCII file names use RFC 2231 encoding
+ * @param attachment - File to attach
+ * @returns Body part
+ */
+const attachmentPart = (attachment: IMimeAttachment): string => {
+  const filename = NON_PRINTABLE_ASCII.test(attachment.filename)
+    ? `filename*=UTF-8''${encodeURIComponent(attachment.filename)}`
+    : `filename="${attachment.filename.replace(/["\\]/g, '')}"`;
+  return [
+    `Content-Type: ${attachment.contentType}`,
+    `Content-Disposition: attachment; ${filename}`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64Lines(attachment.content),
+  ].join(CRLF);
+};
+
+/**
+ * Build the headers of a message, leaving out the optional ones it does not use
+ * @param message - Message to serialize
+ * @param date - Date header of the message
+ * @returns Header lines
+ */
+const buildHeaders = (message: IMimeMessage, date: Date): string[] => [
+  `From: ${encodeAddress(message.from)}`,
+  `To: ${message.to.map(encodeAddress).join(', ')}`,
+  ...(message.replyTo ? [`Reply-To: ${encodeAddress(message.replyTo)}`] : []),
+  `Subject: ${encodeHeaderValue(message.subject)}`,
+  `Date: ${date.toUTCString()}`,
+  `Message-ID: ${message.messageId}`,
+  ...(message.inReplyTo ? [`In-Reply-To: ${message.inReplyTo}`] : []),
+  ...(message.references?.length ? [`References: ${message.references.join(FOLD)}`] : []),
+  'MIME-Version: 1.0',
+];
+
+/**
+ * Serialize a message as an RFC 5322 document with plain text and HTML alternatives,
+ * wrapped in a multipart/mixed body when it has attachments
+ * @param message - Message to serialize
+ * @param date - Date header of the message
+ * @returns Raw message, ready for SMTP DATA or an .eml file
+ */
+export const buildMimeMessage = (message: IMimeMessage, date = new Date()): string => {
+  const alternativeBoundary = createBoundary();
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    '',
+    joinParts(alternativeBoundary, [textPart('text/plain', message.text), textPart('text/html', message.html)]),
+  ].join(CRLF);
+
+  let body = alternative;
+  if (message.attachments?.length) {
+    const mixedBoundary = createBoundary();
+    body = [
+      `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+      '',
+      joinParts(mixedBoundary, [alternative, ...message.attachments.map(attachmentPart)]),
+    ].join(CRLF);
+  }
+  return [...buildHeaders(message, date), body].join(CRLF);
+};
@@ -0,0 +1,324 @@
+import { IMimeAttachment } from './mime';
+
+const HEX_RADIX = 16;
+const DEFAULT_CHARSET = 'utf8';
+const ENCODED_WORD = /=\?([^?]+)\?([BQbq])\?([^?]*)\?=/g;
+// Whitespace between two encoded words is not part of the text (RFC 2047, section 6.2)
+const SPACE_BETWEEN_ENCODED_WORDS = /(\?=)\s+(=\?)/g;
+const MESSAGE_ID = /<[^<>]+>/g;
+const HTML_ENTITIES = new Map([
+  ['&nbsp;', ' '],
+  ['&amp;', '&'],
+  ['&lt;', '<'],
+  ['&gt;', '>'],
+  ['&quot;', '"'],
+  ['&#39;', "'"],
+]);
+
+export interface IParsedAddress {
+  name: string;
+  address: string;
+}
+
+export interface IParsedEmail {
+  from: IParsedAddress | null;
+  to: string[];
+  cc: string[];
+  subject: string;
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  date: Date | null;
+  text: string;
+  html?: string;
+  attachments: IMimeAttachment[];
+}
+
+interface IMimePart {
+  headers: Map<string, string>;
+  // Body in latin1, one character per byte, so binary content survives until it is decoded
+  body: string;
+}
+
+interface IHeaderValue {
+  value: string;
+  params: Map<string, string>;
+}
+
+/**
+ * Decode bytes in a charset, falling back to UTF-8 for charsets the runtime does not know
+ * @param bytes - Encoded text
+ * @param charset - Charset named by the message
+ * @returns Text
+ */
+const decodeCharset = (bytes: Buffer, charset = DEFAULT_CHARSET): string => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder(DEFAULT_CHARSET).decode(bytes);
+  }
+};
+
+/**
+ * Decode quoted-printable content (RFC 2045), dropping soft line breaks
+ * @param content - Encoded content
+ * @returns Decoded bytes
+ */
+const decodeQuotedPrintable = (content: string): Buffer => {
+  const bytes: number[] = [];
+  const unfolded = content.replace(/=\r?\n/g, '');
+  for (let index = 0; index < unfolded.length; index++) {
+    const hex = unfolded.slice(index + 1, index + 1 + 2);
+    if (unfolded.charAt(index) === '=' && /^[\dA-Fa-f]{2}$/.test(hex)) {
+      bytes.push(Number.parseInt(hex, HEX_RADIX));
+      index += 2;
+    } else {
+      bytes.push(unfolded.codePointAt(index) ?? 0);
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Decode RFC 2047 encoded words in a header; raw 8-bit headers are read as UTF-8
+ * @param value - Header value, as latin1
+ * @returns Decoded header value
+ */
+export const decodeHeaderValue = (value: string): string =>
+  decodeCharset(Buffer.from(value, 'latin1'))
+    .replace(SPACE_BETWEEN_ENCODED_WORDS, '$1$2')
+    .replace(ENCODED_WORD, (_word, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toUpperCase() === 'B' ? Buffer.from(text, 'base64') : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset);
+    });
+
+/**
+ * Split a value on a separator, ignoring separators inside quotes or angle brackets
+ * @param value - Header value
+ * @param separator - Separator character
+ * @returns Trimmed, non-empty pieces
+ */
+const splitOutsideQuotes = (value: string, separator: string): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  let quoted = false;
+  let bracketed = false;
+  for (const character of value) {
+    if (character === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (character === '<' || character === '>')) {
+      bracketed = character === '<';
+    }
+    if (character === separator && !quoted && !bracketed) {
+      pieces.push(current);
+      current = '';
+    } else {
+      current += character;
+    }
+  }
+  return [...pieces, current].map((piece) => piece.trim()).filter(Boolean);
+};
+
+// Percent-encoded bytes become latin1 characters, like the rest of the raw header
+const decodePercentEncoding = (value: string): string =>
+  value.replace(/%([\dA-Fa-f]{2})/g, (_escape, hex: string) => String.fromCodePoint(Number.parseInt(hex, HEX_RADIX)));
+
+/**
+ * Read a structured header such as `text/plain; charset="utf-8"` into its value and
+ * parameters, joining RFC 2231 continuations and decoding extended values
+ * @param header - Header value
+ * @returns Lowercase value and parameters by lowercase name
+ */
+const parseHeaderValue = (header = ''): IHeaderValue => {
+  const [value = '', ...parameters] = splitOutsideQuotes(header, ';');
+  const pieces = new Map<string, string>();
+  for (const parameter of parameters) {
+    const separator = parameter.indexOf('=');
+    if (separator > 0) {
+      const name = parameter.slice(0, separator).trim().toLowerCase();
+      pieces.set(
+        name,
+        parameter
+          .slice(separator + 1)
+          .trim()
+          .replace(/^"|"$/g, ''),
+      );
+    }
+  }
+
+  const params = new Map<string, string>();
+  for (const [name, piece] of [...pieces].sort(([a], [b]) => a.localeCompare(b, 'en', { numeric: true }))) {
+    // `name*` is an extended value and `name*0`, `name*1`... are continuations
+    const [base] = name.split('*');
+    const decoded = name.endsWith('*') ? decodePercentEncoding(piece.replace(/^[^']*'[^']*'/, '')) : piece;
+    params.set(base, (params.get(base) ?? '') + decoded);
+  }
+  return { value: value.toLowerCase(), params };
+};
+
+/**
+ * Read the headers of a message or body part; folded lines are joined and, for
+ * repeated headers, the first one wins
+ * @param text - Header block
+ * @returns Headers by lowercase name
+ */
+const parseHeaders = (text: string): Map<string, string> => {
+  const headers = new Map<string, string>();
+  for (const line of text.replace(/\r?\n[\t ]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (separator > 0 && !headers.has(name)) {
+      headers.set(name, line.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+};
+
+const parsePart = (raw: string): IMimePart => {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  if (!separator) {
+    return { headers: parseHeaders(raw), body: '' };
+  }
+  return {
+    headers: parseHeaders(raw.slice(0, separator.index)),
+    body: raw.slice(separator.index + separator[0].length),
+  };
+};
+
+/**
+ * Split a multipart body into its parts, leaving out the preamble and epilogue
+ * @param body - Multipart body
+ * @param boundary - Boundary named by the Content-Type header
+ * @returns Raw parts
+ */
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const [, ...sections] = `\r\n${body}`.split(`\n--${boundary}`);
+  const parts: string[] = [];
+  for (const section of sections) {
+    if (section.startsWith('--')) {
+      break;
+    }
+    // Drop the rest of the boundary line and the line break that belongs to the next boundary
+    parts.push(section.replace(/^[^\n]*\n/, '').replace(/\r?$/, ''));
+  }
+  return parts;
+};
+
+const decodeBody = (part: IMimePart): Buffer => {
+  const encoding = part.headers.get('content-transfer-encoding')?.toLowerCase();
+  if (encoding === 'base64') {
+    return Buffer.from(part.body.replace(/\s/g, ''), 'base64');
+  }
+  if (encoding === 'quoted-printable') {
+    return decodeQuotedPrintable(part.body);
+  }
+  return Buffer.from(part.body, 'latin1');
+};
+
+/**
+ * Keep a body part as the plain text or HTML body when it is the first of its
+ * kind, and as an attachment otherwise
+ * @param part - Body part that is not multipart
+ * @param contentType - Parsed Content-Type of the part
+ * @param email - Parsed email being filled in
+ */
+const collectLeaf = (part: IMimePart, contentType: IHeaderValue, email: IParsedEmail): void => {
+  const disposition = parseHeaderValue(part.headers.get('content-disposition'));
+  const filename = disposition.params.get('filename') ?? contentType.params.get('name');
+  const charset = contentType.params.get('charset');
+  const isBody = disposition.value !== 'attachment' && !filename;
+  if (isBody && contentType.value === 'text/plain') {
+    email.text ||= decodeCharset(decodeBody(part), charset);
+  } else if (isBody && contentType.value === 'text/html') {
+    email.html ??= decodeCharset(decodeBody(part), charset);
+  } else {
+    email.attachments.push({
+      filename: decodeHeaderValue(filename ?? 'attachment'),
+      contentType: contentType.value,
+      content: decodeBody(part),
+    });
+  }
+};
+
+/**
+ * Walk a body part, collecting the first plain text and HTML bodies and every attachment
+ * @param part - Body part
+ * @param email - Parsed email being filled in
+ */
+const collectPart = (part: IMimePart, email: IParsedEmail): void => {
+  const contentType = parseHeaderValue(part.headers.get('content-type') ?? 'text/plain');
+  const boundary = contentType.params.get('boundary');
+  if (!contentType.value.startsWith('multipart/')) {
+    collectLeaf(part, contentType, email);
+    return;
+  }
+  for (const child of boundary ? splitMultipart(part.body, boundary) : []) {
+    collectPart(parsePart(child), email);
+  }
+};
+
+/**
+ * Reduce an HTML body to text, for emails sent without a plain text alternative
+ * @param html - HTML body
+ * @returns Text
+ */
+const htmlToText = (html: string): string =>
+  html
+    .replace(/<(style|script)[\S\s]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr|h\d)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => HTML_ENTITIES.get(entity) ?? entity)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Read a mailbox such as `"Asha Rao" <asha@example.com>`
+ * @param value - Decoded address header value
+ * @returns Display name and lowercase address
+ */
+export const parseAddress = (value: string): IParsedAddress => {
+  const match = /^(.*?)\s*<([^>]+)>$/.exec(value.trim());
+  const address = (match ? match[2] : value).trim().toLowerCase();
+  const name = (match ? match[1] : '').replace(/^"|"$/g, '').trim();
+  return { name, address };
+};
+
+const parseAddressList = (value = ''): string[] =>
+  splitOutsideQuotes(decodeHeaderValue(value), ',')
+    .map((address) => parseAddress(address).address)
+    .filter((address) => address.includes('@'));
+
+const parseDate = (value?: string): Date | null => {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+};
+
+const firstMessageId = (value?: string): string | null => value?.match(MESSAGE_ID)?.[0] ?? null;
+
+/**
+ * Parse a raw RFC 5322 message, as posted by a mail relay, into its addresses,
+ * threading headers, bodies and attachments
+ * @param raw - Raw message
+ * @returns Parsed email
+ */
+export const parseMimeMessage = (raw: Buffer): IParsedEmail => {
+  const root = parsePart(raw.toString('latin1'));
+  const { headers } = root;
+  const from = headers.get('from');
+  const email: IParsedEmail = {
+    from: from ? parseAddress(decodeHeaderValue(from)) : null,
+    to: parseAddressList(headers.get('to')),
+    cc: parseAddressList(headers.get('cc')),
+    subject: decodeHeaderValue(headers.get('subject') ?? ''),
+    messageId: firstMessageId(headers.get('message-id')),
+    inReplyTo: firstMessageId(headers.get('in-reply-to')),
+    references: headers.get('references')?.match(MESSAGE_ID) ?? [],
+    date: parseDate(headers.get('date')),
+    text: '',
+    attachments: [],
+  };
+  collectPart(root, email);
+  email.text = email.text.trim() || htmlToText(email.html ?? '');
+  return email;
+};
@@ -0,0 +1,64 @@
+import { PermissionScope } from '../../types/enum/permission';
+
+export const WILDCARD = '*';
+const MANAGE_ACTION = 'manage';
+const SEPARATOR = ':';
+
+export interface IParsedPermission {
+  resource: string;
+  action: string;
+  scope: PermissionScope;
+}
+
+/**
+ * Split a grant such as `leads:update:own` into its parts. `*` covers every resource and action.
+ * @param permission - Permission grant
+ * @returns Resource, action and scope of the grant
+ */
+export const parsePermission = (permission: string): IParsedPermission => {
+  if (permission === WILDCARD) {
+    return { resource: WILDCARD, action: WILDCARD, scope: PermissionScope.ANY };
+  }
+
+  const [resource = '', action = '', scope] = permission.split(SEPARATOR);
+  return { resource, action, scope: scope === PermissionScope.OWN ? PermissionScope.OWN : PermissionScope.ANY };
+};
+
+/**
+ * Whether a grant covers an action on a resource, ignoring its scope.
+ * `*` and `resource:*` cover every action, and so does `manage`.
+ * @param grant - Parsed permission grant
+ * @param resource - Resource being accessed
+ * @param action - Action being performed
+ * @returns True when the grant covers the action
+ */
+const grantCovers = (grant: IParsedPermission, resource: string, action: string): boolean =>
+  (grant.resource === WILDCARD || grant.resource === resource) &&
+  (grant.action === WILDCARD || grant.action === MANAGE_ACTION || grant.action === action);
+
+/**
+ * Resolve the widest scope a set of grants gives for an action on a resource
+ * @param permissions - Permission grants of a role
+ * @param resource - Resource being accessed
+ * @param action - Action being performed
+ * @returns ANY when some grant is unrestricted, OWN when only owner-scoped grants match, otherwise null
+ */
+export const resolvePermissionScope = (
+  permissions: string[],
+  resource: string,
+  action: string,
+): PermissionScope | null => {
+  let scope: PermissionScope | null = null;
+
+  for (const grant of permissions.map(parsePermission)) {
+    if (!grantCovers(grant, resource, action)) {
+      continue;
+    }
+    if (grant.scope === PermissionScope.ANY) {
+      return PermissionScope.ANY;
+    }
+    scope = PermissionScope.OWN;
+  }
+
+  return scope;
+};
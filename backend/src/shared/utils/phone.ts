@@ -0,0 +1,40 @@
+// Numbers are matched on their last digits, which leaves out country codes and trunk prefixes
+const PHONE_MATCH_DIGITS = 10;
+
+/**
+ * Keep only the digits of a phone number
+ * @param phone - Phone number as typed, e.g. `+91 98765-43210`
+ * @returns Digits
+ */
+export const toPhoneDigits = (phone: string): string => phone.replace(/\D/g, '');
+
+/**
+ * Write a phone number as the digits of its international form, which messaging
+ * APIs expect: numbers starting with `+` or `00` keep their country code, others
+ * lose their trunk prefix and get the default country code
+ * @param phone - Phone number as typed
+ * @param defaultCountryCode - Country code of numbers saved without one
+ * @returns Country code and number as digits, e.g. `919876543210`
+ */
+export const toInternationalDigits = (phone: string, defaultCountryCode: string): string => {
+  const trimmed = phone.trim();
+  const digits = toPhoneDigits(trimmed);
+  if (trimmed.startsWith('+')) {
+    return digits;
+  }
+  if (digits.startsWith('00')) {
+    return digits.slice(2);
+  }
+  return `${toPhoneDigits(defaultCountryCode)}${digits.replace(/^0+/, '')}`;
+};
+
+/**
+ * Build a MongoDB `$regex` that finds a phone number however it was typed, by its
+ * last digits with any separators between them
+ * @param phone - Phone number, e.g. `919876543210` from a messaging provider
+ * @returns Pattern, e.g. `9\D*8\D*...\D*0\D*$`
+ */
+export const phoneNumberPattern = (phone: string): string =>
+  `${toPhoneDigits(phone)
+    .slice(-PHONE_MATCH_DIGITS)
+    .replace(/(\d)(?=\d)/g, '$1\\D*')}\\D*$`;
@@ -0,0 +1,44 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { Request } from 'express';
+
+interface IRequestContext {
+  req: Request;
+  // Set when the request acts on behalf of the application rather than a user
+  system?: boolean;
+}
+
+const storage = new AsyncLocalStorage<IRequestContext>();
+
+/**
+ * Run the rest of a request's handling with the request available to code that
+ * is not handed it, such as model hooks
+ * @param req - Express request
+ * @param proceed - Continues the request, usually `next`
+ */
+export const runWithRequest = (req: Request, proceed: () => void): void => {
+  storage.run({ req }, proceed);
+};
+
+/**
+ * Returns the request being handled, if any
+ * @returns Current request or null outside of a request, e.g. in background jobs
+ */
+export const getCurrentRequest = (): Request | null => storage.getStore()?.req ?? null;
+
+/**
+ * Mark the request being handled as made by the application itself, such as a
+ * webhook call, so its record changes are attributed to the system
+ */
+export const markSystemRequest = (): void => {
+  const context = storage.getStore();
+  if (context) {
+    context.system = true;
+  }
+};
+
+/**
+ * Whether the request being handled was marked as made by the application
+ * @returns True for system requests
+ */
+export const isSystemRequest = (): boolean => storage.getStore()?.system ?? false;
@@ -0,0 +1,55 @@
+import { SmsEncoding } from '../../types/enum/sms';
+
+// GSM 03.38 basic character set; each character takes one septet
+const GSM_BASIC_CHARACTERS = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà',
+);
+// Extension table characters are escaped, so each takes two septets
+const GSM_EXTENDED_CHARACTERS = new Set('\f^{}\\[~]|€');
+
+const GSM_SINGLE_SEGMENT_LENGTH = 160;
+// Split messages lose room to the concatenation header
+const GSM_MULTI_SEGMENT_LENGTH = 153;
+const UCS2_SINGLE_SEGMENT_LENGTH = 70;
+const UCS2_MULTI_SEGMENT_LENGTH = 67;
+
+export interface ISmsSegments {
+  encoding: SmsEncoding;
+  // Septets for GSM-7, UTF-16 code units for UCS-2
+  length: number;
+  segments: number;
+  // Room in each segment at this length
+  segmentLength: number;
+}
+
+const toSegments = (encoding: SmsEncoding, length: number, single: number, multi: number): ISmsSegments => {
+  const isSplit = length > single;
+  return {
+    encoding,
+    length,
+    segments: isSplit ? Math.ceil(length / multi) : Math.min(length, 1),
+    segmentLength: isSplit ? multi : single,
+  };
+};
+
+/**
+ * Work out how an SMS is encoded and how many segments it is billed as. A single
+ * character outside the GSM alphabet, such as any Hindi letter, switches the whole
+ * message to UCS-2.
+ * @param text - Message text
+ * @returns Encoding, length in that encoding and number of segments
+ */
+export const countSmsSegments = (text: string): ISmsSegments => {
+  let septets = 0;
+  for (const character of text) {
+    if (GSM_BASIC_CHARACTERS.has(character)) {
+      septets += 1;
+    } else if (GSM_EXTENDED_CHARACTERS.has(character)) {
+      septets += 2;
+    } else {
+      // Characters outside the Basic Multilingual Plane, such as emoji, take two code units
+      return toSegments(SmsEncoding.UCS_2, text.length, UCS2_SINGLE_SEGMENT_LENGTH, UCS2_MULTI_SEGMENT_LENGTH);
+    }
+  }
+  return toSegments(SmsEncoding.GSM_7, septets, GSM_SINGLE_SEGMENT_LENGTH, GSM_MULTI_SEGMENT_LENGTH);
+};
@@ -0,0 +1,214 @@
+import { once } from 'node:events';
+import net from 'node:net';
+import os from 'node:os';
+import tls from 'node:tls';
+
+// Reply codes of RFC 5321 and RFC 4954 the client waits for
+const SERVICE_READY = 220;
+const SERVICE_CLOSING = 221;
+const AUTH_SUCCEEDED = 235;
+const ACTION_OK = 250;
+const START_MAIL_INPUT = 354;
+
+const SMTP_TIMEOUT = 30_000;
+const REPLY_CODE_LENGTH = 3;
+const CRLF = '\r\n';
+
+export interface ISmtpOptions {
+  host: string;
+  port: number;
+  // Connect with implicit TLS instead of upgrading with STARTTLS
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export interface ISmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+interface ISmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * A connection to an SMTP server that sends commands one at a time and reads
+ * their (possibly multi-line) replies in order
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private readonly replies: ISmtpReply[] = [];
+  private waiting: { resolve: (reply: ISmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+  private readonly onData = (chunk: Buffer): void => this.receive(chunk.toString('utf8'));
+  private readonly onError = (error: Error): void => this.fail(error);
+  private readonly onClose = (): void => this.fail(new Error('SMTP connection closed unexpectedly'));
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.listen();
+  }
+
+  /**
+   * Send a command and check the server's reply
+   * @param line - Command line, without its line break
+   * @param expectedCode - Reply code that means success
+   * @returns Reply text
+   */
+  async command(line: string, expectedCode: number): Promise<string> {
+    this.socket.write(`${line}${CRLF}`);
+    return this.expect(expectedCode, line.split(' ')[0]);
+  }
+
+  /**
+   * Wait for the next reply and check its code
+   * @param expectedCode - Reply code that means success
+   * @param verb - Command the reply answers, for the error message
+   * @returns Reply text
+   */
+  async expect(expectedCode: number, verb: string): Promise<string> {
+    const reply = await this.read();
+    if (reply.code !== expectedCode) {
+      // Only the verb is reported, so credentials never reach the logs
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply.text;
+  }
+
+  /**
+   * Switch the connection to TLS after the server accepted STARTTLS
+   * @param servername - Host name the certificate must match
+   */
+  async upgrade(servername: string): Promise<void> {
+    this.unlisten();
+    const secureSocket = tls.connect({ socket: this.socket, servername });
+    await once(secureSocket, 'secureConnect');
+    this.socket = secureSocket;
+    this.listen();
+  }
+
+  close(): void {
+    this.unlisten();
+    this.socket.destroy();
+  }
+
+  private listen(): void {
+    this.socket.on('data', this.onData);
+    this.socket.on('error', this.onError);
+    this.socket.on('close', this.onClose);
+    this.socket.setTimeout(SMTP_TIMEOUT, () => this.socket.destroy(new Error('SMTP connection timed out')));
+  }
+
+  private unlisten(): void {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+    this.socket.setTimeout(0);
+  }
+
+  private read(): Promise<ISmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  // Lines of a multi-line reply have a hyphen after the code, the last one a space
+  private receive(data: string): void {
+    this.buffer += data;
+    const lines = this.buffer.split(CRLF);
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      this.replyLines.push(line.slice(REPLY_CODE_LENGTH + 1));
+      if (line.charAt(REPLY_CODE_LENGTH) !== '-') {
+        this.deliver({ code: Number(line.slice(0, REPLY_CODE_LENGTH)), text: this.replyLines.join('\n') });
+        this.replyLines = [];
+      }
+    }
+  }
+
+  private deliver(reply: ISmtpReply): void {
+    if (this.waiting) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting?.reject(this.failure);
+    this.waiting = null;
+  }
+}
+
+/**
+ * Open a plain or TLS connection to the server
+ * @param options - Server settings
+ * @returns Connection once the socket is up
+ */
+const connect = async (options: ISmtpOptions): Promise<SmtpConnection> => {
+  const socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port });
+  const connection = new SmtpConnection(socket);
+  await connection.expect(SERVICE_READY, 'CONNECT');
+  return connection;
+};
+
+/**
+ * Say EHLO, upgrade to TLS when the server offers it, and authenticate
+ * @param connection - Connection that received the greeting
+ * @param options - Server settings
+ */
+const startSession = async (connection: SmtpConnection, options: ISmtpOptions): Promise<void> => {
+  const hello = `EHLO ${os.hostname()}`;
+  const capabilities = await connection.command(hello, ACTION_OK);
+  if (!options.secure && /^starttls$/im.test(capabilities)) {
+    await connection.command('STARTTLS', SERVICE_READY);
+    await connection.upgrade(options.host);
+    await connection.command(hello, ACTION_OK);
+  }
+  if (options.user) {
+    const credentials = Buffer.from(`\u0000${options.user}\u0000${options.password ?? ''}`).toString('base64');
+    await connection.command(`AUTH PLAIN ${credentials}`, AUTH_SUCCEEDED);
+  }
+};
+
+/**
+ * Deliver a message to an SMTP server (RFC 5321) in a session of its own
+ * @param options - Server settings
+ * @param envelope - Sender and recipient addresses
+ * @param rawMessage - RFC 5322 message ending with a line break
+ */
+export const sendSmtpMail = async (
+  options: ISmtpOptions,
+  envelope: ISmtpEnvelope,
+  rawMessage: string,
+): Promise<void> => {
+  const connection = await connect(options);
+  try {
+    await startSession(connection, options);
+    await connection.command(`MAIL FROM:<${envelope.from}>`, ACTION_OK);
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, ACTION_OK);
+    }
+    await connection.command('DATA', START_MAIL_INPUT);
+    // Lines starting with a dot are doubled so they are not read as the end of data
+    await connection.command(`${rawMessage.replace(/^\./gm, '..')}.`, ACTION_OK);
+    await connection.command('QUIT', SERVICE_CLOSING);
+  } finally {
+    connection.close();
+  }
+};
@@ -0,0 +1,122 @@
+import crypto from 'node:crypto';
+
+import { MILLISECONDS_IN_SECOND } from '../constant/timeValues';
+
+// RFC 6238 defaults understood by every authenticator app
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_SECRET_BYTES = 20;
+// Accept the previous and next step to absorb clock drift
+const TOTP_DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const BITS_PER_BYTE = 8;
+const BITS_PER_BASE32_CHAR = 5;
+const BASE32_CHAR_MASK = 0b1_1111;
+const BYTE_MASK = 255;
+const COUNTER_BYTES = 8;
+const DYNAMIC_OFFSET_MASK = 15;
+const TRUNCATION_MASK = 2_147_483_647; // 0x7fffffff, drops the sign bit
+const DECIMAL_BASE = 10;
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << BITS_PER_BYTE) | byte;
+    bits += BITS_PER_BYTE;
+    while (bits >= BITS_PER_BASE32_CHAR) {
+      output += BASE32_ALPHABET.charAt((value >>> (bits - BITS_PER_BASE32_CHAR)) & BASE32_CHAR_MASK);
+      bits -= BITS_PER_BASE32_CHAR;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET.charAt((value << (BITS_PER_BASE32_CHAR - bits)) & BASE32_CHAR_MASK);
+  }
+  return output;
+};
+
+const base32Decode = (encoded: string): Buffer => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of encoded.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << BITS_PER_BASE32_CHAR) | index;
+    bits += BITS_PER_BASE32_CHAR;
+    if (bits >= BITS_PER_BYTE) {
+      bytes.push((value >>> (bits - BITS_PER_BYTE)) & BYTE_MASK);
+      bits -= BITS_PER_BYTE;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const generateCode = (secret: Buffer, step: number): string => {
+  const counter = Buffer.alloc(COUNTER_BYTES);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac.readUInt8(hmac.length - 1) & DYNAMIC_OFFSET_MASK;
+  const binary = hmac.readUInt32BE(offset) & TRUNCATION_MASK;
+
+  return (binary % DECIMAL_BASE ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Current TOTP time step
+ * @returns Number of periods elapsed since the Unix epoch
+ */
+export const currentTotpStep = (): number => Math.floor(Date.now() / MILLISECONDS_IN_SECOND / TOTP_PERIOD_SECONDS);
+
+/**
+ * Generates a random base32 TOTP secret
+ * @returns Base32 encoded secret
+ */
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(TOTP_SECRET_BYTES));
+
+/**
+ * Builds the otpauth:// URI that authenticator apps read from a QR code
+ * @param secret - Base32 encoded secret
+ * @param accountName - Account label, usually the user's email
+ * @param issuer - Name of the service shown in the app
+ * @returns Provisioning URI
+ */
+export const buildTotpUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Finds the time step a code was generated for, within the allowed drift
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @returns Matching time step, or null when the code is wrong
+ */
+export const matchTotpStep = (secret: string, code: string): number | null => {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = currentTotpStep();
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(generateCode(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+};
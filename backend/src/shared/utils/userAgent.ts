@@ -0,0 +1,35 @@
+// Ordered most specific first: Edge and Opera also announce Chrome, Chrome announces Safari
+const BROWSERS: ReadonlyArray<[RegExp, string]> = [
+  [/edg(?:e|a|ios)?\//i, 'Edge'],
+  [/opr\/|opera/i, 'Opera'],
+  [/firefox\/|fxios\//i, 'Firefox'],
+  [/chrome\/|crios\//i, 'Chrome'],
+  [/safari\//i, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: ReadonlyArray<[RegExp, string]> = [
+  [/windows/i, 'Windows'],
+  [/android/i, 'Android'],
+  [/iphone|ipad|ipod/i, 'iOS'],
+  [/mac os x|macintosh/i, 'macOS'],
+  [/cros/i, 'ChromeOS'],
+  [/linux/i, 'Linux'],
+];
+
+const matchName = (userAgent: string, candidates: ReadonlyArray<[RegExp, string]>): string | null =>
+  candidates.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+/**
+ * Builds a short human readable device label such as "Chrome on Windows"
+ * @param userAgent - Raw User-Agent header
+ * @returns Device label, "Unknown device" when nothing is recognised
+ */
+export const describeDevice = (userAgent: string): string => {
+  const browser = matchName(userAgent, BROWSERS);
+  const os = matchName(userAgent, OPERATING_SYSTEMS);
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser ?? os ?? 'Unknown device';
+};
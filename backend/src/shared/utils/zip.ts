@@ -0,0 +1,232 @@
+import { pipeline, Readable } from 'node:stream';
+import zlib from 'node:zlib';
+
+// ZIP record signatures and header values (PKWARE APPNOTE)
+const LOCAL_FILE_HEADER_SIGNATURE = 67_324_752;
+const DATA_DESCRIPTOR_SIGNATURE = 134_695_760;
+const CENTRAL_DIRECTORY_SIGNATURE = 33_639_248;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 101_010_256;
+const ZIP_VERSION = 20;
+// UTF-8 names, with the checksum and sizes in a data descriptor after the content
+const UTF8_NAMES_FLAG = 2048;
+const DATA_DESCRIPTOR_FLAG = 8;
+const DEFLATE_METHOD = 8;
+
+const UINT16_BYTES = 2;
+const UINT32_BYTES = 4;
+
+// CRC-32 as used by ZIP: reflected polynomial, all-ones initial value and final XOR
+const CRC32_POLYNOMIAL = 3_988_292_384;
+const CRC32_INITIAL = 4_294_967_295;
+const BITS_PER_BYTE = 8;
+const BYTE_MASK = 255;
+const CRC32_TABLE = Array.from({ length: BYTE_MASK + 1 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < BITS_PER_BYTE; bit++) {
+    crc = crc & 1 ? CRC32_POLYNOMIAL ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+// MS-DOS timestamps count years from 1980 and seconds in two-second steps
+const DOS_EPOCH_YEAR = 1980;
+const DOS_YEAR_SHIFT = 9;
+const DOS_MONTH_SHIFT = 5;
+const DOS_HOUR_SHIFT = 11;
+const DOS_MINUTE_SHIFT = 5;
+
+// Content is either in memory or streamed in chunks, such as records read from a cursor
+export interface IZipEntry {
+  name: string;
+  content: string | Buffer | AsyncIterable<string | Buffer>;
+}
+
+type HeaderField = [value: number, bytes: typeof UINT16_BYTES | typeof UINT32_BYTES];
+
+// Checksum and sizes of a file, known once its content has been compressed
+interface IEntryTotals {
+  crc: number;
+  size: number;
+  compressedSize: number;
+}
+
+/**
+ * Continue a CRC-32 checksum with the next chunk of a file
+ * @param crc - Running checksum, CRC32_INITIAL for the first chunk
+ * @param data - Chunk
+ * @returns Running checksum; XOR it with CRC32_INITIAL once the file is done
+ */
+const updateCrc32 = (crc: number, data: Buffer): number => {
+  let next = crc;
+  for (const byte of data) {
+    next = (CRC32_TABLE.at((next ^ byte) & BYTE_MASK) ?? 0) ^ (next >>> BITS_PER_BYTE);
+  }
+  return next;
+};
+
+/**
+ * Write little-endian header fields one after another
+ * @param fields - Values with their width in bytes
+ * @returns Packed header
+ */
+const packFields = (fields: HeaderField[]): Buffer =>
+  Buffer.concat(
+    fields.map(([value, bytes]) => {
+      const buffer = Buffer.alloc(bytes);
+      if (bytes === UINT16_BYTES) {
+        buffer.writeUInt16LE(value);
+      } else {
+        buffer.writeUInt32LE(value);
+      }
+      return buffer;
+    }),
+  );
+
+/**
+ * Convert a date to the MS-DOS time and date fields of ZIP headers
+ * @param date - Modification date
+ * @returns DOS time and DOS date
+ */
+const toDosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << DOS_HOUR_SHIFT) | (date.getMinutes() << DOS_MINUTE_SHIFT) | Math.floor(date.getSeconds() / 2),
+  ((date.getFullYear() - DOS_EPOCH_YEAR) << DOS_YEAR_SHIFT) |
+    ((date.getMonth() + 1) << DOS_MONTH_SHIFT) |
+    date.getDate(),
+];
+
+/**
+ * Header fields shared by the local record and the central directory
+ * @param name - Encoded file name
+ * @param modifiedAt - Modification date
+ * @param totals - Checksum and sizes; zero in local records, which are written before they are known
+ * @returns Header fields
+ */
+const sharedFields = (name: Buffer, modifiedAt: Date, totals: IEntryTotals): HeaderField[] => {
+  const [dosTime, dosDate] = toDosDateTime(modifiedAt);
+  return [
+    [ZIP_VERSION, UINT16_BYTES],
+    [UTF8_NAMES_FLAG | DATA_DESCRIPTOR_FLAG, UINT16_BYTES],
+    [DEFLATE_METHOD, UINT16_BYTES],
+    [dosTime, UINT16_BYTES],
+    [dosDate, UINT16_BYTES],
+    [totals.crc, UINT32_BYTES],
+    [totals.compressedSize, UINT32_BYTES],
+    [totals.size, UINT32_BYTES],
+    [name.length, UINT16_BYTES],
+    [0, UINT16_BYTES], // extra field length
+  ];
+};
+
+const toChunks = (content: IZipEntry['content']): AsyncIterable<string | Buffer> | Iterable<string | Buffer> =>
+  typeof content === 'string' || Buffer.isBuffer(content) ? [content] : content;
+
+/**
+ * Compress a file chunk by chunk, adding up its checksum and sizes on the way
+ * @param content - File content
+ * @param totals - Checksum and sizes, updated as the file is read
+ * @yields Compressed chunks
+ */
+const deflateEntry = async function* (content: IZipEntry['content'], totals: IEntryTotals): AsyncGenerator<Buffer> {
+  let crc = CRC32_INITIAL;
+  const measure = async function* (): AsyncGenerator<Buffer> {
+    for await (const chunk of toChunks(content)) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, 'utf8');
+      crc = updateCrc32(crc, buffer);
+      totals.size += buffer.length;
+      yield buffer;
+    }
+  };
+
+  const compressed = pipeline(Readable.from(measure()), zlib.createDeflateRaw(), () => {
+    // Errors surface through the iteration below
+  });
+  for await (const chunk of compressed) {
+    totals.compressedSize += (chunk as Buffer).length;
+    yield chunk as Buffer;
+  }
+  totals.crc = (crc ^ CRC32_INITIAL) >>> 0;
+};
+
+/**
+ * Build the central directory header of a written file
+ * @param name - Encoded file name
+ * @param modifiedAt - Modification date
+ * @param totals - Checksum and sizes of the file
+ * @param offset - Position of the local record in the archive
+ * @returns Central directory header
+ */
+const centralHeader = (name: Buffer, modifiedAt: Date, totals: IEntryTotals, offset: number): Buffer =>
+  Buffer.concat([
+    packFields([
+      [CENTRAL_DIRECTORY_SIGNATURE, UINT32_BYTES],
+      [ZIP_VERSION, UINT16_BYTES], // version made by
+      ...sharedFields(name, modifiedAt, totals),
+      [0, UINT16_BYTES], // comment length
+      [0, UINT16_BYTES], // disk number
+      [0, UINT16_BYTES], // internal attributes
+      [0, UINT32_BYTES], // external attributes
+      [offset, UINT32_BYTES],
+    ]),
+    name,
+  ]);
+
+/**
+ * Write a deflate-compressed ZIP archive file by file. Only the central directory is
+ * kept in memory, so archives can be larger than the memory available as long as
+ * the entries are streamed. Files and the archive are limited to 4 GB (no ZIP64).
+ * @param entries - File names and contents, read one after another
+ * @param modifiedAt - Modification date recorded for every file
+ * @yields Archive chunks
+ */
+const writeZip = async function* (
+  entries: AsyncIterable<IZipEntry> | Iterable<IZipEntry>,
+  modifiedAt: Date,
+): AsyncGenerator<Buffer> {
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const totals: IEntryTotals = { crc: 0, size: 0, compressedSize: 0 };
+    const local = Buffer.concat([
+      packFields([[LOCAL_FILE_HEADER_SIGNATURE, UINT32_BYTES], ...sharedFields(name, modifiedAt, totals)]),
+      name,
+    ]);
+    yield local;
+    yield* deflateEntry(entry.content, totals);
+    const descriptor = packFields([
+      [DATA_DESCRIPTOR_SIGNATURE, UINT32_BYTES],
+      [totals.crc, UINT32_BYTES],
+      [totals.compressedSize, UINT32_BYTES],
+      [totals.size, UINT32_BYTES],
+    ]);
+    yield descriptor;
+
+    centrals.push(centralHeader(name, modifiedAt, totals, offset));
+    offset += local.length + totals.compressedSize + descriptor.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  yield centralDirectory;
+  yield packFields([
+    [END_OF_CENTRAL_DIRECTORY_SIGNATURE, UINT32_BYTES],
+    [0, UINT16_BYTES], // disk number
+    [0, UINT16_BYTES], // disk with the central directory
+    [centrals.length, UINT16_BYTES],
+    [centrals.length, UINT16_BYTES],
+    [centralDirectory.length, UINT32_BYTES],
+    [offset, UINT32_BYTES],
+    [0, UINT16_BYTES], // comment length
+  ]);
+};
+
+/**
+ * Stream a deflate-compressed ZIP archive
+ * @param entries - File names and contents, read one after another
+ * @param modifiedAt - Modification date recorded for every file
+ * @returns ZIP archive stream
+ */
+export const createZipStream = (
+  entries: AsyncIterable<IZipEntry> | Iterable<IZipEntry>,
+  modifiedAt = new Date(),
+): Readable => Readable.from(writeZip(entries, modifiedAt));
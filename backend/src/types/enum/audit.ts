@@ -0,0 +1,26 @@
+// Record changes captured by the audit trail
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+}
+
+// Authentication events recorded next to record changes
+export enum AuthAuditAction {
+  LOGIN = 'login',
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+}
+
+export enum AuditStatus {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
+
+// Who performed an audited action
+export enum AuditActorType {
+  USER = 'user',
+  PLATFORM_OPERATOR = 'platform_operator',
+  // The application itself, e.g. when a webhook creates or updates a lead
+  SYSTEM = 'system',
+}
@@ -0,0 +1,11 @@
+export enum SessionRevocationReason {
+  LOGOUT = 'logout',
+  LOGOUT_ALL = 'logout_all',
+  PASSWORD_RESET = 'password_reset',
+  REUSE_DETECTED = 'reuse_detected',
+  REVOKED_BY_USER = 'revoked_by_user',
+  USER_DEACTIVATED = 'user_deactivated',
+  AGENCY_SUSPENDED = 'agency_suspended',
+  AGENCY_DELETED = 'agency_deleted',
+  IMPERSONATION_ENDED = 'impersonation_ended',
+}
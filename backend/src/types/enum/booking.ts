@@ -0,0 +1,7 @@
+export enum BookingStatus {
+  DRAFT = 'draft',
+  CONFIRMED = 'confirmed',
+  PAID = 'paid',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
@@ -0,0 +1,13 @@
+export enum CommunicationChannel {
+  EMAIL = 'email',
+  PHONE = 'phone',
+  WHATSAPP = 'whatsapp',
+  SMS = 'sms',
+  IN_PERSON = 'in_person',
+  OTHER = 'other',
+}
+
+export enum CommunicationDirection {
+  INCOMING = 'incoming',
+  OUTGOING = 'outgoing',
+}
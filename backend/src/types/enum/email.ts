@@ -0,0 +1,20 @@
+export enum MailTransportType {
+  SMTP = 'smtp',
+  // Writes every message to the outbox directory as an .eml file
+  FILE = 'file',
+  // Keeps messages in process memory, for tests
+  MEMORY = 'memory',
+}
+
+export enum EmailDeliveryStatus {
+  QUEUED = 'queued',
+  SENT = 'sent',
+  FAILED = 'failed',
+}
+
+export enum EmailTemplate {
+  VERIFY_EMAIL = 'verify_email',
+  WELCOME = 'welcome',
+  PASSWORD_RESET = 'password_reset',
+  INVITATION = 'invitation',
+}
@@ -0,0 +1,26 @@
+export enum LeadStatus {
+  NEW = 'new',
+  CONTACTED = 'contacted',
+  QUALIFIED = 'qualified',
+  PROPOSAL = 'proposal',
+  NEGOTIATION = 'negotiation',
+  BOOKED = 'booked',
+  LOST = 'lost',
+}
+
+export enum LeadSource {
+  WEBSITE = 'website',
+  REFERRAL = 'referral',
+  SOCIAL = 'social',
+  EMAIL = 'email',
+  PHONE = 'phone',
+  WHATSAPP = 'whatsapp',
+  MARKETPLACE = 'marketplace',
+  OTHER = 'other',
+}
+
+export enum LeadTimelineItemType {
+  COMMUNICATION = 'communication',
+  TASK = 'task',
+  BOOKING = 'booking',
+}
@@ -0,0 +1,5 @@
+// Languages the emails an agency sends are available in
+export enum Locale {
+  EN = 'en',
+  HI = 'hi',
+}
@@ -0,0 +1,7 @@
+// How much of a resource a permission grant covers
+export enum PermissionScope {
+  // Every record of the agency
+  ANY = 'any',
+  // Only records the user owns, e.g. leads assigned to them
+  OWN = 'own',
+}
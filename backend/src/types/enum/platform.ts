@@ -0,0 +1,10 @@
+// Audit log actions of platform operators and the sessions they impersonate
+export enum PlatformAuditAction {
+  AGENCY_SUSPENDED = 'agency_suspended',
+  AGENCY_REACTIVATED = 'agency_reactivated',
+  AGENCY_DELETED = 'agency_deleted',
+  AGENCY_RESTORED = 'agency_restored',
+  IMPERSONATION_STARTED = 'impersonation_started',
+  IMPERSONATION_REQUEST = 'impersonation_request',
+  IMPERSONATION_ENDED = 'impersonation_ended',
+}
@@ -0,0 +1,20 @@
+export enum SmsProviderType {
+  TWILIO = 'twilio',
+  // Logs every message and reports it delivered, so development needs no SMS account
+  FAKE = 'fake',
+}
+
+export enum SmsEncoding {
+  // GSM 03.38 alphabet: 160 characters in one segment, 153 per segment when split
+  GSM_7 = 'GSM-7',
+  // Any other character, e.g. Hindi: 70 characters in one segment, 67 per segment when split
+  UCS_2 = 'UCS-2',
+}
+
+// Delivery states reported by SMS receipts, in the order they occur
+export enum SmsDeliveryStatus {
+  QUEUED = 'queued',
+  SENT = 'sent',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+}
@@ -0,0 +1,21 @@
+export enum TaskType {
+  CALL = 'call',
+  EMAIL = 'email',
+  MEETING = 'meeting',
+  DOCUMENT = 'document',
+  FOLLOW_UP = 'follow_up',
+  OTHER = 'other',
+}
+
+export enum TaskPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  URGENT = 'urgent',
+}
+
+export enum TaskDueBucket {
+  TODAY = 'today',
+  OVERDUE = 'overdue',
+  UPCOMING = 'upcoming',
+}
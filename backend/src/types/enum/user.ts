@@ -2,4 +2,12 @@ export enum UserRole {
   SUPER_ADMIN = 'super_admin',
   MANAGER = 'manager',
   AGENT = 'agent',
+  // Agency-defined role with its own name and permission set
+  CUSTOM = 'custom',
+}
+
+export enum InvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  REVOKED = 'revoked',
 }
@@ -0,0 +1,15 @@
+export enum WhatsAppMessageType {
+  // Free-form message, allowed inside the 24-hour session window
+  TEXT = 'text',
+  // Pre-approved template, allowed at any time
+  TEMPLATE = 'template',
+}
+
+// Delivery states reported by WhatsApp receipts, in the order they occur
+export enum WhatsAppMessageStatus {
+  ACCEPTED = 'accepted',
+  SENT = 'sent',
+  DELIVERED = 'delivered',
+  READ = 'read',
+  FAILED = 'failed',
+}
@@ -1,8 +1,37 @@
 import 'express';
 import type CustomSuccess from '../../shared/utils/customSuccess';
+import type { UserRole } from '../enum/user';
+import type { Request } from 'express';
 
 declare module 'express-serve-static-core' {
   interface Response {
     customSuccess: (customSuccess: CustomSuccess) => this;
   }
 }
+
+// Shape of `req.user` as populated by the passport JWT strategy
+export interface AuthenticatedUser {
+  id: string;
+  agency: string;
+  sessionId: string;
+  role: {
+    id: string;
+    type: UserRole;
+  };
+  // Platform operator acting as the user, for impersonation sessions
+  impersonatedBy?: string;
+}
+
+export interface AuthenticatedRequest extends Request {
+  user?: AuthenticatedUser;
+}
+
+// Shape of `req.user` as populated by the passport platform JWT strategy
+export interface PlatformOperatorUser {
+  id: string;
+  email: string;
+}
+
+export interface PlatformRequest extends Request {
+  user?: PlatformOperatorUser;
+}
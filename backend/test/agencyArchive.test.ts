@@ -0,0 +1,239 @@
+import assert from 'node:assert/strict';
+import { Readable, Writable } from 'node:stream';
+import { after, afterEach, mock, test } from 'node:test';
+import zlib from 'node:zlib';
+
+import mongoose, { Types } from 'mongoose';
+
+import { agencyService } from '../src/module/agency/agency.service';
+import { agencyArchiveService } from '../src/module/agency/agencyArchive.service';
+import { redis } from '../src/shared/config/redis';
+import { Agency, IAgency } from '../src/shared/models/agency.model';
+import { User } from '../src/shared/models/user.model';
+import { attachmentStorageService } from '../src/shared/services/attachmentStorage.service';
+import { auditService } from '../src/shared/services/audit.service';
+import { BusinessError } from '../src/shared/utils/CustomError';
+import { AuditActorType } from '../src/types/enum/audit';
+
+const DAY = 24 * 60 * 60 * 1000;
+const AGENCY_ID = new Types.ObjectId();
+const OPERATOR = { id: new Types.ObjectId().toString(), email: 'ops@platform.test' };
+const CLIENT = { ip: '203.0.113.7', userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0' };
+
+interface IUpload {
+  filename: string;
+  metadata: Record<string, unknown>;
+  content: Buffer;
+}
+
+interface IExportBucket {
+  openUploadStream: (filename: string, options: { metadata: Record<string, unknown> }) => Writable;
+}
+
+// Stands in for side effects the test does not look at
+const skip = async (): Promise<void> => {
+  // Nothing to do
+};
+
+const query = <T>(value: T): { exec: () => Promise<T> } => ({ exec: async () => value });
+
+const givenAgency = (deletion: Record<string, unknown> | null): IAgency => {
+  const agency = Agency.hydrate({ _id: AGENCY_ID, name: 'Goa Getaways', code: 'GOA', isActive: !deletion, deletion });
+  mock.method(agency, 'save', async () => agency);
+  mock.method(Agency, 'findById', (() => query(agency)) as unknown as typeof Agency.findById);
+  return agency;
+};
+
+// Serves every collection as a cursor over the given records, noting the fields selected
+const givenRecords = (records: Record<string, Record<string, unknown>[]>): Map<string, string> => {
+  const selected = new Map<string, string>();
+  for (const model of Object.values(mongoose.models)) {
+    const chain = {
+      select: (fields: string): unknown => {
+        selected.set(model.modelName, fields);
+        return chain;
+      },
+      lean: (): unknown => chain,
+      cursor: (): Readable => Readable.from(records[model.modelName] ?? []),
+    };
+    mock.method(model, 'find', (() => chain) as unknown as typeof model.find);
+  }
+  return selected;
+};
+
+// Stores what the export writes instead of sending it to GridFS
+const givenExportBucket = (): IUpload[] => {
+  const uploads: IUpload[] = [];
+  const bucket: IExportBucket = {
+    openUploadStream: (filename, { metadata }) => {
+      const chunks: Buffer[] = [];
+      const upload = new Writable({
+        write: (chunk: Buffer, encoding, done): void => {
+          chunks.push(chunk);
+          done();
+        },
+        final: (done): void => {
+          uploads.push({ filename, metadata, content: Buffer.concat(chunks) });
+          done();
+        },
+      });
+      return Object.assign(upload, { id: new Types.ObjectId() });
+    },
+  };
+  mock.method(agencyArchiveService as unknown as { bucket: () => IExportBucket }, 'bucket', () => bucket);
+  return uploads;
+};
+
+/**
+ * Read the files of a zip through its central directory
+ * @param zip - Zip archive
+ * @returns File contents by name
+ */
+const readZip = (zip: Buffer): Map<string, string> => {
+  const files = new Map<string, string>();
+  const end = zip.lastIndexOf(Buffer.from('504b0506', 'hex'));
+  let offset = zip.readUInt32LE(end + 16);
+  for (let index = 0; index < zip.readUInt16LE(end + 10); index++) {
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const local = zip.readUInt32LE(offset + 42);
+    const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+    const compressed = zip.subarray(start, start + zip.readUInt32LE(offset + 20));
+    files.set(name, (zip.readUInt16LE(offset + 10) === 8 ? zlib.inflateRawSync(compressed) : compressed).toString());
+    offset += 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+  }
+  return files;
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+after(() => {
+  redis.disconnect();
+});
+
+test('purging an agency deletes every tenant collection and the agency last', async () => {
+  const userIds = [new Types.ObjectId()];
+  const deleted: [model: string, filter: Record<string, unknown>][] = [];
+  for (const model of Object.values(mongoose.models)) {
+    mock.method(model, 'deleteMany', ((filter: Record<string, unknown>) => {
+      deleted.push([model.modelName, filter]);
+      return query({ deletedCount: 1 });
+    }) as unknown as typeof model.deleteMany);
+  }
+  mock.method(User, 'find', ((): unknown => ({ distinct: async () => userIds })) as unknown as typeof User.find);
+  mock.method(Agency, 'deleteOne', ((filter: Record<string, unknown>) => {
+    deleted.push(['Agency', filter]);
+    return query({ deletedCount: 1 });
+  }) as unknown as typeof Agency.deleteOne);
+  const removeFiles = mock.method(attachmentStorageService, 'removeAgencyFiles', skip);
+
+  await agencyArchiveService.purgeAgency(AGENCY_ID.toString());
+
+  const filter = { agency: AGENCY_ID.toString() };
+  assert.deepEqual(
+    new Map(deleted),
+    new Map<string, Record<string, unknown>>([
+      ['Session', { user: { $in: userIds } }],
+      ['Invitation', filter],
+      ['Communication', filter],
+      ['OutboundEmail', filter],
+      ['Booking', filter],
+      ['Task', filter],
+      ['Lead', filter],
+      ['AuditLog', { ...filter, actorType: { $ne: AuditActorType.PLATFORM_OPERATOR } }],
+      ['User', filter],
+      ['Role', filter],
+      ['Agency', { _id: AGENCY_ID.toString() }],
+    ]),
+  );
+  assert.deepEqual(deleted.at(-1), ['Agency', { _id: AGENCY_ID.toString() }]);
+  assert.deepEqual(removeFiles.mock.calls[0].arguments, [AGENCY_ID.toString()]);
+});
+
+test('restoring during the grace period reactivates the agency and drops its export', async () => {
+  const exportFileId = new Types.ObjectId();
+  const agency = givenAgency({
+    requestedAt: new Date(Date.now() - DAY),
+    requestedBy: new Types.ObjectId(OPERATOR.id),
+    purgeAfter: new Date(Date.now() + 29 * DAY),
+    exportFileId,
+    wasActive: true,
+  });
+  const removeExport = mock.method(agencyArchiveService, 'removeExport', skip);
+  mock.method(auditService, 'logPlatformAction', skip);
+
+  await agencyService.restoreAgency(AGENCY_ID.toString(), OPERATOR, CLIENT);
+
+  assert.equal(agency.isActive, true);
+  assert.ok(!agency.deletion);
+  assert.deepEqual(removeExport.mock.calls[0].arguments, [exportFileId]);
+});
+
+test('an agency suspended before its deletion stays suspended when restored', async () => {
+  const agency = givenAgency({
+    requestedAt: new Date(Date.now() - DAY),
+    requestedBy: new Types.ObjectId(OPERATOR.id),
+    purgeAfter: new Date(Date.now() + 29 * DAY),
+    exportFileId: new Types.ObjectId(),
+    wasActive: false,
+  });
+  mock.method(agencyArchiveService, 'removeExport', skip);
+  mock.method(auditService, 'logPlatformAction', skip);
+
+  await agencyService.restoreAgency(AGENCY_ID.toString(), OPERATOR, CLIENT);
+
+  assert.equal(agency.isActive, false);
+});
+
+test('restoring is refused once the grace period is over', async () => {
+  givenAgency({
+    requestedAt: new Date(Date.now() - 31 * DAY),
+    requestedBy: new Types.ObjectId(OPERATOR.id),
+    purgeAfter: new Date(Date.now() - DAY),
+    exportFileId: new Types.ObjectId(),
+    wasActive: true,
+  });
+
+  await assert.rejects(agencyService.restoreAgency(AGENCY_ID.toString(), OPERATOR, CLIENT), BusinessError);
+});
+
+test('the export holds each collection as JSON and CSV and expires after the purge', async () => {
+  const agency = givenAgency(null);
+  const uploads = givenExportBucket();
+  const selected = givenRecords({
+    User: [{ _id: 'u1', email: 'asha@goa.test', firstName: 'Asha' }],
+    Lead: [
+      { _id: 'l1', name: 'Ravi, Kumar', status: 'new' },
+      { _id: 'l2', name: 'Meera', phone: '+919800000000' },
+    ],
+  });
+  const expiresAt = new Date(Date.now() + 60 * DAY);
+
+  await agencyArchiveService.writeExport(agency, expiresAt);
+
+  assert.equal(uploads.length, 1);
+  assert.match(uploads[0].filename, /^GOA-export-\d+\.zip$/);
+  assert.deepEqual(uploads[0].metadata, { agency: AGENCY_ID, contentType: 'application/zip', expiresAt });
+  assert.equal(selected.get('User'), '-password -emailVerificationToken -passwordResetToken -twoFactor');
+
+  const files = readZip(uploads[0].content);
+  assert.equal(JSON.parse(files.get('agency.json') ?? '{}').agency.code, 'GOA');
+  for (const name of [
+    'users',
+    'roles',
+    'leads',
+    'tasks',
+    'bookings',
+    'communications',
+    'outboundEmails',
+    'auditLogs',
+  ]) {
+    assert.ok(files.has(`json/${name}.json`), name);
+    assert.ok(files.has(`csv/${name}.csv`), name);
+  }
+  assert.equal(JSON.parse(files.get('json/leads.json') ?? '[]').length, 2);
+  assert.deepEqual(JSON.parse(files.get('json/tasks.json') ?? ''), []);
+  assert.equal(files.get('csv/leads.csv'), '_id,name,status,phone\r\nl1,"Ravi, Kumar",new,\r\nl2,Meera,,+919800000000');
+});
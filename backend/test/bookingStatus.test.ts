@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, mock, test } from 'node:test';
+
+import { Types } from 'mongoose';
+
+import { bookingService } from '../src/module/booking/booking.service';
+import { redis } from '../src/shared/config/redis';
+import { Booking, IBooking } from '../src/shared/models/booking.model';
+import { BusinessError } from '../src/shared/utils/CustomError';
+import { BookingStatus } from '../src/types/enum/booking';
+
+const AGENCY_ID = new Types.ObjectId().toString();
+
+/**
+ * Serve a booking to the service as if it were stored, saving it in memory
+ * @param status - Current status
+ * @param stages - Payment stages as amount and paid flag
+ * @returns Booking document
+ */
+const givenBooking = (status: BookingStatus, stages: { amount: number; paid?: boolean }[]): IBooking => {
+  const booking = new Booking({
+    agency: AGENCY_ID,
+    lead: new Types.ObjectId(),
+    createdBy: new Types.ObjectId(),
+    status,
+    totalAmount: 1000,
+    paymentStages: stages.map((stage, index) => ({ name: `Stage ${index + 1}`, dueDate: new Date(), ...stage })),
+  });
+  for (const stage of stages.filter(({ paid }) => paid)) {
+    booking.paidAmount += stage.amount;
+  }
+  mock.method(bookingService, 'getBookingById', async () => booking);
+  mock.method(booking, 'save', async () => booking);
+  return booking;
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+after(() => {
+  redis.disconnect();
+});
+
+test('confirms a draft whose stages cover the total', async () => {
+  const booking = givenBooking(BookingStatus.DRAFT, [{ amount: 400 }, { amount: 600 }]);
+
+  const updated = await bookingService.changeStatus(AGENCY_ID, booking.id, BookingStatus.CONFIRMED);
+
+  assert.equal(updated.status, BookingStatus.CONFIRMED);
+});
+
+test('refuses to confirm a draft whose stages do not cover the total', async () => {
+  const booking = givenBooking(BookingStatus.DRAFT, [{ amount: 400 }]);
+
+  await assert.rejects(bookingService.changeStatus(AGENCY_ID, booking.id, BookingStatus.CONFIRMED), BusinessError);
+});
+
+test('refuses to skip from draft to paid', async () => {
+  const booking = givenBooking(BookingStatus.DRAFT, [{ amount: 1000 }]);
+
+  await assert.rejects(
+    bookingService.changeStatus(AGENCY_ID, booking.id, BookingStatus.PAID),
+    /Cannot move booking from draft to paid/,
+  );
+});
+
+test('refuses to mark a booking paid before the total is received', async () => {
+  const booking = givenBooking(BookingStatus.CONFIRMED, [{ amount: 400, paid: true }, { amount: 600 }]);
+
+  await assert.rejects(
+    bookingService.changeStatus(AGENCY_ID, booking.id, BookingStatus.PAID),
+    /before the total amount is received/,
+  );
+});
+
+test('never moves a completed or cancelled booking', async () => {
+  for (const status of [BookingStatus.COMPLETED, BookingStatus.CANCELLED]) {
+    const booking = givenBooking(status, [{ amount: 1000, paid: true }]);
+
+    await assert.rejects(bookingService.changeStatus(AGENCY_ID, booking.id, BookingStatus.CONFIRMED), BusinessError);
+    mock.restoreAll();
+  }
+});
+
+test('moves a confirmed booking to paid when its last stage is paid', async () => {
+  const booking = givenBooking(BookingStatus.CONFIRMED, [{ amount: 400, paid: true }, { amount: 600 }]);
+
+  const updated = await bookingService.markStagePaid(AGENCY_ID, booking.id, booking.paymentStages[1].id);
+
+  assert.equal(updated.status, BookingStatus.PAID);
+  assert.equal(updated.paidAmount, 1000);
+});
+
+test('records payments only on confirmed bookings', async () => {
+  const booking = givenBooking(BookingStatus.DRAFT, [{ amount: 1000 }]);
+
+  await assert.rejects(
+    bookingService.markStagePaid(AGENCY_ID, booking.id, booking.paymentStages[0].id),
+    /only be recorded on confirmed bookings/,
+  );
+});
@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, beforeEach, mock, test } from 'node:test';
+
+import mongoose, { Types } from 'mongoose';
+
+import { roleService } from '../src/module/role/role.service';
+import { invitationService } from '../src/module/user/invitation.service';
+import { userService } from '../src/module/user/user.service';
+import { redis } from '../src/shared/config/redis';
+import { Agency } from '../src/shared/models/agency.model';
+import { IInvitation, Invitation } from '../src/shared/models/invitation.model';
+import { Role } from '../src/shared/models/role.model';
+import { User } from '../src/shared/models/user.model';
+import { emailService } from '../src/shared/services/email.service';
+import { BusinessError } from '../src/shared/utils/CustomError';
+import { InvitationStatus, UserRole } from '../src/types/enum/user';
+import { AuthenticatedUser } from '../src/types/express/index';
+
+const DAY = 24 * 60 * 60 * 1000;
+const admin: AuthenticatedUser = {
+  id: new Types.ObjectId().toString(),
+  agency: new Types.ObjectId().toString(),
+  sessionId: new Types.ObjectId().toString(),
+  role: { id: new Types.ObjectId().toString(), type: UserRole.SUPER_ADMIN },
+};
+const role = Role.hydrate({ _id: new Types.ObjectId(), agency: admin.agency, name: 'Agent', type: 'agent' });
+
+interface IInvitationFilter {
+  email?: string;
+  status: InvitationStatus;
+}
+
+let activeUsers = 0;
+let invitations: IInvitation[] = [];
+
+const skip = async (): Promise<void> => {
+  // Nothing to do
+};
+
+const query = <T>(value: T): { exec: () => Promise<T> } => ({ exec: async () => value });
+
+const matches = (invitation: IInvitation, filter: IInvitationFilter): boolean =>
+  invitation.status === filter.status && (!filter.email || invitation.email === filter.email);
+
+const pendingInvitation = (email: string): IInvitation => {
+  const invitation = Invitation.hydrate({
+    _id: new Types.ObjectId(),
+    email,
+    agency: admin.agency,
+    role: role._id,
+    status: InvitationStatus.PENDING,
+    expiresAt: new Date(Date.now() + DAY),
+  });
+  invitations.push(invitation);
+  return invitation;
+};
+
+const givenAgencyOf = (maxUsers: number): void => {
+  const agency = Agency.hydrate({
+    _id: admin.agency,
+    name: 'Goa Getaways',
+    settings: { maxUsers, allowedDomains: [] },
+  });
+  mock.method(userService, 'getActiveAgency', async () => agency);
+};
+
+// Keeps the agency's invitations in memory and runs the transaction without a replica set
+beforeEach(() => {
+  activeUsers = 0;
+  invitations = [];
+  mock.method(userService, 'getAgencyRole', async () => role);
+  mock.method(roleService, 'assertHoldsPermissions', skip);
+  mock.method(emailService, 'sendInvitationEmail', skip);
+  mock.method(User, 'exists', (async () => null) as unknown as typeof User.exists);
+  mock.method(User, 'countDocuments', (() => query(activeUsers)) as unknown as typeof User.countDocuments);
+  mock.method(Invitation, 'countDocuments', ((filter: IInvitationFilter) =>
+    query(
+      invitations.filter((invitation) => matches(invitation, filter)).length,
+    )) as unknown as typeof Invitation.countDocuments);
+  mock.method(Invitation, 'updateMany', ((filter: IInvitationFilter, update: Partial<IInvitation>) => {
+    for (const invitation of invitations.filter((candidate) => matches(candidate, filter))) {
+      invitation.set(update);
+    }
+    return query({ modifiedCount: 1 });
+  }) as unknown as typeof Invitation.updateMany);
+  mock.method(Invitation, 'create', (async ([doc]: Record<string, unknown>[]) => {
+    const invitation = Invitation.hydrate({ _id: new Types.ObjectId(), status: InvitationStatus.PENDING, ...doc });
+    mock.method(invitation, 'populate', async () => invitation);
+    invitations.push(invitation);
+    return [invitation];
+  }) as unknown as typeof Invitation.create);
+  mock.method(mongoose.connection, 'transaction', (async (run: (session: null) => Promise<unknown>) =>
+    run(null)) as unknown as typeof mongoose.connection.transaction);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+after(() => {
+  redis.disconnect();
+});
+
+test('inviting an email again replaces its pending invitation, even when the agency is full', async () => {
+  givenAgencyOf(2);
+  activeUsers = 1;
+  const previous = pendingInvitation('asha@goa.test');
+
+  const invitation = await invitationService.createInvitation(admin, { email: 'asha@goa.test', roleId: role.id });
+
+  assert.equal(previous.status, InvitationStatus.REVOKED);
+  assert.equal(invitation.status, InvitationStatus.PENDING);
+  assert.equal(invitations.filter((candidate) => candidate.status === InvitationStatus.PENDING).length, 1);
+});
+
+test('a full agency refuses a new invitee', async () => {
+  givenAgencyOf(2);
+  activeUsers = 1;
+  pendingInvitation('asha@goa.test');
+
+  await assert.rejects(
+    invitationService.createInvitation(admin, { email: 'ravi@goa.test', roleId: role.id }),
+    BusinessError,
+  );
+  assert.equal(invitations.length, 1);
+});
+
+test('a refused re-invitation leaves the pending invitation working', async () => {
+  givenAgencyOf(2);
+  activeUsers = 2;
+  const previous = pendingInvitation('asha@goa.test');
+
+  await assert.rejects(
+    invitationService.createInvitation(admin, { email: 'asha@goa.test', roleId: role.id }),
+    BusinessError,
+  );
+  assert.equal(previous.status, InvitationStatus.PENDING);
+});
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, beforeEach, mock, test } from 'node:test';
+
+import { Types } from 'mongoose';
+
+import { leadService } from '../src/module/lead/lead.service';
+import { leadHistoryService } from '../src/module/lead/leadHistory.service';
+import { redis } from '../src/shared/config/redis';
+import { AuditLog, IAuditChange, IAuditLog } from '../src/shared/models/auditLog.model';
+import { ILead, Lead } from '../src/shared/models/lead.model';
+import { BusinessError, NotFoundError } from '../src/shared/utils/CustomError';
+import { AuditAction } from '../src/types/enum/audit';
+import { LeadSource, LeadStatus } from '../src/types/enum/lead';
+import { UserRole } from '../src/types/enum/user';
+import { AuthenticatedUser } from '../src/types/express/index';
+
+const manager: AuthenticatedUser = {
+  id: new Types.ObjectId().toString(),
+  agency: new Types.ObjectId().toString(),
+  sessionId: new Types.ObjectId().toString(),
+  role: { id: new Types.ObjectId().toString(), type: UserRole.MANAGER },
+};
+const LEAD_ID = new Types.ObjectId();
+
+let lead: ILead;
+let versions: IAuditLog[];
+
+const version = (action: AuditAction, changes: IAuditChange[]): IAuditLog =>
+  new AuditLog({ agency: manager.agency, resource: 'leads', resourceId: LEAD_ID, action, changes });
+
+// Created as new, contacted, then renamed and qualified in one update; the lead is read back as stored
+beforeEach(() => {
+  versions = [
+    version(AuditAction.CREATE, [
+      { field: 'name', before: null, after: 'Asha' },
+      { field: 'status', before: null, after: LeadStatus.NEW },
+      { field: 'source', before: null, after: LeadSource.WEBSITE },
+    ]),
+    version(AuditAction.UPDATE, [{ field: 'status', before: LeadStatus.NEW, after: LeadStatus.CONTACTED }]),
+    version(AuditAction.UPDATE, [
+      { field: 'name', before: 'Asha', after: 'Asha Rao' },
+      { field: 'status', before: LeadStatus.CONTACTED, after: LeadStatus.QUALIFIED },
+    ]),
+  ];
+  lead = Lead.hydrate({
+    _id: LEAD_ID,
+    agency: new Types.ObjectId(manager.agency),
+    name: 'Asha Rao',
+    status: LeadStatus.QUALIFIED,
+    source: LeadSource.WEBSITE,
+  });
+  mock.method(lead, 'save', async () => lead);
+  mock.method(leadService, 'getLeadById', async () => lead);
+  mock.method(AuditLog, 'find', ((): unknown => ({
+    sort: () => ({ exec: async () => versions }),
+  })) as unknown as typeof AuditLog.find);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+after(() => {
+  redis.disconnect();
+});
+
+test('reverting undoes every change recorded after the version', async () => {
+  const reverted = await leadHistoryService.revertToVersion(manager, LEAD_ID.toString(), versions[0].id);
+
+  assert.equal(reverted.name, 'Asha');
+  assert.equal(reverted.status, LeadStatus.NEW);
+  assert.deepEqual(reverted.$locals.auditDetails, { revertedTo: 1 });
+});
+
+test('reverting to a middle version keeps the changes made up to it', async () => {
+  const reverted = await leadHistoryService.revertToVersion(manager, LEAD_ID.toString(), versions[1].id);
+
+  assert.equal(reverted.name, 'Asha');
+  assert.equal(reverted.status, LeadStatus.CONTACTED);
+  assert.deepEqual(reverted.$locals.auditDetails, { revertedTo: 2 });
+});
+
+test('reverting to the current version is refused', async () => {
+  await assert.rejects(leadHistoryService.revertToVersion(manager, LEAD_ID.toString(), versions[2].id), BusinessError);
+});
+
+test('reverting to a version of another lead is refused', async () => {
+  const otherVersion = new Types.ObjectId().toString();
+
+  await assert.rejects(leadHistoryService.revertToVersion(manager, LEAD_ID.toString(), otherVersion), NotFoundError);
+});
+
+test('a change the history did not record blocks reverting past it', async () => {
+  lead.status = LeadStatus.LOST;
+
+  await assert.rejects(
+    leadHistoryService.revertToVersion(manager, LEAD_ID.toString(), versions[0].id),
+    /lead's status was changed without being recorded/,
+  );
+});
+
+test('a gap between recorded changes blocks reverting to a version before it', async () => {
+  versions[2].changes[1].before = LeadStatus.PROPOSAL;
+
+  await assert.rejects(
+    leadHistoryService.revertToVersion(manager, LEAD_ID.toString(), versions[0].id),
+    /lead's status was changed without being recorded/,
+  );
+  await assert.rejects(
+    leadHistoryService.revertToVersion(manager, LEAD_ID.toString(), versions[1].id),
+    /lead's status was changed without being recorded/,
+  );
+});
@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, mock, test } from 'node:test';
+
+import { IOutboundEmail, OutboundEmail } from '../src/shared/models/outboundEmail.model';
+import { mailQueueService } from '../src/shared/services/mailQueue.service';
+import { mailTransport } from '../src/shared/services/mailTransport.service';
+import { EmailDeliveryStatus } from '../src/types/enum/email';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const START = Date.UTC(2026, 9, 19, 9, 0);
+
+interface IClaimFilter {
+  nextAttemptAt: { $lte: Date };
+}
+
+interface IClaimUpdate {
+  $inc: { attempts: number };
+  $set: { nextAttemptAt: Date };
+}
+
+let now = START;
+let queue: IOutboundEmail[] = [];
+
+const at = (time: number): void => {
+  now = time;
+};
+
+const queueEmail = (): IOutboundEmail => {
+  const email = new OutboundEmail({
+    from: 'AthithiPro CRM <no-reply@example.com>',
+    to: ['asha@example.com'],
+    subject: 'Your invitation',
+    text: 'Hello',
+    html: '<p>Hello</p>',
+    messageId: '<invite-1@example.com>',
+    nextAttemptAt: new Date(now),
+  });
+  mock.method(email, 'save', async () => email);
+  queue.push(email);
+  return email;
+};
+
+const deliverMail = async (): Promise<void> => {
+  // The transport accepted the message
+};
+
+const failSending = (): void => {
+  mock.method(mailTransport, 'send', async () => {
+    throw new Error('Connection refused');
+  });
+};
+
+// Claims the oldest due email in memory, as the service's conditional update does
+beforeEach(() => {
+  now = START;
+  queue = [];
+  mock.method(Date, 'now', () => now);
+  mock.method(OutboundEmail, 'findOneAndUpdate', ((filter: IClaimFilter, update: IClaimUpdate) => {
+    const [email] = queue
+      .filter(
+        ({ status, nextAttemptAt }) =>
+          status === EmailDeliveryStatus.QUEUED && nextAttemptAt <= filter.nextAttemptAt.$lte,
+      )
+      .sort((first, second) => first.nextAttemptAt.getTime() - second.nextAttemptAt.getTime());
+    if (email) {
+      email.attempts += update.$inc.attempts;
+      email.nextAttemptAt = update.$set.nextAttemptAt;
+    }
+    return { exec: async (): Promise<IOutboundEmail | null> => email ?? null };
+  }) as unknown as typeof OutboundEmail.findOneAndUpdate);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test('a sent email is marked sent and kept for 30 days', async () => {
+  const email = queueEmail();
+  const send = mock.method(mailTransport, 'send', deliverMail);
+
+  assert.equal(await mailQueueService.processQueue(), 1);
+
+  assert.equal(send.mock.callCount(), 1);
+  assert.equal(send.mock.calls[0].arguments[0].messageId, '<invite-1@example.com>');
+  assert.equal(email.status, EmailDeliveryStatus.SENT);
+  assert.equal(email.attempts, 1);
+  assert.ok(email.sentAt);
+  assert.equal(email.expiresAt?.getTime(), START + 30 * DAY);
+});
+
+test('a failed email is retried after 1, 4, 16, 64 and 256 minutes, then given up on', async () => {
+  const email = queueEmail();
+  failSending();
+
+  for (const [attempt, delay] of [1, 4, 16, 64, 256].entries()) {
+    assert.equal(await mailQueueService.processQueue(), 0);
+    assert.equal(email.attempts, attempt + 1);
+    assert.equal(email.status, EmailDeliveryStatus.QUEUED);
+    assert.equal(email.nextAttemptAt.getTime() - now, delay * MINUTE);
+    assert.equal(email.lastError, 'Connection refused');
+    at(email.nextAttemptAt.getTime());
+  }
+
+  assert.equal(await mailQueueService.processQueue(), 0);
+  assert.equal(email.attempts, 6);
+  assert.equal(email.status, EmailDeliveryStatus.FAILED);
+  assert.equal(email.expiresAt?.getTime(), now + 30 * DAY);
+});
+
+test('a failed email waits for its retry and is then sent', async () => {
+  const email = queueEmail();
+  failSending();
+  await mailQueueService.processQueue();
+
+  mock.method(mailTransport, 'send', deliverMail);
+  at(START + MINUTE - 1);
+  assert.equal(await mailQueueService.processQueue(), 0);
+  assert.equal(email.attempts, 1);
+
+  at(START + MINUTE);
+  assert.equal(await mailQueueService.processQueue(), 1);
+  assert.equal(email.attempts, 2);
+  assert.equal(email.status, EmailDeliveryStatus.SENT);
+  assert.equal(email.lastError, null);
+});
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { parseMimeMessage } from '../src/shared/utils/mimeParser';
+
+const toRaw = (lines: string[]): Buffer => Buffer.from(lines.join('\r\n'), 'utf8');
+
+const base64 = (text: string): string => Buffer.from(text, 'utf8').toString('base64');
+
+const percentEncode = (text: string): string =>
+  [...Buffer.from(text, 'utf8')].map((byte) => `%${byte.toString(16).toUpperCase().padStart(2, '0')}`).join('');
+
+test('reads the addresses and thread headers of a reply, including folded ones', () => {
+  const email = parseMimeMessage(
+    toRaw([
+      'From: "Rao, Asha" <Asha.Rao@Example.com>',
+      'To: "Sales, Goa" <sales@agency.test>, ravi@agency.test',
+      'Cc: <ops@agency.test>',
+      'Subject: Re: Goa trip',
+      'Date: Mon, 19 Oct 2026 10:15:00 +0530',
+      'Message-ID: <reply-2@example.com>',
+      'In-Reply-To: <quote-1@agency.test>',
+      'References: <lead-0@agency.test>',
+      '\t<quote-1@agency.test>',
+      '',
+      'Sounds good.',
+    ]),
+  );
+
+  assert.deepEqual(email.from, { name: 'Rao, Asha', address: 'asha.rao@example.com' });
+  assert.deepEqual(email.to, ['sales@agency.test', 'ravi@agency.test']);
+  assert.deepEqual(email.cc, ['ops@agency.test']);
+  assert.equal(email.messageId, '<reply-2@example.com>');
+  assert.equal(email.inReplyTo, '<quote-1@agency.test>');
+  assert.deepEqual(email.references, ['<lead-0@agency.test>', '<quote-1@agency.test>']);
+  assert.equal(email.date?.toISOString(), '2026-10-19T04:45:00.000Z');
+  assert.equal(email.text, 'Sounds good.');
+});
+
+test('decodes encoded words, joining adjacent ones without the space between them', () => {
+  const email = parseMimeMessage(
+    toRaw([
+      'From: =?UTF-8?Q?Asha_R=C4=81o?= <asha@example.com>',
+      `Subject: =?UTF-8?B?${base64('आपकी ')}?= =?UTF-8?B?${base64('यात्रा')}?=`,
+      '',
+      'Hello',
+    ]),
+  );
+
+  assert.equal(email.from?.name, 'Asha Rāo');
+  assert.equal(email.subject, 'आपकी यात्रा');
+});
+
+test('takes the plain text body of an alternative and keeps attachments apart', () => {
+  const email = parseMimeMessage(
+    toRaw([
+      'From: asha@example.com',
+      'To: sales@agency.test',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      'This is a multi-part message in MIME format.',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Price is =E2=82=B9 45,000 for two =',
+      'adults.',
+      '--inner',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>Price is &#8377; 45,000</p>',
+      '--inner--',
+      '--outer',
+      'Content-Type: application/pdf',
+      `Content-Disposition: attachment; filename*=UTF-8''${percentEncode('यात्रा')}.pdf`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64('%PDF-1.4 itinerary'),
+      '--outer--',
+      'Epilogue',
+    ]),
+  );
+
+  assert.equal(email.text, 'Price is ₹ 45,000 for two adults.');
+  assert.equal(email.html, '<p>Price is &#8377; 45,000</p>');
+  assert.equal(email.attachments.length, 1);
+  assert.equal(email.attachments[0].filename, 'यात्रा.pdf');
+  assert.equal(email.attachments[0].contentType, 'application/pdf');
+  assert.equal(email.attachments[0].content.toString('utf8'), '%PDF-1.4 itinerary');
+});
+
+test('falls back to the text of the HTML body when there is no plain text', () => {
+  const email = parseMimeMessage(
+    toRaw([
+      'From: asha@example.com',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<style>p { color: red; }</style><p>Dates &amp; prices</p><p>Line two<br>Line three</p>',
+    ]),
+  );
+
+  assert.equal(email.text, 'Dates & prices\nLine two\nLine three');
+});
+
+test('decodes bodies in the charset they name', () => {
+  const raw = Buffer.concat([
+    toRaw(['From: asha@example.com', 'Content-Type: text/plain; charset=iso-8859-1', '', '']),
+    Buffer.from('Café at the hôtel', 'latin1'),
+  ]);
+
+  assert.equal(parseMimeMessage(raw).text, 'Café at the hôtel');
+});
+
+test('leaves the sender and thread empty when the headers are missing', () => {
+  const email = parseMimeMessage(toRaw(['Subject: No sender', '', 'Body']));
+
+  assert.equal(email.from, null);
+  assert.equal(email.messageId, null);
+  assert.equal(email.inReplyTo, null);
+  assert.deepEqual(email.references, []);
+  assert.equal(email.date, null);
+});
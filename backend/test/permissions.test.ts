@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, mock, test } from 'node:test';
+
+import { Types } from 'mongoose';
+
+import { agencyRoleService } from '../src/module/agency/agencyRole.service';
+import { redis } from '../src/shared/config/redis';
+import { Lead } from '../src/shared/models/lead.model';
+import { RoleType } from '../src/shared/models/role.model';
+import { permissionCacheService } from '../src/shared/services/permissionCache.service';
+import { ForbiddenError } from '../src/shared/utils/CustomError';
+import { parsePermission, resolvePermissionScope } from '../src/shared/utils/permissionEvaluator';
+import { PermissionScope } from '../src/types/enum/permission';
+import { UserRole } from '../src/types/enum/user';
+import { AuthenticatedUser } from '../src/types/express/index';
+
+const user: AuthenticatedUser = {
+  id: new Types.ObjectId().toString(),
+  agency: new Types.ObjectId().toString(),
+  sessionId: new Types.ObjectId().toString(),
+  role: { id: new Types.ObjectId().toString(), type: UserRole.CUSTOM },
+};
+
+const givenRole = (permissions: string[], type: RoleType = 'custom'): void => {
+  mock.method(permissionCacheService, 'getRole', async () => ({ id: user.role.id, type, permissions }));
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+after(() => {
+  redis.disconnect();
+});
+
+test('parses the resource, action and scope of a grant', () => {
+  assert.deepEqual(parsePermission('leads:update:own'), {
+    resource: 'leads',
+    action: 'update',
+    scope: PermissionScope.OWN,
+  });
+  assert.deepEqual(parsePermission('leads:update'), {
+    resource: 'leads',
+    action: 'update',
+    scope: PermissionScope.ANY,
+  });
+  assert.deepEqual(parsePermission('*'), { resource: '*', action: '*', scope: PermissionScope.ANY });
+});
+
+test('wildcards and manage cover every action of their resource', () => {
+  assert.equal(resolvePermissionScope(['*'], 'bookings', 'delete'), PermissionScope.ANY);
+  assert.equal(resolvePermissionScope(['leads:*'], 'leads', 'revert'), PermissionScope.ANY);
+  assert.equal(resolvePermissionScope(['leads:manage'], 'leads', 'delete'), PermissionScope.ANY);
+  assert.equal(resolvePermissionScope(['leads:*'], 'tasks', 'read'), null);
+});
+
+test('a grant only covers its own action', () => {
+  assert.equal(resolvePermissionScope(['leads:read'], 'leads', 'update'), null);
+  assert.equal(resolvePermissionScope([], 'leads', 'read'), null);
+});
+
+test('an unrestricted grant wins over an owner-scoped one, in any order', () => {
+  assert.equal(resolvePermissionScope(['leads:update:own'], 'leads', 'update'), PermissionScope.OWN);
+  assert.equal(resolvePermissionScope(['leads:update:own', 'leads:update'], 'leads', 'update'), PermissionScope.ANY);
+  assert.equal(resolvePermissionScope(['leads:update', 'leads:update:own'], 'leads', 'update'), PermissionScope.ANY);
+});
+
+test('owner-scoped grants limit queries to the records assigned to the user', async () => {
+  givenRole(['leads:update:own']);
+
+  assert.deepEqual(await agencyRoleService.scopeFilter(user, 'leads', 'update'), { assignedTo: user.id });
+});
+
+test('unrestricted grants and super admins leave queries unfiltered', async () => {
+  givenRole(['leads:update']);
+  assert.deepEqual(await agencyRoleService.scopeFilter(user, 'leads', 'update'), {});
+
+  mock.restoreAll();
+  givenRole([], 'super_admin');
+  assert.deepEqual(await agencyRoleService.scopeFilter(user, 'leads', 'delete'), {});
+});
+
+test('owner-scoped grants on a resource without owners grant nothing', async () => {
+  givenRole(['tasks:update:own']);
+
+  await assert.rejects(agencyRoleService.scopeFilter(user, 'tasks', 'update'), ForbiddenError);
+});
+
+test('a user without a grant is refused', async () => {
+  givenRole(['leads:read']);
+
+  await assert.rejects(agencyRoleService.scopeFilter(user, 'leads', 'delete'), ForbiddenError);
+});
+
+test('owner-scoped grants only reach leads assigned to the user', async () => {
+  givenRole(['leads:update:own']);
+  const ownLead = new Lead({ agency: user.agency, name: 'Asha', assignedTo: user.id });
+  const otherLead = new Lead({ agency: user.agency, name: 'Ravi', assignedTo: new Types.ObjectId() });
+
+  await agencyRoleService.assertCanAccess(user, 'leads', 'update', ownLead);
+  await assert.rejects(agencyRoleService.assertCanAccess(user, 'leads', 'update', otherLead), ForbiddenError);
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { afterEach, beforeEach, mock, test } from 'node:test';
+
+import { Types } from 'mongoose';
+
+import { sessionService } from '../src/module/auth/session.service';
+import { config } from '../src/shared/config/index';
+import { Session } from '../src/shared/models/session.model';
+import { UnauthorizedError } from '../src/shared/utils/CustomError';
+import { SessionRevocationReason } from '../src/types/enum/auth';
+
+interface IStoredSession {
+  _id: string;
+  user: string;
+  currentJti: string;
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+}
+
+const USER_ID = new Types.ObjectId().toString();
+const CLIENT = { ip: '203.0.113.7', userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0' };
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+config.jwt.refreshPrivateKey = privateKey;
+config.jwt.refreshPublicKey = publicKey;
+
+let stored: IStoredSession | null = null;
+
+const query = <T>(value: T): { exec: () => Promise<T> } => ({ exec: async () => value });
+
+// Keeps the one session of the test in memory, matching on the fields the service filters by
+beforeEach(() => {
+  stored = null;
+  mock.method(Session, 'create', (async (doc: IStoredSession) => {
+    stored = { ...doc, _id: String(doc._id), user: String(doc.user) };
+    return stored;
+  }) as unknown as typeof Session.create);
+  mock.method(Session, 'findOneAndUpdate', ((filter: IStoredSession, update: Partial<IStoredSession>) => {
+    const matches = stored?._id === String(filter._id) && stored.currentJti === filter.currentJti && !stored.revokedAt;
+    if (matches) {
+      Object.assign(stored, update);
+    }
+    return query(matches ? stored : null);
+  }) as unknown as typeof Session.findOneAndUpdate);
+  mock.method(Session, 'findOne', (() => query(stored)) as unknown as typeof Session.findOne);
+  mock.method(Session, 'updateMany', ((filter: unknown, update: Partial<IStoredSession>) => {
+    const isActive = stored !== null && !stored.revokedAt;
+    if (isActive) {
+      Object.assign(stored, update);
+    }
+    return query({ modifiedCount: isActive ? 1 : 0 });
+  }) as unknown as typeof Session.updateMany);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test('rotating a refresh token issues the next token of the same session', async () => {
+  const { sessionId, refreshToken } = await sessionService.createSession(USER_ID, CLIENT);
+
+  const rotated = await sessionService.rotate(refreshToken);
+
+  assert.equal(rotated.sessionId, sessionId);
+  assert.equal(rotated.userId, USER_ID);
+  assert.notEqual(rotated.refreshToken, refreshToken);
+  assert.ok(!stored?.revokedAt);
+});
+
+test('presenting a rotated refresh token again revokes the whole session', async () => {
+  const { refreshToken } = await sessionService.createSession(USER_ID, CLIENT);
+  const rotated = await sessionService.rotate(refreshToken);
+
+  await assert.rejects(sessionService.rotate(refreshToken), UnauthorizedError);
+
+  assert.ok(stored?.revokedAt);
+  assert.equal(stored.revokedReason, SessionRevocationReason.REUSE_DETECTED);
+  // The thief's token and the owner's latest token are both dead now
+  await assert.rejects(sessionService.rotate(rotated.refreshToken), UnauthorizedError);
+});
+
+test('a forged refresh token is refused without touching the session', async () => {
+  await sessionService.createSession(USER_ID, CLIENT);
+  const forged = `${Buffer.from('{"alg":"none"}').toString('base64url')}.${Buffer.from(
+    JSON.stringify({ id: USER_ID, fam: stored?._id, jti: stored?.currentJti }),
+  ).toString('base64url')}.`;
+
+  await assert.rejects(sessionService.rotate(forged), UnauthorizedError);
+
+  assert.ok(!stored?.revokedAt);
+});
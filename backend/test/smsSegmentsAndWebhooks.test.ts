@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { beforeEach, test } from 'node:test';
+
+import { config } from '../src/shared/config/index';
+import { FakeSmsProvider, ISmsWebhookRequest, TwilioSmsProvider } from '../src/shared/services/smsProvider.service';
+import { countSmsSegments } from '../src/shared/utils/smsSegments';
+import { SmsEncoding } from '../src/types/enum/sms';
+
+// Example request and signature from Twilio's webhook security documentation, signed with auth token 12345
+const TWILIO_URL = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+const TWILIO_PARAMS = {
+  CallSid: 'CA1234567890ABCDE',
+  Caller: '+14158675309',
+  Digits: '1234',
+  From: '+14158675309',
+  To: '+18005551212',
+};
+const TWILIO_SIGNATURE = 'RSOYDt4T1cUTdK1PDd93/VVr8B8=';
+const WEBHOOK_TOKEN = 'test-sms-token';
+
+const twilio = new TwilioSmsProvider('AC00000000000000000000000000000000', '12345');
+const fake = new FakeSmsProvider();
+
+const fakeInbound = (token?: string): ISmsWebhookRequest => ({
+  url: 'http://localhost/api/v1/webhooks/sms/inbound',
+  headers: token ? { 'x-sms-token': token } : {},
+  params: { from: '919800000000', text: 'STOP' },
+});
+
+beforeEach(() => {
+  config.sms.webhookToken = WEBHOOK_TOKEN;
+});
+
+test('plain text fits 160 GSM characters in one segment and 153 in each split one', () => {
+  assert.deepEqual(countSmsSegments('a'.repeat(160)), {
+    encoding: SmsEncoding.GSM_7,
+    length: 160,
+    segments: 1,
+    segmentLength: 160,
+  });
+  assert.deepEqual(countSmsSegments('a'.repeat(161)), {
+    encoding: SmsEncoding.GSM_7,
+    length: 161,
+    segments: 2,
+    segmentLength: 153,
+  });
+  assert.equal(countSmsSegments('a'.repeat(306)).segments, 2);
+  assert.equal(countSmsSegments('a'.repeat(307)).segments, 3);
+});
+
+test('an empty message is no segments', () => {
+  assert.equal(countSmsSegments('').segments, 0);
+});
+
+test('extension table characters take two septets each', () => {
+  assert.deepEqual(countSmsSegments('€'.repeat(80)), {
+    encoding: SmsEncoding.GSM_7,
+    length: 160,
+    segments: 1,
+    segmentLength: 160,
+  });
+  assert.equal(countSmsSegments(`${'€'.repeat(80)}a`).segments, 2);
+  assert.equal(countSmsSegments('{price}').length, 9);
+});
+
+test('one character outside the GSM alphabet switches the whole message to UCS-2', () => {
+  assert.deepEqual(countSmsSegments(`आपकी यात्रा ${'a'.repeat(58)}`), {
+    encoding: SmsEncoding.UCS_2,
+    length: 70,
+    segments: 1,
+    segmentLength: 70,
+  });
+  assert.deepEqual(countSmsSegments(`₹${'a'.repeat(70)}`), {
+    encoding: SmsEncoding.UCS_2,
+    length: 71,
+    segments: 2,
+    segmentLength: 67,
+  });
+});
+
+test('emoji take two UCS-2 code units', () => {
+  assert.deepEqual(countSmsSegments('🌴'.repeat(35)), {
+    encoding: SmsEncoding.UCS_2,
+    length: 70,
+    segments: 1,
+    segmentLength: 70,
+  });
+  assert.equal(countSmsSegments('🌴'.repeat(36)).segments, 2);
+});
+
+test('accepts the Twilio documentation example signature', () => {
+  const request = { url: TWILIO_URL, headers: { 'x-twilio-signature': TWILIO_SIGNATURE }, params: TWILIO_PARAMS };
+
+  assert.equal(twilio.isAuthentic(request), true);
+});
+
+test('Twilio signatures do not depend on the order the form fields arrive in', () => {
+  const { To, From, Digits, Caller, CallSid } = TWILIO_PARAMS;
+  const params = { To, From, Digits, Caller, CallSid };
+
+  assert.equal(
+    twilio.isAuthentic({ url: TWILIO_URL, headers: { 'x-twilio-signature': TWILIO_SIGNATURE }, params }),
+    true,
+  );
+});
+
+test('refuses a Twilio webhook with a changed field, URL or auth token', () => {
+  const headers = { 'x-twilio-signature': TWILIO_SIGNATURE };
+  const otherTwilio = new TwilioSmsProvider('AC00000000000000000000000000000000', '54321');
+
+  assert.equal(twilio.isAuthentic({ url: TWILIO_URL, headers, params: { ...TWILIO_PARAMS, Digits: '4321' } }), false);
+  assert.equal(twilio.isAuthentic({ url: `${TWILIO_URL}&baz=3`, headers, params: TWILIO_PARAMS }), false);
+  assert.equal(otherTwilio.isAuthentic({ url: TWILIO_URL, headers, params: TWILIO_PARAMS }), false);
+});
+
+test('refuses a Twilio webhook without a signature', () => {
+  assert.equal(twilio.isAuthentic({ url: TWILIO_URL, headers: {}, params: TWILIO_PARAMS }), false);
+});
+
+test('the fake provider accepts webhooks carrying the configured token only', () => {
+  assert.equal(fake.isAuthentic(fakeInbound(WEBHOOK_TOKEN)), true);
+  assert.equal(fake.isAuthentic(fakeInbound('guess')), false);
+  assert.equal(fake.isAuthentic(fakeInbound()), false);
+});
+
+test('the fake provider refuses every webhook while no token is configured', () => {
+  config.sms.webhookToken = '';
+
+  assert.equal(fake.isAuthentic({ url: 'http://localhost', headers: { 'x-sms-token': '' }, params: {} }), false);
+});
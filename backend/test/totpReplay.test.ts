@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { afterEach, mock, test } from 'node:test';
+
+import { Types } from 'mongoose';
+
+import { twoFactorService } from '../src/module/auth/twoFactor.service';
+import { User } from '../src/shared/models/user.model';
+import { matchTotpStep } from '../src/shared/utils/totp';
+
+// RFC 6238 test secret "12345678901234567890" in base32, with the SHA-1 codes of its appendix cut to six digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const CODE_AT_59_SECONDS = '287082';
+const CODE_AT_1111111109_SECONDS = '081804';
+
+const USER_ID = new Types.ObjectId().toString();
+
+interface ITwoFactorState {
+  enabled: boolean;
+  secret: string;
+  lastUsedStep?: number;
+}
+
+const atSeconds = (seconds: number): void => {
+  mock.method(Date, 'now', () => seconds * 1000);
+};
+
+// Serves a user with 2FA enabled and applies the service's conditional step update in memory
+const givenUserWithTwoFactor = (): ITwoFactorState => {
+  const twoFactor: ITwoFactorState = { enabled: true, secret: SECRET };
+  mock.method(User, 'findById', ((): unknown => ({
+    select: async () => ({ twoFactor }),
+  })) as unknown as typeof User.findById);
+  mock.method(User, 'updateOne', (async (filter: unknown, update: Record<string, number>) => {
+    const step = update['twoFactor.lastUsedStep'];
+    const isNewer = typeof twoFactor.lastUsedStep !== 'number' || twoFactor.lastUsedStep < step;
+    if (isNewer) {
+      twoFactor.lastUsedStep = step;
+    }
+    return { modifiedCount: isNewer ? 1 : 0 };
+  }) as unknown as typeof User.updateOne);
+  return twoFactor;
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test('matches the RFC 6238 reference codes to their time step', () => {
+  atSeconds(59);
+  assert.equal(matchTotpStep(SECRET, CODE_AT_59_SECONDS), 1);
+
+  atSeconds(1_111_111_109);
+  assert.equal(matchTotpStep(SECRET, CODE_AT_1111111109_SECONDS), 37_037_036);
+});
+
+test('accepts a code one step late for clock drift, but not two', () => {
+  atSeconds(89);
+  assert.equal(matchTotpStep(SECRET, CODE_AT_59_SECONDS), 1);
+
+  atSeconds(119);
+  assert.equal(matchTotpStep(SECRET, CODE_AT_59_SECONDS), null);
+});
+
+test('refuses codes that are not six digits', () => {
+  atSeconds(59);
+  assert.equal(matchTotpStep(SECRET, '28708'), null);
+  assert.equal(matchTotpStep(SECRET, '28708a'), null);
+});
+
+test('a TOTP code is accepted once and refused when replayed', async () => {
+  atSeconds(59);
+  const twoFactor = givenUserWithTwoFactor();
+
+  assert.equal(await twoFactorService.verify(USER_ID, { code: CODE_AT_59_SECONDS }), true);
+  assert.equal(twoFactor.lastUsedStep, 1);
+  assert.equal(await twoFactorService.verify(USER_ID, { code: CODE_AT_59_SECONDS }), false);
+});
+
+test('a code older than the last one used is refused even within the drift window', async () => {
+  const twoFactor = givenUserWithTwoFactor();
+  twoFactor.lastUsedStep = 2;
+  atSeconds(89);
+
+  assert.equal(await twoFactorService.verify(USER_ID, { code: CODE_AT_59_SECONDS }), false);
+});
+
+test('a concurrent request replaying the code loses the conditional update', async () => {
+  atSeconds(59);
+  const twoFactor = givenUserWithTwoFactor();
+
+  const results = await Promise.all([
+    twoFactorService.verify(USER_ID, { code: CODE_AT_59_SECONDS }),
+    twoFactorService.verify(USER_ID, { code: CODE_AT_59_SECONDS }),
+  ]);
+
+  assert.equal(results.filter(Boolean).length, 1);
+  assert.equal(twoFactor.lastUsedStep, 1);
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { beforeEach, test } from 'node:test';
+
+import { Request, Response } from 'express';
+
+import { config } from '../src/shared/config/index';
+import { verifyWhatsAppSignature, verifyWhatsAppSubscription } from '../src/shared/middlewares/webhookAuth.middleware';
+import { BadRequestError, ForbiddenError, UnauthorizedError } from '../src/shared/utils/CustomError';
+
+const APP_SECRET = 'test-app-secret';
+const VERIFY_TOKEN = 'test-verify-token';
+const PAYLOAD = JSON.stringify({ object: 'whatsapp_business_account', entry: [] });
+
+const sign = (body: string, secret = APP_SECRET): string =>
+  `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const webhookRequest = (body: string, signature?: string): Request => {
+  const headers = new Map(signature ? [['x-hub-signature-256', signature]] : []);
+  return { body: Buffer.from(body), get: (name: string) => headers.get(name.toLowerCase()) } as unknown as Request;
+};
+
+const subscriptionRequest = (token: string): Request =>
+  ({ query: { 'hub.verify_token': token } }) as unknown as Request;
+
+/**
+ * Run a middleware and report what it passed to `next`
+ * @param middleware - Middleware under test
+ * @param req - Request
+ * @returns Error passed on, or null when the request was let through
+ */
+const run = (middleware: typeof verifyWhatsAppSignature, req: Request): unknown => {
+  let passed: unknown = 'next was not called';
+  middleware(req, {} as Response, (outcome?: unknown) => {
+    passed = outcome ?? null;
+  });
+  return passed;
+};
+
+beforeEach(() => {
+  config.whatsapp.appSecret = APP_SECRET;
+  config.whatsapp.verifyToken = VERIFY_TOKEN;
+});
+
+test('lets a correctly signed webhook through and parses its body', () => {
+  const req = webhookRequest(PAYLOAD, sign(PAYLOAD));
+
+  assert.equal(run(verifyWhatsAppSignature, req), null);
+  assert.deepEqual(req.body, JSON.parse(PAYLOAD));
+});
+
+test('accepts the signature in upper case hex', () => {
+  const req = webhookRequest(PAYLOAD, sign(PAYLOAD).toUpperCase().replace('SHA256=', 'sha256='));
+
+  assert.equal(run(verifyWhatsAppSignature, req), null);
+});
+
+test('refuses a body changed after signing', () => {
+  const tampered = PAYLOAD.replace('[]', '[{}]');
+
+  assert.ok(run(verifyWhatsAppSignature, webhookRequest(tampered, sign(PAYLOAD))) instanceof UnauthorizedError);
+});
+
+test('refuses a body signed with another secret', () => {
+  const req = webhookRequest(PAYLOAD, sign(PAYLOAD, 'someone-elses-secret'));
+
+  assert.ok(run(verifyWhatsAppSignature, req) instanceof UnauthorizedError);
+});
+
+test('refuses a webhook without a well-formed signature', () => {
+  assert.ok(run(verifyWhatsAppSignature, webhookRequest(PAYLOAD)) instanceof UnauthorizedError);
+  assert.ok(run(verifyWhatsAppSignature, webhookRequest(PAYLOAD, 'sha256=abc')) instanceof UnauthorizedError);
+});
+
+test('refuses every webhook while no app secret is configured', () => {
+  config.whatsapp.appSecret = '';
+
+  assert.ok(run(verifyWhatsAppSignature, webhookRequest(PAYLOAD, sign(PAYLOAD, ''))) instanceof UnauthorizedError);
+});
+
+test('rejects a signed body that is not JSON', () => {
+  const body = 'not json';
+
+  assert.ok(run(verifyWhatsAppSignature, webhookRequest(body, sign(body))) instanceof BadRequestError);
+});
+
+test('verifies the webhook URL only with the configured verify token', () => {
+  assert.equal(run(verifyWhatsAppSubscription, subscriptionRequest(VERIFY_TOKEN)), null);
+  assert.ok(run(verifyWhatsAppSubscription, subscriptionRequest('guess')) instanceof ForbiddenError);
+});
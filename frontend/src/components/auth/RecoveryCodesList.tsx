@@ -0,0 +1,35 @@
+import { Copy } from 'lucide-react';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+// Recovery codes are only returned once, so make the user save them now
+export const RecoveryCodesList = ({ codes }: RecoveryCodesListProps) => (
+  <div className='space-y-4'>
+    <Alert>
+      <AlertTitle>Save your recovery codes</AlertTitle>
+      <AlertDescription>
+        Each code signs you in once if you lose access to your authenticator
+        app. They will not be shown again.
+      </AlertDescription>
+    </Alert>
+    <ul className='grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm'>
+      {codes.map(code => (
+        <li key={code}>{code}</li>
+      ))}
+    </ul>
+    <Button
+      type='button'
+      variant='outline'
+      className='w-full cursor-pointer'
+      onClick={() => navigator.clipboard?.writeText(codes.join('\n'))}
+    >
+      <Copy className='mr-2 h-4 w-4' />
+      Copy codes
+    </Button>
+  </div>
+);
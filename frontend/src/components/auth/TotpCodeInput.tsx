@@ -0,0 +1,40 @@
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from '@/components/ui/input-otp';
+
+export const TOTP_CODE_LENGTH = 6;
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six digit code from an authenticator app
+export const TotpCodeInput = ({
+  value,
+  onChange,
+  onComplete,
+  disabled,
+}: TotpCodeInputProps) => (
+  <InputOTP
+    maxLength={TOTP_CODE_LENGTH}
+    pattern='^\d*$'
+    inputMode='numeric'
+    autoComplete='one-time-code'
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus
+  >
+    <InputOTPGroup>
+      {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
@@ -0,0 +1,25 @@
+import type { TwoFactorSetup } from '@/store/api/auth.api';
+
+interface TotpSetupDetailsProps {
+  setup: TwoFactorSetup;
+}
+
+// No QR library is bundled: the otpauth link opens authenticator apps on
+// mobile and the secret can be typed in manually elsewhere
+export const TotpSetupDetails = ({ setup }: TotpSetupDetailsProps) => (
+  <div className='space-y-2 text-sm'>
+    <p>
+      Add this account to your authenticator app, then enter the code it shows.
+    </p>
+    <a
+      href={setup.otpauthUrl}
+      className='font-medium underline underline-offset-4'
+    >
+      Open in authenticator app
+    </a>
+    <p className='text-muted-foreground'>Or enter this key manually:</p>
+    <code className='block break-all rounded-md bg-muted p-2 font-mono'>
+      {setup.secret}
+    </code>
+  </div>
+);
@@ -0,0 +1,204 @@
+import { Loader2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { RecoveryCodesList } from '@/components/auth/RecoveryCodesList';
+import {
+  TOTP_CODE_LENGTH,
+  TotpCodeInput,
+} from '@/components/auth/TotpCodeInput';
+import { TotpSetupDetails } from '@/components/auth/TotpSetupDetails';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { apiSlice } from '@/store/api/apiSlice';
+import {
+  type MfaChallenge,
+  type TwoFactorSetup,
+  useBeginMfaEnrollmentMutation,
+  useConfirmMfaEnrollmentMutation,
+  useVerifyMfaChallengeMutation,
+} from '@/store/api/auth.api';
+import { getApiErrorMessage } from '@/store/api/types';
+import { useAppDispatch } from '@/store/hooks';
+import {
+  type AuthCredentials,
+  setCredentials,
+} from '@/store/slices/auth.slice';
+
+interface TwoFactorChallengeProps {
+  challenge: MfaChallenge;
+  onSignedIn: () => void;
+  onCancel: () => void;
+}
+
+// Second login step: verify a code, or enroll first when the agency requires 2FA
+export const TwoFactorChallenge = ({
+  challenge,
+  onSignedIn,
+  onCancel,
+}: TwoFactorChallengeProps) => {
+  const dispatch = useAppDispatch();
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [enrolled, setEnrolled] = useState<
+    (AuthCredentials & { recoveryCodes: string[] }) | null
+  >(null);
+
+  const [verifyChallenge, { isLoading: isVerifying }] =
+    useVerifyMfaChallengeMutation();
+  const [beginEnrollment, { isLoading: isStarting, isError: setupFailed }] =
+    useBeginMfaEnrollmentMutation();
+  const [confirmEnrollment, { isLoading: isConfirming }] =
+    useConfirmMfaEnrollmentMutation();
+  const isBusy = isVerifying || isStarting || isConfirming;
+
+  useEffect(() => {
+    if (!challenge.enrollmentRequired) {
+      return;
+    }
+    beginEnrollment(challenge.mfaToken)
+      .unwrap()
+      .then(setSetup)
+      .catch(error => toast.error(getApiErrorMessage(error)));
+  }, [beginEnrollment, challenge]);
+
+  async function submitCode(value = code) {
+    if (value.length !== TOTP_CODE_LENGTH && !useRecoveryCode) {
+      return;
+    }
+    try {
+      if (challenge.enrollmentRequired) {
+        setEnrolled(
+          await confirmEnrollment({
+            mfaToken: challenge.mfaToken,
+            code: value,
+          }).unwrap()
+        );
+        return;
+      }
+      await verifyChallenge(
+        useRecoveryCode
+          ? { mfaToken: challenge.mfaToken, recoveryCode: recoveryCode.trim() }
+          : { mfaToken: challenge.mfaToken, code: value }
+      ).unwrap();
+      toast.success('Successfully signed in!');
+      onSignedIn();
+    } catch (error) {
+      setCode('');
+      toast.error(getApiErrorMessage(error));
+    }
+  }
+
+  function finishEnrollment() {
+    if (!enrolled) {
+      return;
+    }
+    const { recoveryCodes: _recoveryCodes, ...credentials } = enrolled;
+    dispatch(setCredentials(credentials));
+    dispatch(apiSlice.util.resetApiState());
+    toast.success('Two-factor authentication enabled');
+    onSignedIn();
+  }
+
+  if (enrolled) {
+    return (
+      <div className='flex flex-col gap-6'>
+        <RecoveryCodesList codes={enrolled.recoveryCodes} />
+        <Button
+          className='bg-black text-white cursor-pointer w-full'
+          onClick={finishEnrollment}
+        >
+          I have saved my codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className='flex flex-col gap-6'
+      onSubmit={event => {
+        event.preventDefault();
+        submitCode();
+      }}
+    >
+      {challenge.enrollmentRequired ? (
+        <>
+          <p className='text-sm'>
+            Your agency requires two-factor authentication for your role.
+          </p>
+          {setup && <TotpSetupDetails setup={setup} />}
+          {setupFailed && (
+            <p className='text-sm text-destructive'>
+              Could not start the setup. Please sign in again.
+            </p>
+          )}
+        </>
+      ) : (
+        <p className='text-sm'>
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes.'
+            : 'Enter the code from your authenticator app.'}
+        </p>
+      )}
+
+      {useRecoveryCode ? (
+        <Input
+          placeholder='xxxxx-xxxxx'
+          value={recoveryCode}
+          onChange={event => setRecoveryCode(event.target.value)}
+          disabled={isBusy}
+          autoFocus
+        />
+      ) : (
+        <TotpCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={submitCode}
+          disabled={isBusy || (challenge.enrollmentRequired && !setup)}
+        />
+      )}
+
+      <div className='flex flex-col gap-2'>
+        <Button
+          type='submit'
+          className='bg-black text-white cursor-pointer w-full'
+          disabled={isBusy}
+        >
+          {isBusy ? (
+            <>
+              <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+              Verifying...
+            </>
+          ) : (
+            'Verify'
+          )}
+        </Button>
+        {!challenge.enrollmentRequired && (
+          <Button
+            type='button'
+            variant='link'
+            className='w-full cursor-pointer'
+            onClick={() => setUseRecoveryCode(current => !current)}
+            disabled={isBusy}
+          >
+            {useRecoveryCode
+              ? 'Use authenticator app'
+              : 'Use a recovery code instead'}
+          </Button>
+        )}
+        <Button
+          type='button'
+          variant='link'
+          className='w-full cursor-pointer'
+          onClick={onCancel}
+          disabled={isBusy}
+        >
+          Back to sign in
+        </Button>
+      </div>
+    </form>
+  );
+};
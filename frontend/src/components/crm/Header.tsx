@@ -3,6 +3,7 @@ import React, { useEffect } from 'react';
 
 import CurrencySelector from './CurrencySelector';
 import LanguageSelector from './LanguageSelector';
+import UserMenu from './UserMenu';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -82,6 +83,8 @@ const Header: React.FC = () => {
               <Wifi className='h-5 w-5 text-green-500' />
             )}
           </Button>
+
+          <UserMenu />
         </div>
       </div>
     </header>
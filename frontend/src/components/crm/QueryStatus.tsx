@@ -0,0 +1,34 @@
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import React from 'react';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+
+export const LoadingState: React.FC<{ label?: string }> = ({
+  label = 'Loading...',
+}) => (
+  <div className='flex items-center justify-center py-12 text-muted-foreground'>
+    <Loader2 className='h-6 w-6 animate-spin mr-2' />
+    <span>{label}</span>
+  </div>
+);
+
+export const ErrorState: React.FC<{
+  title?: string;
+  message: string;
+  onRetry?: () => void;
+}> = ({ title = 'Unable to load data', message, onRetry }) => (
+  <Alert variant='destructive'>
+    <AlertTriangle className='h-4 w-4' />
+    <AlertTitle>{title}</AlertTitle>
+    <AlertDescription className='flex items-center justify-between gap-4'>
+      <span>{message}</span>
+      {onRetry && (
+        <Button variant='outline' size='sm' onClick={onRetry}>
+          <RefreshCw className='h-3 w-3 mr-2' />
+          Retry
+        </Button>
+      )}
+    </AlertDescription>
+  </Alert>
+);
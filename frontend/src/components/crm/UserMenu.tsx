@@ -0,0 +1,111 @@
+import {
+  History,
+  Laptop,
+  LogOut,
+  MonitorX,
+  ShieldCheck,
+  User,
+} from 'lucide-react';
+import React from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { Link } from '@tanstack/react-router';
+import {
+  useLogoutAllDevicesMutation,
+  useLogoutMutation,
+} from '@/store/api/auth.api';
+import { getApiErrorMessage } from '@/store/api/types';
+import { useAppSelector } from '@/store/hooks';
+import {
+  selectCurrentUser,
+  selectRefreshToken,
+} from '@/store/slices/auth.slice';
+
+const UserMenu: React.FC = () => {
+  const user = useAppSelector(selectCurrentUser);
+  const refreshToken = useAppSelector(selectRefreshToken);
+  const [logout, { isLoading: isLoggingOut }] = useLogoutMutation();
+  const [logoutAllDevices, { isLoading: isLoggingOutAll }] =
+    useLogoutAllDevicesMutation();
+  const { toast } = useToast();
+
+  if (!user) {
+    return null;
+  }
+
+  const handleLogoutAll = async () => {
+    try {
+      await logoutAllDevices().unwrap();
+    } catch (error) {
+      toast({
+        title: 'Could not log out other devices',
+        description: getApiErrorMessage(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant='ghost' size='icon' aria-label='Account'>
+          <User className='h-5 w-5' />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align='end'>
+        <DropdownMenuLabel>
+          <div>
+            {user.firstName} {user.lastName}
+          </div>
+          <div className='text-xs font-normal text-gray-500'>{user.email}</div>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to='/crm/sessions' className='flex items-center gap-2'>
+            <Laptop className='h-4 w-4' />
+            Active sessions
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link to='/crm/settings/roles' className='flex items-center gap-2'>
+            <ShieldCheck className='h-4 w-4' />
+            Roles & permissions
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link to='/crm/settings/audit' className='flex items-center gap-2'>
+            <History className='h-4 w-4' />
+            Audit log
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={isLoggingOut || isLoggingOutAll}
+          onClick={() => logout(refreshToken)}
+          className='flex items-center gap-2'
+        >
+          <LogOut className='h-4 w-4' />
+          Log out
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={isLoggingOut || isLoggingOutAll}
+          onClick={handleLogoutAll}
+          className='flex items-center gap-2'
+        >
+          <MonitorX className='h-4 w-4' />
+          Log out all devices
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default UserMenu;
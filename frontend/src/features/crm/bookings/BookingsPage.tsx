@@ -2,6 +2,7 @@ import { format } from 'date-fns';
 import { FileCheck, Plus, File, ClipboardCheck } from 'lucide-react';
 import React from 'react';
 
+import { ErrorState, LoadingState } from '@/components/crm/QueryStatus';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,10 +15,20 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { useCrmStore } from '@/lib/store';
+import { useGetBookingsQuery } from '@/store/api/bookings.api';
+import { useGetLeadsQuery } from '@/store/api/leads.api';
+import { getApiErrorMessage } from '@/store/api/types';
+
+const BOOKINGS_LIMIT = 100;
+const LEAD_LOOKUP_LIMIT = 100;
 
 const BookingsPage: React.FC = () => {
-  const { bookings, leads } = useCrmStore();
+  const { data, isLoading, isError, error, refetch } = useGetBookingsQuery({
+    limit: BOOKINGS_LIMIT,
+  });
+  const { data: leadsData } = useGetLeadsQuery({ limit: LEAD_LOOKUP_LIMIT });
+  const bookings = data?.items ?? [];
+  const leads = leadsData?.items ?? [];
 
   // Create map of lead IDs to names
   const leadMap = leads.reduce(
@@ -89,7 +100,7 @@ const BookingsPage: React.FC = () => {
             </CardTitle>
           </CardHeader>
           <CardContent className='pt-0'>
-            <div className='text-2xl font-bold'>{bookings.length}</div>
+            <div className='text-2xl font-bold'>{data?.total ?? 0}</div>
             <p className='text-xs text-muted-foreground'>All time</p>
           </CardContent>
         </Card>
@@ -144,7 +155,15 @@ const BookingsPage: React.FC = () => {
           <CardTitle>Recent Bookings</CardTitle>
         </CardHeader>
         <CardContent>
-          {bookings.length > 0 ? (
+          {isLoading && <LoadingState label='Loading bookings...' />}
+          {isError && (
+            <ErrorState
+              title='Unable to load bookings'
+              message={getApiErrorMessage(error)}
+              onRetry={refetch}
+            />
+          )}
+          {!data ? null : bookings.length > 0 ? (
             <Table>
               <TableHeader>
                 <TableRow>
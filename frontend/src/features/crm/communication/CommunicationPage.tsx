@@ -1,13 +1,23 @@
 import { MessageSquare, User, Phone, Mail } from 'lucide-react';
 import React from 'react';
 
+import { ErrorState, LoadingState } from '@/components/crm/QueryStatus';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useCrmStore } from '@/lib/store';
+import { useGetCommunicationsQuery } from '@/store/api/communications.api';
+import { useGetLeadsQuery } from '@/store/api/leads.api';
+import { getApiErrorMessage } from '@/store/api/types';
+
+const COMMUNICATIONS_LIMIT = 50;
+const LEAD_LOOKUP_LIMIT = 100;
 
 const CommunicationPage: React.FC = () => {
-  const { communications, leads } = useCrmStore();
+  const { data, isLoading, isError, error, refetch } =
+    useGetCommunicationsQuery({ limit: COMMUNICATIONS_LIMIT });
+  const { data: leadsData } = useGetLeadsQuery({ limit: LEAD_LOOKUP_LIMIT });
+  const communications = data?.items ?? [];
+  const leads = leadsData?.items ?? [];
 
   // Get a mapping of lead IDs to names for display
   const leadMap = leads.reduce(
@@ -60,9 +70,7 @@ const CommunicationPage: React.FC = () => {
               </CardHeader>
               <CardContent className='space-y-1 text-sm'>
                 <p className='text-xs text-muted-foreground'>Last 30 days</p>
-                <div className='text-2xl font-bold'>
-                  {communications.length}
-                </div>
+                <div className='text-2xl font-bold'>{data?.total ?? 0}</div>
               </CardContent>
             </Card>
             <Card>
@@ -110,7 +118,15 @@ const CommunicationPage: React.FC = () => {
             Recent Communications
           </h2>
 
-          {communications.length > 0 ? (
+          {isLoading && <LoadingState label='Loading communications...' />}
+          {isError && (
+            <ErrorState
+              title='Unable to load communications'
+              message={getApiErrorMessage(error)}
+              onRetry={refetch}
+            />
+          )}
+          {!data ? null : communications.length > 0 ? (
             <div className='space-y-4'>
               {communications.map(comm => (
                 <Card key={comm.id} className='overflow-hidden'>
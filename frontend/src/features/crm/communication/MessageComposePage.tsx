@@ -1,5 +1,5 @@
 import { zodResolver } from '@hookform/resolvers/zod';
-import { ArrowLeft, Send, X } from 'lucide-react';
+import { ArrowLeft, Paperclip, Send, X } from 'lucide-react';
 import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 
@@ -24,6 +24,7 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { countSmsSegments } from '@/lib/smsSegments';
 import { useCrmStore } from '@/lib/store';
 
 import { CommunicationChannel } from '@/types/crm';
@@ -36,6 +37,14 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
+import {
+  type EmailAttachmentInput,
+  type SendWhatsAppInput,
+  useSendEmailMutation,
+  useSendSmsMutation,
+  useSendWhatsAppMutation,
+} from '@/store/api/communications.api';
+import { getApiErrorMessage } from '@/store/api/types';
 import { useNavigate, useParams } from '@tanstack/react-router';
 
 // Form schema
@@ -43,11 +52,37 @@ const messageFormSchema = z.object({
   leadId: z.string().min(1, 'Recipient is required'),
   subject: z.string().optional().or(z.literal('')),
   channel: z.nativeEnum(CommunicationChannel),
-  content: z.string().min(1, 'Message content is required'),
+  // Required except for WhatsApp templates, which bring their own text
+  content: z.string(),
+  whatsappType: z.enum(['text', 'template']),
+  templateName: z.string().optional().or(z.literal('')),
+  templateLanguage: z.string().optional().or(z.literal('')),
+  // One template parameter per line
+  templateParameters: z.string().optional().or(z.literal('')),
 });
 
 type MessageFormValues = z.infer<typeof messageFormSchema>;
 
+// Matches the segment limit of the send SMS endpoint
+const MAX_SMS_SEGMENTS = 10;
+
+// Matches the per-file limit of the send email endpoint
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+const toAttachmentInput = (file: File): Promise<EmailAttachmentInput> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve({
+        name: file.name,
+        type: file.type || 'application/octet-stream',
+        // Drop the `data:<type>;base64,` prefix of the data URL
+        content: String(reader.result).split(',')[1] ?? '',
+      });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
 const MessageComposePage: React.FC = () => {
   const { leadId } = useParams({ from: '/crm/communication/new/$leadId' });
   const navigate = useNavigate();
@@ -55,6 +90,12 @@ const MessageComposePage: React.FC = () => {
   const [channelType, setChannelType] = useState<CommunicationChannel>(
     CommunicationChannel.EMAIL
   );
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [sendEmail, { isLoading: isSendingEmail }] = useSendEmailMutation();
+  const [sendWhatsApp, { isLoading: isSendingWhatsApp }] =
+    useSendWhatsAppMutation();
+  const [sendSms, { isLoading: isSendingSms }] = useSendSmsMutation();
+  const isSending = isSendingEmail || isSendingWhatsApp || isSendingSms;
 
   // Initialize form
   const form = useForm<MessageFormValues>({
@@ -64,18 +105,167 @@ const MessageComposePage: React.FC = () => {
       subject: '',
       channel: CommunicationChannel.EMAIL,
       content: '',
+      whatsappType: 'text',
+      templateName: '',
+      templateLanguage: 'en',
+      templateParameters: '',
     },
   });
 
   // Watch for channel changes to update UI
   const watchChannel = form.watch('channel');
+  const isWhatsAppTemplate =
+    channelType === CommunicationChannel.WHATSAPP &&
+    form.watch('whatsappType') === 'template';
+  const smsSegments = countSmsSegments(form.watch('content').trim());
 
   React.useEffect(() => {
     setChannelType(watchChannel as CommunicationChannel);
   }, [watchChannel]);
 
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    const tooLarge = selected.filter(file => file.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      toast({
+        title: 'Attachment too large',
+        description: `${tooLarge.map(file => file.name).join(', ')} exceeds 5 MB.`,
+        variant: 'destructive',
+      });
+    }
+    setAttachments(current => [
+      ...current,
+      ...selected.filter(file => file.size <= MAX_ATTACHMENT_BYTES),
+    ]);
+  };
+
+  // Emails go out through the backend, which logs them on the lead
+  const sendEmailMessage = async (data: MessageFormValues) => {
+    if (!data.subject) {
+      form.setError('subject', { message: 'Subject is required' });
+      return;
+    }
+    try {
+      const communication = await sendEmail({
+        leadId: data.leadId,
+        subject: data.subject,
+        content: data.content,
+        attachments: await Promise.all(attachments.map(toAttachmentInput)),
+      }).unwrap();
+      addCommunication({
+        ...communication,
+        sentAt: new Date(communication.sentAt),
+      });
+      toast({
+        title: 'Email queued',
+        description:
+          'Your email is on its way. Its delivery status is recorded on the lead.',
+      });
+      navigate({ to: `/crm/leads/${data.leadId}` });
+    } catch (error) {
+      toast({
+        title: 'Email not sent',
+        description: getApiErrorMessage(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // WhatsApp messages go out from the agency's business number through the backend
+  const sendWhatsAppMessage = async (data: MessageFormValues) => {
+    if (data.whatsappType === 'template' && !data.templateName) {
+      form.setError('templateName', { message: 'Template name is required' });
+      return;
+    }
+    const message: SendWhatsAppInput =
+      data.whatsappType === 'template'
+        ? {
+            leadId: data.leadId,
+            type: 'template',
+            template: {
+              name: data.templateName ?? '',
+              language: data.templateLanguage || 'en',
+              parameters: (data.templateParameters ?? '')
+                .split('\n')
+                .map(parameter => parameter.trim())
+                .filter(Boolean),
+            },
+          }
+        : { leadId: data.leadId, type: 'text', content: data.content };
+    try {
+      const communication = await sendWhatsApp(message).unwrap();
+      addCommunication({
+        ...communication,
+        sentAt: new Date(communication.sentAt),
+      });
+      toast({
+        title: 'WhatsApp message sent',
+        description: 'Its delivery and read receipts are recorded on the lead.',
+      });
+      navigate({ to: `/crm/leads/${data.leadId}` });
+    } catch (error) {
+      toast({
+        title: 'WhatsApp message not sent',
+        description: getApiErrorMessage(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // SMS go out through the backend under the agency's sender ID
+  const sendSmsMessage = async (data: MessageFormValues) => {
+    if (countSmsSegments(data.content.trim()).segments > MAX_SMS_SEGMENTS) {
+      form.setError('content', {
+        message: `SMS cannot be longer than ${MAX_SMS_SEGMENTS} segments`,
+      });
+      return;
+    }
+    try {
+      const communication = await sendSms({
+        leadId: data.leadId,
+        content: data.content,
+      }).unwrap();
+      addCommunication({
+        ...communication,
+        sentAt: new Date(communication.sentAt),
+      });
+      toast({
+        title: 'SMS sent',
+        description: 'Its delivery status is recorded on the lead.',
+      });
+      navigate({ to: `/crm/leads/${data.leadId}` });
+    } catch (error) {
+      toast({
+        title: 'SMS not sent',
+        description: getApiErrorMessage(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Handle form submission
-  const onSubmit = (data: MessageFormValues) => {
+  const onSubmit = async (data: MessageFormValues) => {
+    const isTemplate =
+      data.channel === CommunicationChannel.WHATSAPP &&
+      data.whatsappType === 'template';
+    if (!isTemplate && !data.content.trim()) {
+      form.setError('content', { message: 'Message content is required' });
+      return;
+    }
+    if (data.channel === CommunicationChannel.EMAIL) {
+      await sendEmailMessage(data);
+      return;
+    }
+    if (data.channel === CommunicationChannel.WHATSAPP) {
+      await sendWhatsAppMessage(data);
+      return;
+    }
+    if (data.channel === CommunicationChannel.SMS) {
+      await sendSmsMessage(data);
+      return;
+    }
+
     if (isOffline) {
       toast({
         title: 'Offline Mode',
@@ -225,7 +415,7 @@ const MessageComposePage: React.FC = () => {
                   name='subject'
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Subject</FormLabel>
+                      <FormLabel>Subject *</FormLabel>
                       <FormControl>
                         <Input placeholder='Message subject' {...field} />
                       </FormControl>
@@ -235,39 +425,181 @@ const MessageComposePage: React.FC = () => {
                 />
               )}
 
-              <FormField
-                control={form.control}
-                name='content'
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>
-                      {channelType === CommunicationChannel.EMAIL
-                        ? 'Email Body'
-                        : channelType === CommunicationChannel.PHONE
-                          ? 'Call Notes'
-                          : channelType === CommunicationChannel.IN_PERSON
-                            ? 'Meeting Notes'
-                            : 'Message'}
-                    </FormLabel>
-                    <FormControl>
-                      <Textarea
-                        placeholder={
-                          channelType === CommunicationChannel.EMAIL
-                            ? 'Compose your email...'
-                            : channelType === CommunicationChannel.PHONE
-                              ? 'Describe the call...'
-                              : channelType === CommunicationChannel.IN_PERSON
-                                ? 'Record meeting notes...'
-                                : 'Enter your message...'
-                        }
-                        {...field}
-                        className='min-h-[200px]'
+              {channelType === CommunicationChannel.WHATSAPP && (
+                <FormField
+                  control={form.control}
+                  name='whatsappType'
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Message Type</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value='text'>Session message</SelectItem>
+                          <SelectItem value='template'>
+                            Approved template
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className='text-sm text-muted-foreground'>
+                        {field.value === 'text'
+                          ? "Session messages can only be sent within 24 hours of the lead's last WhatsApp message."
+                          : 'Templates can be sent at any time once WhatsApp has approved them.'}
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {isWhatsAppTemplate && (
+                <div className='grid gap-4 sm:grid-cols-3'>
+                  <FormField
+                    control={form.control}
+                    name='templateName'
+                    render={({ field }) => (
+                      <FormItem className='sm:col-span-2'>
+                        <FormLabel>Template Name *</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder='booking_confirmation'
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name='templateLanguage'
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Language</FormLabel>
+                        <FormControl>
+                          <Input placeholder='en' {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name='templateParameters'
+                    render={({ field }) => (
+                      <FormItem className='sm:col-span-3'>
+                        <FormLabel>Template Parameters</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder={
+                              'One value per line, for {{1}}, {{2}}...'
+                            }
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              {!isWhatsAppTemplate && (
+                <FormField
+                  control={form.control}
+                  name='content'
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {channelType === CommunicationChannel.EMAIL
+                          ? 'Email Body'
+                          : channelType === CommunicationChannel.PHONE
+                            ? 'Call Notes'
+                            : channelType === CommunicationChannel.IN_PERSON
+                              ? 'Meeting Notes'
+                              : 'Message'}
+                      </FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={
+                            channelType === CommunicationChannel.EMAIL
+                              ? 'Compose your email...'
+                              : channelType === CommunicationChannel.PHONE
+                                ? 'Describe the call...'
+                                : channelType === CommunicationChannel.IN_PERSON
+                                  ? 'Record meeting notes...'
+                                  : 'Enter your message...'
+                          }
+                          {...field}
+                          className='min-h-[200px]'
+                        />
+                      </FormControl>
+                      {channelType === CommunicationChannel.SMS && (
+                        <p className='text-sm text-muted-foreground'>
+                          {smsSegments.length} characters ·{' '}
+                          {smsSegments.segments}{' '}
+                          {smsSegments.segments === 1 ? 'segment' : 'segments'}{' '}
+                          (
+                          {smsSegments.encoding === 'UCS-2'
+                            ? 'Unicode, which fits fewer characters per segment'
+                            : 'GSM-7'}
+                          )
+                        </p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {channelType === CommunicationChannel.EMAIL && (
+                <div className='space-y-2'>
+                  <Button variant='outline' size='sm' type='button' asChild>
+                    <label className='cursor-pointer'>
+                      <Paperclip className='mr-2 h-4 w-4' />
+                      Attach files
+                      <input
+                        type='file'
+                        multiple
+                        className='hidden'
+                        onChange={handleFilesSelected}
                       />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                    </label>
+                  </Button>
+                  {attachments.length > 0 && (
+                    <ul className='space-y-1'>
+                      {attachments.map((file, index) => (
+                        <li
+                          key={`${file.name}-${index}`}
+                          className='flex items-center justify-between rounded-md border px-3 py-1 text-sm'
+                        >
+                          <span className='truncate'>{file.name}</span>
+                          <Button
+                            variant='ghost'
+                            size='sm'
+                            type='button'
+                            aria-label={`Remove ${file.name}`}
+                            onClick={() =>
+                              setAttachments(current =>
+                                current.filter((_, i) => i !== index)
+                              )
+                            }
+                          >
+                            <X className='h-4 w-4' />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
 
               {channelType === CommunicationChannel.EMAIL && (
                 <div className='bg-gray-50 p-4 rounded-md mt-4'>
@@ -333,15 +665,19 @@ const MessageComposePage: React.FC = () => {
             >
               <X className='mr-2 h-4 w-4' /> Cancel
             </Button>
-            <Button type='submit' disabled={isOffline}>
+            <Button type='submit' disabled={isOffline || isSending}>
               <Send className='mr-2 h-4 w-4' />
               {channelType === CommunicationChannel.EMAIL
                 ? 'Send Email'
-                : channelType === CommunicationChannel.PHONE
-                  ? 'Log Call'
-                  : channelType === CommunicationChannel.IN_PERSON
-                    ? 'Save Meeting'
-                    : 'Send Message'}
+                : channelType === CommunicationChannel.WHATSAPP
+                  ? 'Send WhatsApp'
+                  : channelType === CommunicationChannel.SMS
+                    ? 'Send SMS'
+                    : channelType === CommunicationChannel.PHONE
+                      ? 'Log Call'
+                      : channelType === CommunicationChannel.IN_PERSON
+                        ? 'Save Meeting'
+                        : 'Send Message'}
             </Button>
           </div>
         </form>
@@ -22,6 +22,7 @@ import { useNavigate, useParams } from '@tanstack/react-router';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useCurrency } from '@/hooks/useCurrency';
 import { useLeadSuggestions } from '@/hooks/useLeadSuggestions';
 import { useCrmStore } from '@/lib/store';
@@ -29,6 +30,8 @@ import { useCrmStore } from '@/lib/store';
 import { toast } from '@/hooks/use-toast';
 import { LeadStatus } from '@/types/crm';
 
+import LeadHistory from './LeadHistory';
+
 // Helper function to safely format dates
 const safeFormat = (
   date: Date | string | undefined,
@@ -439,17 +442,22 @@ const LeadDetailPage: React.FC = () => {
           </Card>
 
           <Card>
-            <CardHeader className='pb-2'>
-              <CardTitle>Timeline</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {timelineItems.length > 0 ? (
-                <div className='space-y-4'>
-                  {timelineItems.map((item, index) => (
-                    <div key={index} className='flex'>
-                      <div className='mr-4 relative'>
-                        <div
-                          className={`w-8 h-8 rounded-full flex items-center justify-center
+            <Tabs defaultValue='timeline'>
+              <CardHeader className='pb-2'>
+                <TabsList className='w-fit'>
+                  <TabsTrigger value='timeline'>Timeline</TabsTrigger>
+                  <TabsTrigger value='history'>History</TabsTrigger>
+                </TabsList>
+              </CardHeader>
+              <CardContent>
+                <TabsContent value='timeline' className='mt-0'>
+                  {timelineItems.length > 0 ? (
+                    <div className='space-y-4'>
+                      {timelineItems.map((item, index) => (
+                        <div key={index} className='flex'>
+                          <div className='mr-4 relative'>
+                            <div
+                              className={`w-8 h-8 rounded-full flex items-center justify-center
                           ${
                             item.type === 'communication'
                               ? 'bg-blue-100 text-blue-600'
@@ -457,46 +465,55 @@ const LeadDetailPage: React.FC = () => {
                                 ? 'bg-green-100 text-green-600'
                                 : 'bg-[#9b87f5]/20 text-[#9b87f5]'
                           }`}
-                        >
-                          {item.type === 'communication' && (
-                            <MessageSquare className='h-4 w-4' />
-                          )}
-                          {item.type === 'task' && (
-                            <ClipboardList className='h-4 w-4' />
-                          )}
-                          {item.type === 'booking' && (
-                            <FileCheck className='h-4 w-4' />
-                          )}
-                        </div>
-                        {index < timelineItems.length - 1 && (
-                          <div className='absolute top-8 bottom-0 left-1/2 w-0.5 -ml-0.5 bg-gray-200' />
-                        )}
-                      </div>
-                      <div className='flex-1 pb-6'>
-                        <div className='text-sm font-medium'>
-                          {item.type === 'communication' && 'Communication'}
-                          {item.type === 'task' && 'Task Completed'}
-                          {item.type === 'booking' && 'Booking Created'}
-                        </div>
-                        <div className='text-xs text-muted-foreground'>
-                          {safeFormat(item.date, "MMM d, yyyy 'at' h:mm a")}
-                        </div>
-                        <div className='mt-2 p-3 bg-muted/50 rounded-md text-sm'>
-                          {item.type === 'communication' && item.data.content}
-                          {item.type === 'task' && item.data.title}
-                          {item.type === 'booking' &&
-                            `${item.data.itinerary?.name || 'Booking'} - $${item.data.totalAmount.toLocaleString()}`}
+                            >
+                              {item.type === 'communication' && (
+                                <MessageSquare className='h-4 w-4' />
+                              )}
+                              {item.type === 'task' && (
+                                <ClipboardList className='h-4 w-4' />
+                              )}
+                              {item.type === 'booking' && (
+                                <FileCheck className='h-4 w-4' />
+                              )}
+                            </div>
+                            {index < timelineItems.length - 1 && (
+                              <div className='absolute top-8 bottom-0 left-1/2 w-0.5 -ml-0.5 bg-gray-200' />
+                            )}
+                          </div>
+                          <div className='flex-1 pb-6'>
+                            <div className='text-sm font-medium'>
+                              {item.type === 'communication' && 'Communication'}
+                              {item.type === 'task' && 'Task Completed'}
+                              {item.type === 'booking' && 'Booking Created'}
+                            </div>
+                            <div className='text-xs text-muted-foreground'>
+                              {safeFormat(item.date, "MMM d, yyyy 'at' h:mm a")}
+                            </div>
+                            <div className='mt-2 p-3 bg-muted/50 rounded-md text-sm'>
+                              {item.type === 'communication' &&
+                                item.data.content}
+                              {item.type === 'task' && item.data.title}
+                              {item.type === 'booking' &&
+                                `${item.data.itinerary?.name || 'Booking'} - $${item.data.totalAmount.toLocaleString()}`}
+                            </div>
+                          </div>
                         </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              ) : (
-                <div className='text-center py-8 text-muted-foreground'>
-                  No activity recorded for this lead yet.
-                </div>
-              )}
-            </CardContent>
+                  ) : (
+                    <div className='text-center py-8 text-muted-foreground'>
+                      No activity recorded for this lead yet.
+                    </div>
+                  )}
+                </TabsContent>
+                <TabsContent value='history' className='mt-0'>
+                  <LeadHistory
+                    leadId={lead.id}
+                    onReverted={reverted => updateLead(lead.id, reverted)}
+                  />
+                </TabsContent>
+              </CardContent>
+            </Tabs>
           </Card>
         </div>
 
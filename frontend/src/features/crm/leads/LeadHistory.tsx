@@ -0,0 +1,138 @@
+import { format, parseISO } from 'date-fns';
+import { RotateCcw } from 'lucide-react';
+import React from 'react';
+
+import { ErrorState, LoadingState } from '@/components/crm/QueryStatus';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { formatAuditValue } from '@/lib/utils';
+import {
+  type LeadVersion,
+  useGetLeadHistoryQuery,
+  useRevertLeadMutation,
+} from '@/store/api/leads.api';
+import { getApiErrorMessage } from '@/store/api/types';
+import type { Lead } from '@/types/crm';
+
+interface LeadHistoryProps {
+  leadId: string;
+  onReverted: (lead: Lead) => void;
+}
+
+const describeVersion = (leadVersion: LeadVersion): string => {
+  if (leadVersion.action === 'create') {
+    return 'Lead created';
+  }
+  return leadVersion.revertedTo
+    ? `Reverted to version ${leadVersion.revertedTo}`
+    : 'Lead updated';
+};
+
+// Webhooks, such as inbound email or SMS, change leads as the system
+const describeActor = (leadVersion: LeadVersion): string => {
+  if (leadVersion.actor) {
+    return leadVersion.actor.name;
+  }
+  return leadVersion.actorType === 'system'
+    ? 'System (webhook)'
+    : 'Unknown user';
+};
+
+// Versions of a lead, newest first, with the fields each one changed.
+// Reverting restores the values a version had and is itself a new version.
+const LeadHistory: React.FC<LeadHistoryProps> = ({ leadId, onReverted }) => {
+  const {
+    data: versions = [],
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useGetLeadHistoryQuery(leadId);
+  const [revertLead, { isLoading: isReverting }] = useRevertLeadMutation();
+
+  const handleRevert = async (leadVersion: LeadVersion) => {
+    try {
+      const lead = await revertLead({
+        leadId,
+        versionId: leadVersion.id,
+      }).unwrap();
+      onReverted(lead);
+      toast({ title: `Lead reverted to version ${leadVersion.version}` });
+    } catch (revertError) {
+      toast({
+        title: 'Could not revert lead',
+        description: getApiErrorMessage(revertError),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingState label='Loading history...' />;
+  }
+  if (isError) {
+    return <ErrorState message={getApiErrorMessage(error)} onRetry={refetch} />;
+  }
+  if (versions.length === 0) {
+    return (
+      <div className='text-center py-8 text-muted-foreground'>
+        No changes recorded for this lead yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className='space-y-4'>
+      {versions.map((leadVersion, index) => (
+        <div key={leadVersion.id} className='rounded-md border p-3'>
+          <div className='flex items-start justify-between gap-4'>
+            <div>
+              <div className='flex items-center gap-2 text-sm font-medium'>
+                <Badge variant='outline'>v{leadVersion.version}</Badge>
+                {describeVersion(leadVersion)}
+              </div>
+              <div className='mt-1 text-xs text-muted-foreground'>
+                {describeActor(leadVersion)}
+                {leadVersion.impersonatedBy && ' (impersonated)'}
+                <span className='mx-2'>•</span>
+                {format(
+                  parseISO(leadVersion.createdAt),
+                  "MMM d, yyyy 'at' h:mm a"
+                )}
+              </div>
+            </div>
+            {index > 0 && (
+              <Button
+                variant='outline'
+                size='sm'
+                disabled={isReverting}
+                onClick={() => handleRevert(leadVersion)}
+              >
+                <RotateCcw className='mr-2 h-3 w-3' />
+                Revert
+              </Button>
+            )}
+          </div>
+          {leadVersion.changes.length > 0 && (
+            <ul className='mt-3 space-y-1 text-sm'>
+              {leadVersion.changes.map(change => (
+                <li key={change.field} className='break-words'>
+                  <span className='font-medium'>{change.field}</span>
+                  {': '}
+                  <span className='text-muted-foreground line-through'>
+                    {formatAuditValue(change.before)}
+                  </span>
+                  {' → '}
+                  <span>{formatAuditValue(change.after)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LeadHistory;
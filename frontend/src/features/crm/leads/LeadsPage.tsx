@@ -9,12 +9,13 @@ import {
   Plus,
   User,
 } from 'lucide-react';
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useDeferredValue, useMemo, useState } from 'react';
 
 import BulkUploadModal from './BulkUploadModal';
 import LeadKanbanView from './LeadKanbanView';
 import LeadListView from './LeadListView';
 
+import { ErrorState, LoadingState } from '@/components/crm/QueryStatus';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -32,6 +33,8 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { useCrmStore } from '@/lib/store';
+import { getApiErrorMessage } from '@/store/api/types';
+import { useGetLeadsQuery } from '@/store/api/leads.api';
 import { LeadSource, LeadStatus } from '@/types/crm';
 
 import { Separator } from '@/components/ui/separator';
@@ -51,9 +54,11 @@ interface SortConfig {
   direction: 'asc' | 'desc';
 }
 
+const LEADS_PAGE_SIZE = 50;
+
 const LeadsPage: React.FC = () => {
   const navigate = useNavigate();
-  const { leads, leadViewMode, setLeadViewMode, isOffline } = useCrmStore();
+  const { leadViewMode, setLeadViewMode, isOffline } = useCrmStore();
 
   // Enhanced state management
   const [searchTerm, setSearchTerm] = useState('');
@@ -68,22 +73,25 @@ const LeadsPage: React.FC = () => {
     key: 'createdAt',
     direction: 'desc',
   });
+  const [page, setPage] = useState(1);
+  const deferredSearch = useDeferredValue(searchTerm.trim());
+
+  // Search, status, source and sorting are applied by the API
+  const { data, isLoading, isFetching, isError, error, refetch } =
+    useGetLeadsQuery({
+      page,
+      limit: LEADS_PAGE_SIZE,
+      search: deferredSearch || undefined,
+      status: filters.status === 'all' ? undefined : filters.status,
+      source: filters.source === 'all' ? undefined : filters.source,
+      sort: sortConfig.key,
+      order: sortConfig.direction,
+    });
+  const leads = useMemo(() => data?.items ?? [], [data]);
 
-  // Memoized filtering logic
+  // Memoized filtering logic for filters the API does not support
   const filteredLeads = useMemo(() => {
     return leads.filter(lead => {
-      const matchesSearch =
-        !searchTerm ||
-        lead.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        lead.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        lead.phone?.includes(searchTerm);
-
-      const matchesStatus =
-        filters.status === 'all' || lead.status === filters.status;
-
-      const matchesSource =
-        filters.source === 'all' || lead.source === filters.source;
-
       const matchesPriority = (() => {
         if (filters.priority === 'all') {
           return true;
@@ -126,50 +134,21 @@ const LeadsPage: React.FC = () => {
       const matchesAssignee =
         filters.assignee === 'all' || lead.assignedTo === filters.assignee;
 
-      return (
-        matchesSearch &&
-        matchesStatus &&
-        matchesSource &&
-        matchesPriority &&
-        matchesDateRange &&
-        matchesAssignee
-      );
-    });
-  }, [leads, searchTerm, filters]);
-
-  // Memoized sorting logic
-  const sortedLeads = useMemo(() => {
-    return [...filteredLeads].sort((a, b) => {
-      const direction = sortConfig.direction === 'asc' ? 1 : -1;
-      switch (sortConfig.key) {
-        case 'name':
-          return direction * a.name.localeCompare(b.name);
-        case 'createdAt':
-          return (
-            direction *
-            (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-          );
-        case 'aiPriorityScore':
-          return (
-            direction * ((a.aiPriorityScore || 0) - (b.aiPriorityScore || 0))
-          );
-        case 'budget':
-          return direction * ((a.budget || 0) - (b.budget || 0));
-        default:
-          return 0;
-      }
+      return matchesPriority && matchesDateRange && matchesAssignee;
     });
-  }, [filteredLeads, sortConfig]);
+  }, [leads, filters]);
 
   // Handler functions
   const handleFilterChange = useCallback(
     (key: keyof FilterState, value: string) => {
       setFilters(prev => ({ ...prev, [key]: value }));
+      setPage(1);
     },
     []
   );
 
   const handleSortChange = useCallback((key: SortConfig['key']) => {
+    setPage(1);
     setSortConfig(prev => ({
       key,
       direction: prev.key === key && prev.direction === 'desc' ? 'asc' : 'desc',
@@ -207,7 +186,10 @@ const LeadsPage: React.FC = () => {
             placeholder='Search leads...'
             className='w-full pl-9 bg-white'
             value={searchTerm}
-            onChange={e => setSearchTerm(e.target.value)}
+            onChange={e => {
+              setSearchTerm(e.target.value);
+              setPage(1);
+            }}
           />
         </div>
 
@@ -350,102 +332,157 @@ const LeadsPage: React.FC = () => {
         </div>
       </div>
 
-      <Tabs defaultValue='all' className='w-full'>
-        <TabsList className='grid grid-cols-4 sm:grid-cols-7'>
-          <TabsTrigger value='all'>All</TabsTrigger>
-          <TabsTrigger value='new'>New</TabsTrigger>
-          <TabsTrigger value='contacted'>Contacted</TabsTrigger>
-          <TabsTrigger value='qualified'>Qualified</TabsTrigger>
-          <TabsTrigger value='proposal' className='hidden sm:inline-flex'>
-            Proposal
-          </TabsTrigger>
-          <TabsTrigger value='negotiation' className='hidden sm:inline-flex'>
-            Negotiation
-          </TabsTrigger>
-          <TabsTrigger value='booked' className='hidden sm:inline-flex'>
-            Booked
-          </TabsTrigger>
-        </TabsList>
-        <TabsContent value='all' className='mt-4'>
-          {leadViewMode === 'list' ? (
-            <LeadListView leads={sortedLeads} />
-          ) : (
-            <LeadKanbanView leads={sortedLeads} />
-          )}
-        </TabsContent>
-        <TabsContent value='new' className='mt-4'>
-          {leadViewMode === 'list' ? (
-            <LeadListView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.NEW)}
-            />
-          ) : (
-            <LeadKanbanView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.NEW)}
-            />
-          )}
-        </TabsContent>
-        <TabsContent value='contacted' className='mt-4'>
-          {leadViewMode === 'list' ? (
-            <LeadListView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.CONTACTED)}
-            />
-          ) : (
-            <LeadKanbanView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.CONTACTED)}
-            />
-          )}
-        </TabsContent>
-        <TabsContent value='qualified' className='mt-4'>
-          {leadViewMode === 'list' ? (
-            <LeadListView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.QUALIFIED)}
-            />
-          ) : (
-            <LeadKanbanView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.QUALIFIED)}
-            />
-          )}
-        </TabsContent>
-        <TabsContent value='proposal' className='mt-4'>
-          {leadViewMode === 'list' ? (
-            <LeadListView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.PROPOSAL)}
-            />
-          ) : (
-            <LeadKanbanView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.PROPOSAL)}
-            />
-          )}
-        </TabsContent>
-        <TabsContent value='negotiation' className='mt-4'>
-          {leadViewMode === 'list' ? (
-            <LeadListView
-              leads={sortedLeads.filter(
-                l => l.status === LeadStatus.NEGOTIATION
-              )}
-            />
-          ) : (
-            <LeadKanbanView
-              leads={sortedLeads.filter(
-                l => l.status === LeadStatus.NEGOTIATION
-              )}
-            />
-          )}
-        </TabsContent>
-        <TabsContent value='booked' className='mt-4'>
-          {leadViewMode === 'list' ? (
-            <LeadListView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.BOOKED)}
-            />
-          ) : (
-            <LeadKanbanView
-              leads={sortedLeads.filter(l => l.status === LeadStatus.BOOKED)}
-            />
-          )}
-        </TabsContent>
-      </Tabs>
+      {isLoading && <LoadingState label='Loading leads...' />}
+
+      {isError && (
+        <ErrorState
+          title='Unable to load leads'
+          message={getApiErrorMessage(error)}
+          onRetry={refetch}
+        />
+      )}
+
+      {data && (
+        <Tabs defaultValue='all' className='w-full'>
+          <TabsList className='grid grid-cols-4 sm:grid-cols-7'>
+            <TabsTrigger value='all'>All</TabsTrigger>
+            <TabsTrigger value='new'>New</TabsTrigger>
+            <TabsTrigger value='contacted'>Contacted</TabsTrigger>
+            <TabsTrigger value='qualified'>Qualified</TabsTrigger>
+            <TabsTrigger value='proposal' className='hidden sm:inline-flex'>
+              Proposal
+            </TabsTrigger>
+            <TabsTrigger value='negotiation' className='hidden sm:inline-flex'>
+              Negotiation
+            </TabsTrigger>
+            <TabsTrigger value='booked' className='hidden sm:inline-flex'>
+              Booked
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value='all' className='mt-4'>
+            {leadViewMode === 'list' ? (
+              <LeadListView leads={filteredLeads} />
+            ) : (
+              <LeadKanbanView leads={filteredLeads} />
+            )}
+          </TabsContent>
+          <TabsContent value='new' className='mt-4'>
+            {leadViewMode === 'list' ? (
+              <LeadListView
+                leads={filteredLeads.filter(l => l.status === LeadStatus.NEW)}
+              />
+            ) : (
+              <LeadKanbanView
+                leads={filteredLeads.filter(l => l.status === LeadStatus.NEW)}
+              />
+            )}
+          </TabsContent>
+          <TabsContent value='contacted' className='mt-4'>
+            {leadViewMode === 'list' ? (
+              <LeadListView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.CONTACTED
+                )}
+              />
+            ) : (
+              <LeadKanbanView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.CONTACTED
+                )}
+              />
+            )}
+          </TabsContent>
+          <TabsContent value='qualified' className='mt-4'>
+            {leadViewMode === 'list' ? (
+              <LeadListView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.QUALIFIED
+                )}
+              />
+            ) : (
+              <LeadKanbanView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.QUALIFIED
+                )}
+              />
+            )}
+          </TabsContent>
+          <TabsContent value='proposal' className='mt-4'>
+            {leadViewMode === 'list' ? (
+              <LeadListView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.PROPOSAL
+                )}
+              />
+            ) : (
+              <LeadKanbanView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.PROPOSAL
+                )}
+              />
+            )}
+          </TabsContent>
+          <TabsContent value='negotiation' className='mt-4'>
+            {leadViewMode === 'list' ? (
+              <LeadListView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.NEGOTIATION
+                )}
+              />
+            ) : (
+              <LeadKanbanView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.NEGOTIATION
+                )}
+              />
+            )}
+          </TabsContent>
+          <TabsContent value='booked' className='mt-4'>
+            {leadViewMode === 'list' ? (
+              <LeadListView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.BOOKED
+                )}
+              />
+            ) : (
+              <LeadKanbanView
+                leads={filteredLeads.filter(
+                  l => l.status === LeadStatus.BOOKED
+                )}
+              />
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {data && data.pagination.totalPages > 1 && (
+        <div className='flex items-center justify-between'>
+          <p className='text-sm text-muted-foreground'>
+            Page {data.pagination.currentPage} of {data.pagination.totalPages} (
+            {data.total} leads)
+          </p>
+          <div className='flex gap-2'>
+            <Button
+              variant='outline'
+              size='sm'
+              disabled={!data.pagination.hasPrevPage || isFetching}
+              onClick={() => setPage(prev => prev - 1)}
+            >
+              Previous
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              disabled={!data.pagination.hasNextPage || isFetching}
+              onClick={() => setPage(prev => prev + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
 
-      {filteredLeads.length === 0 && (
+      {data && filteredLeads.length === 0 && (
         <Card className='bg-gray-50 border-dashed'>
           <CardHeader className='space-y-1'>
             <CardTitle className='text-xl'>No leads found</CardTitle>
@@ -0,0 +1,94 @@
+import { Laptop } from 'lucide-react';
+import React from 'react';
+
+import { ErrorState, LoadingState } from '@/components/crm/QueryStatus';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+} from '@/store/api/auth.api';
+import { getApiErrorMessage } from '@/store/api/types';
+
+import TwoFactorCard from './TwoFactorCard';
+
+const SessionsPage: React.FC = () => {
+  const { data, isLoading, isError, error, refetch } = useGetSessionsQuery();
+  const [revokeSession, { isLoading: isRevoking }] = useRevokeSessionMutation();
+  const { toast } = useToast();
+  const sessions = data ?? [];
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await revokeSession(id).unwrap();
+      toast({ title: 'Session revoked' });
+    } catch (revokeError) {
+      toast({
+        title: 'Could not revoke session',
+        description: getApiErrorMessage(revokeError),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      <div>
+        <h1 className='text-2xl font-bold tracking-tight'>Active Sessions</h1>
+        <p className='text-muted-foreground'>
+          Devices currently signed in to your account
+        </p>
+      </div>
+
+      <TwoFactorCard />
+
+      {isLoading && <LoadingState label='Loading sessions...' />}
+      {isError && (
+        <ErrorState
+          title='Unable to load sessions'
+          message={getApiErrorMessage(error)}
+          onRetry={refetch}
+        />
+      )}
+      <div className='space-y-4'>
+        {sessions.map(session => (
+          <Card key={session.id} className='flex items-center gap-4 p-4'>
+            <Laptop className='h-6 w-6 text-muted-foreground' />
+            <div className='flex-1'>
+              <div className='flex items-center gap-2 font-medium'>
+                {session.device}
+                {session.current && (
+                  <Badge variant='secondary'>This device</Badge>
+                )}
+                {session.impersonated && (
+                  <Badge variant='outline'>Platform support</Badge>
+                )}
+              </div>
+              <div className='text-xs text-muted-foreground'>
+                {session.ip || 'Unknown IP'}
+                <span className='mx-2'>•</span>
+                Signed in {new Date(session.createdAt).toLocaleString()}
+                <span className='mx-2'>•</span>
+                Last active {new Date(session.lastSeenAt).toLocaleString()}
+              </div>
+            </div>
+            {!session.current && (
+              <Button
+                variant='outline'
+                size='sm'
+                disabled={isRevoking}
+                onClick={() => handleRevoke(session.id)}
+              >
+                Revoke
+              </Button>
+            )}
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsPage;
@@ -0,0 +1,184 @@
+import { ShieldCheck } from 'lucide-react';
+import React, { useState } from 'react';
+
+import { RecoveryCodesList } from '@/components/auth/RecoveryCodesList';
+import {
+  TOTP_CODE_LENGTH,
+  TotpCodeInput,
+} from '@/components/auth/TotpCodeInput';
+import { TotpSetupDetails } from '@/components/auth/TotpSetupDetails';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import {
+  type TwoFactorSetup,
+  useConfirmTwoFactorMutation,
+  useDisableTwoFactorMutation,
+  useGetTwoFactorStatusQuery,
+  useRegenerateRecoveryCodesMutation,
+  useSetupTwoFactorMutation,
+} from '@/store/api/auth.api';
+import { getApiErrorMessage } from '@/store/api/types';
+
+// Actions that need a fresh authenticator code before they run
+type CodeAction = 'confirm' | 'regenerate' | 'disable';
+
+const TwoFactorCard: React.FC = () => {
+  const { data: status, isLoading } = useGetTwoFactorStatusQuery();
+  const [setupTwoFactor, { isLoading: isStarting }] =
+    useSetupTwoFactorMutation();
+  const [confirmTwoFactor, { isLoading: isConfirming }] =
+    useConfirmTwoFactorMutation();
+  const [regenerateCodes, { isLoading: isRegenerating }] =
+    useRegenerateRecoveryCodesMutation();
+  const [disableTwoFactor, { isLoading: isDisabling }] =
+    useDisableTwoFactorMutation();
+  const { toast } = useToast();
+
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [action, setAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const isBusy = isStarting || isConfirming || isRegenerating || isDisabling;
+
+  const showError = (title: string, error: unknown) =>
+    toast({
+      title,
+      description: getApiErrorMessage(error),
+      variant: 'destructive',
+    });
+
+  const handleSetup = async () => {
+    try {
+      setSetup(await setupTwoFactor().unwrap());
+      setAction('confirm');
+      setRecoveryCodes(null);
+    } catch (error) {
+      showError('Could not start two-factor setup', error);
+    }
+  };
+
+  const reset = () => {
+    setAction(null);
+    setSetup(null);
+    setCode('');
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (action === 'confirm') {
+        const result = await confirmTwoFactor(code).unwrap();
+        setRecoveryCodes(result.recoveryCodes);
+        toast({ title: 'Two-factor authentication enabled' });
+      } else if (action === 'regenerate') {
+        const result = await regenerateCodes(code).unwrap();
+        setRecoveryCodes(result.recoveryCodes);
+        toast({ title: 'Recovery codes replaced' });
+      } else if (action === 'disable') {
+        await disableTwoFactor(code).unwrap();
+        toast({ title: 'Two-factor authentication disabled' });
+      }
+      reset();
+    } catch (error) {
+      setCode('');
+      showError('Invalid authentication code', error);
+    }
+  };
+
+  if (isLoading || !status) {
+    return null;
+  }
+
+  return (
+    <Card className='space-y-4 p-4'>
+      <div className='flex items-center gap-4'>
+        <ShieldCheck className='h-6 w-6 text-muted-foreground' />
+        <div className='flex-1'>
+          <div className='flex items-center gap-2 font-medium'>
+            Two-factor authentication
+            <Badge variant={status.enabled ? 'default' : 'secondary'}>
+              {status.enabled ? 'On' : 'Off'}
+            </Badge>
+            {status.required && <Badge variant='outline'>Required</Badge>}
+          </div>
+          <div className='text-xs text-muted-foreground'>
+            {status.enabled
+              ? `${status.recoveryCodesRemaining} recovery codes left`
+              : 'Protect your account with codes from an authenticator app'}
+          </div>
+        </div>
+        {!action && !status.enabled && (
+          <Button size='sm' disabled={isBusy} onClick={handleSetup}>
+            Set up
+          </Button>
+        )}
+        {!action && status.enabled && (
+          <div className='flex gap-2'>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => setAction('regenerate')}
+            >
+              New recovery codes
+            </Button>
+            {!status.required && (
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={() => setAction('disable')}
+              >
+                Turn off
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {action && (
+        <form
+          className='space-y-4'
+          onSubmit={event => {
+            event.preventDefault();
+            handleSubmit();
+          }}
+        >
+          {setup && <TotpSetupDetails setup={setup} />}
+          {!setup && (
+            <p className='text-sm'>
+              Enter the code from your authenticator app to continue.
+            </p>
+          )}
+          <TotpCodeInput value={code} onChange={setCode} disabled={isBusy} />
+          <div className='flex gap-2'>
+            <Button
+              type='submit'
+              size='sm'
+              disabled={isBusy || code.length !== TOTP_CODE_LENGTH}
+            >
+              {action === 'disable' ? 'Turn off' : 'Confirm'}
+            </Button>
+            <Button type='button' variant='ghost' size='sm' onClick={reset}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes && (
+        <div className='space-y-2'>
+          <RecoveryCodesList codes={recoveryCodes} />
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => setRecoveryCodes(null)}
+          >
+            Done
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default TwoFactorCard;
@@ -0,0 +1,76 @@
+import React from 'react';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatAuditValue } from '@/lib/utils';
+import type { AuditLog } from '@/store/api/auditLogs.api';
+
+interface AuditChangesProps {
+  auditLog: AuditLog;
+}
+
+// Field-by-field diff of an audit entry followed by the request it came from.
+// Redacted fields, such as passwords, are listed without their values.
+const AuditChanges: React.FC<AuditChangesProps> = ({ auditLog }) => (
+  <div className='space-y-3'>
+    {auditLog.changes.length > 0 && (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Before</TableHead>
+            <TableHead>After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {auditLog.changes.map(change => {
+            const isRedacted = !('before' in change) && !('after' in change);
+            return (
+              <TableRow key={change.field}>
+                <TableCell className='font-medium'>{change.field}</TableCell>
+                {isRedacted ? (
+                  <TableCell colSpan={2} className='text-muted-foreground'>
+                    Changed (value hidden)
+                  </TableCell>
+                ) : (
+                  <>
+                    <TableCell className='max-w-xs whitespace-pre-wrap break-words font-mono text-xs'>
+                      {formatAuditValue(change.before)}
+                    </TableCell>
+                    <TableCell className='max-w-xs whitespace-pre-wrap break-words font-mono text-xs'>
+                      {formatAuditValue(change.after)}
+                    </TableCell>
+                  </>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    )}
+    {auditLog.details && (
+      <pre className='whitespace-pre-wrap break-words rounded bg-muted p-2 text-xs'>
+        {JSON.stringify(auditLog.details, null, 2)}
+      </pre>
+    )}
+    <div className='text-xs text-muted-foreground'>
+      {auditLog.method && auditLog.path && (
+        <>
+          {auditLog.method} {auditLog.path}
+          <span className='mx-2'>•</span>
+        </>
+      )}
+      {auditLog.ip || 'Unknown IP'}
+      <span className='mx-2'>•</span>
+      {auditLog.userAgent || 'Unknown client'}
+    </div>
+  </div>
+);
+
+export default AuditChanges;
@@ -0,0 +1,323 @@
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import React, { Fragment, useState } from 'react';
+
+import { ErrorState, LoadingState } from '@/components/crm/QueryStatus';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  type AuditActorType,
+  type AuditLog,
+  useGetAuditLogsQuery,
+} from '@/store/api/auditLogs.api';
+import { getApiErrorMessage } from '@/store/api/types';
+import { useGetUsersQuery } from '@/store/api/users.api';
+
+import AuditChanges from './AuditChanges';
+
+const AUDIT_PAGE_SIZE = 25;
+// Enough to list every member of a typical agency in the actor filter
+const ACTOR_OPTIONS_LIMIT = 100;
+const ALL = 'all';
+
+// Actors that are not users of the agency
+const ACTOR_TYPE_LABELS: Partial<Record<AuditActorType, string>> = {
+  platform_operator: 'Platform support',
+  system: 'System (webhook)',
+};
+
+const RESOURCES = [
+  'leads',
+  'tasks',
+  'bookings',
+  'communications',
+  'users',
+  'invitations',
+  'roles',
+  'agencies',
+];
+
+interface AuditFilters {
+  actorId: string;
+  resource: string;
+  // yyyy-mm-dd values of the date inputs
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  actorId: ALL,
+  resource: ALL,
+  from: '',
+  to: '',
+};
+
+// Date inputs pick whole days in the viewer's time zone
+const startOfDay = (date: string) =>
+  date ? new Date(`${date}T00:00:00`).toISOString() : undefined;
+const endOfDay = (date: string) =>
+  date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined;
+
+const formatAction = (action: string) => action.replace(/_/g, ' ');
+
+const actorLabel = (auditLog: AuditLog) => {
+  if (auditLog.actor) {
+    return auditLog.actor.name;
+  }
+  return ACTOR_TYPE_LABELS[auditLog.actorType] ?? 'Unknown user';
+};
+
+const AuditLogPage: React.FC = () => {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data, isLoading, isFetching, isError, error, refetch } =
+    useGetAuditLogsQuery({
+      page,
+      limit: AUDIT_PAGE_SIZE,
+      actorId: filters.actorId === ALL ? undefined : filters.actorId,
+      resource: filters.resource === ALL ? undefined : filters.resource,
+      from: startOfDay(filters.from),
+      to: endOfDay(filters.to),
+    });
+  // Without users:read the actor filter is simply left empty
+  const { data: users } = useGetUsersQuery({ limit: ACTOR_OPTIONS_LIMIT });
+  const auditLogs = data?.items ?? [];
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(1);
+    setExpandedId(null);
+  };
+
+  return (
+    <div className='space-y-6'>
+      <div>
+        <h1 className='text-2xl font-bold tracking-tight'>Audit Log</h1>
+        <p className='text-muted-foreground'>
+          Every change made in your agency, who made it and when
+        </p>
+      </div>
+
+      <Card className='grid gap-4 p-4 md:grid-cols-5 md:items-end'>
+        <div className='space-y-2'>
+          <Label>User</Label>
+          <Select
+            value={filters.actorId}
+            onValueChange={value => updateFilter('actorId', value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everyone</SelectItem>
+              {users?.items.map(user => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.firstName} {user.lastName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className='space-y-2'>
+          <Label>Resource</Label>
+          <Select
+            value={filters.resource}
+            onValueChange={value => updateFilter('resource', value)}
+          >
+            <SelectTrigger className='capitalize'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All resources</SelectItem>
+              {RESOURCES.map(resource => (
+                <SelectItem
+                  key={resource}
+                  value={resource}
+                  className='capitalize'
+                >
+                  {resource}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className='space-y-2'>
+          <Label htmlFor='audit-from'>From</Label>
+          <Input
+            id='audit-from'
+            type='date'
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={event => updateFilter('from', event.target.value)}
+          />
+        </div>
+        <div className='space-y-2'>
+          <Label htmlFor='audit-to'>To</Label>
+          <Input
+            id='audit-to'
+            type='date'
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={event => updateFilter('to', event.target.value)}
+          />
+        </div>
+        <Button
+          variant='outline'
+          onClick={() => {
+            setFilters(EMPTY_FILTERS);
+            setPage(1);
+          }}
+        >
+          Clear filters
+        </Button>
+      </Card>
+
+      {isLoading && <LoadingState label='Loading audit log...' />}
+      {isError && (
+        <ErrorState
+          title='Unable to load the audit log'
+          message={getApiErrorMessage(error)}
+          onRetry={refetch}
+        />
+      )}
+
+      {data && (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className='w-8' />
+                <TableHead>When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Resource</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {auditLogs.map(auditLog => {
+                const isExpanded = auditLog.id === expandedId;
+                return (
+                  <Fragment key={auditLog.id}>
+                    <TableRow
+                      className='cursor-pointer'
+                      onClick={() =>
+                        setExpandedId(isExpanded ? null : auditLog.id)
+                      }
+                    >
+                      <TableCell>
+                        {isExpanded ? (
+                          <ChevronDown className='h-4 w-4' />
+                        ) : (
+                          <ChevronRight className='h-4 w-4' />
+                        )}
+                      </TableCell>
+                      <TableCell className='whitespace-nowrap'>
+                        {new Date(auditLog.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className='flex items-center gap-2'>
+                          {actorLabel(auditLog)}
+                          {auditLog.impersonatedBy && (
+                            <Badge variant='outline'>Platform support</Badge>
+                          )}
+                        </div>
+                        {auditLog.actor && (
+                          <div className='text-xs text-muted-foreground'>
+                            {auditLog.actor.email}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className='capitalize'>
+                        <div className='flex items-center gap-2'>
+                          {formatAction(auditLog.action)}
+                          {auditLog.status === 'failure' && (
+                            <Badge variant='destructive'>Failed</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className='capitalize'>
+                        {auditLog.resource ?? '—'}
+                      </TableCell>
+                      <TableCell className='text-muted-foreground'>
+                        {auditLog.changes.length > 0
+                          ? auditLog.changes
+                              .map(change => change.field)
+                              .join(', ')
+                          : '—'}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={5}>
+                          <AuditChanges auditLog={auditLog} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {auditLogs.length === 0 && (
+            <div className='flex flex-col items-center gap-2 p-8 text-muted-foreground'>
+              <History className='h-8 w-8' />
+              No audit entries match these filters
+            </div>
+          )}
+        </Card>
+      )}
+
+      {data && data.pagination.totalPages > 1 && (
+        <div className='flex items-center justify-between'>
+          <div className='text-sm text-muted-foreground'>
+            Page {data.pagination.currentPage} of {data.pagination.totalPages}
+            <span className='mx-2'>•</span>
+            {data.total} entries
+          </div>
+          <div className='flex gap-2'>
+            <Button
+              variant='outline'
+              size='sm'
+              disabled={!data.pagination.hasPrevPage || isFetching}
+              onClick={() => setPage(prev => prev - 1)}
+            >
+              Previous
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              disabled={!data.pagination.hasNextPage || isFetching}
+              onClick={() => setPage(prev => prev + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -0,0 +1,173 @@
+import React from 'react';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { Permission, PermissionAction } from '@/store/api/roles.api';
+
+const ACTION_ORDER: PermissionAction[] = [
+  'create',
+  'read',
+  'update',
+  'delete',
+  'revert',
+  'manage',
+];
+
+interface PermissionMatrixProps {
+  permissions: Permission[];
+  value: string[];
+  onChange: (permissions: string[]) => void;
+  disabled?: boolean;
+}
+
+type CellLevel = 'none' | 'own' | 'any';
+
+// Resources as rows, actions as columns; cells the catalogue lacks stay empty.
+// Actions with an owner-scoped variant pick between none, own and all records.
+const PermissionMatrix: React.FC<PermissionMatrixProps> = ({
+  permissions,
+  value,
+  onChange,
+  disabled,
+}) => {
+  const granted = new Set(value);
+  const actions = ACTION_ORDER.filter(action =>
+    permissions.some(permission => permission.action === action)
+  );
+  const resources = [
+    ...new Set(permissions.map(permission => permission.resource)),
+  ];
+  const byName = new Map(
+    permissions.map(permission => [permission.name, permission])
+  );
+
+  const toggle = (names: string[], checked: boolean) => {
+    const next = new Set(granted);
+    names.forEach(name => {
+      // A full grant supersedes the owner-scoped one
+      next.delete(`${name}:own`);
+      if (checked) {
+        next.add(name);
+      } else {
+        next.delete(name);
+      }
+    });
+    onChange([...next]);
+  };
+
+  const cellLevel = (name: string): CellLevel => {
+    if (granted.has(name)) {
+      return 'any';
+    }
+    return granted.has(`${name}:own`) ? 'own' : 'none';
+  };
+
+  const setLevel = (name: string, level: CellLevel) => {
+    const next = new Set(granted);
+    next.delete(name);
+    next.delete(`${name}:own`);
+    if (level === 'any') {
+      next.add(name);
+    } else if (level === 'own') {
+      next.add(`${name}:own`);
+    }
+    onChange([...next]);
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Resource</TableHead>
+          {actions.map(action => (
+            <TableHead key={action} className='text-center capitalize'>
+              {action}
+            </TableHead>
+          ))}
+          <TableHead className='text-center'>All</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {resources.map(resource => {
+          const rowNames = actions
+            .map(action => `${resource}:${action}`)
+            .filter(name => byName.has(name));
+          const rowChecked = rowNames.every(name => granted.has(name));
+
+          return (
+            <TableRow key={resource}>
+              <TableCell className='font-medium capitalize'>
+                {resource}
+              </TableCell>
+              {actions.map(action => {
+                const name = `${resource}:${action}`;
+                return (
+                  <TableCell key={action} className='text-center'>
+                    {byName.has(`${name}:own`) ? (
+                      <Select
+                        value={cellLevel(name)}
+                        disabled={disabled}
+                        onValueChange={level =>
+                          setLevel(name, level as CellLevel)
+                        }
+                      >
+                        <SelectTrigger
+                          aria-label={name}
+                          className='mx-auto h-8 w-24'
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value='none'>None</SelectItem>
+                          <SelectItem value='own'>Own</SelectItem>
+                          <SelectItem value='any'>All</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : byName.has(name) ? (
+                      <Checkbox
+                        aria-label={name}
+                        checked={granted.has(name)}
+                        disabled={disabled}
+                        onCheckedChange={checked =>
+                          toggle([name], checked === true)
+                        }
+                      />
+                    ) : (
+                      <span className='text-muted-foreground'>—</span>
+                    )}
+                  </TableCell>
+                );
+              })}
+              <TableCell className='text-center'>
+                <Checkbox
+                  aria-label={`All ${resource} permissions`}
+                  checked={rowChecked}
+                  disabled={disabled}
+                  onCheckedChange={checked =>
+                    toggle(rowNames, checked === true)
+                  }
+                />
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default PermissionMatrix;
@@ -0,0 +1,225 @@
+import { Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+
+import { ErrorState, LoadingState } from '@/components/crm/QueryStatus';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  type Role,
+  type RoleInput,
+  useCreateRoleMutation,
+  useDeleteRoleMutation,
+  useGetPermissionsQuery,
+  useGetRolesQuery,
+  useUpdateRoleMutation,
+} from '@/store/api/roles.api';
+import { getApiErrorMessage } from '@/store/api/types';
+
+import PermissionMatrix from './PermissionMatrix';
+
+const EMPTY_DRAFT: RoleInput = { name: '', description: '', permissions: [] };
+
+const toDraft = (role: Role): RoleInput => ({
+  name: role.name,
+  description: role.description,
+  permissions: role.permissions,
+});
+
+const RolesPage: React.FC = () => {
+  const {
+    data: roles = [],
+    isLoading: isLoadingRoles,
+    isError: isRolesError,
+    error: rolesError,
+    refetch: refetchRoles,
+  } = useGetRolesQuery();
+  const { data: permissions = [], isLoading: isLoadingPermissions } =
+    useGetPermissionsQuery();
+  const [createRole, { isLoading: isCreating }] = useCreateRoleMutation();
+  const [updateRole, { isLoading: isUpdating }] = useUpdateRoleMutation();
+  const [deleteRole, { isLoading: isDeleting }] = useDeleteRoleMutation();
+  const { toast } = useToast();
+
+  // null edits a new role
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RoleInput>(EMPTY_DRAFT);
+  const selectedRole = roles.find(role => role.id === selectedId);
+  const isSuperAdmin = selectedRole?.type === 'super_admin';
+  const isBusy = isCreating || isUpdating || isDeleting;
+
+  const showError = (title: string, error: unknown) =>
+    toast({
+      title,
+      description: getApiErrorMessage(error),
+      variant: 'destructive',
+    });
+
+  const selectRole = (role: Role | null) => {
+    setSelectedId(role?.id ?? null);
+    setDraft(role ? toDraft(role) : EMPTY_DRAFT);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (selectedRole) {
+        await updateRole({
+          id: selectedRole.id,
+          data: {
+            name: selectedRole.isSystem ? undefined : draft.name,
+            description: draft.description,
+            permissions: draft.permissions,
+          },
+        }).unwrap();
+        toast({ title: 'Role updated' });
+      } else {
+        const role = await createRole({
+          name: draft.name,
+          description: draft.description,
+          permissions: draft.permissions,
+        }).unwrap();
+        selectRole(role);
+        toast({ title: 'Role created' });
+      }
+    } catch (error) {
+      showError('Could not save role', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedRole) {
+      return;
+    }
+    try {
+      await deleteRole(selectedRole.id).unwrap();
+      selectRole(null);
+      toast({ title: 'Role deleted' });
+    } catch (error) {
+      showError('Could not delete role', error);
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      <div className='flex items-center justify-between'>
+        <div>
+          <h1 className='text-2xl font-bold tracking-tight'>
+            Roles & Permissions
+          </h1>
+          <p className='text-muted-foreground'>
+            Define what each role in your agency can do
+          </p>
+        </div>
+        <Button onClick={() => selectRole(null)} disabled={isBusy}>
+          <Plus className='h-4 w-4 mr-2' />
+          New role
+        </Button>
+      </div>
+
+      {(isLoadingRoles || isLoadingPermissions) && (
+        <LoadingState label='Loading roles...' />
+      )}
+      {isRolesError && (
+        <ErrorState
+          title='Unable to load roles'
+          message={getApiErrorMessage(rolesError)}
+          onRetry={refetchRoles}
+        />
+      )}
+
+      <div className='grid gap-6 lg:grid-cols-[280px_1fr]'>
+        <div className='space-y-2'>
+          {roles.map(role => (
+            <Card
+              key={role.id}
+              role='button'
+              tabIndex={0}
+              onClick={() => selectRole(role)}
+              className={cn(
+                'cursor-pointer p-4',
+                role.id === selectedId && 'border-primary'
+              )}
+            >
+              <div className='flex items-center gap-2 font-medium'>
+                <ShieldCheck className='h-4 w-4 text-muted-foreground' />
+                {role.name}
+                {role.isSystem && <Badge variant='secondary'>System</Badge>}
+              </div>
+              <div className='text-xs text-muted-foreground'>
+                {role.userCount ?? 0} user(s)
+              </div>
+            </Card>
+          ))}
+        </div>
+
+        <Card className='space-y-6 p-6'>
+          <div className='grid gap-4 md:grid-cols-2'>
+            <div className='space-y-2'>
+              <Label htmlFor='role-name'>Name</Label>
+              <Input
+                id='role-name'
+                placeholder='e.g. Visa Desk'
+                value={draft.name}
+                disabled={isBusy || selectedRole?.isSystem}
+                onChange={event =>
+                  setDraft({ ...draft, name: event.target.value })
+                }
+              />
+            </div>
+            <div className='space-y-2'>
+              <Label htmlFor='role-description'>Description</Label>
+              <Textarea
+                id='role-description'
+                rows={1}
+                value={draft.description}
+                disabled={isBusy || isSuperAdmin}
+                onChange={event =>
+                  setDraft({ ...draft, description: event.target.value })
+                }
+              />
+            </div>
+          </div>
+
+          {isSuperAdmin ? (
+            <p className='text-sm text-muted-foreground'>
+              Super admins have full access to every feature and cannot be
+              restricted.
+            </p>
+          ) : (
+            <PermissionMatrix
+              permissions={permissions}
+              value={draft.permissions}
+              disabled={isBusy}
+              onChange={next => setDraft({ ...draft, permissions: next })}
+            />
+          )}
+
+          {!isSuperAdmin && (
+            <div className='flex justify-end gap-2'>
+              {selectedRole && !selectedRole.isSystem && (
+                <Button
+                  variant='outline'
+                  onClick={handleDelete}
+                  disabled={isBusy}
+                >
+                  <Trash2 className='h-4 w-4 mr-2' />
+                  Delete
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={isBusy || !draft.name}>
+                {selectedRole ? 'Save changes' : 'Create role'}
+              </Button>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default RolesPage;
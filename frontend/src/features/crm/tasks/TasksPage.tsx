@@ -2,36 +2,61 @@ import { format } from 'date-fns';
 import { Calendar, Plus, CheckCircle, Clock } from 'lucide-react';
 import React from 'react';
 
+import { ErrorState, LoadingState } from '@/components/crm/QueryStatus';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useCrmStore } from '@/lib/store';
+import { toast } from '@/hooks/use-toast';
+import {
+  useGetDueTasksQuery,
+  useGetTasksQuery,
+  useSetTaskCompletionMutation,
+} from '@/store/api/tasks.api';
+import { getApiErrorMessage } from '@/store/api/types';
 import type { Task } from '@/types/crm';
 import { TaskPriority } from '@/types/crm';
 
+const COMPLETED_TASKS_LIMIT = 50;
+
 const TasksPage: React.FC = () => {
-  const { tasks, toggleTaskCompletion } = useCrmStore();
+  // Due-date buckets are computed by the API in the browser's timezone
+  const overdueQuery = useGetDueTasksQuery({ bucket: 'overdue' });
+  const todayQuery = useGetDueTasksQuery({ bucket: 'today' });
+  const upcomingQuery = useGetDueTasksQuery({ bucket: 'upcoming' });
+  const completedQuery = useGetTasksQuery({
+    completed: true,
+    sort: 'updatedAt',
+    order: 'desc',
+    limit: COMPLETED_TASKS_LIMIT,
+  });
+  const [setTaskCompletion] = useSetTaskCompletionMutation();
 
-  const overdueTasks = tasks.filter(
-    task => !task.completed && new Date(task.dueDate) < new Date()
-  );
+  const queries = [overdueQuery, todayQuery, upcomingQuery, completedQuery];
+  const isLoading = queries.some(query => query.isLoading);
+  const failedQuery = queries.find(query => query.isError);
 
-  const todayTasks = tasks.filter(
-    task =>
-      !task.completed &&
-      new Date(task.dueDate).toDateString() === new Date().toDateString()
-  );
-
-  const upcomingTasks = tasks.filter(
-    task =>
-      !task.completed &&
-      new Date(task.dueDate) > new Date() &&
-      new Date(task.dueDate).toDateString() !== new Date().toDateString()
-  );
+  const overdueTasks = overdueQuery.data ?? [];
+  const todayTasks = todayQuery.data ?? [];
+  const upcomingTasks = upcomingQuery.data ?? [];
+  const completedTasks = completedQuery.data?.items ?? [];
+  const completedCount = completedQuery.data?.total ?? 0;
+  const hasTasks =
+    overdueTasks.length + todayTasks.length + upcomingTasks.length > 0 ||
+    completedCount > 0;
 
-  const completedTasks = tasks.filter(task => task.completed);
+  const toggleTaskCompletion = async (id: string, completed: boolean) => {
+    try {
+      await setTaskCompletion({ id, completed }).unwrap();
+    } catch (error) {
+      toast({
+        title: 'Unable to update task',
+        description: getApiErrorMessage(error),
+        variant: 'destructive',
+      });
+    }
+  };
 
   const getPriorityColor = (priority: TaskPriority) => {
     switch (priority) {
@@ -141,137 +166,155 @@ const TasksPage: React.FC = () => {
             <CardTitle className='text-sm font-medium'>Completed</CardTitle>
           </CardHeader>
           <CardContent className='pt-0'>
-            <div className='text-2xl font-bold'>{completedTasks.length}</div>
+            <div className='text-2xl font-bold'>{completedCount}</div>
             <p className='text-xs text-green-600'>Good job!</p>
           </CardContent>
         </Card>
       </div>
 
-      <Tabs defaultValue='all' className='w-full'>
-        <TabsList>
-          <TabsTrigger value='all'>All Tasks</TabsTrigger>
-          <TabsTrigger value='today'>Today</TabsTrigger>
-          <TabsTrigger value='upcoming'>Upcoming</TabsTrigger>
-          <TabsTrigger value='completed'>Completed</TabsTrigger>
-        </TabsList>
+      {isLoading && <LoadingState label='Loading tasks...' />}
+
+      {failedQuery && (
+        <ErrorState
+          title='Unable to load tasks'
+          message={getApiErrorMessage(failedQuery.error)}
+          onRetry={() => queries.forEach(query => query.refetch())}
+        />
+      )}
 
-        <TabsContent value='all' className='mt-6'>
-          <h2 className='text-lg font-medium mb-4'>All Tasks</h2>
-          {tasks.length > 0 ? (
-            <div>
-              {overdueTasks.length > 0 && (
-                <div className='mb-6'>
-                  <div className='flex items-center mb-3'>
-                    <Clock className='text-red-500 mr-2 h-4 w-4' />
-                    <h3 className='font-medium text-red-500'>Overdue</h3>
+      {!isLoading && !failedQuery && (
+        <Tabs defaultValue='all' className='w-full'>
+          <TabsList>
+            <TabsTrigger value='all'>All Tasks</TabsTrigger>
+            <TabsTrigger value='today'>Today</TabsTrigger>
+            <TabsTrigger value='upcoming'>Upcoming</TabsTrigger>
+            <TabsTrigger value='completed'>Completed</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value='all' className='mt-6'>
+            <h2 className='text-lg font-medium mb-4'>All Tasks</h2>
+            {hasTasks ? (
+              <div>
+                {overdueTasks.length > 0 && (
+                  <div className='mb-6'>
+                    <div className='flex items-center mb-3'>
+                      <Clock className='text-red-500 mr-2 h-4 w-4' />
+                      <h3 className='font-medium text-red-500'>Overdue</h3>
+                    </div>
+                    {overdueTasks.map(task => (
+                      <TaskCard key={task.id} task={task} />
+                    ))}
                   </div>
-                  {overdueTasks.map(task => (
-                    <TaskCard key={task.id} task={task} />
-                  ))}
-                </div>
-              )}
+                )}
 
-              {todayTasks.length > 0 && (
-                <div className='mb-6'>
-                  <div className='flex items-center mb-3'>
-                    <Calendar className='text-blue-500 mr-2 h-4 w-4' />
-                    <h3 className='font-medium'>Today</h3>
+                {todayTasks.length > 0 && (
+                  <div className='mb-6'>
+                    <div className='flex items-center mb-3'>
+                      <Calendar className='text-blue-500 mr-2 h-4 w-4' />
+                      <h3 className='font-medium'>Today</h3>
+                    </div>
+                    {todayTasks.map(task => (
+                      <TaskCard key={task.id} task={task} />
+                    ))}
                   </div>
-                  {todayTasks.map(task => (
-                    <TaskCard key={task.id} task={task} />
-                  ))}
-                </div>
-              )}
+                )}
 
-              {upcomingTasks.length > 0 && (
-                <div className='mb-6'>
-                  <div className='flex items-center mb-3'>
-                    <Calendar className='text-gray-500 mr-2 h-4 w-4' />
-                    <h3 className='font-medium'>Upcoming</h3>
+                {upcomingTasks.length > 0 && (
+                  <div className='mb-6'>
+                    <div className='flex items-center mb-3'>
+                      <Calendar className='text-gray-500 mr-2 h-4 w-4' />
+                      <h3 className='font-medium'>Upcoming</h3>
+                    </div>
+                    {upcomingTasks.map(task => (
+                      <TaskCard key={task.id} task={task} />
+                    ))}
                   </div>
-                  {upcomingTasks.map(task => (
-                    <TaskCard key={task.id} task={task} />
-                  ))}
-                </div>
-              )}
+                )}
 
-              {completedTasks.length > 0 && (
-                <div>
-                  <div className='flex items-center mb-3'>
-                    <CheckCircle className='text-green-500 mr-2 h-4 w-4' />
-                    <h3 className='font-medium'>Completed</h3>
+                {completedTasks.length > 0 && (
+                  <div>
+                    <div className='flex items-center mb-3'>
+                      <CheckCircle className='text-green-500 mr-2 h-4 w-4' />
+                      <h3 className='font-medium'>Completed</h3>
+                    </div>
+                    {completedTasks.slice(0, 5).map(task => (
+                      <TaskCard key={task.id} task={task} />
+                    ))}
+                    {completedCount > 5 && (
+                      <Button variant='link' className='mt-2'>
+                        View all {completedCount} completed tasks
+                      </Button>
+                    )}
                   </div>
-                  {completedTasks.slice(0, 5).map(task => (
-                    <TaskCard key={task.id} task={task} />
-                  ))}
-                  {completedTasks.length > 5 && (
-                    <Button variant='link' className='mt-2'>
-                      View all {completedTasks.length} completed tasks
-                    </Button>
-                  )}
-                </div>
-              )}
-            </div>
-          ) : (
-            <Card className='p-8 text-center'>
-              <div className='mx-auto w-12 h-12 rounded-full bg-muted flex items-center justify-center mb-4'>
-                <Calendar className='h-6 w-6 text-muted-foreground' />
+                )}
               </div>
-              <h3 className='text-lg font-medium'>No tasks yet</h3>
-              <p className='text-muted-foreground mt-2 mb-4'>
-                Create a new task to get started
-              </p>
-              <Button>
-                <Plus className='mr-2 h-4 w-4' />
-                New Task
-              </Button>
-            </Card>
-          )}
-        </TabsContent>
-
-        <TabsContent value='today'>
-          <div className='mt-6'>
-            <h2 className='text-lg font-medium mb-4'>Today's Tasks</h2>
-            {todayTasks.length > 0 ? (
-              todayTasks.map(task => <TaskCard key={task.id} task={task} />)
             ) : (
-              <Card className='p-6 text-center'>
-                <p className='text-muted-foreground'>
-                  No tasks scheduled for today
+              <Card className='p-8 text-center'>
+                <div className='mx-auto w-12 h-12 rounded-full bg-muted flex items-center justify-center mb-4'>
+                  <Calendar className='h-6 w-6 text-muted-foreground' />
+                </div>
+                <h3 className='text-lg font-medium'>No tasks yet</h3>
+                <p className='text-muted-foreground mt-2 mb-4'>
+                  Create a new task to get started
                 </p>
+                <Button>
+                  <Plus className='mr-2 h-4 w-4' />
+                  New Task
+                </Button>
               </Card>
             )}
-          </div>
-        </TabsContent>
+          </TabsContent>
 
-        <TabsContent value='upcoming'>
-          <div className='mt-6'>
-            <h2 className='text-lg font-medium mb-4'>Upcoming Tasks</h2>
-            {upcomingTasks.length > 0 ? (
-              upcomingTasks.map(task => <TaskCard key={task.id} task={task} />)
-            ) : (
-              <Card className='p-6 text-center'>
-                <p className='text-muted-foreground'>
-                  No upcoming tasks scheduled
-                </p>
-              </Card>
-            )}
-          </div>
-        </TabsContent>
+          <TabsContent value='today'>
+            <div className='mt-6'>
+              <h2 className='text-lg font-medium mb-4'>Today's Tasks</h2>
+              {todayTasks.length > 0 ? (
+                todayTasks.map(task => <TaskCard key={task.id} task={task} />)
+              ) : (
+                <Card className='p-6 text-center'>
+                  <p className='text-muted-foreground'>
+                    No tasks scheduled for today
+                  </p>
+                </Card>
+              )}
+            </div>
+          </TabsContent>
 
-        <TabsContent value='completed'>
-          <div className='mt-6'>
-            <h2 className='text-lg font-medium mb-4'>Completed Tasks</h2>
-            {completedTasks.length > 0 ? (
-              completedTasks.map(task => <TaskCard key={task.id} task={task} />)
-            ) : (
-              <Card className='p-6 text-center'>
-                <p className='text-muted-foreground'>No completed tasks yet</p>
-              </Card>
-            )}
-          </div>
-        </TabsContent>
-      </Tabs>
+          <TabsContent value='upcoming'>
+            <div className='mt-6'>
+              <h2 className='text-lg font-medium mb-4'>Upcoming Tasks</h2>
+              {upcomingTasks.length > 0 ? (
+                upcomingTasks.map(task => (
+                  <TaskCard key={task.id} task={task} />
+                ))
+              ) : (
+                <Card className='p-6 text-center'>
+                  <p className='text-muted-foreground'>
+                    No upcoming tasks scheduled
+                  </p>
+                </Card>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value='completed'>
+            <div className='mt-6'>
+              <h2 className='text-lg font-medium mb-4'>Completed Tasks</h2>
+              {completedTasks.length > 0 ? (
+                completedTasks.map(task => (
+                  <TaskCard key={task.id} task={task} />
+                ))
+              ) : (
+                <Card className='p-6 text-center'>
+                  <p className='text-muted-foreground'>
+                    No completed tasks yet
+                  </p>
+                </Card>
+              )}
+            </div>
+          </TabsContent>
+        </Tabs>
+      )}
     </div>
   );
 };
@@ -0,0 +1,41 @@
+// Mirrors the backend's segment counting, so the count shown is the one billed
+
+// GSM 03.38 basic character set; each character takes one septet
+const GSM_BASIC_CHARACTERS = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+// Extension table characters are escaped, so each takes two septets
+const GSM_EXTENDED_CHARACTERS = new Set('\f^{}\\[~]|€');
+
+export interface SmsSegments {
+  encoding: 'GSM-7' | 'UCS-2';
+  // Septets for GSM-7, UTF-16 code units for UCS-2
+  length: number;
+  segments: number;
+}
+
+const toSegments = (
+  encoding: SmsSegments['encoding'],
+  length: number,
+  single: number,
+  multi: number
+): SmsSegments => ({
+  encoding,
+  length,
+  segments: length > single ? Math.ceil(length / multi) : Math.min(length, 1),
+});
+
+// Any character outside the GSM alphabet, such as a Hindi letter, makes the whole SMS UCS-2
+export function countSmsSegments(text: string): SmsSegments {
+  let septets = 0;
+  for (const character of text) {
+    if (GSM_BASIC_CHARACTERS.has(character)) {
+      septets += 1;
+    } else if (GSM_EXTENDED_CHARACTERS.has(character)) {
+      septets += 2;
+    } else {
+      return toSegments('UCS-2', text.length, 70, 67);
+    }
+  }
+  return toSegments('GSM-7', septets, 160, 153);
+}
@@ -4,3 +4,11 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Display form of a field value recorded in the audit log
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 1);
+}
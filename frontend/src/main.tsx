@@ -1,7 +1,10 @@
 import { StrictMode, Component, ReactNode } from 'react';
 import ReactDOM from 'react-dom/client';
+import { Provider } from 'react-redux';
 import { RouterProvider, createRouter } from '@tanstack/react-router';
 
+import { store } from './store';
+
 // Import the generated route tree
 import { routeTree } from './routeTree.gen';
 
@@ -47,7 +50,9 @@ if (!rootElement) {
 ReactDOM.createRoot(rootElement).render(
   <StrictMode>
     <ErrorBoundary>
-      <RouterProvider router={router} />
+      <Provider store={store}>
+        <RouterProvider router={router} />
+      </Provider>
     </ErrorBoundary>
   </StrictMode>
 );
\ No newline at end of file
@@ -10,16 +10,19 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as AuthRouteImport } from './routes/_auth'
+import { Route as CrmRouteRouteImport } from './routes/crm/route'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as CrmIndexRouteImport } from './routes/crm/index'
 import { Route as CrmDashboardRouteImport } from './routes/crm/dashboard'
 import { Route as CrmTasksIndexRouteImport } from './routes/crm/tasks/index'
+import { Route as CrmSessionsIndexRouteImport } from './routes/crm/sessions/index'
 import { Route as CrmSegmentsIndexRouteImport } from './routes/crm/segments/index'
 import { Route as CrmLeadsIndexRouteImport } from './routes/crm/leads/index'
 import { Route as CrmInsightsIndexRouteImport } from './routes/crm/insights/index'
 import { Route as CrmCommunicationIndexRouteImport } from './routes/crm/communication/index'
 import { Route as CrmBookingsIndexRouteImport } from './routes/crm/bookings/index'
 import { Route as AuthRegistrationIndexRouteImport } from './routes/_auth/registration/index'
+import { Route as AuthOnboardingIndexRouteImport } from './routes/_auth/onboarding/index'
 import { Route as AuthLoginIndexRouteImport } from './routes/_auth/login/index'
 import { Route as AuthForgotPasswordIndexRouteImport } from './routes/_auth/forgot-password/index'
 import { Route as AuthConfirmMailIndexRouteImport } from './routes/_auth/confirm-mail/index'
@@ -28,6 +31,8 @@ import { Route as CrmLeadsNewRouteImport } from './routes/crm/leads/new'
 import { Route as CrmLeadsIdRouteImport } from './routes/crm/leads/$id'
 import { Route as CrmCommunicationNewRouteImport } from './routes/crm/communication/new'
 import { Route as CrmBookingsNewRouteImport } from './routes/crm/bookings/new'
+import { Route as CrmSettingsRolesIndexRouteImport } from './routes/crm/settings/roles/index'
+import { Route as CrmSettingsAuditIndexRouteImport } from './routes/crm/settings/audit/index'
 import { Route as CrmTasksNewLeadIdRouteImport } from './routes/crm/tasks/new.$leadId'
 import { Route as CrmLeadsIdEditRouteImport } from './routes/crm/leads/$id.edit'
 import { Route as CrmCommunicationNewLeadIdRouteImport } from './routes/crm/communication/new.$leadId'
@@ -37,56 +42,71 @@ const AuthRoute = AuthRouteImport.update({
   id: '/_auth',
   getParentRoute: () => rootRouteImport,
 } as any)
+const CrmRouteRoute = CrmRouteRouteImport.update({
+  id: '/crm',
+  path: '/crm',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
 const CrmIndexRoute = CrmIndexRouteImport.update({
-  id: '/crm/',
-  path: '/crm/',
-  getParentRoute: () => rootRouteImport,
+  id: '/',
+  path: '/',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmDashboardRoute = CrmDashboardRouteImport.update({
-  id: '/crm/dashboard',
-  path: '/crm/dashboard',
-  getParentRoute: () => rootRouteImport,
+  id: '/dashboard',
+  path: '/dashboard',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmTasksIndexRoute = CrmTasksIndexRouteImport.update({
-  id: '/crm/tasks/',
-  path: '/crm/tasks/',
-  getParentRoute: () => rootRouteImport,
+  id: '/tasks/',
+  path: '/tasks/',
+  getParentRoute: () => CrmRouteRoute,
+} as any)
+const CrmSessionsIndexRoute = CrmSessionsIndexRouteImport.update({
+  id: '/sessions/',
+  path: '/sessions/',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmSegmentsIndexRoute = CrmSegmentsIndexRouteImport.update({
-  id: '/crm/segments/',
-  path: '/crm/segments/',
-  getParentRoute: () => rootRouteImport,
+  id: '/segments/',
+  path: '/segments/',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmLeadsIndexRoute = CrmLeadsIndexRouteImport.update({
-  id: '/crm/leads/',
-  path: '/crm/leads/',
-  getParentRoute: () => rootRouteImport,
+  id: '/leads/',
+  path: '/leads/',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmInsightsIndexRoute = CrmInsightsIndexRouteImport.update({
-  id: '/crm/insights/',
-  path: '/crm/insights/',
-  getParentRoute: () => rootRouteImport,
+  id: '/insights/',
+  path: '/insights/',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmCommunicationIndexRoute = CrmCommunicationIndexRouteImport.update({
-  id: '/crm/communication/',
-  path: '/crm/communication/',
-  getParentRoute: () => rootRouteImport,
+  id: '/communication/',
+  path: '/communication/',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmBookingsIndexRoute = CrmBookingsIndexRouteImport.update({
-  id: '/crm/bookings/',
-  path: '/crm/bookings/',
-  getParentRoute: () => rootRouteImport,
+  id: '/bookings/',
+  path: '/bookings/',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const AuthRegistrationIndexRoute = AuthRegistrationIndexRouteImport.update({
   id: '/registration/',
   path: '/registration/',
   getParentRoute: () => AuthRoute,
 } as any)
+const AuthOnboardingIndexRoute = AuthOnboardingIndexRouteImport.update({
+  id: '/onboarding/',
+  path: '/onboarding/',
+  getParentRoute: () => AuthRoute,
+} as any)
 const AuthLoginIndexRoute = AuthLoginIndexRouteImport.update({
   id: '/login/',
   path: '/login/',
@@ -103,29 +123,39 @@ const AuthConfirmMailIndexRoute = AuthConfirmMailIndexRouteImport.update({
   getParentRoute: () => AuthRoute,
 } as any)
 const CrmTasksNewRoute = CrmTasksNewRouteImport.update({
-  id: '/crm/tasks/new',
-  path: '/crm/tasks/new',
-  getParentRoute: () => rootRouteImport,
+  id: '/tasks/new',
+  path: '/tasks/new',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmLeadsNewRoute = CrmLeadsNewRouteImport.update({
-  id: '/crm/leads/new',
-  path: '/crm/leads/new',
-  getParentRoute: () => rootRouteImport,
+  id: '/leads/new',
+  path: '/leads/new',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmLeadsIdRoute = CrmLeadsIdRouteImport.update({
-  id: '/crm/leads/$id',
-  path: '/crm/leads/$id',
-  getParentRoute: () => rootRouteImport,
+  id: '/leads/$id',
+  path: '/leads/$id',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmCommunicationNewRoute = CrmCommunicationNewRouteImport.update({
-  id: '/crm/communication/new',
-  path: '/crm/communication/new',
-  getParentRoute: () => rootRouteImport,
+  id: '/communication/new',
+  path: '/communication/new',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmBookingsNewRoute = CrmBookingsNewRouteImport.update({
-  id: '/crm/bookings/new',
-  path: '/crm/bookings/new',
-  getParentRoute: () => rootRouteImport,
+  id: '/bookings/new',
+  path: '/bookings/new',
+  getParentRoute: () => CrmRouteRoute,
+} as any)
+const CrmSettingsRolesIndexRoute = CrmSettingsRolesIndexRouteImport.update({
+  id: '/settings/roles/',
+  path: '/settings/roles/',
+  getParentRoute: () => CrmRouteRoute,
+} as any)
+const CrmSettingsAuditIndexRoute = CrmSettingsAuditIndexRouteImport.update({
+  id: '/settings/audit/',
+  path: '/settings/audit/',
+  getParentRoute: () => CrmRouteRoute,
 } as any)
 const CrmTasksNewLeadIdRoute = CrmTasksNewLeadIdRouteImport.update({
   id: '/$leadId',
@@ -151,8 +181,9 @@ const CrmBookingsNewLeadIdRoute = CrmBookingsNewLeadIdRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/crm': typeof CrmRouteRouteWithChildren
   '/crm/dashboard': typeof CrmDashboardRoute
-  '/crm': typeof CrmIndexRoute
+  '/crm/': typeof CrmIndexRoute
   '/crm/bookings/new': typeof CrmBookingsNewRouteWithChildren
   '/crm/communication/new': typeof CrmCommunicationNewRouteWithChildren
   '/crm/leads/$id': typeof CrmLeadsIdRouteWithChildren
@@ -161,17 +192,21 @@ export interface FileRoutesByFullPath {
   '/confirm-mail': typeof AuthConfirmMailIndexRoute
   '/forgot-password': typeof AuthForgotPasswordIndexRoute
   '/login': typeof AuthLoginIndexRoute
+  '/onboarding': typeof AuthOnboardingIndexRoute
   '/registration': typeof AuthRegistrationIndexRoute
   '/crm/bookings': typeof CrmBookingsIndexRoute
   '/crm/communication': typeof CrmCommunicationIndexRoute
   '/crm/insights': typeof CrmInsightsIndexRoute
   '/crm/leads': typeof CrmLeadsIndexRoute
   '/crm/segments': typeof CrmSegmentsIndexRoute
+  '/crm/sessions': typeof CrmSessionsIndexRoute
   '/crm/tasks': typeof CrmTasksIndexRoute
   '/crm/bookings/new/$leadId': typeof CrmBookingsNewLeadIdRoute
   '/crm/communication/new/$leadId': typeof CrmCommunicationNewLeadIdRoute
   '/crm/leads/$id/edit': typeof CrmLeadsIdEditRoute
   '/crm/tasks/new/$leadId': typeof CrmTasksNewLeadIdRoute
+  '/crm/settings/audit': typeof CrmSettingsAuditIndexRoute
+  '/crm/settings/roles': typeof CrmSettingsRolesIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -185,21 +220,26 @@ export interface FileRoutesByTo {
   '/confirm-mail': typeof AuthConfirmMailIndexRoute
   '/forgot-password': typeof AuthForgotPasswordIndexRoute
   '/login': typeof AuthLoginIndexRoute
+  '/onboarding': typeof AuthOnboardingIndexRoute
   '/registration': typeof AuthRegistrationIndexRoute
   '/crm/bookings': typeof CrmBookingsIndexRoute
   '/crm/communication': typeof CrmCommunicationIndexRoute
   '/crm/insights': typeof CrmInsightsIndexRoute
   '/crm/leads': typeof CrmLeadsIndexRoute
   '/crm/segments': typeof CrmSegmentsIndexRoute
+  '/crm/sessions': typeof CrmSessionsIndexRoute
   '/crm/tasks': typeof CrmTasksIndexRoute
   '/crm/bookings/new/$leadId': typeof CrmBookingsNewLeadIdRoute
   '/crm/communication/new/$leadId': typeof CrmCommunicationNewLeadIdRoute
   '/crm/leads/$id/edit': typeof CrmLeadsIdEditRoute
   '/crm/tasks/new/$leadId': typeof CrmTasksNewLeadIdRoute
+  '/crm/settings/audit': typeof CrmSettingsAuditIndexRoute
+  '/crm/settings/roles': typeof CrmSettingsRolesIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/crm': typeof CrmRouteRouteWithChildren
   '/_auth': typeof AuthRouteWithChildren
   '/crm/dashboard': typeof CrmDashboardRoute
   '/crm/': typeof CrmIndexRoute
@@ -211,24 +251,29 @@ export interface FileRoutesById {
   '/_auth/confirm-mail/': typeof AuthConfirmMailIndexRoute
   '/_auth/forgot-password/': typeof AuthForgotPasswordIndexRoute
   '/_auth/login/': typeof AuthLoginIndexRoute
+  '/_auth/onboarding/': typeof AuthOnboardingIndexRoute
   '/_auth/registration/': typeof AuthRegistrationIndexRoute
   '/crm/bookings/': typeof CrmBookingsIndexRoute
   '/crm/communication/': typeof CrmCommunicationIndexRoute
   '/crm/insights/': typeof CrmInsightsIndexRoute
   '/crm/leads/': typeof CrmLeadsIndexRoute
   '/crm/segments/': typeof CrmSegmentsIndexRoute
+  '/crm/sessions/': typeof CrmSessionsIndexRoute
   '/crm/tasks/': typeof CrmTasksIndexRoute
   '/crm/bookings/new/$leadId': typeof CrmBookingsNewLeadIdRoute
   '/crm/communication/new/$leadId': typeof CrmCommunicationNewLeadIdRoute
   '/crm/leads/$id/edit': typeof CrmLeadsIdEditRoute
   '/crm/tasks/new/$leadId': typeof CrmTasksNewLeadIdRoute
+  '/crm/settings/audit/': typeof CrmSettingsAuditIndexRoute
+  '/crm/settings/roles/': typeof CrmSettingsRolesIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
-    | '/crm/dashboard'
     | '/crm'
+    | '/crm/dashboard'
+    | '/crm/'
     | '/crm/bookings/new'
     | '/crm/communication/new'
     | '/crm/leads/$id'
@@ -237,17 +282,21 @@ export interface FileRouteTypes {
     | '/confirm-mail'
     | '/forgot-password'
     | '/login'
+    | '/onboarding'
     | '/registration'
     | '/crm/bookings'
     | '/crm/communication'
     | '/crm/insights'
     | '/crm/leads'
     | '/crm/segments'
+    | '/crm/sessions'
     | '/crm/tasks'
     | '/crm/bookings/new/$leadId'
     | '/crm/communication/new/$leadId'
     | '/crm/leads/$id/edit'
     | '/crm/tasks/new/$leadId'
+    | '/crm/settings/audit'
+    | '/crm/settings/roles'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -261,20 +310,25 @@ export interface FileRouteTypes {
     | '/confirm-mail'
     | '/forgot-password'
     | '/login'
+    | '/onboarding'
     | '/registration'
     | '/crm/bookings'
     | '/crm/communication'
     | '/crm/insights'
     | '/crm/leads'
     | '/crm/segments'
+    | '/crm/sessions'
     | '/crm/tasks'
     | '/crm/bookings/new/$leadId'
     | '/crm/communication/new/$leadId'
     | '/crm/leads/$id/edit'
     | '/crm/tasks/new/$leadId'
+    | '/crm/settings/audit'
+    | '/crm/settings/roles'
   id:
     | '__root__'
     | '/'
+    | '/crm'
     | '/_auth'
     | '/crm/dashboard'
     | '/crm/'
@@ -286,35 +340,27 @@ export interface FileRouteTypes {
     | '/_auth/confirm-mail/'
     | '/_auth/forgot-password/'
     | '/_auth/login/'
+    | '/_auth/onboarding/'
     | '/_auth/registration/'
     | '/crm/bookings/'
     | '/crm/communication/'
     | '/crm/insights/'
     | '/crm/leads/'
     | '/crm/segments/'
+    | '/crm/sessions/'
     | '/crm/tasks/'
     | '/crm/bookings/new/$leadId'
     | '/crm/communication/new/$leadId'
     | '/crm/leads/$id/edit'
     | '/crm/tasks/new/$leadId'
+    | '/crm/settings/audit/'
+    | '/crm/settings/roles/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  CrmRouteRoute: typeof CrmRouteRouteWithChildren
   AuthRoute: typeof AuthRouteWithChildren
-  CrmDashboardRoute: typeof CrmDashboardRoute
-  CrmIndexRoute: typeof CrmIndexRoute
-  CrmBookingsNewRoute: typeof CrmBookingsNewRouteWithChildren
-  CrmCommunicationNewRoute: typeof CrmCommunicationNewRouteWithChildren
-  CrmLeadsIdRoute: typeof CrmLeadsIdRouteWithChildren
-  CrmLeadsNewRoute: typeof CrmLeadsNewRoute
-  CrmTasksNewRoute: typeof CrmTasksNewRouteWithChildren
-  CrmBookingsIndexRoute: typeof CrmBookingsIndexRoute
-  CrmCommunicationIndexRoute: typeof CrmCommunicationIndexRoute
-  CrmInsightsIndexRoute: typeof CrmInsightsIndexRoute
-  CrmLeadsIndexRoute: typeof CrmLeadsIndexRoute
-  CrmSegmentsIndexRoute: typeof CrmSegmentsIndexRoute
-  CrmTasksIndexRoute: typeof CrmTasksIndexRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -326,6 +372,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/crm': {
+      id: '/crm'
+      path: '/crm'
+      fullPath: '/crm'
+      preLoaderRoute: typeof CrmRouteRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -335,59 +388,66 @@ declare module '@tanstack/react-router' {
     }
     '/crm/': {
       id: '/crm/'
-      path: '/crm'
-      fullPath: '/crm'
+      path: '/'
+      fullPath: '/crm/'
       preLoaderRoute: typeof CrmIndexRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/dashboard': {
       id: '/crm/dashboard'
-      path: '/crm/dashboard'
+      path: '/dashboard'
       fullPath: '/crm/dashboard'
       preLoaderRoute: typeof CrmDashboardRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/tasks/': {
       id: '/crm/tasks/'
-      path: '/crm/tasks'
+      path: '/tasks'
       fullPath: '/crm/tasks'
       preLoaderRoute: typeof CrmTasksIndexRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
+    }
+    '/crm/sessions/': {
+      id: '/crm/sessions/'
+      path: '/sessions'
+      fullPath: '/crm/sessions'
+      preLoaderRoute: typeof CrmSessionsIndexRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/segments/': {
       id: '/crm/segments/'
-      path: '/crm/segments'
+      path: '/segments'
       fullPath: '/crm/segments'
       preLoaderRoute: typeof CrmSegmentsIndexRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/leads/': {
       id: '/crm/leads/'
-      path: '/crm/leads'
+      path: '/leads'
       fullPath: '/crm/leads'
       preLoaderRoute: typeof CrmLeadsIndexRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/insights/': {
       id: '/crm/insights/'
-      path: '/crm/insights'
+      path: '/insights'
       fullPath: '/crm/insights'
       preLoaderRoute: typeof CrmInsightsIndexRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/communication/': {
       id: '/crm/communication/'
-      path: '/crm/communication'
+      path: '/communication'
       fullPath: '/crm/communication'
       preLoaderRoute: typeof CrmCommunicationIndexRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/bookings/': {
       id: '/crm/bookings/'
-      path: '/crm/bookings'
+      path: '/bookings'
       fullPath: '/crm/bookings'
       preLoaderRoute: typeof CrmBookingsIndexRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/_auth/registration/': {
       id: '/_auth/registration/'
@@ -396,6 +456,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthRegistrationIndexRouteImport
       parentRoute: typeof AuthRoute
     }
+    '/_auth/onboarding/': {
+      id: '/_auth/onboarding/'
+      path: '/onboarding'
+      fullPath: '/onboarding'
+      preLoaderRoute: typeof AuthOnboardingIndexRouteImport
+      parentRoute: typeof AuthRoute
+    }
     '/_auth/login/': {
       id: '/_auth/login/'
       path: '/login'
@@ -419,38 +486,52 @@ declare module '@tanstack/react-router' {
     }
     '/crm/tasks/new': {
       id: '/crm/tasks/new'
-      path: '/crm/tasks/new'
+      path: '/tasks/new'
       fullPath: '/crm/tasks/new'
       preLoaderRoute: typeof CrmTasksNewRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/leads/new': {
       id: '/crm/leads/new'
-      path: '/crm/leads/new'
+      path: '/leads/new'
       fullPath: '/crm/leads/new'
       preLoaderRoute: typeof CrmLeadsNewRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/leads/$id': {
       id: '/crm/leads/$id'
-      path: '/crm/leads/$id'
+      path: '/leads/$id'
       fullPath: '/crm/leads/$id'
       preLoaderRoute: typeof CrmLeadsIdRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/communication/new': {
       id: '/crm/communication/new'
-      path: '/crm/communication/new'
+      path: '/communication/new'
       fullPath: '/crm/communication/new'
       preLoaderRoute: typeof CrmCommunicationNewRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/bookings/new': {
       id: '/crm/bookings/new'
-      path: '/crm/bookings/new'
+      path: '/bookings/new'
       fullPath: '/crm/bookings/new'
       preLoaderRoute: typeof CrmBookingsNewRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof CrmRouteRoute
+    }
+    '/crm/settings/roles/': {
+      id: '/crm/settings/roles/'
+      path: '/settings/roles'
+      fullPath: '/crm/settings/roles'
+      preLoaderRoute: typeof CrmSettingsRolesIndexRouteImport
+      parentRoute: typeof CrmRouteRoute
+    }
+    '/crm/settings/audit/': {
+      id: '/crm/settings/audit/'
+      path: '/settings/audit'
+      fullPath: '/crm/settings/audit'
+      preLoaderRoute: typeof CrmSettingsAuditIndexRouteImport
+      parentRoute: typeof CrmRouteRoute
     }
     '/crm/tasks/new/$leadId': {
       id: '/crm/tasks/new/$leadId'
@@ -483,22 +564,6 @@ declare module '@tanstack/react-router' {
   }
 }
 
-interface AuthRouteChildren {
-  AuthConfirmMailIndexRoute: typeof AuthConfirmMailIndexRoute
-  AuthForgotPasswordIndexRoute: typeof AuthForgotPasswordIndexRoute
-  AuthLoginIndexRoute: typeof AuthLoginIndexRoute
-  AuthRegistrationIndexRoute: typeof AuthRegistrationIndexRoute
-}
-
-const AuthRouteChildren: AuthRouteChildren = {
-  AuthConfirmMailIndexRoute: AuthConfirmMailIndexRoute,
-  AuthForgotPasswordIndexRoute: AuthForgotPasswordIndexRoute,
-  AuthLoginIndexRoute: AuthLoginIndexRoute,
-  AuthRegistrationIndexRoute: AuthRegistrationIndexRoute,
-}
-
-const AuthRouteWithChildren = AuthRoute._addFileChildren(AuthRouteChildren)
-
 interface CrmBookingsNewRouteChildren {
   CrmBookingsNewLeadIdRoute: typeof CrmBookingsNewLeadIdRoute
 }
@@ -546,9 +611,26 @@ const CrmTasksNewRouteWithChildren = CrmTasksNewRoute._addFileChildren(
   CrmTasksNewRouteChildren,
 )
 
-const rootRouteChildren: RootRouteChildren = {
-  IndexRoute: IndexRoute,
-  AuthRoute: AuthRouteWithChildren,
+interface CrmRouteRouteChildren {
+  CrmDashboardRoute: typeof CrmDashboardRoute
+  CrmIndexRoute: typeof CrmIndexRoute
+  CrmBookingsNewRoute: typeof CrmBookingsNewRouteWithChildren
+  CrmCommunicationNewRoute: typeof CrmCommunicationNewRouteWithChildren
+  CrmLeadsIdRoute: typeof CrmLeadsIdRouteWithChildren
+  CrmLeadsNewRoute: typeof CrmLeadsNewRoute
+  CrmTasksNewRoute: typeof CrmTasksNewRouteWithChildren
+  CrmBookingsIndexRoute: typeof CrmBookingsIndexRoute
+  CrmCommunicationIndexRoute: typeof CrmCommunicationIndexRoute
+  CrmInsightsIndexRoute: typeof CrmInsightsIndexRoute
+  CrmLeadsIndexRoute: typeof CrmLeadsIndexRoute
+  CrmSegmentsIndexRoute: typeof CrmSegmentsIndexRoute
+  CrmSessionsIndexRoute: typeof CrmSessionsIndexRoute
+  CrmTasksIndexRoute: typeof CrmTasksIndexRoute
+  CrmSettingsAuditIndexRoute: typeof CrmSettingsAuditIndexRoute
+  CrmSettingsRolesIndexRoute: typeof CrmSettingsRolesIndexRoute
+}
+
+const CrmRouteRouteChildren: CrmRouteRouteChildren = {
   CrmDashboardRoute: CrmDashboardRoute,
   CrmIndexRoute: CrmIndexRoute,
   CrmBookingsNewRoute: CrmBookingsNewRouteWithChildren,
@@ -561,7 +643,38 @@ const rootRouteChildren: RootRouteChildren = {
   CrmInsightsIndexRoute: CrmInsightsIndexRoute,
   CrmLeadsIndexRoute: CrmLeadsIndexRoute,
   CrmSegmentsIndexRoute: CrmSegmentsIndexRoute,
+  CrmSessionsIndexRoute: CrmSessionsIndexRoute,
   CrmTasksIndexRoute: CrmTasksIndexRoute,
+  CrmSettingsAuditIndexRoute: CrmSettingsAuditIndexRoute,
+  CrmSettingsRolesIndexRoute: CrmSettingsRolesIndexRoute,
+}
+
+const CrmRouteRouteWithChildren = CrmRouteRoute._addFileChildren(
+  CrmRouteRouteChildren,
+)
+
+interface AuthRouteChildren {
+  AuthConfirmMailIndexRoute: typeof AuthConfirmMailIndexRoute
+  AuthForgotPasswordIndexRoute: typeof AuthForgotPasswordIndexRoute
+  AuthLoginIndexRoute: typeof AuthLoginIndexRoute
+  AuthOnboardingIndexRoute: typeof AuthOnboardingIndexRoute
+  AuthRegistrationIndexRoute: typeof AuthRegistrationIndexRoute
+}
+
+const AuthRouteChildren: AuthRouteChildren = {
+  AuthConfirmMailIndexRoute: AuthConfirmMailIndexRoute,
+  AuthForgotPasswordIndexRoute: AuthForgotPasswordIndexRoute,
+  AuthLoginIndexRoute: AuthLoginIndexRoute,
+  AuthOnboardingIndexRoute: AuthOnboardingIndexRoute,
+  AuthRegistrationIndexRoute: AuthRegistrationIndexRoute,
+}
+
+const AuthRouteWithChildren = AuthRoute._addFileChildren(AuthRouteChildren)
+
+const rootRouteChildren: RootRouteChildren = {
+  IndexRoute: IndexRoute,
+  CrmRouteRoute: CrmRouteRouteWithChildren,
+  AuthRoute: AuthRouteWithChildren,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -1,19 +1,11 @@
+import { store } from '@/store';
+import { selectIsAuthenticated } from '@/store/slices/auth.slice';
 import { createFileRoute, redirect } from '@tanstack/react-router';
 
-interface User {
-  id: string;
-  email: string;
-  name: string;
-  role: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
 export const Route = createFileRoute('/_auth')({
-  beforeLoad(ctx) {
-    const { currentUser } = ctx.context as { currentUser: User };
-    if (currentUser) {
-      throw redirect({ to: '/' });
+  beforeLoad() {
+    if (selectIsAuthenticated(store.getState())) {
+      throw redirect({ to: '/crm' });
     }
   },
 });
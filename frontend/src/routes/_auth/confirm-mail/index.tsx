@@ -10,54 +10,52 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import { useVerifyEmailMutation } from '@/store/api/auth.api';
+import { getApiErrorMessage } from '@/store/api/types';
 import { zodResolver } from '@hookform/resolvers/zod';
-// import { confirmSignUp, resendSignUpCode } from "aws-amplify/auth";
 import { Loader2 } from 'lucide-react';
-import { useState } from 'react';
 import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
 import { z } from 'zod';
-import { createFileRoute } from '@tanstack/react-router';
+import { createFileRoute, useNavigate } from '@tanstack/react-router';
 const confirmationFormSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
-  code: z.string().min(1, 'Confirmation code is required'),
+  code: z.string().trim().min(1, 'Confirmation code is required'),
 });
 
 type ConfirmationFormValues = z.infer<typeof confirmationFormSchema>;
 
+// The verification email links here with ?token=<verification token>
+const confirmMailSearchSchema = z.object({
+  token: z.string().optional().catch(undefined),
+});
+
 export function ConfirmationForm({
   className,
+  verificationToken,
   onSuccess,
   ...props
 }: React.ComponentProps<'form'> & {
+  verificationToken?: string;
   onSuccess: () => void;
 }) {
-  const [isConfirming, setIsConfirming] = useState(false);
-  const [isResending, setIsResending] = useState(false);
+  const [verifyEmail, { isLoading: isConfirming }] = useVerifyEmailMutation();
   const form = useForm<ConfirmationFormValues>({
     resolver: zodResolver(confirmationFormSchema),
     defaultValues: {
-      username: '',
-      code: '',
+      code: verificationToken ?? '',
     },
   });
 
-  async function handleResendCode() {
-    // try {
-    //   setIsResending(true);
-    //   await resendSignUpCode({
-    //     username: form.getValues("username"),
-    //   });
-    //   toast.success("Confirmation code resent successfully!");
-    // } catch (error: any) {
-    //   console.error("Error resending code:", error);
-    //   toast.error("Failed to resend confirmation code. Please try again.");
-    // } finally {
-    //   setIsResending(false);
-    // }
+  async function onSubmit(data: ConfirmationFormValues) {
+    try {
+      await verifyEmail(data.code).unwrap();
+      toast.success('Email confirmed! You can now sign in.');
+      onSuccess();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error));
+    }
   }
 
-  async function onSubmit(data: ConfirmationFormValues) {}
-
   return (
     <Form {...form}>
       <form
@@ -66,25 +64,6 @@ export function ConfirmationForm({
         {...props}
       >
         <div className='grid gap-6'>
-          <FormField
-            control={form.control}
-            name='username'
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel className='text-[#1E1E1E] text-base font-normal'>
-                  Username
-                </FormLabel>
-                <FormControl>
-                  <Input
-                    placeholder='Enter your username'
-                    {...field}
-                    disabled={isConfirming || isResending}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
           <FormField
             control={form.control}
             name='code'
@@ -97,7 +76,7 @@ export function ConfirmationForm({
                   <Input
                     placeholder='Enter the code from your email'
                     {...field}
-                    disabled={isConfirming || isResending}
+                    disabled={isConfirming}
                   />
                 </FormControl>
                 <FormMessage />
@@ -108,7 +87,7 @@ export function ConfirmationForm({
             <Button
               type='submit'
               className='bg-black text-white cursor-pointer w-full'
-              disabled={isConfirming || isResending}
+              disabled={isConfirming}
             >
               {isConfirming ? (
                 <>
@@ -119,22 +98,6 @@ export function ConfirmationForm({
                 'Confirm Email'
               )}
             </Button>
-            <Button
-              type='button'
-              variant='outline'
-              className='w-full cursor-pointer'
-              onClick={handleResendCode}
-              disabled={isConfirming || isResending || !form.watch('username')}
-            >
-              {isResending ? (
-                <>
-                  <Loader2 className='mr-2 h-4 w-4 animate-spin' />
-                  Resending...
-                </>
-              ) : (
-                'Resend Code'
-              )}
-            </Button>
           </div>
         </div>
       </form>
@@ -142,13 +105,9 @@ export function ConfirmationForm({
   );
 }
 
-export const ConfirmMailScreen = ({
-  setCurrentAuthStep,
-}: {
-  setCurrentAuthStep: (
-    currentAuthStep: 'login' | 'register' | 'forgot-password' | 'confirm-mail'
-  ) => void;
-}) => {
+export const ConfirmMailScreen = () => {
+  const navigate = useNavigate();
+  const { token } = Route.useSearch();
   return (
     <div className='bg-white p-4 grid min-h-svh lg:grid-cols-2'>
       <div className='flex w-full justify-center items-center flex-col gap-8 p-6 md:p-10'>
@@ -168,12 +127,13 @@ export const ConfirmMailScreen = ({
         <div className='flex flex-col w-full'>
           <ConfirmationForm
             className='w-full'
-            onSuccess={() => setCurrentAuthStep('login')}
+            verificationToken={token}
+            onSuccess={() => navigate({ to: '/login' })}
           />
           <Button
             variant='link'
             className='w-full cursor-pointer'
-            onClick={() => setCurrentAuthStep('login')}
+            onClick={() => navigate({ to: '/login' })}
           >
             Already have an account? Sign in
           </Button>
@@ -191,5 +151,6 @@ export const ConfirmMailScreen = ({
 };
 
 export const Route = createFileRoute('/_auth/confirm-mail/')({
+  validateSearch: confirmMailSearchSchema,
   component: ConfirmMailScreen,
 });
@@ -10,10 +10,14 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import {
+  useForgotPasswordMutation,
+  useResetPasswordMutation,
+} from '@/store/api/auth.api';
+import { getApiErrorMessage } from '@/store/api/types';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
-// import { resetPassword, confirmResetPassword } from "aws-amplify/auth";
 import { toast } from 'sonner';
 import { useState } from 'react';
 
@@ -21,7 +25,7 @@ import { Loader2 } from 'lucide-react';
 import { createFileRoute, useNavigate } from '@tanstack/react-router';
 
 const forgotPasswordSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
+  email: z.string().email('Please enter a valid email address'),
 });
 
 const confirmResetPasswordSchema = z
@@ -32,7 +36,11 @@ const confirmResetPasswordSchema = z
       .min(8, 'Password must be at least 8 characters')
       .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
       .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-      .regex(/[0-9]/, 'Password must contain at least one number'),
+      .regex(/[0-9]/, 'Password must contain at least one number')
+      .regex(
+        /[^A-Za-z0-9]/,
+        'Password must contain at least one special character'
+      ),
     confirmPassword: z.string().min(1, 'Please confirm your password'),
   })
   .refine(data => data.newPassword === data.confirmPassword, {
@@ -43,27 +51,34 @@ const confirmResetPasswordSchema = z
 type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
 type ConfirmResetPasswordValues = z.infer<typeof confirmResetPasswordSchema>;
 
+// The reset email links here with ?token=<reset token>
+const forgotPasswordSearchSchema = z.object({
+  token: z.string().optional().catch(undefined),
+});
+
 export function ForgotPasswordForm({
   className,
+  resetToken,
   ...props
-}: React.ComponentProps<'form'>) {
-  const [isResettingPassword, setIsResettingPassword] = useState(false);
-  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
-  const [showConfirmReset, setShowConfirmReset] = useState(false);
-  const [username, setUsername] = useState('');
+}: React.ComponentProps<'form'> & { resetToken?: string }) {
+  const [forgotPassword, { isLoading: isResettingPassword }] =
+    useForgotPasswordMutation();
+  const [resetPassword, { isLoading: isConfirmingReset }] =
+    useResetPasswordMutation();
+  const [showConfirmReset, setShowConfirmReset] = useState(Boolean(resetToken));
   const navigate = useNavigate();
 
   const forgotPasswordForm = useForm<ForgotPasswordValues>({
     resolver: zodResolver(forgotPasswordSchema),
     defaultValues: {
-      username: '',
+      email: '',
     },
   });
 
   const confirmResetForm = useForm<ConfirmResetPasswordValues>({
     resolver: zodResolver(confirmResetPasswordSchema),
     defaultValues: {
-      code: '',
+      code: resetToken ?? '',
       newPassword: '',
       confirmPassword: '',
     },
@@ -71,25 +86,27 @@ export function ForgotPasswordForm({
 
   async function onForgotPassword(data: ForgotPasswordValues) {
     try {
-      setIsResettingPassword(true);
-      // const { nextStep } = await resetPassword({
-      //   username: data.username,
-      // });
-
-      // if (nextStep.resetPasswordStep === "CONFIRM_RESET_PASSWORD_WITH_CODE") {
-      //   toast.success("Reset code sent to your email!");
-      //   setUsername(data.username);
-      //   setShowConfirmReset(true);
-      // }
+      await forgotPassword({ email: data.email }).unwrap();
+      toast.success('Reset code sent to your email!');
+      setShowConfirmReset(true);
     } catch (error) {
-      console.error('Error resetting password:', error);
-      toast.error('Failed to send reset code. Please try again.');
-    } finally {
-      setIsResettingPassword(false);
+      toast.error(getApiErrorMessage(error));
     }
   }
 
-  async function onConfirmReset(data: ConfirmResetPasswordValues) {}
+  async function onConfirmReset(data: ConfirmResetPasswordValues) {
+    try {
+      await resetPassword({
+        token: data.code.trim(),
+        password: data.newPassword,
+        confirmPassword: data.confirmPassword,
+      }).unwrap();
+      toast.success('Password reset successfully. Please sign in.');
+      navigate({ to: '/login' });
+    } catch (error) {
+      toast.error(getApiErrorMessage(error));
+    }
+  }
 
   return (
     <div className='flex flex-col gap-6'>
@@ -102,13 +119,14 @@ export function ForgotPasswordForm({
           >
             <FormField
               control={forgotPasswordForm.control}
-              name='username'
+              name='email'
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Username</FormLabel>
+                  <FormLabel>Email</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder='Enter your username'
+                      type='email'
+                      placeholder='Enter your email'
                       {...field}
                       disabled={isResettingPassword}
                     />
@@ -214,14 +232,9 @@ export function ForgotPasswordForm({
   );
 }
 
-export const ForgotPasswordScreen = ({
-  setCurrentAuthStep,
-}: {
-  setCurrentAuthStep: (
-    currentAuthStep: 'login' | 'register' | 'forgot-password' | 'confirm-mail'
-  ) => void;
-}) => {
+export const ForgotPasswordScreen = () => {
   const navigate = useNavigate();
+  const { token } = Route.useSearch();
   return (
     <div className='bg-white p-4 grid min-h-svh lg:grid-cols-2'>
       <div className='flex w-full justify-center items-center flex-col gap-4 p-6 md:p-10'>
@@ -230,7 +243,7 @@ export const ForgotPasswordScreen = ({
           <h1 className='font-normal text-2xl leading-8'>Reset Password</h1>
         </div>
         <div className='flex flex-col w-full'>
-          <ForgotPasswordForm className='w-full' />
+          <ForgotPasswordForm className='w-full' resetToken={token} />
           <Button
             variant='link'
             className='w-full cursor-pointer'
@@ -252,5 +265,6 @@ export const ForgotPasswordScreen = ({
 };
 
 export const Route = createFileRoute('/_auth/forgot-password/')({
+  validateSearch: forgotPasswordSearchSchema,
   component: ForgotPasswordScreen,
 });
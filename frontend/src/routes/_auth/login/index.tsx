@@ -1,3 +1,4 @@
+import { TwoFactorChallenge } from '@/components/auth/TwoFactorChallenge';
 import { Button } from '@/components/ui/button';
 import {
   Form,
@@ -9,6 +10,12 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import {
+  isMfaChallenge,
+  type MfaChallenge,
+  useLoginMutation,
+} from '@/store/api/auth.api';
+import { getApiErrorMessage } from '@/store/api/types';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { createFileRoute, useNavigate } from '@tanstack/react-router';
 import { Loader2 } from 'lucide-react';
@@ -19,55 +26,67 @@ import { toast } from 'sonner';
 import { z } from 'zod';
 
 const loginFormSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  email: z.string().email('Please enter a valid email address'),
+  password: z.string().min(1, 'Password is required'),
 });
 
 type LoginFormValues = z.infer<typeof loginFormSchema>;
 
+// Only follow same-origin paths so ?redirect= cannot send users off-site
+const loginSearchSchema = z.object({
+  redirect: z
+    .string()
+    .refine(path => path.startsWith('/') && !path.startsWith('//'))
+    .optional()
+    .catch(undefined),
+});
+
 export function LoginForm({
   className,
-  setCurrentAuthStep,
+  redirectTo = '/crm',
   ...props
-}: React.ComponentProps<'form'> & {
-  setCurrentAuthStep: (
-    currentAuthStep: 'login' | 'register' | 'forgot-password' | 'confirm-mail'
-  ) => void;
-}) {
-  const [isSigningIn, setIsSigningIn] = useState(false);
+}: React.ComponentProps<'form'> & { redirectTo?: string }) {
+  const [login, { isLoading: isSigningIn }] = useLoginMutation();
   const navigate = useNavigate();
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginFormSchema),
     defaultValues: {
-      username: '',
+      email: '',
       password: '',
     },
   });
 
   async function onSubmit(data: LoginFormValues) {
     try {
-      // setIsSigningIn(true);
-      // const { isSignedIn, nextStep } = await signIn({
-      //   username: data.username,
-      //   password: data.password,
-      // });
-      // if (isSignedIn) {
-      //   toast.success("Successfully signed in!");
-      navigate({ to: '/crm' });
-      // } else if (nextStep.signInStep === "CONFIRM_SIGN_UP") {
-      //   setCurrentAuthStep("confirm-mail");
-      //   toast.error("Please confirm your email address first");
-      // } else if (nextStep.signInStep === "RESET_PASSWORD") {
-      //   toast.error("Please reset your password");
-      // }
+      const result = await login({
+        email: data.email,
+        password: data.password,
+      }).unwrap();
+      if (isMfaChallenge(result)) {
+        setChallenge(result);
+        return;
+      }
+      toast.success('Successfully signed in!');
+      navigate({ to: redirectTo });
     } catch (error) {
-      console.error('Error signing in:', error);
-      toast.error('Failed to sign in. Please check your credentials.');
-    } finally {
-      setIsSigningIn(false);
+      toast.error(getApiErrorMessage(error));
     }
   }
 
+  if (challenge) {
+    return (
+      <TwoFactorChallenge
+        challenge={challenge}
+        onSignedIn={() => navigate({ to: redirectTo })}
+        onCancel={() => {
+          setChallenge(null);
+          form.resetField('password');
+        }}
+      />
+    );
+  }
+
   return (
     <Form {...form}>
       <form
@@ -78,15 +97,16 @@ export function LoginForm({
         <div className='grid gap-6'>
           <FormField
             control={form.control}
-            name='username'
+            name='email'
             render={({ field }) => (
               <FormItem>
                 <FormLabel className='text-[#1E1E1E] text-base font-normal'>
-                  Username
+                  Email
                 </FormLabel>
                 <FormControl>
                   <Input
-                    placeholder='Enter your username'
+                    placeholder='Enter your email'
+                    type='email'
                     {...field}
                     disabled={isSigningIn}
                   />
@@ -131,6 +151,7 @@ export function LoginForm({
               )}
             </Button>
             <Button
+              type='button'
               onClick={() => navigate({ to: '/forgot-password' })}
               variant='link'
               className='w-full cursor-pointer'
@@ -145,15 +166,9 @@ export function LoginForm({
   );
 }
 
-export const LoginScreen = ({
-  setCurrentAuthStep,
-}: {
-  navigate: (path: string) => void;
-  setCurrentAuthStep: (
-    currentAuthStep: 'login' | 'register' | 'forgot-password' | 'confirm-mail'
-  ) => void;
-}) => {
+export const LoginScreen = () => {
   const navigate = useNavigate();
+  const { redirect } = Route.useSearch();
   return (
     <div className='bg-white p-4 grid min-h-svh lg:grid-cols-2'>
       <div className='flex w-full justify-center items-center flex-col gap-4 p-6 md:p-10'>
@@ -163,10 +178,7 @@ export const LoginScreen = ({
           <h1 className='font-normal text-2xl leading-8'>Sign in</h1>
         </div>
         <div className='flex flex-col w-full'>
-          <LoginForm
-            className='w-full'
-            setCurrentAuthStep={setCurrentAuthStep}
-          />
+          <LoginForm className='w-full' redirectTo={redirect} />
           <Button
             variant='link'
             className='w-full cursor-pointer'
@@ -176,6 +188,15 @@ export const LoginScreen = ({
           >
             Don't have an account? Sign up
           </Button>
+          <Button
+            variant='link'
+            className='w-full cursor-pointer'
+            onClick={() => {
+              navigate({ to: '/onboarding' });
+            }}
+          >
+            Setting up a new agency? Get started
+          </Button>
         </div>
       </div>
       <div className='bg-muted relative hidden lg:block'>
@@ -190,5 +211,6 @@ export const LoginScreen = ({
 };
 
 export const Route = createFileRoute('/_auth/login/')({
+  validateSearch: loginSearchSchema,
   component: LoginScreen,
 });
@@ -0,0 +1,453 @@
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useOnboardAgencyMutation } from '@/store/api/agencies.api';
+import { getApiErrorMessage } from '@/store/api/types';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { createFileRoute, useNavigate } from '@tanstack/react-router';
+import { Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { type Control, type FieldPath, useForm } from 'react-hook-form';
+
+import { toast } from 'sonner';
+import { z } from 'zod';
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(2, 'Name must be at least 2 characters')
+  .max(50, 'Name must not exceed 50 characters')
+  .regex(/^[a-zA-Z\s]+$/, 'Name can only contain letters and spaces');
+
+const hexColorSchema = z
+  .string()
+  .regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color format (e.g., #FF0000)');
+
+const onboardingFormSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(2, 'Agency name must be at least 2 characters')
+      .max(100, 'Agency name must not exceed 100 characters')
+      .regex(/^[a-zA-Z0-9\s&.-]+$/, 'Agency name contains invalid characters'),
+    code: z
+      .string()
+      .min(2, 'Agency code must be at least 2 characters')
+      .max(10, 'Agency code must not exceed 10 characters')
+      .regex(
+        /^[A-Z0-9]+$/,
+        'Agency code must contain only uppercase letters and numbers'
+      ),
+    domain: z
+      .string()
+      .trim()
+      .max(255, 'Domain must not exceed 255 characters')
+      .regex(/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/, 'Invalid domain format'),
+    logo: z
+      .string()
+      .trim()
+      .url('Invalid URL format')
+      .max(500, 'URL must not exceed 500 characters')
+      .or(z.literal('')),
+    primaryColor: hexColorSchema,
+    secondaryColor: hexColorSchema,
+    locale: z.enum(['en', 'hi']),
+    email: z.string().email('Please enter a valid email address'),
+    firstName: nameSchema,
+    lastName: nameSchema,
+    password: z
+      .string()
+      .min(8, 'Password must be at least 8 characters')
+      .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+      .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+      .regex(/[0-9]/, 'Password must contain at least one number')
+      .regex(
+        /[^A-Za-z0-9]/,
+        'Password must contain at least one special character'
+      ),
+    confirmPassword: z.string().min(1, 'Please confirm your password'),
+  })
+  .refine(data => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type OnboardingFormValues = z.infer<typeof onboardingFormSchema>;
+
+// Each step validates its own fields before moving on
+const ONBOARDING_STEPS: {
+  title: string;
+  description: string;
+  fields: FieldPath<OnboardingFormValues>[];
+}[] = [
+  {
+    title: 'Agency',
+    description: 'How your agency is identified across the CRM.',
+    fields: ['name', 'code', 'domain'],
+  },
+  {
+    title: 'Branding',
+    description:
+      'Optional logo and colors for your workspace and emails, and the language of those emails.',
+    fields: ['logo', 'primaryColor', 'secondaryColor', 'locale'],
+  },
+  {
+    title: 'Administrator',
+    description: 'The first super admin, who can invite the rest of the team.',
+    fields: ['firstName', 'lastName', 'email', 'password', 'confirmPassword'],
+  },
+];
+
+interface OnboardingFieldProps {
+  control: Control<OnboardingFormValues>;
+  name: FieldPath<OnboardingFormValues>;
+  label: string;
+  placeholder?: string;
+  type?: string;
+  description?: string;
+  disabled?: boolean;
+  className?: string;
+  transform?: (value: string) => string;
+}
+
+function OnboardingField({
+  control,
+  name,
+  label,
+  placeholder,
+  type,
+  description,
+  disabled,
+  className,
+  transform,
+}: OnboardingFieldProps) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className='text-[#1E1E1E] text-base font-normal'>
+            {label}
+          </FormLabel>
+          <FormControl>
+            <Input
+              placeholder={placeholder}
+              type={type}
+              className={className}
+              {...field}
+              onChange={event =>
+                field.onChange(
+                  transform ? transform(event.target.value) : event
+                )
+              }
+              disabled={disabled}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+export function OnboardingForm({
+  className,
+  ...props
+}: React.ComponentProps<'form'>) {
+  const [onboardAgency, { isLoading: isOnboarding }] =
+    useOnboardAgencyMutation();
+  const navigate = useNavigate();
+  const [step, setStep] = useState(0);
+  const isLastStep = step === ONBOARDING_STEPS.length - 1;
+  const currentStep = ONBOARDING_STEPS[step];
+
+  const form = useForm<OnboardingFormValues>({
+    resolver: zodResolver(onboardingFormSchema),
+    defaultValues: {
+      name: '',
+      code: '',
+      domain: '',
+      logo: '',
+      primaryColor: '#000000',
+      secondaryColor: '#ffffff',
+      locale: 'en',
+      email: '',
+      firstName: '',
+      lastName: '',
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  async function goToNextStep() {
+    if (await form.trigger(currentStep.fields)) {
+      setStep(step + 1);
+    }
+  }
+
+  async function onSubmit(data: OnboardingFormValues) {
+    try {
+      await onboardAgency({
+        name: data.name,
+        code: data.code,
+        domain: data.domain,
+        branding: {
+          logo: data.logo || undefined,
+          colors: {
+            primary: data.primaryColor,
+            secondary: data.secondaryColor,
+          },
+        },
+        locale: data.locale,
+        admin: {
+          email: data.email,
+          password: data.password,
+          firstName: data.firstName,
+          lastName: data.lastName,
+        },
+      }).unwrap();
+      toast.success(
+        `${data.name} is ready! Please check your email to confirm your account.`
+      );
+      navigate({ to: '/confirm-mail' });
+    } catch (error) {
+      toast.error(getApiErrorMessage(error));
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className={cn('flex flex-col gap-6', className)}
+        {...props}
+      >
+        <div className='flex flex-col gap-2'>
+          <p className='text-sm text-[#49454E]'>
+            Step {step + 1} of {ONBOARDING_STEPS.length}: {currentStep.title}
+          </p>
+          <Progress value={((step + 1) / ONBOARDING_STEPS.length) * 100} />
+          <p className='text-sm text-muted-foreground'>
+            {currentStep.description}
+          </p>
+        </div>
+        <div className='grid gap-6'>
+          {step === 0 && (
+            <>
+              <OnboardingField
+                control={form.control}
+                name='name'
+                label='Agency Name'
+                placeholder='Acme Travel'
+              />
+              <OnboardingField
+                control={form.control}
+                name='code'
+                label='Agency Code'
+                placeholder='ACME'
+                description='2 to 10 letters or numbers, unique to your agency.'
+                transform={value => value.toUpperCase()}
+              />
+              <OnboardingField
+                control={form.control}
+                name='domain'
+                label='Domain'
+                placeholder='acmetravel.com'
+              />
+            </>
+          )}
+          {step === 1 && (
+            <>
+              <OnboardingField
+                control={form.control}
+                name='logo'
+                label='Logo URL'
+                placeholder='https://acmetravel.com/logo.png'
+              />
+              <div className='grid grid-cols-2 gap-4'>
+                <OnboardingField
+                  control={form.control}
+                  name='primaryColor'
+                  label='Primary Color'
+                  type='color'
+                  className='h-10 cursor-pointer p-1'
+                />
+                <OnboardingField
+                  control={form.control}
+                  name='secondaryColor'
+                  label='Secondary Color'
+                  type='color'
+                  className='h-10 cursor-pointer p-1'
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name='locale'
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className='text-[#1E1E1E] text-base font-normal'>
+                      Email Language
+                    </FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value='en'>English</SelectItem>
+                        <SelectItem value='hi'>हिन्दी (Hindi)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
+          )}
+          {isLastStep && (
+            <>
+              <OnboardingField
+                control={form.control}
+                name='firstName'
+                label='First Name'
+                placeholder='Enter your first name'
+                disabled={isOnboarding}
+              />
+              <OnboardingField
+                control={form.control}
+                name='lastName'
+                label='Last Name'
+                placeholder='Enter your last name'
+                disabled={isOnboarding}
+              />
+              <OnboardingField
+                control={form.control}
+                name='email'
+                label='Email'
+                type='email'
+                placeholder='Enter your email'
+                disabled={isOnboarding}
+              />
+              <OnboardingField
+                control={form.control}
+                name='password'
+                label='Password'
+                type='password'
+                placeholder='Create a password'
+                disabled={isOnboarding}
+              />
+              <OnboardingField
+                control={form.control}
+                name='confirmPassword'
+                label='Confirm Password'
+                type='password'
+                placeholder='Confirm your password'
+                disabled={isOnboarding}
+              />
+            </>
+          )}
+          <div className='flex gap-4'>
+            {step > 0 && (
+              <Button
+                type='button'
+                variant='outline'
+                className='flex-1 cursor-pointer'
+                onClick={() => setStep(step - 1)}
+                disabled={isOnboarding}
+              >
+                Back
+              </Button>
+            )}
+            {isLastStep ? (
+              <Button
+                type='submit'
+                className='flex-1 bg-black text-white cursor-pointer'
+                disabled={isOnboarding}
+              >
+                {isOnboarding ? (
+                  <>
+                    <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                    Creating agency...
+                  </>
+                ) : (
+                  'Create Agency'
+                )}
+              </Button>
+            ) : (
+              <Button
+                type='button'
+                className='flex-1 bg-black text-white cursor-pointer'
+                onClick={goToNextStep}
+              >
+                Continue
+              </Button>
+            )}
+          </div>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export const OnboardingScreen = () => {
+  const navigate = useNavigate();
+  return (
+    <div className='bg-white p-4 grid min-h-svh lg:grid-cols-2'>
+      <div className='flex w-full justify-center items-center flex-col gap-8 p-6 md:p-10'>
+        <div className='flex w-full flex-col justify-center gap-8 '>
+          <div className='flex flex-col gap-2'>
+            <h1 className='font-normal text-3xl leading-9'>
+              Set up your agency
+            </h1>
+            <p className='font-normal text-sm leading-5 tracking-[0.25px] text-[#49454E]'>
+              Create your agency workspace and its first administrator account.
+              You can invite the rest of your team once you are signed in.
+            </p>
+          </div>
+        </div>
+        <div className='flex flex-col w-full'>
+          <OnboardingForm className='w-full' />
+          <Button
+            variant='link'
+            className='w-full cursor-pointer'
+            onClick={() => navigate({ to: '/login' })}
+          >
+            Already have an account? Sign in
+          </Button>
+        </div>
+      </div>
+      <div className='bg-muted relative hidden lg:block'>
+        <img
+          src='/Modern-Medical-Office.png'
+          alt='Image'
+          className='absolute rounded-3xl inset-0 h-full w-full object-cover dark:brightness-[0.2] dark:grayscale'
+        />
+      </div>
+    </div>
+  );
+};
+
+export const Route = createFileRoute('/_auth/onboarding/')({
+  component: OnboardingScreen,
+});
@@ -8,28 +8,45 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import {
+  useGetInvitationPreviewQuery,
+  useRegisterMutation,
+} from '@/store/api/auth.api';
+import { getApiErrorMessage } from '@/store/api/types';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { createFileRoute, useNavigate } from '@tanstack/react-router';
-// import { signUp } from "aws-amplify/auth";
 import { Loader2 } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 
 import { toast } from 'sonner';
 import { z } from 'zod';
 
+const nameSchema = z
+  .string()
+  .trim()
+  .min(2, 'Name must be at least 2 characters')
+  .max(50, 'Name must not exceed 50 characters')
+  .regex(/^[a-zA-Z\s]+$/, 'Name can only contain letters and spaces');
+
 const registrationFormSchema = z
   .object({
     email: z.string().email('Please enter a valid email address'),
-    username: z.string().min(1, 'Username is required'),
+    firstName: nameSchema,
+    lastName: nameSchema,
     password: z
       .string()
       .min(8, 'Password must be at least 8 characters')
       .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
       .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-      .regex(/[0-9]/, 'Password must contain at least one number'),
+      .regex(/[0-9]/, 'Password must contain at least one number')
+      .regex(
+        /[^A-Za-z0-9]/,
+        'Password must contain at least one special character'
+      ),
     confirmPassword: z.string().min(1, 'Please confirm your password'),
   })
   .refine(data => data.password === data.confirmPassword, {
@@ -39,67 +56,62 @@ const registrationFormSchema = z
 
 type RegistrationFormValues = z.infer<typeof registrationFormSchema>;
 
+// Invitation links carry ?invitation=<token>; without one the email domain
+// decides the agency
+const registrationSearchSchema = z.object({
+  invitation: z.string().min(1).max(64).optional().catch(undefined),
+});
+
 export function RegistrationForm({
   className,
-  setCurrentAuthStep,
+  invitationToken,
   ...props
-}: React.ComponentProps<'form'> & {
-  setCurrentAuthStep: (
-    currentAuthStep: 'login' | 'register' | 'forgot-password' | 'confirm-mail'
-  ) => void;
-}) {
-  const [isRegistering, setIsRegistering] = useState(false);
+}: React.ComponentProps<'form'> & { invitationToken?: string }) {
+  const [register, { isLoading: isRegistering }] = useRegisterMutation();
+  const navigate = useNavigate();
+  const { data: invitation, isError: isInvitationInvalid } =
+    useGetInvitationPreviewQuery(invitationToken ?? '', {
+      skip: !invitationToken,
+    });
 
   const form = useForm<RegistrationFormValues>({
     resolver: zodResolver(registrationFormSchema),
     defaultValues: {
       email: '',
-      username: '',
+      firstName: '',
+      lastName: '',
       password: '',
       confirmPassword: '',
     },
   });
 
+  // The invitation is bound to one address
+  useEffect(() => {
+    if (invitation) {
+      form.setValue('email', invitation.email);
+    }
+  }, [form, invitation]);
+
   async function onSubmit(data: RegistrationFormValues) {
     try {
-      setIsRegistering(true);
-      // const { isSignUpComplete, nextStep } = await signUp({
-      //   username: data.username,
-      //   password: data.password,
-      //   options: {
-      //     userAttributes: {
-      //       email: data.email,
-      //     },
-      //     autoSignIn: true,
-      //   },
-      // });
-      // if (isSignUpComplete) {
-      //   toast.success(
-      //     "Registration successful! Please check your email to confirm your account."
-      //   );
-      //   setCurrentAuthStep("confirm-mail");
-      // } else if (nextStep.signUpStep === "CONFIRM_SIGN_UP") {
-      //   setCurrentAuthStep("confirm-mail");
-      //   toast.success(
-      //     "Registration successful! Please check your email to confirm your account."
-      //   );
-      // }
-    } catch (error: unknown) {
-      console.error('Error registering:', error);
-      if (error instanceof Error && error.name === 'UsernameExistsException') {
-        toast.error(
-          'Username already exists. Please choose a different username.'
+      const result = await register({
+        email: data.email,
+        password: data.password,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        invitationToken,
+      }).unwrap();
+      if (result.data.emailVerificationRequired) {
+        toast.success(
+          'Registration successful! Please check your email to confirm your account.'
         );
-      } else if (
-        error instanceof Error &&
-        error.name === 'InvalidPasswordException'
-      ) {
-        toast.error('Password does not meet requirements. Please try again.');
+        navigate({ to: '/confirm-mail' });
       } else {
-        toast.error('Failed to register. Please try again.');
+        toast.success('Your account is ready. Please sign in.');
+        navigate({ to: '/login' });
       }
-    } finally {
-      setIsRegistering(false);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error));
     }
   }
 
@@ -111,6 +123,31 @@ export function RegistrationForm({
         {...props}
       >
         <div className='grid gap-6'>
+          {invitation && (
+            <Alert>
+              <AlertDescription>
+                You have been invited to join {invitation.agencyName} as{' '}
+                {invitation.roleName}.
+              </AlertDescription>
+            </Alert>
+          )}
+          {isInvitationInvalid && (
+            <Alert variant='destructive'>
+              <AlertDescription>
+                This invitation is invalid or has expired. Ask your agency for a
+                new one.
+              </AlertDescription>
+            </Alert>
+          )}
+          {!invitationToken && (
+            <Alert>
+              <AlertDescription>
+                Sign up with your work email to join your agency as an agent. If
+                your agency does not allow signups from your email domain, ask
+                an administrator for an invitation.
+              </AlertDescription>
+            </Alert>
+          )}
           <FormField
             control={form.control}
             name='email'
@@ -124,6 +161,26 @@ export function RegistrationForm({
                     placeholder='Enter your email'
                     type='email'
                     {...field}
+                    readOnly={Boolean(invitation)}
+                    disabled={isRegistering}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name='firstName'
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className='text-[#1E1E1E] text-base font-normal'>
+                  First Name
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder='Enter your first name'
+                    {...field}
                     disabled={isRegistering}
                   />
                 </FormControl>
@@ -133,15 +190,15 @@ export function RegistrationForm({
           />
           <FormField
             control={form.control}
-            name='username'
+            name='lastName'
             render={({ field }) => (
               <FormItem>
                 <FormLabel className='text-[#1E1E1E] text-base font-normal'>
-                  Username
+                  Last Name
                 </FormLabel>
                 <FormControl>
                   <Input
-                    placeholder='Choose a username'
+                    placeholder='Enter your last name'
                     {...field}
                     disabled={isRegistering}
                   />
@@ -193,7 +250,7 @@ export function RegistrationForm({
           <Button
             type='submit'
             className='bg-black text-white cursor-pointer w-full'
-            disabled={isRegistering}
+            disabled={isRegistering || isInvitationInvalid}
           >
             {isRegistering ? (
               <>
@@ -210,14 +267,9 @@ export function RegistrationForm({
   );
 }
 
-export const RegistrationScreen = ({
-  setCurrentAuthStep,
-}: {
-  setCurrentAuthStep: (
-    currentAuthStep: 'login' | 'register' | 'forgot-password' | 'confirm-mail'
-  ) => void;
-}) => {
+export const RegistrationScreen = () => {
   const navigate = useNavigate();
+  const { invitation } = Route.useSearch();
   return (
     <div className='bg-white p-4 grid min-h-svh lg:grid-cols-2'>
       <div className='flex w-full justify-center items-center flex-col gap-8 p-6 md:p-10'>
@@ -235,10 +287,7 @@ export const RegistrationScreen = ({
           </div>
         </div>
         <div className='flex flex-col w-full'>
-          <RegistrationForm
-            className='w-full'
-            setCurrentAuthStep={setCurrentAuthStep}
-          />
+          <RegistrationForm className='w-full' invitationToken={invitation} />
           <Button
             variant='link'
             className='w-full cursor-pointer'
@@ -260,5 +309,6 @@ export const RegistrationScreen = ({
 };
 
 export const Route = createFileRoute('/_auth/registration/')({
+  validateSearch: registrationSearchSchema,
   component: RegistrationScreen,
 });
@@ -0,0 +1,34 @@
+import { store } from '@/store';
+import { useAppSelector } from '@/store/hooks';
+import { selectIsAuthenticated } from '@/store/slices/auth.slice';
+import {
+  createFileRoute,
+  Navigate,
+  Outlet,
+  redirect,
+  useLocation,
+} from '@tanstack/react-router';
+
+const loginHref = (returnTo: string) =>
+  `/login?redirect=${encodeURIComponent(returnTo)}`;
+
+// Leave the CRM as soon as the session ends, e.g. when a token refresh fails
+function CrmLayout() {
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return <Navigate href={loginHref(location.href)} replace />;
+  }
+  return <Outlet />;
+}
+
+// Every /crm/* page requires a signed-in user
+export const Route = createFileRoute('/crm')({
+  beforeLoad({ location }) {
+    if (!selectIsAuthenticated(store.getState())) {
+      throw redirect({ href: loginHref(location.href) });
+    }
+  },
+  component: CrmLayout,
+});
@@ -0,0 +1,6 @@
+import SessionsPage from '@/features/crm/sessions/SessionsPage';
+import { createFileRoute } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/crm/sessions/')({
+  component: SessionsPage,
+});
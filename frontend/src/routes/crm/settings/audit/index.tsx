@@ -0,0 +1,6 @@
+import AuditLogPage from '@/features/crm/settings/AuditLogPage';
+import { createFileRoute } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/crm/settings/audit/')({
+  component: AuditLogPage,
+});
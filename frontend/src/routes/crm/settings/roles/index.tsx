@@ -0,0 +1,6 @@
+import RolesPage from '@/features/crm/settings/RolesPage';
+import { createFileRoute } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/crm/settings/roles/')({
+  component: RolesPage,
+});
@@ -0,0 +1,70 @@
+import { apiSlice } from './apiSlice';
+
+export interface AgencyBranding {
+  logo?: string;
+  colors?: {
+    primary: string;
+    secondary: string;
+  };
+}
+
+// Language of the emails sent for the agency
+export type AgencyLocale = 'en' | 'hi';
+
+export interface AgencySettings {
+  maxUsers: number;
+  allowedDomains: string[];
+  twoFactorRequiredRoles: string[];
+  locale: AgencyLocale;
+  // WhatsApp Cloud API number the agency messages leads from
+  whatsappPhoneNumberId?: string;
+  // Alphanumeric sender ID or number leads see on SMS
+  smsSenderId?: string;
+  customBranding?: AgencyBranding;
+}
+
+export interface Agency {
+  id: string;
+  name: string;
+  code: string;
+  domain: string;
+  isActive: boolean;
+  settings: AgencySettings;
+}
+
+export interface OnboardAgencyRequest {
+  name: string;
+  code: string;
+  domain: string;
+  branding?: AgencyBranding;
+  locale?: AgencyLocale;
+  admin: {
+    email: string;
+    password: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+// Agency endpoints answer with { success, message, data }
+export interface OnboardAgencyResponse {
+  success: boolean;
+  message: string;
+  data: {
+    agency: Agency;
+    admin: { id: string; email: string; firstName: string; lastName: string };
+  };
+}
+
+export const agenciesApi = apiSlice.injectEndpoints({
+  endpoints: builder => ({
+    onboardAgency: builder.mutation<
+      OnboardAgencyResponse,
+      OnboardAgencyRequest
+    >({
+      query: body => ({ url: '/agency/onboard', method: 'POST', body }),
+    }),
+  }),
+});
+
+export const { useOnboardAgencyMutation } = agenciesApi;
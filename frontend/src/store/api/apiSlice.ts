@@ -1,18 +1,117 @@
-import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import {
+  type BaseQueryApi,
+  type BaseQueryFn,
+  createApi,
+  type FetchArgs,
+  fetchBaseQuery,
+  type FetchBaseQueryError,
+} from '@reduxjs/toolkit/query/react';
 
-// Define a base API slice
+import {
+  type AuthState,
+  logout,
+  tokenRefreshed,
+} from '@/store/slices/auth.slice';
+
+const HTTP_UNAUTHORIZED = 401;
+const REFRESH_TOKEN_URL = '/auth/refresh-token';
+
+const rawBaseQuery = fetchBaseQuery({
+  baseUrl: import.meta.env.VITE_API_URL || 'http://localhost:3000/api/v1',
+  prepareHeaders: (headers, { getState }) => {
+    const { token } = (getState() as { auth: AuthState }).auth;
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return headers;
+  },
+});
+
+// Shared by every request that hits a 401 while a refresh is in flight
+let pendingRefresh: Promise<boolean> | null = null;
+
+const refreshAccessToken = async (
+  api: BaseQueryApi,
+  extraOptions: object
+): Promise<boolean> => {
+  const { refreshToken } = (api.getState() as { auth: AuthState }).auth;
+  if (!refreshToken) {
+    return false;
+  }
+
+  const result = await rawBaseQuery(
+    { url: REFRESH_TOKEN_URL, method: 'POST', body: { refreshToken } },
+    api,
+    extraOptions
+  );
+  const refreshed = (
+    result.data as { data?: { token: string; refreshToken?: string } }
+  )?.data;
+  if (!refreshed?.token) {
+    return false;
+  }
+
+  api.dispatch(tokenRefreshed(refreshed));
+  return true;
+};
+
+// Refresh the access token once on a 401 and replay the request with it;
+// requests failing meanwhile wait for the same refresh instead of racing it
+const baseQueryWithReauth: BaseQueryFn<
+  string | FetchArgs,
+  unknown,
+  FetchBaseQueryError
+> = async (args, api, extraOptions) => {
+  if (pendingRefresh) {
+    await pendingRefresh;
+  }
+
+  const { token } = (api.getState() as { auth: AuthState }).auth;
+  let result = await rawBaseQuery(args, api, extraOptions);
+  if (result.error?.status !== HTTP_UNAUTHORIZED || !token) {
+    return result;
+  }
+
+  // Another request may already have refreshed while this one was in flight
+  const currentToken = (api.getState() as { auth: AuthState }).auth.token;
+  let refreshed = currentToken !== null && currentToken !== token;
+
+  if (!refreshed) {
+    if (!pendingRefresh) {
+      pendingRefresh = refreshAccessToken(api, extraOptions).finally(() => {
+        pendingRefresh = null;
+      });
+    }
+    refreshed = await pendingRefresh;
+  }
+
+  if (refreshed) {
+    result = await rawBaseQuery(args, api, extraOptions);
+  } else if ((api.getState() as { auth: AuthState }).auth.token) {
+    api.dispatch(logout());
+    api.dispatch(apiSlice.util.resetApiState());
+  }
+  return result;
+};
+
+// Define a base API slice; feature endpoints are injected from ./*.api.ts
 export const apiSlice = createApi({
   reducerPath: 'api',
-  baseQuery: fetchBaseQuery({
-    baseUrl: import.meta.env.VITE_API_URL || 'http://localhost:3000/api',
-    prepareHeaders: headers => {
-      return headers;
-    },
-  }),
-  tagTypes: [],
-  endpoints: () => ({
-    // Base endpoints can be added here if needed
-  }),
+  baseQuery: baseQueryWithReauth,
+  tagTypes: [
+    'Lead',
+    'LeadTimeline',
+    'LeadHistory',
+    'Task',
+    'Booking',
+    'Communication',
+    'Session',
+    'TwoFactor',
+    'Role',
+    'User',
+    'AuditLog',
+  ],
+  endpoints: () => ({}),
   // Add default error handling
   // refetchOnMountOrArgChange: true,
   // refetchOnFocus: true,
@@ -0,0 +1,70 @@
+import { apiSlice } from './apiSlice';
+import {
+  type ApiResponse,
+  type ListParams,
+  type PaginatedResult,
+  type Pagination,
+  toQueryParams,
+} from './types';
+
+export type AuditActorType = 'user' | 'platform_operator' | 'system';
+
+export interface AuditChange {
+  field: string;
+  // Both are absent for redacted fields such as passwords
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditLog {
+  id: string;
+  // Null for failed sign-ins of unknown emails and removed accounts
+  actor: { id: string; name: string; email: string } | null;
+  actorType: AuditActorType;
+  impersonatedBy?: string;
+  action: string;
+  resource?: string;
+  resourceId?: string;
+  changes: AuditChange[];
+  status: 'success' | 'failure';
+  ip: string;
+  userAgent: string;
+  method?: string;
+  path?: string;
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AuditLogListParams extends ListParams {
+  actorId?: string;
+  resource?: string;
+  resourceId?: string;
+  action?: string;
+  // ISO date-times bounding when the action happened
+  from?: string;
+  to?: string;
+}
+
+interface AuditLogListResponse {
+  auditLogs: AuditLog[];
+  pagination: Pagination & { totalAuditLogs: number };
+}
+
+export const auditLogsApi = apiSlice.injectEndpoints({
+  endpoints: builder => ({
+    getAuditLogs: builder.query<
+      PaginatedResult<AuditLog>,
+      AuditLogListParams | void
+    >({
+      query: params => ({ url: '/audit-logs', params: toQueryParams(params) }),
+      transformResponse: (response: ApiResponse<AuditLogListResponse>) => ({
+        items: response.data.auditLogs,
+        total: response.data.pagination.totalAuditLogs,
+        pagination: response.data.pagination,
+      }),
+      providesTags: [{ type: 'AuditLog', id: 'LIST' }],
+    }),
+  }),
+});
+
+export const { useGetAuditLogsQuery } = auditLogsApi;
@@ -0,0 +1,265 @@
+import { apiSlice } from './apiSlice';
+
+import {
+  type AuthCredentials,
+  logout,
+  setCredentials,
+} from '@/store/slices/auth.slice';
+
+// Auth endpoints answer with { success, message } or { success, data }
+interface AuthMessageResponse {
+  success: boolean;
+  message: string;
+}
+
+interface AuthDataResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+// Returned by login instead of tokens when a second factor is needed
+export interface MfaChallenge {
+  mfaRequired: true;
+  enrollmentRequired: boolean;
+  mfaToken: string;
+}
+
+export type LoginResponse = AuthCredentials | MfaChallenge;
+
+export const isMfaChallenge = (
+  response: LoginResponse
+): response is MfaChallenge => 'mfaRequired' in response;
+
+export interface MfaChallengeRequest {
+  mfaToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface RecoveryCodes {
+  recoveryCodes: string[];
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  invitationToken?: string;
+}
+
+export interface RegisterResponse extends AuthMessageResponse {
+  data: { emailVerificationRequired: boolean };
+}
+
+export interface InvitationPreview {
+  email: string;
+  agencyName: string;
+  roleName: string;
+  expiresAt: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export interface AuthSession {
+  id: string;
+  device: string;
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+  // Opened by platform support acting as the user
+  impersonated: boolean;
+}
+
+// Store the tokens of a completed login
+const startSession = async (
+  dispatch: (action: unknown) => unknown,
+  queryFulfilled: Promise<{ data: LoginResponse }>
+) => {
+  const { data } = await queryFulfilled;
+  if (isMfaChallenge(data)) {
+    return;
+  }
+  dispatch(setCredentials(data));
+  // Drop anything cached for a previous session
+  dispatch(apiSlice.util.resetApiState());
+};
+
+export const authApi = apiSlice.injectEndpoints({
+  endpoints: builder => ({
+    login: builder.mutation<LoginResponse, LoginRequest>({
+      query: body => ({ url: '/auth/login', method: 'POST', body }),
+      transformResponse: (response: AuthDataResponse<LoginResponse>) =>
+        response.data,
+      onQueryStarted: (_args, { dispatch, queryFulfilled }) =>
+        startSession(dispatch, queryFulfilled),
+    }),
+    verifyMfaChallenge: builder.mutation<AuthCredentials, MfaChallengeRequest>({
+      query: body => ({ url: '/auth/2fa/challenge', method: 'POST', body }),
+      transformResponse: (response: AuthDataResponse<AuthCredentials>) =>
+        response.data,
+      onQueryStarted: (_args, { dispatch, queryFulfilled }) =>
+        startSession(dispatch, queryFulfilled),
+    }),
+    beginMfaEnrollment: builder.mutation<TwoFactorSetup, string>({
+      query: mfaToken => ({
+        url: '/auth/2fa/challenge/setup',
+        method: 'POST',
+        body: { mfaToken },
+      }),
+      transformResponse: (response: AuthDataResponse<TwoFactorSetup>) =>
+        response.data,
+    }),
+    confirmMfaEnrollment: builder.mutation<
+      AuthCredentials & RecoveryCodes,
+      { mfaToken: string; code: string }
+    >({
+      query: body => ({
+        url: '/auth/2fa/challenge/confirm',
+        method: 'POST',
+        body,
+      }),
+      transformResponse: (
+        response: AuthDataResponse<AuthCredentials & RecoveryCodes>
+      ) => response.data,
+      // Credentials are stored once the user has saved the recovery codes
+    }),
+    register: builder.mutation<RegisterResponse, RegisterRequest>({
+      query: body => ({ url: '/auth/register', method: 'POST', body }),
+    }),
+    getInvitationPreview: builder.query<InvitationPreview, string>({
+      query: token => `/users/invitations/token/${encodeURIComponent(token)}`,
+      transformResponse: (response: AuthDataResponse<InvitationPreview>) =>
+        response.data,
+    }),
+    forgotPassword: builder.mutation<AuthMessageResponse, { email: string }>({
+      query: body => ({ url: '/auth/forgot-password', method: 'POST', body }),
+    }),
+    resetPassword: builder.mutation<AuthMessageResponse, ResetPasswordRequest>({
+      query: ({ token, ...body }) => ({
+        url: `/auth/reset-password/${encodeURIComponent(token)}`,
+        method: 'POST',
+        body,
+      }),
+    }),
+    // Sign out locally even when the server no longer knows the session
+    logout: builder.mutation<AuthMessageResponse, string>({
+      query: refreshToken => ({
+        url: '/auth/logout',
+        method: 'POST',
+        body: { refreshToken },
+      }),
+      async onQueryStarted(_refreshToken, { dispatch, queryFulfilled }) {
+        await queryFulfilled.catch(() => null);
+        dispatch(logout());
+        dispatch(apiSlice.util.resetApiState());
+      },
+    }),
+    logoutAllDevices: builder.mutation<AuthMessageResponse, void>({
+      query: () => ({ url: '/auth/logout-all', method: 'POST' }),
+      async onQueryStarted(_args, { dispatch, queryFulfilled }) {
+        await queryFulfilled;
+        dispatch(logout());
+        dispatch(apiSlice.util.resetApiState());
+      },
+    }),
+    getSessions: builder.query<AuthSession[], void>({
+      query: () => '/auth/sessions',
+      transformResponse: (response: AuthDataResponse<AuthSession[]>) =>
+        response.data,
+      providesTags: ['Session'],
+    }),
+    revokeSession: builder.mutation<AuthMessageResponse, string>({
+      query: id => ({ url: `/auth/sessions/${id}`, method: 'DELETE' }),
+      invalidatesTags: ['Session'],
+    }),
+    getTwoFactorStatus: builder.query<TwoFactorStatus, void>({
+      query: () => '/auth/2fa',
+      transformResponse: (response: AuthDataResponse<TwoFactorStatus>) =>
+        response.data,
+      providesTags: ['TwoFactor'],
+    }),
+    setupTwoFactor: builder.mutation<TwoFactorSetup, void>({
+      query: () => ({ url: '/auth/2fa/setup', method: 'POST' }),
+      transformResponse: (response: AuthDataResponse<TwoFactorSetup>) =>
+        response.data,
+    }),
+    confirmTwoFactor: builder.mutation<RecoveryCodes, string>({
+      query: code => ({
+        url: '/auth/2fa/confirm',
+        method: 'POST',
+        body: { code },
+      }),
+      transformResponse: (response: AuthDataResponse<RecoveryCodes>) =>
+        response.data,
+      invalidatesTags: ['TwoFactor'],
+    }),
+    regenerateRecoveryCodes: builder.mutation<RecoveryCodes, string>({
+      query: code => ({
+        url: '/auth/2fa/recovery-codes',
+        method: 'POST',
+        body: { code },
+      }),
+      transformResponse: (response: AuthDataResponse<RecoveryCodes>) =>
+        response.data,
+      invalidatesTags: ['TwoFactor'],
+    }),
+    disableTwoFactor: builder.mutation<AuthMessageResponse, string>({
+      query: code => ({
+        url: '/auth/2fa/disable',
+        method: 'POST',
+        body: { code },
+      }),
+      invalidatesTags: ['TwoFactor'],
+    }),
+    verifyEmail: builder.mutation<AuthMessageResponse, string>({
+      query: token => ({
+        url: `/auth/verify-email/${encodeURIComponent(token)}`,
+        method: 'GET',
+      }),
+    }),
+  }),
+});
+
+export const {
+  useLoginMutation,
+  useVerifyMfaChallengeMutation,
+  useBeginMfaEnrollmentMutation,
+  useConfirmMfaEnrollmentMutation,
+  useRegisterMutation,
+  useGetInvitationPreviewQuery,
+  useForgotPasswordMutation,
+  useResetPasswordMutation,
+  useLogoutMutation,
+  useLogoutAllDevicesMutation,
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+  useGetTwoFactorStatusQuery,
+  useSetupTwoFactorMutation,
+  useConfirmTwoFactorMutation,
+  useRegenerateRecoveryCodesMutation,
+  useDisableTwoFactorMutation,
+  useVerifyEmailMutation,
+} = authApi;
@@ -0,0 +1,139 @@
+import { apiSlice } from './apiSlice';
+import {
+  type ApiResponse,
+  type ListParams,
+  type PaginatedResult,
+  type Pagination,
+  toQueryParams,
+} from './types';
+
+import type { Booking } from '@/types/crm';
+
+export type BookingStatus = Booking['status'];
+
+export interface BookingListParams extends ListParams {
+  leadId?: string;
+  status?: BookingStatus;
+}
+
+export interface PaymentStageInput {
+  id?: string;
+  name: string;
+  amount: number;
+  dueDate: string;
+}
+
+export interface BookingInput {
+  leadId: string;
+  status?: Extract<BookingStatus, 'draft' | 'confirmed'>;
+  itinerary?: {
+    name: string;
+    description?: string;
+    startDate?: string;
+    endDate?: string;
+  };
+  totalAmount: number;
+  paymentStages?: PaymentStageInput[];
+}
+
+interface BookingListResponse {
+  bookings: Booking[];
+  pagination: Pagination & { totalBookings: number };
+}
+
+const bookingTags = (booking: Booking | undefined, id: string) => [
+  { type: 'Booking' as const, id },
+  { type: 'Booking' as const, id: 'LIST' },
+  ...(booking ? [{ type: 'LeadTimeline' as const, id: booking.leadId }] : []),
+];
+
+export const bookingsApi = apiSlice.injectEndpoints({
+  endpoints: builder => ({
+    getBookings: builder.query<
+      PaginatedResult<Booking>,
+      BookingListParams | void
+    >({
+      query: params => ({
+        url: '/bookings',
+        params: toQueryParams(params),
+      }),
+      transformResponse: (response: ApiResponse<BookingListResponse>) => ({
+        items: response.data.bookings,
+        total: response.data.pagination.totalBookings,
+        pagination: response.data.pagination,
+      }),
+      providesTags: result => [
+        ...(result?.items.map(({ id }) => ({ type: 'Booking' as const, id })) ??
+          []),
+        { type: 'Booking', id: 'LIST' },
+      ],
+    }),
+    getBooking: builder.query<Booking, string>({
+      query: id => `/bookings/${id}`,
+      transformResponse: (response: ApiResponse<Booking>) => response.data,
+      providesTags: (_result, _error, id) => [{ type: 'Booking', id }],
+    }),
+    createBooking: builder.mutation<Booking, BookingInput>({
+      query: body => ({ url: '/bookings', method: 'POST', body }),
+      transformResponse: (response: ApiResponse<Booking>) => response.data,
+      invalidatesTags: (_result, _error, { leadId }) => [
+        { type: 'Booking', id: 'LIST' },
+        { type: 'LeadTimeline', id: leadId },
+      ],
+    }),
+    updateBooking: builder.mutation<
+      Booking,
+      { id: string; data: Partial<Omit<BookingInput, 'leadId' | 'status'>> }
+    >({
+      query: ({ id, data }) => ({
+        url: `/bookings/${id}`,
+        method: 'PATCH',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<Booking>) => response.data,
+      invalidatesTags: (result, _error, { id }) => bookingTags(result, id),
+    }),
+    changeBookingStatus: builder.mutation<
+      Booking,
+      { id: string; status: BookingStatus }
+    >({
+      query: ({ id, status }) => ({
+        url: `/bookings/${id}/status`,
+        method: 'PATCH',
+        body: { status },
+      }),
+      transformResponse: (response: ApiResponse<Booking>) => response.data,
+      invalidatesTags: (result, _error, { id }) => bookingTags(result, id),
+    }),
+    markPaymentStagePaid: builder.mutation<
+      Booking,
+      { id: string; stageId: string; paidAt?: string }
+    >({
+      query: ({ id, stageId, paidAt }) => ({
+        url: `/bookings/${id}/stages/${stageId}/pay`,
+        method: 'PATCH',
+        body: paidAt ? { paidAt } : {},
+      }),
+      transformResponse: (response: ApiResponse<Booking>) => response.data,
+      invalidatesTags: (result, _error, { id }) => bookingTags(result, id),
+    }),
+    deleteBooking: builder.mutation<void, string>({
+      query: id => ({ url: `/bookings/${id}`, method: 'DELETE' }),
+      invalidatesTags: (_result, _error, id) => [
+        { type: 'Booking', id },
+        { type: 'Booking', id: 'LIST' },
+        'LeadTimeline',
+      ],
+    }),
+  }),
+});
+
+export const {
+  useGetBookingsQuery,
+  useGetBookingQuery,
+  useCreateBookingMutation,
+  useUpdateBookingMutation,
+  useChangeBookingStatusMutation,
+  useMarkPaymentStagePaidMutation,
+  useDeleteBookingMutation,
+} = bookingsApi;
@@ -0,0 +1,154 @@
+import { apiSlice } from './apiSlice';
+import {
+  type ApiResponse,
+  type ListParams,
+  type PaginatedResult,
+  type Pagination,
+  toQueryParams,
+} from './types';
+
+import type { Communication, CommunicationChannel } from '@/types/crm';
+
+export interface CommunicationListParams extends ListParams {
+  leadId?: string;
+  channel?: CommunicationChannel;
+  direction?: Communication['direction'];
+}
+
+export interface CommunicationInput {
+  leadId: string;
+  channel: CommunicationChannel;
+  direction: Communication['direction'];
+  content: string;
+  sentAt?: string;
+  attachments?: { name: string; url: string; type: string }[];
+  metadata?: Record<string, unknown>;
+  aiSentiment?: number;
+}
+
+export interface EmailAttachmentInput {
+  name: string;
+  type: string;
+  // Base64 file content
+  content: string;
+}
+
+export interface SendEmailInput {
+  leadId: string;
+  subject: string;
+  content: string;
+  // Email communication this one answers; defaults to the lead's latest email
+  inReplyTo?: string;
+  attachments?: EmailAttachmentInput[];
+}
+
+// Free-form text inside the 24-hour session window, or an approved template
+export type SendWhatsAppInput =
+  | { leadId: string; type: 'text'; content: string }
+  | {
+      leadId: string;
+      type: 'template';
+      template: { name: string; language?: string; parameters?: string[] };
+    };
+
+export interface SendSmsInput {
+  leadId: string;
+  content: string;
+}
+
+interface CommunicationListResponse {
+  communications: Communication[];
+  pagination: Pagination & { totalCommunications: number };
+}
+
+export const communicationsApi = apiSlice.injectEndpoints({
+  endpoints: builder => ({
+    getCommunications: builder.query<
+      PaginatedResult<Communication>,
+      CommunicationListParams | void
+    >({
+      query: params => ({
+        url: '/communications',
+        params: toQueryParams(params),
+      }),
+      transformResponse: (
+        response: ApiResponse<CommunicationListResponse>
+      ) => ({
+        items: response.data.communications,
+        total: response.data.pagination.totalCommunications,
+        pagination: response.data.pagination,
+      }),
+      providesTags: result => [
+        ...(result?.items.map(({ id }) => ({
+          type: 'Communication' as const,
+          id,
+        })) ?? []),
+        { type: 'Communication', id: 'LIST' },
+      ],
+    }),
+    getCommunication: builder.query<Communication, string>({
+      query: id => `/communications/${id}`,
+      transformResponse: (response: ApiResponse<Communication>) =>
+        response.data,
+      providesTags: (_result, _error, id) => [{ type: 'Communication', id }],
+    }),
+    createCommunication: builder.mutation<Communication, CommunicationInput>({
+      query: body => ({ url: '/communications', method: 'POST', body }),
+      transformResponse: (response: ApiResponse<Communication>) =>
+        response.data,
+      invalidatesTags: (_result, _error, { leadId }) => [
+        { type: 'Communication', id: 'LIST' },
+        { type: 'LeadTimeline', id: leadId },
+      ],
+    }),
+    sendEmail: builder.mutation<Communication, SendEmailInput>({
+      query: body => ({ url: '/communications/email', method: 'POST', body }),
+      transformResponse: (response: ApiResponse<Communication>) =>
+        response.data,
+      invalidatesTags: (_result, _error, { leadId }) => [
+        { type: 'Communication', id: 'LIST' },
+        { type: 'LeadTimeline', id: leadId },
+      ],
+    }),
+    sendWhatsApp: builder.mutation<Communication, SendWhatsAppInput>({
+      query: body => ({
+        url: '/communications/whatsapp',
+        method: 'POST',
+        body,
+      }),
+      transformResponse: (response: ApiResponse<Communication>) =>
+        response.data,
+      invalidatesTags: (_result, _error, { leadId }) => [
+        { type: 'Communication', id: 'LIST' },
+        { type: 'LeadTimeline', id: leadId },
+      ],
+    }),
+    sendSms: builder.mutation<Communication, SendSmsInput>({
+      query: body => ({ url: '/communications/sms', method: 'POST', body }),
+      transformResponse: (response: ApiResponse<Communication>) =>
+        response.data,
+      invalidatesTags: (_result, _error, { leadId }) => [
+        { type: 'Communication', id: 'LIST' },
+        { type: 'LeadTimeline', id: leadId },
+      ],
+    }),
+    deleteCommunication: builder.mutation<void, string>({
+      query: id => ({ url: `/communications/${id}`, method: 'DELETE' }),
+      invalidatesTags: (_result, _error, id) => [
+        { type: 'Communication', id },
+        { type: 'Communication', id: 'LIST' },
+        'LeadTimeline',
+      ],
+    }),
+  }),
+});
+
+export const {
+  useGetCommunicationsQuery,
+  useGetCommunicationQuery,
+  useCreateCommunicationMutation,
+  useSendEmailMutation,
+  useSendWhatsAppMutation,
+  useSendSmsMutation,
+  useDeleteCommunicationMutation,
+} = communicationsApi;
@@ -0,0 +1,148 @@
+import { apiSlice } from './apiSlice';
+import {
+  type ApiResponse,
+  type ListParams,
+  type PaginatedResult,
+  type Pagination,
+  toQueryParams,
+} from './types';
+
+import type { AuditActorType, AuditChange } from './auditLogs.api';
+
+import type {
+  Booking,
+  Communication,
+  Lead,
+  LeadSource,
+  LeadStatus,
+  Task,
+} from '@/types/crm';
+
+export interface LeadListParams extends ListParams {
+  search?: string;
+  status?: LeadStatus;
+  source?: LeadSource;
+  assignedTo?: string;
+  tag?: string;
+}
+
+export type LeadInput = Partial<
+  Omit<Lead, 'id' | 'createdAt' | 'updatedAt' | 'previousBookings'>
+>;
+
+export type LeadTimelineItem =
+  | { type: 'communication'; date: string; data: Communication }
+  | { type: 'task'; date: string; data: Task }
+  | { type: 'booking'; date: string; data: Booking };
+
+export interface LeadVersion {
+  id: string;
+  // 1 for the lead as created, counting up with every change
+  version: number;
+  action: 'create' | 'update';
+  actor: { id: string; name: string; email: string } | null;
+  actorType: AuditActorType;
+  impersonatedBy?: string;
+  changes: AuditChange[];
+  // Set when the version was made by reverting to an earlier one
+  revertedTo?: number;
+  createdAt: string;
+}
+
+interface LeadListResponse {
+  leads: Lead[];
+  pagination: Pagination & { totalLeads: number };
+}
+
+export const leadsApi = apiSlice.injectEndpoints({
+  endpoints: builder => ({
+    getLeads: builder.query<PaginatedResult<Lead>, LeadListParams | void>({
+      query: params => ({ url: '/leads', params: toQueryParams(params) }),
+      transformResponse: (response: ApiResponse<LeadListResponse>) => ({
+        items: response.data.leads,
+        total: response.data.pagination.totalLeads,
+        pagination: response.data.pagination,
+      }),
+      providesTags: result => [
+        ...(result?.items.map(({ id }) => ({ type: 'Lead' as const, id })) ??
+          []),
+        { type: 'Lead', id: 'LIST' },
+      ],
+    }),
+    getLead: builder.query<Lead, string>({
+      query: id => `/leads/${id}`,
+      transformResponse: (response: ApiResponse<Lead>) => response.data,
+      providesTags: (_result, _error, id) => [{ type: 'Lead', id }],
+    }),
+    getLeadTimeline: builder.query<
+      LeadTimelineItem[],
+      { leadId: string; limit?: number; order?: 'asc' | 'desc' }
+    >({
+      query: ({ leadId, ...params }) => ({
+        url: `/leads/${leadId}/timeline`,
+        params: toQueryParams(params),
+      }),
+      transformResponse: (
+        response: ApiResponse<{ items: LeadTimelineItem[] }>
+      ) => response.data.items,
+      providesTags: (_result, _error, { leadId }) => [
+        { type: 'LeadTimeline', id: leadId },
+      ],
+    }),
+    getLeadHistory: builder.query<LeadVersion[], string>({
+      query: leadId => `/leads/${leadId}/history`,
+      transformResponse: (response: ApiResponse<{ versions: LeadVersion[] }>) =>
+        response.data.versions,
+      providesTags: (_result, _error, leadId) => [
+        { type: 'LeadHistory', id: leadId },
+      ],
+    }),
+    createLead: builder.mutation<Lead, LeadInput>({
+      query: body => ({ url: '/leads', method: 'POST', body }),
+      transformResponse: (response: ApiResponse<Lead>) => response.data,
+      invalidatesTags: [{ type: 'Lead', id: 'LIST' }],
+    }),
+    updateLead: builder.mutation<Lead, { id: string; data: LeadInput }>({
+      query: ({ id, data }) => ({
+        url: `/leads/${id}`,
+        method: 'PATCH',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<Lead>) => response.data,
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: 'Lead', id },
+        { type: 'Lead', id: 'LIST' },
+      ],
+    }),
+    revertLead: builder.mutation<Lead, { leadId: string; versionId: string }>({
+      query: ({ leadId, versionId }) => ({
+        url: `/leads/${leadId}/history/${versionId}/revert`,
+        method: 'POST',
+      }),
+      transformResponse: (response: ApiResponse<Lead>) => response.data,
+      invalidatesTags: (_result, _error, { leadId }) => [
+        { type: 'Lead', id: leadId },
+        { type: 'Lead', id: 'LIST' },
+        { type: 'LeadHistory', id: leadId },
+      ],
+    }),
+    deleteLead: builder.mutation<void, string>({
+      query: id => ({ url: `/leads/${id}`, method: 'DELETE' }),
+      invalidatesTags: (_result, _error, id) => [
+        { type: 'Lead', id },
+        { type: 'Lead', id: 'LIST' },
+      ],
+    }),
+  }),
+});
+
+export const {
+  useGetLeadsQuery,
+  useGetLeadQuery,
+  useGetLeadTimelineQuery,
+  useGetLeadHistoryQuery,
+  useCreateLeadMutation,
+  useUpdateLeadMutation,
+  useRevertLeadMutation,
+  useDeleteLeadMutation,
+} = leadsApi;
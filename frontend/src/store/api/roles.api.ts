@@ -0,0 +1,95 @@
+import { apiSlice } from './apiSlice';
+import type { ApiResponse } from './types';
+
+export type RoleType = 'super_admin' | 'manager' | 'agent' | 'custom';
+
+export type PermissionAction =
+  | 'create'
+  | 'read'
+  | 'update'
+  | 'delete'
+  | 'revert'
+  | 'manage';
+
+// 'own' limits a grant to records assigned to the user
+export type PermissionScope = 'any' | 'own';
+
+export interface Permission {
+  name: string;
+  resource: string;
+  action: PermissionAction;
+  scope: PermissionScope;
+}
+
+export interface Role {
+  id: string;
+  name: string;
+  type: RoleType;
+  description: string;
+  permissions: string[];
+  isSystem: boolean;
+  userCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoleInput {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export const rolesApi = apiSlice.injectEndpoints({
+  endpoints: builder => ({
+    getPermissions: builder.query<Permission[], void>({
+      query: () => '/roles/permissions',
+      transformResponse: (
+        response: ApiResponse<{ permissions: Permission[] }>
+      ) => response.data.permissions,
+    }),
+    getRoles: builder.query<Role[], void>({
+      query: () => '/roles',
+      transformResponse: (response: ApiResponse<{ roles: Role[] }>) =>
+        response.data.roles,
+      providesTags: result => [
+        ...(result?.map(({ id }) => ({ type: 'Role' as const, id })) ?? []),
+        { type: 'Role', id: 'LIST' },
+      ],
+    }),
+    createRole: builder.mutation<Role, RoleInput>({
+      query: body => ({ url: '/roles', method: 'POST', body }),
+      transformResponse: (response: ApiResponse<Role>) => response.data,
+      invalidatesTags: [{ type: 'Role', id: 'LIST' }],
+    }),
+    updateRole: builder.mutation<
+      Role,
+      { id: string; data: Partial<RoleInput> }
+    >({
+      query: ({ id, data }) => ({
+        url: `/roles/${id}`,
+        method: 'PATCH',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<Role>) => response.data,
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: 'Role', id },
+        { type: 'Role', id: 'LIST' },
+      ],
+    }),
+    deleteRole: builder.mutation<void, string>({
+      query: id => ({ url: `/roles/${id}`, method: 'DELETE' }),
+      invalidatesTags: (_result, _error, id) => [
+        { type: 'Role', id },
+        { type: 'Role', id: 'LIST' },
+      ],
+    }),
+  }),
+});
+
+export const {
+  useGetPermissionsQuery,
+  useGetRolesQuery,
+  useCreateRoleMutation,
+  useUpdateRoleMutation,
+  useDeleteRoleMutation,
+} = rolesApi;
@@ -0,0 +1,125 @@
+import { apiSlice } from './apiSlice';
+import {
+  type ApiResponse,
+  type ListParams,
+  type PaginatedResult,
+  type Pagination,
+  toQueryParams,
+} from './types';
+
+import type { Task, TaskPriority, TaskType } from '@/types/crm';
+
+export type TaskDueBucket = 'today' | 'overdue' | 'upcoming';
+
+export interface TaskListParams extends ListParams {
+  assignedTo?: string;
+  leadId?: string;
+  completed?: boolean;
+  type?: TaskType;
+  priority?: TaskPriority;
+}
+
+export type TaskInput = Partial<
+  Omit<Task, 'id' | 'completed' | 'completedAt' | 'createdAt' | 'updatedAt'>
+>;
+
+interface TaskListResponse {
+  tasks: Task[];
+  pagination: Pagination & { totalTasks: number };
+}
+
+// Timelines show completed tasks, so completion changes must refresh them
+const timelineTag = (task?: Task) =>
+  task?.leadId ? [{ type: 'LeadTimeline' as const, id: task.leadId }] : [];
+
+export const tasksApi = apiSlice.injectEndpoints({
+  endpoints: builder => ({
+    getTasks: builder.query<PaginatedResult<Task>, TaskListParams | void>({
+      query: params => ({ url: '/tasks', params: toQueryParams(params) }),
+      transformResponse: (response: ApiResponse<TaskListResponse>) => ({
+        items: response.data.tasks,
+        total: response.data.pagination.totalTasks,
+        pagination: response.data.pagination,
+      }),
+      providesTags: result => [
+        ...(result?.items.map(({ id }) => ({ type: 'Task' as const, id })) ??
+          []),
+        { type: 'Task', id: 'LIST' },
+      ],
+    }),
+    getDueTasks: builder.query<
+      Task[],
+      { bucket: TaskDueBucket; assignedTo?: string }
+    >({
+      query: ({ bucket, ...params }) => ({
+        url: `/tasks/due/${bucket}`,
+        params: toQueryParams({
+          ...params,
+          tzOffset: new Date().getTimezoneOffset(),
+        }),
+      }),
+      transformResponse: (response: ApiResponse<Task[]>) => response.data,
+      providesTags: result => [
+        ...(result?.map(({ id }) => ({ type: 'Task' as const, id })) ?? []),
+        { type: 'Task', id: 'LIST' },
+      ],
+    }),
+    getTask: builder.query<Task, string>({
+      query: id => `/tasks/${id}`,
+      transformResponse: (response: ApiResponse<Task>) => response.data,
+      providesTags: (_result, _error, id) => [{ type: 'Task', id }],
+    }),
+    createTask: builder.mutation<Task, TaskInput>({
+      query: body => ({ url: '/tasks', method: 'POST', body }),
+      transformResponse: (response: ApiResponse<Task>) => response.data,
+      invalidatesTags: [{ type: 'Task', id: 'LIST' }],
+    }),
+    updateTask: builder.mutation<Task, { id: string; data: TaskInput }>({
+      query: ({ id, data }) => ({
+        url: `/tasks/${id}`,
+        method: 'PATCH',
+        body: data,
+      }),
+      transformResponse: (response: ApiResponse<Task>) => response.data,
+      invalidatesTags: (result, _error, { id }) => [
+        { type: 'Task', id },
+        { type: 'Task', id: 'LIST' },
+        ...timelineTag(result),
+      ],
+    }),
+    setTaskCompletion: builder.mutation<
+      Task,
+      { id: string; completed: boolean }
+    >({
+      query: ({ id, completed }) => ({
+        url: `/tasks/${id}/completion`,
+        method: 'PATCH',
+        body: { completed },
+      }),
+      transformResponse: (response: ApiResponse<Task>) => response.data,
+      invalidatesTags: (result, _error, { id }) => [
+        { type: 'Task', id },
+        { type: 'Task', id: 'LIST' },
+        ...timelineTag(result),
+      ],
+    }),
+    deleteTask: builder.mutation<void, string>({
+      query: id => ({ url: `/tasks/${id}`, method: 'DELETE' }),
+      invalidatesTags: (_result, _error, id) => [
+        { type: 'Task', id },
+        { type: 'Task', id: 'LIST' },
+        'LeadTimeline',
+      ],
+    }),
+  }),
+});
+
+export const {
+  useGetTasksQuery,
+  useGetDueTasksQuery,
+  useGetTaskQuery,
+  useCreateTaskMutation,
+  useUpdateTaskMutation,
+  useSetTaskCompletionMutation,
+  useDeleteTaskMutation,
+} = tasksApi;
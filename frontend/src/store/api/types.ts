@@ -0,0 +1,59 @@
+import type { FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import type { SerializedError } from '@reduxjs/toolkit';
+
+// Envelope produced by res.customSuccess on the backend
+export interface ApiResponse<T> {
+  success: boolean;
+  name: string;
+  statusCode: number;
+  message: string;
+  data: T;
+}
+
+export interface Pagination {
+  totalPages: number;
+  currentPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface ListParams {
+  page?: number;
+  limit?: number;
+  sort?: string;
+  order?: 'asc' | 'desc';
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  pagination: Pagination;
+}
+
+// Turn an RTK Query error, or the rejection of unwrap(), into a user-facing message
+export const getApiErrorMessage = (error: unknown): string => {
+  if (!error || typeof error !== 'object') {
+    return 'Something went wrong';
+  }
+  if ('status' in error) {
+    const { status, data } = error as FetchBaseQueryError;
+    const message = (data as { message?: string } | undefined)?.message;
+    if (message) {
+      return message;
+    }
+    return status === 'FETCH_ERROR'
+      ? 'Unable to reach the server'
+      : `Request failed (${status})`;
+  }
+  return (error as SerializedError).message ?? 'Something went wrong';
+};
+
+// Drop empty filter values so they are not sent as query parameters
+export const toQueryParams = (
+  params: object | void
+): Record<string, string | number | boolean> =>
+  Object.fromEntries(
+    Object.entries(params || {}).filter(
+      ([, value]) => value !== undefined && value !== ''
+    )
+  );
@@ -0,0 +1,50 @@
+import { apiSlice } from './apiSlice';
+import {
+  type ApiResponse,
+  type ListParams,
+  type PaginatedResult,
+  type Pagination,
+  toQueryParams,
+} from './types';
+
+export interface AgencyUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: { id: string; name: string; type: string } | null;
+  isActive: boolean;
+  isEmailVerified: boolean;
+  twoFactorEnabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserListParams extends ListParams {
+  search?: string;
+  roleId?: string;
+  isActive?: boolean;
+}
+
+interface UserListResponse {
+  users: AgencyUser[];
+  pagination: Pagination & { totalUsers: number };
+}
+
+export const usersApi = apiSlice.injectEndpoints({
+  endpoints: builder => ({
+    getUsers: builder.query<PaginatedResult<AgencyUser>, UserListParams | void>(
+      {
+        query: params => ({ url: '/users', params: toQueryParams(params) }),
+        transformResponse: (response: ApiResponse<UserListResponse>) => ({
+          items: response.data.users,
+          total: response.data.pagination.totalUsers,
+          pagination: response.data.pagination,
+        }),
+        providesTags: [{ type: 'User', id: 'LIST' }],
+      }
+    ),
+  }),
+});
+
+export const { useGetUsersQuery } = usersApi;
@@ -1,13 +1,26 @@
 import { configureStore } from '@reduxjs/toolkit';
 import { apiSlice } from './api/apiSlice';
+import { authReducer } from './slices/auth.slice';
+import { saveAuthState } from './slices/auth.storage';
 
 export const store = configureStore({
   reducer: {
+    auth: authReducer,
     [apiSlice.reducerPath]: apiSlice.reducer,
   },
   middleware: getDefaultMiddleware =>
     getDefaultMiddleware().concat(apiSlice.middleware),
 });
 
+// Keep the persisted session in sync with the auth slice
+let persistedAuth = store.getState().auth;
+store.subscribe(() => {
+  const { auth } = store.getState();
+  if (auth !== persistedAuth) {
+    persistedAuth = auth;
+    saveAuthState(auth);
+  }
+});
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
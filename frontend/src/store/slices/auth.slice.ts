@@ -0,0 +1,58 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+import { loadAuthState } from './auth.storage';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface AuthState {
+  user: AuthUser | null;
+  token: string | null;
+  refreshToken: string | null;
+}
+
+export interface AuthCredentials {
+  user: AuthUser;
+  token: string;
+  refreshToken: string;
+}
+
+const authSlice = createSlice({
+  name: 'auth',
+  initialState: loadAuthState,
+  reducers: {
+    setCredentials: (state, action: PayloadAction<AuthCredentials>) => {
+      state.user = action.payload.user;
+      state.token = action.payload.token;
+      state.refreshToken = action.payload.refreshToken;
+    },
+    tokenRefreshed: (
+      state,
+      action: PayloadAction<{ token: string; refreshToken?: string }>
+    ) => {
+      state.token = action.payload.token;
+      state.refreshToken = action.payload.refreshToken ?? state.refreshToken;
+    },
+    logout: state => {
+      state.user = null;
+      state.token = null;
+      state.refreshToken = null;
+    },
+  },
+});
+
+export const { setCredentials, tokenRefreshed, logout } = authSlice.actions;
+export const authReducer = authSlice.reducer;
+
+export const selectCurrentUser = (state: { auth: AuthState }) =>
+  state.auth.user;
+export const selectAccessToken = (state: { auth: AuthState }) =>
+  state.auth.token;
+export const selectRefreshToken = (state: { auth: AuthState }) =>
+  state.auth.refreshToken;
+export const selectIsAuthenticated = (state: { auth: AuthState }) =>
+  Boolean(state.auth.token);
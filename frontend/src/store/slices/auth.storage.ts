@@ -0,0 +1,34 @@
+import type { AuthState } from './auth.slice';
+
+const AUTH_STORAGE_KEY = 'athithi-auth';
+
+const emptyAuthState: AuthState = {
+  user: null,
+  token: null,
+  refreshToken: null,
+};
+
+// Read the persisted session, ignoring anything malformed
+export const loadAuthState = (): AuthState => {
+  try {
+    const raw = localStorage.getItem(AUTH_STORAGE_KEY);
+    if (!raw) {
+      return emptyAuthState;
+    }
+    const parsed = JSON.parse(raw) as Partial<AuthState>;
+    if (!parsed.token || !parsed.refreshToken) {
+      return emptyAuthState;
+    }
+    return { ...emptyAuthState, ...parsed };
+  } catch {
+    return emptyAuthState;
+  }
+};
+
+export const saveAuthState = (state: AuthState) => {
+  if (state.token) {
+    localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(state));
+  } else {
+    localStorage.removeItem(AUTH_STORAGE_KEY);
+  }
+};
@@ -72,6 +72,8 @@ export const LeadSchema = z.object({
   preferences: z.record(z.string()).optional(),
   isReturnCustomer: z.boolean().default(false),
   previousBookings: z.array(z.string()).optional(),
+  // Set when the lead replied STOP to an SMS
+  smsOptedOutAt: z.date().or(z.string()).nullable().optional(),
 });
 
 export const TaskSchema = z.object({